@@ -0,0 +1,301 @@
+"use client";
+
+import { supabase } from "@/lib/supabase/client";
+import { BOOKING_LOG_COLUMNS, bookingLogActor, bookingLogDates, bookingLogSummary } from "@/lib/activity";
+import { downloadTable, fetchAllRows, type ExportFormat } from "@/lib/export";
+import { ExportMenu } from "@/components/ExportMenu";
+import type { Session } from "@supabase/supabase-js";
+import clsx from "clsx";
+import { addDays, format } from "date-fns";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { BookingLog, Property, bookingLogActions } from "../types";
+
+const inputClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+
+const PAGE_SIZE = 50;
+const SYSTEM_ACTOR = "system";
+
+const actionStyles: Record<BookingLog["action"], string> = {
+    create: "border-emerald-200 bg-emerald-50 text-emerald-700",
+    update: "border-slate-200 bg-slate-50 text-slate-700",
+    delete: "border-rose-200 bg-rose-50 text-rose-700",
+    auto_release: "border-amber-200 bg-amber-50 text-amber-700",
+};
+
+const actionLabel = (action: BookingLog["action"]) => bookingLogActions.find((a) => a.value === action)?.label ?? action;
+
+type ActivityFilters = {
+    propertyId: string;
+    action: BookingLog["action"] | "";
+    actor: string;
+    from: string;
+    to: string;
+};
+
+// Newest first, narrowed by the filters; shared by the feed and its export
+const filteredLogs = (current: ActivityFilters) => {
+    let query = supabase
+        .from("booking_logs")
+        .select(BOOKING_LOG_COLUMNS)
+        .order("performed_at", { ascending: false })
+        .order("id", { ascending: false });
+    if (current.propertyId) query = query.eq("property_id", current.propertyId);
+    if (current.action) query = query.eq("action", current.action);
+    if (current.actor === SYSTEM_ACTOR) query = query.is("performed_by", null);
+    else if (current.actor) query = query.eq("performed_by", current.actor);
+    if (current.from) query = query.gte("performed_at", new Date(`${current.from}T00:00`).toISOString());
+    if (current.to) query = query.lt("performed_at", addDays(new Date(`${current.to}T00:00`), 1).toISOString());
+    return query;
+};
+
+type MemberRow = {
+    property_id: string;
+    user_id: string;
+    user: { display_name: string; email: string } | null;
+};
+
+function ActivityFeed() {
+    const searchParams = useSearchParams();
+    const [session, setSession] = useState<Session | null>(null);
+    const [properties, setProperties] = useState<Property[]>([]);
+    const [members, setMembers] = useState<MemberRow[]>([]);
+    const [filters, setFilters] = useState<ActivityFilters>({
+        propertyId: searchParams.get("propertyId") ?? "",
+        action: "",
+        actor: "",
+        from: "",
+        to: "",
+    });
+    const [logs, setLogs] = useState<BookingLog[]>([]);
+    const [hasMore, setHasMore] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const sentinelRef = useRef<HTMLDivElement | null>(null);
+    const loadingRef = useRef(false);
+    // Bumped whenever the filters change so a late page from the old filters is dropped
+    const requestRef = useRef(0);
+
+    useEffect(() => {
+        supabase.auth
+            .getSession()
+            .then(({ data }) => setSession(data.session ?? null))
+            .catch(() => setSession(null));
+    }, []);
+
+    useEffect(() => {
+        if (!session) return;
+        Promise.all([
+            supabase.from("properties").select("id, name, code, address, timezone").order("name"),
+            supabase.from("property_members").select("property_id, user_id, user:user_profiles(display_name, email)"),
+        ]).then(([propertyResult, memberResult]) => {
+            if (propertyResult.error) setError(propertyResult.error.message);
+            setProperties(propertyResult.data ?? []);
+            setMembers((memberResult.data ?? []) as unknown as MemberRow[]);
+        });
+    }, [session]);
+
+    // Pages continue below the last loaded entry rather than at an offset, so entries logged
+    // while scrolling neither repeat nor get skipped
+    const fetchLogs = useCallback(async (current: ActivityFilters, after: BookingLog | null) => {
+        const request = after ? requestRef.current : ++requestRef.current;
+        loadingRef.current = true;
+        setLoading(true);
+        let query = filteredLogs(current).limit(PAGE_SIZE);
+        if (after) {
+            query = query.or(
+                `performed_at.lt."${after.performed_at}",and(performed_at.eq."${after.performed_at}",id.lt.${after.id})`,
+            );
+        }
+
+        const { data, error: loadError } = await query;
+        if (request !== requestRef.current) return;
+        if (loadError) setError(loadError.message);
+        const rows = (data ?? []) as BookingLog[];
+        setLogs((existing) => (after ? [...existing, ...rows] : rows));
+        setHasMore(rows.length === PAGE_SIZE);
+        loadingRef.current = false;
+        setLoading(false);
+    }, []);
+
+    useEffect(() => {
+        if (!session) return;
+        const timer = window.setTimeout(() => void fetchLogs(filters, null), 250);
+        return () => window.clearTimeout(timer);
+    }, [session, filters, fetchLogs]);
+
+    // Infinite scroll: the next page loads as the end of the list comes into view
+    const lastLog = logs.length > 0 ? logs[logs.length - 1] : null;
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !hasMore) return;
+        const observer = new IntersectionObserver(
+            ([entry]) => {
+                if (entry.isIntersecting && !loadingRef.current) void fetchLogs(filters, lastLog);
+            },
+            { rootMargin: "400px" },
+        );
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMore, filters, lastLog, fetchLogs]);
+
+    const actors = useMemo(() => {
+        const byId = new Map<string, string>();
+        members
+            .filter((m) => !filters.propertyId || m.property_id === filters.propertyId)
+            .forEach((m) => byId.set(m.user_id, m.user?.display_name ?? m.user?.email ?? "Unknown user"));
+        return [...byId.entries()].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+    }, [members, filters.propertyId]);
+
+    const exportLogs = async (exportFormat: ExportFormat) => {
+        let rows: BookingLog[];
+        try {
+            rows = await fetchAllRows<BookingLog>((from, to) => filteredLogs(filters).range(from, to));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Unable to export activity.");
+            return;
+        }
+
+        downloadTable(
+            "Booking activity",
+            [
+                { header: "Time", value: (log) => format(new Date(log.performed_at), "yyyy-MM-dd HH:mm") },
+                { header: "Property", value: (log) => log.property?.name },
+                { header: "User", value: bookingLogActor },
+                { header: "Action", value: (log) => actionLabel(log.action) },
+                { header: "Guest", value: (log) => log.details?.guest_name },
+                { header: "Room", value: (log) => log.details?.room_number },
+                { header: "Check-in", value: (log) => log.details?.check_in },
+                { header: "Check-out", value: (log) => log.details?.check_out },
+                { header: "Amount", value: (log) => log.details?.amount },
+            ],
+            rows,
+            exportFormat,
+        );
+    };
+
+    const setFilter = <K extends keyof ActivityFilters>(key: K, value: ActivityFilters[K]) =>
+        setFilters((current) => ({ ...current, [key]: value }));
+
+    return (
+        <div className="mx-auto max-w-6xl space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                    <h1 className="text-2xl font-semibold text-slate-900">Activity</h1>
+                    <p className="text-sm text-slate-500">
+                        Bookings added, changed, deleted and released across your properties, newest first.
+                    </p>
+                </div>
+                <ExportMenu onExport={exportLogs} label="Export filtered" />
+            </div>
+
+            {error && (
+                <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+            )}
+
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+                <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    <span>Property</span>
+                    <select
+                        className={inputClass}
+                        value={filters.propertyId}
+                        onChange={(e) =>
+                            setFilters((current) => ({ ...current, propertyId: e.target.value, actor: "" }))
+                        }
+                    >
+                        <option value="">All properties</option>
+                        {properties.map((p) => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    <span>Action</span>
+                    <select
+                        className={inputClass}
+                        value={filters.action}
+                        onChange={(e) => setFilter("action", e.target.value as ActivityFilters["action"])}
+                    >
+                        <option value="">Any action</option>
+                        {bookingLogActions.map((a) => (
+                            <option key={a.value} value={a.value}>{a.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    <span>User</span>
+                    <select className={inputClass} value={filters.actor} onChange={(e) => setFilter("actor", e.target.value)}>
+                        <option value="">Anyone</option>
+                        {actors.map((a) => (
+                            <option key={a.id} value={a.id}>{a.name}</option>
+                        ))}
+                        <option value={SYSTEM_ACTOR}>System</option>
+                    </select>
+                </label>
+                <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    <span>From</span>
+                    <input
+                        type="date"
+                        className={inputClass}
+                        value={filters.from}
+                        max={filters.to || undefined}
+                        onChange={(e) => setFilter("from", e.target.value)}
+                    />
+                </label>
+                <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    <span>To</span>
+                    <input
+                        type="date"
+                        className={inputClass}
+                        value={filters.to}
+                        min={filters.from || undefined}
+                        onChange={(e) => setFilter("to", e.target.value)}
+                    />
+                </label>
+            </div>
+
+            <div className="overflow-hidden rounded-2xl border border-slate-200 bg-white">
+                <ul className="divide-y divide-slate-100">
+                    {logs.length === 0 && !loading && (
+                        <li className="px-4 py-6 text-center text-sm text-slate-500">No activity matches these filters.</li>
+                    )}
+                    {logs.map((log) => (
+                        <li key={log.id} className="flex flex-wrap items-start justify-between gap-3 px-4 py-3">
+                            <div className="flex min-w-0 items-start gap-3">
+                                <span
+                                    className={clsx(
+                                        "mt-0.5 inline-flex shrink-0 items-center rounded-full border px-2 py-0.5 text-xs font-semibold",
+                                        actionStyles[log.action],
+                                    )}
+                                >
+                                    {actionLabel(log.action)}
+                                </span>
+                                <div className="min-w-0">
+                                    <p className="truncate text-sm font-medium text-slate-900">{bookingLogSummary(log)}</p>
+                                    <p className="text-xs text-slate-500">
+                                        {[bookingLogDates(log), log.property?.name].filter(Boolean).join(" · ")}
+                                    </p>
+                                </div>
+                            </div>
+                            <div className="text-right text-xs text-slate-500">
+                                <p className="font-medium text-slate-700">{bookingLogActor(log)}</p>
+                                <p>{format(new Date(log.performed_at), "MMM d, yyyy HH:mm")}</p>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+                <div ref={sentinelRef} />
+                {loading && <p className="px-4 py-3 text-center text-xs text-slate-500">Loading activity...</p>}
+            </div>
+        </div>
+    );
+}
+
+export default function ActivityPage() {
+    return (
+        <Suspense>
+            <ActivityFeed />
+        </Suspense>
+    );
+}
@@ -3,7 +3,17 @@
 import { useEffect, useState } from "react";
 import type { Session } from "@supabase/supabase-js";
 import { supabase } from "@/lib/supabase/client";
-import type { UserProfile } from "../../types";
+import { INVITATION_COLUMNS, invitationStatus } from "@/lib/invitations";
+import { MEMBER_PROPERTY_COLUMNS, withMemberRole } from "@/lib/propertyAccess";
+import {
+  propertyRoles,
+  type AdminAction,
+  type AdminAuditEntry,
+  type Property,
+  type PropertyRole,
+  type StaffInvitation,
+  type UserProfile,
+} from "../../types";
 
 const cardClass =
   "rounded-2xl border border-slate-200 bg-white p-5 shadow-sm shadow-slate-100";
@@ -11,17 +21,64 @@ const buttonBase =
   "inline-flex h-10 items-center justify-center gap-2 rounded-lg px-4 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-400 disabled:opacity-60";
 const primaryButton = `${buttonBase} bg-blue-600 text-white hover:bg-blue-700`;
 const ghostButton = `${buttonBase} border border-slate-200 bg-white text-slate-700 hover:bg-slate-50`;
+const dangerButton = `${buttonBase} border border-rose-200 bg-white text-rose-700 hover:bg-rose-50`;
+const smallButton = "h-8 px-3 text-xs";
+const inputClass =
+  "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+
+const statusStyles: Record<UserProfile["status"], string> = {
+  pending: "bg-amber-50 text-amber-700",
+  approved: "bg-emerald-50 text-emerald-700",
+  rejected: "bg-rose-50 text-rose-700",
+  suspended: "bg-slate-200 text-slate-700",
+};
+
+const actionLabels: Record<AdminAction, string> = {
+  approve: "Approved",
+  reject: "Rejected",
+  suspend: "Suspended",
+  reactivate: "Reactivated",
+  promote: "Promoted to admin",
+  demote: "Removed admin rights from",
+  delete: "Deleted",
+  require_approval: "Changed signup approval",
+  invite: "Invited",
+  revoke_invitation: "Withdrew the invitation for",
+  accept_invitation: "Accepted an invitation",
+};
+
+type UserAction = "approve" | "reject" | "suspend" | "reactivate" | "promote" | "demote";
+
+const actionMessages: Record<UserAction, string> = {
+  approve: "User approved",
+  reject: "Signup request rejected",
+  suspend: "User suspended",
+  reactivate: "User reactivated",
+  promote: "User is now an admin",
+  demote: "Admin rights removed",
+};
 
 export default function AdminUserRequestsPage() {
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [profileLoading, setProfileLoading] = useState(true);
   const [requestsLoading, setRequestsLoading] = useState(false);
-  const [pendingUsers, setPendingUsers] = useState<UserProfile[]>([]);
-  const [approvedUsers, setApprovedUsers] = useState<UserProfile[]>([]);
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [requireApproval, setRequireApproval] = useState(true);
+  const [auditLog, setAuditLog] = useState<AdminAuditEntry[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [message, setMessage] = useState<string | null>(null);
   const [actionLoadingId, setActionLoadingId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [invitations, setInvitations] = useState<StaffInvitation[]>([]);
+  const [inviteProperties, setInviteProperties] = useState<Property[]>([]);
+  const [inviteDraft, setInviteDraft] = useState<{ email: string; propertyId: string; role: PropertyRole }>({
+    email: "",
+    propertyId: "",
+    role: "front_desk",
+  });
+  const [inviteSending, setInviteSending] = useState(false);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
 
   useEffect(() => {
     supabase.auth
@@ -67,25 +124,60 @@ export default function AdminUserRequestsPage() {
     void loadProfile();
   }, [session]);
 
+  const loadAuditLog = async () => {
+    const { data, error: auditError } = await supabase
+      .from("admin_audit_log")
+      .select("id, actor_id, action, target_user_id, target_email, details, created_at, actor:user_profiles(display_name)")
+      .order("created_at", { ascending: false })
+      .limit(50);
+    if (auditError) {
+      setError(auditError.message);
+      return;
+    }
+    setAuditLog((data ?? []) as unknown as AdminAuditEntry[]);
+  };
+
+  const loadInvitations = async () => {
+    const { data, error: invitationsError } = await supabase
+      .from("staff_invitations")
+      .select(INVITATION_COLUMNS)
+      .order("created_at", { ascending: false })
+      .limit(50);
+    if (invitationsError) {
+      setError(invitationsError.message);
+      return;
+    }
+    setInvitations((data ?? []) as unknown as StaffInvitation[]);
+  };
+
   const loadUsers = async () => {
     if (!profile || profile.role !== "admin" || profile.status !== "approved") return;
     setRequestsLoading(true);
     setError(null);
-    const { data, error: usersError } = await supabase
-      .from("user_profiles")
-      .select("id, email, display_name, role, status, created_at")
-      .in("status", ["pending", "approved"])
-      .order("created_at", { ascending: true });
-
-    if (usersError) {
-      setError(usersError.message);
+    const [usersRes, settingsRes] = await Promise.all([
+      supabase
+        .from("user_profiles")
+        .select("id, email, display_name, role, status, created_at")
+        .order("created_at", { ascending: true }),
+      supabase.from("app_settings").select("require_approval").maybeSingle(),
+      loadAuditLog(),
+      loadInvitations(),
+      supabase
+        .from("properties")
+        .select(MEMBER_PROPERTY_COLUMNS)
+        .eq("membership.user_id", profile.id)
+        .order("name")
+        .then(({ data }) => setInviteProperties(withMemberRole(data ?? []))),
+    ]);
+
+    if (usersRes.error) {
+      setError(usersRes.error.message);
       setRequestsLoading(false);
       return;
     }
 
-    const rows = data ?? [];
-    setPendingUsers(rows.filter((user) => user.status === "pending"));
-    setApprovedUsers(rows.filter((user) => user.status === "approved"));
+    setUsers(usersRes.data ?? []);
+    setRequireApproval(settingsRes.data?.require_approval ?? true);
     setRequestsLoading(false);
   };
 
@@ -93,25 +185,115 @@ export default function AdminUserRequestsPage() {
     void loadUsers();
   }, [profile]);
 
-  const handleApprove = async (user: UserProfile) => {
+  const runAction = async (user: UserProfile, action: UserAction) => {
     setActionLoadingId(user.id);
     setError(null);
     setMessage(null);
-    const { error: updateError } = await supabase
-      .from("user_profiles")
-      .update({ status: "approved" })
-      .eq("id", user.id);
+    const { data, error: actionError } = await supabase.rpc("admin_user_action", {
+      p_user_id: user.id,
+      p_action: action,
+    });
 
-    if (updateError) {
-      setError(updateError.message);
+    if (actionError) {
+      setError(actionError.message);
       setActionLoadingId(null);
       return;
     }
 
-    setPendingUsers((prev) => prev.filter((item) => item.id !== user.id));
-    setApprovedUsers((prev) => [{ ...user, status: "approved" }, ...prev]);
-    setMessage("User approved");
+    const updated = data as UserProfile;
+    setUsers((prev) => prev.map((item) => (item.id === user.id ? { ...item, ...updated } : item)));
+    setMessage(actionMessages[action]);
     setActionLoadingId(null);
+    await loadAuditLog();
+  };
+
+  const handleDelete = async (user: UserProfile) => {
+    if (!session) return;
+    setActionLoadingId(user.id);
+    setError(null);
+    setMessage(null);
+    const response = await fetch(`/api/admin/users/${user.id}`, {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    });
+    const result = await response.json().catch(() => null);
+    setActionLoadingId(null);
+    setConfirmDeleteId(null);
+
+    if (!response.ok) {
+      setError(result?.error ?? "Unable to delete user.");
+      return;
+    }
+
+    setUsers((prev) => prev.filter((item) => item.id !== user.id));
+    setMessage("User deleted");
+    await loadAuditLog();
+  };
+
+  const handleInvite = async () => {
+    if (!session) return;
+    setInviteSending(true);
+    setError(null);
+    setMessage(null);
+    setInviteLink(null);
+    const response = await fetch("/api/invitations", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        email: inviteDraft.email,
+        propertyId: inviteDraft.propertyId || null,
+        role: inviteDraft.propertyId ? inviteDraft.role : null,
+      }),
+    });
+    const result = await response.json().catch(() => null);
+    setInviteSending(false);
+
+    if (!response.ok) {
+      setError(result?.error ?? "Unable to send the invitation.");
+      return;
+    }
+
+    setInviteLink(result.link);
+    setInviteDraft((draft) => ({ ...draft, email: "" }));
+    if (result.emailError) {
+      setError(`Invitation created, but the email could not be sent: ${result.emailError}. Share the link below instead.`);
+    } else {
+      setMessage(`Invitation sent to ${result.invitation.email}`);
+    }
+    await Promise.all([loadInvitations(), loadAuditLog()]);
+  };
+
+  const handleRevokeInvitation = async (invitation: StaffInvitation) => {
+    setError(null);
+    setMessage(null);
+    const { error: revokeError } = await supabase
+      .from("staff_invitations")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", invitation.id);
+    if (revokeError) {
+      setError(revokeError.message);
+      return;
+    }
+    setMessage("Invitation withdrawn");
+    await Promise.all([loadInvitations(), loadAuditLog()]);
+  };
+
+  const handleRequireApproval = async (required: boolean) => {
+    setError(null);
+    setMessage(null);
+    const { error: settingError } = await supabase.rpc("admin_set_require_approval", {
+      p_required: required,
+    });
+    if (settingError) {
+      setError(settingError.message);
+      return;
+    }
+    setRequireApproval(required);
+    setMessage(required ? "New signups now need approval" : "New signups can use the app right away");
+    await loadAuditLog();
   };
 
   const formatDate = (value: string) => {
@@ -158,6 +340,55 @@ export default function AdminUserRequestsPage() {
     );
   }
 
+  const pendingUsers = users.filter((user) => user.status === "pending");
+  const otherUsers = users.filter((user) => user.status !== "pending");
+
+  const userActions = (user: UserProfile) => {
+    const isSelf = user.id === profile.id;
+    const busy = actionLoadingId === user.id;
+    if (confirmDeleteId === user.id) {
+      return (
+        <>
+          <button className={`${dangerButton} ${smallButton}`} onClick={() => void handleDelete(user)} disabled={busy}>
+            {busy ? "Deleting..." : "Confirm delete"}
+          </button>
+          <button className={`${ghostButton} ${smallButton}`} onClick={() => setConfirmDeleteId(null)} disabled={busy}>
+            Cancel
+          </button>
+        </>
+      );
+    }
+    const actions: { action: UserAction; label: string }[] = [];
+    if (user.status === "rejected") actions.push({ action: "approve", label: "Approve" });
+    if (user.status === "suspended") actions.push({ action: "reactivate", label: "Reactivate" });
+    if (!isSelf && user.status === "approved") actions.push({ action: "suspend", label: "Suspend" });
+    if (user.status === "approved" && user.role !== "admin") actions.push({ action: "promote", label: "Make admin" });
+    if (!isSelf && user.role === "admin") actions.push({ action: "demote", label: "Remove admin" });
+    return (
+      <>
+        {actions.map(({ action, label }) => (
+          <button
+            key={action}
+            className={`${ghostButton} ${smallButton}`}
+            onClick={() => void runAction(user, action)}
+            disabled={busy}
+          >
+            {label}
+          </button>
+        ))}
+        {!isSelf && (
+          <button
+            className={`${dangerButton} ${smallButton}`}
+            onClick={() => setConfirmDeleteId(user.id)}
+            disabled={busy}
+          >
+            Delete
+          </button>
+        )}
+      </>
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex flex-wrap items-center justify-between gap-3">
@@ -165,9 +396,9 @@ export default function AdminUserRequestsPage() {
           <p className="text-sm font-semibold uppercase tracking-wide text-slate-500">
             Administration
           </p>
-          <h1 className="text-2xl font-semibold text-slate-900">User signup requests</h1>
+          <h1 className="text-2xl font-semibold text-slate-900">Users</h1>
           <p className="text-sm text-slate-600">
-            Review and approve new user accounts before they can access the system.
+            Review signup requests and manage who can access the system.
           </p>
         </div>
         <div className="flex gap-2">
@@ -188,6 +419,26 @@ export default function AdminUserRequestsPage() {
         </div>
       )}
 
+      <div className={`${cardClass} flex flex-wrap items-center justify-between gap-3`}>
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">Signup approval</h2>
+          <p className="text-sm text-slate-600">
+            {requireApproval
+              ? "New accounts wait here until an admin approves them."
+              : "New accounts can use the app as soon as they sign up."}
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+          <input
+            type="checkbox"
+            className="h-4 w-4 rounded border-slate-300"
+            checked={requireApproval}
+            onChange={(e) => void handleRequireApproval(e.target.checked)}
+          />
+          Require approval
+        </label>
+      </div>
+
       <div className={cardClass}>
         {requestsLoading ? (
           <p className="text-sm text-slate-600">Loading pending requests...</p>
@@ -211,12 +462,19 @@ export default function AdminUserRequestsPage() {
                   <span className="rounded-full bg-amber-50 px-3 py-1 text-xs font-semibold text-amber-700">
                     Pending approval
                   </span>
+                  <button
+                    className={ghostButton}
+                    onClick={() => runAction(user, "reject")}
+                    disabled={actionLoadingId === user.id}
+                  >
+                    Reject
+                  </button>
                   <button
                     className={primaryButton}
-                    onClick={() => handleApprove(user)}
+                    onClick={() => runAction(user, "approve")}
                     disabled={actionLoadingId === user.id}
                   >
-                    {actionLoadingId === user.id ? "Approving..." : "Approve"}
+                    {actionLoadingId === user.id ? "Saving..." : "Approve"}
                   </button>
                 </div>
               </div>
@@ -228,48 +486,169 @@ export default function AdminUserRequestsPage() {
       <div className={cardClass}>
         <div className="flex items-center justify-between gap-3 pb-3">
           <div>
-            <h2 className="text-lg font-semibold text-slate-900">Approved users</h2>
+            <h2 className="text-lg font-semibold text-slate-900">Accounts</h2>
             <p className="text-sm text-slate-600">
-              Active accounts that can sign in and use the system.
+              Suspended and rejected accounts cannot use the system until an admin restores them.
             </p>
           </div>
           <span className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-700">
-            {approvedUsers.length} total
+            {otherUsers.length} total
           </span>
         </div>
 
         {requestsLoading ? (
           <p className="text-sm text-slate-600">Loading users...</p>
-        ) : approvedUsers.length === 0 ? (
-          <div className="text-sm text-slate-600">No approved users yet.</div>
+        ) : otherUsers.length === 0 ? (
+          <div className="text-sm text-slate-600">No accounts yet.</div>
         ) : (
           <div className="divide-y divide-slate-200">
-            {approvedUsers.map((user) => (
+            {otherUsers.map((user) => (
               <div
                 key={user.id}
                 className="flex flex-wrap items-center justify-between gap-3 py-3"
               >
                 <div>
-                  <p className="text-sm font-semibold text-slate-900">{user.display_name}</p>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {user.display_name}
+                    {user.id === profile.id && <span className="font-normal text-slate-500"> (you)</span>}
+                  </p>
                   <p className="text-xs text-slate-600">{user.email}</p>
                   <p className="text-xs text-slate-500">
                     Joined: {user.created_at ? formatDate(user.created_at) : "—"}
                   </p>
                 </div>
-                <div className="flex items-center gap-2">
-                  <span className="rounded-full bg-emerald-50 px-3 py-1 text-xs font-semibold text-emerald-700">
-                    Approved
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`rounded-full px-3 py-1 text-xs font-semibold capitalize ${statusStyles[user.status]}`}>
+                    {user.status}
                   </span>
                   <span className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-700">
                     {user.role === "admin" ? "Admin" : "User"}
                   </span>
+                  {userActions(user)}
                 </div>
               </div>
             ))}
           </div>
         )}
       </div>
+
+      <div className={cardClass}>
+        <div className="pb-3">
+          <h2 className="text-lg font-semibold text-slate-900">Invitations</h2>
+          <p className="text-sm text-slate-600">
+            Invited people sign up with their email pre-filled and are approved as soon as they accept.
+            Pick a property to give them access there as well.
+          </p>
+        </div>
+        <div className="flex flex-col gap-2 lg:flex-row">
+          <input
+            className={inputClass}
+            type="email"
+            value={inviteDraft.email}
+            onChange={(e) => setInviteDraft((draft) => ({ ...draft, email: e.target.value }))}
+            placeholder="name@company.com"
+          />
+          <select
+            className={`${inputClass} lg:w-56`}
+            value={inviteDraft.propertyId}
+            onChange={(e) => setInviteDraft((draft) => ({ ...draft, propertyId: e.target.value }))}
+          >
+            <option value="">No property (account only)</option>
+            {inviteProperties.map((property) => (
+              <option key={property.id} value={property.id}>
+                {property.name}
+              </option>
+            ))}
+          </select>
+          <select
+            className={`${inputClass} lg:w-44`}
+            value={inviteDraft.role}
+            disabled={!inviteDraft.propertyId}
+            onChange={(e) => setInviteDraft((draft) => ({ ...draft, role: e.target.value as PropertyRole }))}
+          >
+            {propertyRoles.map((role) => (
+              <option key={role.value} value={role.value}>
+                {role.label}
+              </option>
+            ))}
+          </select>
+          <button
+            className={primaryButton}
+            onClick={() => void handleInvite()}
+            disabled={inviteSending || !inviteDraft.email.trim()}
+          >
+            {inviteSending ? "Sending..." : "Send invite"}
+          </button>
+        </div>
+        {inviteLink && (
+          <p className="mt-2 break-all rounded-lg bg-slate-50 px-3 py-2 text-xs text-slate-600">
+            Invitation link: <span className="font-mono">{inviteLink}</span>
+          </p>
+        )}
+        {invitations.length > 0 && (
+          <ul className="mt-4 divide-y divide-slate-200">
+            {invitations.map((invitation) => {
+              const status = invitationStatus(invitation);
+              return (
+                <li key={invitation.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                  <div>
+                    <p className="font-semibold text-slate-900">{invitation.email}</p>
+                    <p className="text-xs text-slate-500">
+                      {invitation.property?.name
+                        ? `${invitation.property.name} · ${propertyRoles.find((r) => r.value === invitation.role)?.label}`
+                        : "Account only"}
+                      {status === "pending" && ` · expires ${formatDate(invitation.expires_at)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold capitalize text-slate-700">
+                      {status}
+                    </span>
+                    {status === "pending" && (
+                      <button
+                        className={`${ghostButton} ${smallButton}`}
+                        onClick={() => void handleRevokeInvitation(invitation)}
+                      >
+                        Withdraw
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className={cardClass}>
+        <div className="pb-3">
+          <h2 className="text-lg font-semibold text-slate-900">Audit trail</h2>
+          <p className="text-sm text-slate-600">The last 50 admin actions.</p>
+        </div>
+        {auditLog.length === 0 ? (
+          <div className="text-sm text-slate-600">No admin actions recorded yet.</div>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {auditLog.map((entry) => (
+              <li key={entry.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                <p className="text-slate-700">
+                  <span className="font-semibold text-slate-900">
+                    {entry.actor?.display_name ?? "Someone"}
+                  </span>{" "}
+                  {entry.action === "require_approval"
+                    ? entry.details?.require_approval
+                      ? "turned signup approval on"
+                      : "turned signup approval off"
+                    : entry.action === "accept_invitation"
+                      ? "accepted an invitation"
+                      : `${actionLabels[entry.action].toLowerCase()} ${entry.target_email ?? "a deleted account"}`}
+                </p>
+                <span className="text-xs text-slate-500">{formatDate(entry.created_at)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
     </div>
   );
 }
-
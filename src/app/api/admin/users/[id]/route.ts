@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { createServiceClient, createUserClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+// Deletes an account. Removing the auth user needs the service role, so the caller's
+// token is checked for an approved admin first and the deletion is recorded in admin_audit_log.
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const accessToken = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const userClient = createUserClient(accessToken);
+  const { data: auth, error: authError } = await userClient.auth.getUser(accessToken);
+  if (authError || !auth.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const { data: isAdmin } = await userClient.rpc("is_user_admin", { uid: auth.user.id });
+  if (!isAdmin) {
+    return NextResponse.json({ error: "Only admins can delete users." }, { status: 403 });
+  }
+  if (id === auth.user.id) {
+    return NextResponse.json({ error: "You cannot delete your own account." }, { status: 400 });
+  }
+
+  const supabase = createServiceClient();
+  const { data: target, error: targetError } = await supabase
+    .from("user_profiles")
+    .select("id, email, display_name, role, status")
+    .eq("id", id)
+    .maybeSingle();
+  if (targetError) {
+    return NextResponse.json({ error: targetError.message }, { status: 500 });
+  }
+  if (!target) {
+    return NextResponse.json({ error: "User not found." }, { status: 404 });
+  }
+
+  // properties.owner_id cascades from auth.users, so deleting an owner would take their properties with them
+  const { count, error: ownedError } = await supabase
+    .from("properties")
+    .select("id", { count: "exact", head: true })
+    .eq("owner_id", id);
+  if (ownedError) {
+    return NextResponse.json({ error: ownedError.message }, { status: 500 });
+  }
+  if (count) {
+    return NextResponse.json(
+      { error: `${target.display_name} still owns ${count} ${count === 1 ? "property" : "properties"}. Delete or hand them over first.` },
+      { status: 409 },
+    );
+  }
+
+  // Co-owned properties survive through their other owners; ones only this user owns would be left unmanaged
+  const { data: ownerships, error: ownershipsError } = await supabase
+    .from("property_members")
+    .select("property_id")
+    .eq("user_id", id)
+    .eq("role", "owner");
+  if (ownershipsError) {
+    return NextResponse.json({ error: ownershipsError.message }, { status: 500 });
+  }
+  const ownedIds = (ownerships ?? []).map((m) => m.property_id as string);
+  if (ownedIds.length > 0) {
+    const { data: coOwners, error: coOwnersError } = await supabase
+      .from("property_members")
+      .select("property_id")
+      .in("property_id", ownedIds)
+      .eq("role", "owner")
+      .neq("user_id", id);
+    if (coOwnersError) {
+      return NextResponse.json({ error: coOwnersError.message }, { status: 500 });
+    }
+    const coOwned = new Set((coOwners ?? []).map((m) => m.property_id as string));
+    const soleOwned = ownedIds.filter((propertyId) => !coOwned.has(propertyId)).length;
+    if (soleOwned) {
+      return NextResponse.json(
+        {
+          error: `${target.display_name} is the only owner of ${soleOwned} ${soleOwned === 1 ? "property" : "properties"}. Make another member an owner first.`,
+        },
+        { status: 409 },
+      );
+    }
+  }
+
+  const { error: deleteError } = await supabase.auth.admin.deleteUser(id);
+  if (deleteError) {
+    return NextResponse.json({ error: deleteError.message }, { status: 500 });
+  }
+
+  const { error: logError } = await supabase.from("admin_audit_log").insert({
+    actor_id: auth.user.id,
+    action: "delete",
+    target_user_id: id,
+    target_email: target.email,
+    details: { display_name: target.display_name, role: target.role, status: target.status },
+  });
+  if (logError) console.error("Failed to record admin action", logError);
+
+  return NextResponse.json({ ok: true });
+}
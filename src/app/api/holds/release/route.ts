@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { createServiceClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+// Cancels tentative holds whose auto_release_at has passed. Meant to be hit by a scheduler.
+async function releaseHolds(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createServiceClient();
+  const { error } = await supabase.rpc("release_expired_holds");
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true, releasedAt: new Date().toISOString() });
+}
+
+export async function GET(request: Request) {
+  return releaseHolds(request);
+}
+
+export async function POST(request: Request) {
+  return releaseHolds(request);
+}
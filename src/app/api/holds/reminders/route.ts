@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { sendHoldReminderEmails } from "@/lib/holdReminders";
+import { createServiceClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+// Queues reminders for tentative holds nearing auto-release and emails them where the
+// property opted in. Meant to be hit by a scheduler more often than the shortest lead time.
+async function remindHolds(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createServiceClient();
+  const { data: queued, error } = await supabase.rpc("queue_hold_reminders");
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  try {
+    const emails = await sendHoldReminderEmails(supabase);
+    return NextResponse.json({ ok: true, queued: queued ?? 0, emails });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Reminder emails failed.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function GET(request: Request) {
+  return remindHolds(request);
+}
+
+export async function POST(request: Request) {
+  return remindHolds(request);
+}
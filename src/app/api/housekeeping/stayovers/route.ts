@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { createServiceClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+// Queues today's stay-over service for every checked-in guest. Meant to be hit by a scheduler each morning.
+async function generateStayovers(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase.rpc("generate_stayover_tasks");
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true, created: data ?? 0, generatedAt: new Date().toISOString() });
+}
+
+export async function GET(request: Request) {
+  return generateStayovers(request);
+}
+
+export async function POST(request: Request) {
+  return generateStayovers(request);
+}
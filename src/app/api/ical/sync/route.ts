@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { syncIcalFeeds } from "@/lib/icalSync";
+import { createServiceClient, createUserClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+// Pulls every channel iCal feed (optionally one property's or room's) into bookings.
+// Schedulers call it with CRON_SECRET; the app calls it with the user's access token,
+// in which case RLS limits the sync to feeds the user can manage.
+async function syncFeeds(request: Request) {
+  const url = new URL(request.url);
+  const propertyId = url.searchParams.get("propertyId");
+  const roomId = url.searchParams.get("roomId");
+
+  let supabase;
+  if (isAuthorizedCronRequest(request)) {
+    supabase = createServiceClient();
+  } else {
+    const accessToken = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+    if (!accessToken || !propertyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    supabase = createUserClient(accessToken);
+    const { data, error } = await supabase.auth.getUser(accessToken);
+    if (error || !data.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+  }
+
+  try {
+    const feeds = await syncIcalFeeds(supabase, { propertyId, roomId });
+    return NextResponse.json({ ok: true, syncedAt: new Date().toISOString(), feeds });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Sync failed.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function GET(request: Request) {
+  return syncFeeds(request);
+}
+
+export async function POST(request: Request) {
+  return syncFeeds(request);
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { propertyRoles, type PropertyRole, type StaffInvitation } from "@/app/types";
+import { sendInvitationEmail } from "@/lib/invitationEmail";
+import { INVITATION_COLUMNS, invitationLink } from "@/lib/invitations";
+import { createUserClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+const isPropertyRole = (value: unknown): value is PropertyRole => propertyRoles.some((r) => r.value === value);
+
+// Creates an invitation and emails the link. Runs as the caller, so RLS decides who may
+// invite: admins anyone, owners only to their own properties.
+export async function POST(request: Request) {
+  const accessToken = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const supabase = createUserClient(accessToken);
+  const { data: auth, error: authError } = await supabase.auth.getUser(accessToken);
+  if (authError || !auth.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // The link is emailed, so its origin must come from configuration, never the Host header
+  const appUrl = process.env.APP_URL?.trim();
+  if (!appUrl) {
+    return NextResponse.json({ error: "Set APP_URL before sending invitations." }, { status: 500 });
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    email?: unknown;
+    propertyId?: unknown;
+    role?: unknown;
+  } | null;
+  const email = typeof body?.email === "string" ? body.email.trim().toLowerCase() : "";
+  const propertyId = typeof body?.propertyId === "string" && body.propertyId ? body.propertyId : null;
+  if (!/^[^\s@,<>]+@[^\s@,<>]+\.[^\s@,<>]+$/.test(email)) {
+    return NextResponse.json({ error: "Enter a valid email address." }, { status: 400 });
+  }
+  if (propertyId && !isPropertyRole(body?.role)) {
+    return NextResponse.json({ error: "Pick a role for the property." }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from("staff_invitations")
+    .insert({
+      email,
+      property_id: propertyId,
+      role: propertyId ? body?.role : null,
+      invited_by: auth.user.id,
+    })
+    .select(`${INVITATION_COLUMNS}, token`)
+    .single();
+  if (error) {
+    const status = error.code === "42501" ? 403 : 500;
+    return NextResponse.json({ error: status === 403 ? "You cannot invite people here." : error.message }, { status });
+  }
+
+  const { token, ...invitation } = data as unknown as StaffInvitation & { token: string };
+  const link = invitationLink(appUrl, token);
+  const { data: inviter } = await supabase
+    .from("user_profiles")
+    .select("display_name")
+    .eq("id", auth.user.id)
+    .maybeSingle();
+
+  let emailError: string | null = null;
+  try {
+    await sendInvitationEmail({
+      to: email,
+      link,
+      inviterName: inviter?.display_name ?? auth.user.email ?? "A colleague",
+      propertyName: invitation.property?.name ?? null,
+      role: invitation.role,
+      expiresAt: invitation.expires_at,
+    });
+  } catch (err) {
+    emailError = err instanceof Error ? err.message : "Email could not be sent.";
+  }
+
+  // The link comes back either way so it can be shared by hand when email is not set up
+  return NextResponse.json({ invitation, link, emailError });
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { createServiceClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+// Puts rooms in and out of service as maintenance tickets start and end. Meant to be hit by a scheduler each morning.
+async function applyMaintenanceSchedule(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase.rpc("apply_maintenance_schedule");
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true, updated: data ?? 0, appliedAt: new Date().toISOString() });
+}
+
+export async function GET(request: Request) {
+  return applyMaintenanceSchedule(request);
+}
+
+export async function POST(request: Request) {
+  return applyMaintenanceSchedule(request);
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { isEmailEvent, sendBookingNotification } from "@/lib/bookingNotifications";
+import { createUserClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+// Emails the guest about a booking event. Called by the app with the user's access token,
+// so RLS limits it to bookings and templates the user can manage.
+export async function POST(request: Request) {
+  const accessToken = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!accessToken) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const supabase = createUserClient(accessToken);
+  const { data: auth, error: authError } = await supabase.auth.getUser(accessToken);
+  if (authError || !auth.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    event?: unknown;
+    bookingId?: unknown;
+  } | null;
+  if (!body || !isEmailEvent(body.event) || typeof body.bookingId !== "string") {
+    return NextResponse.json({ error: "Expected an event and a bookingId." }, { status: 400 });
+  }
+
+  try {
+    const result = await sendBookingNotification(supabase, {
+      event: body.event,
+      bookingId: body.bookingId,
+      sentBy: auth.user.id,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Notification failed.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
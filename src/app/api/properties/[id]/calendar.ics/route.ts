@@ -0,0 +1,9 @@
+import { calendarFeedResponse } from "@/lib/calendarFeed";
+
+export const dynamic = "force-dynamic";
+
+// Read-only iCalendar feed of every non-cancelled booking in the property.
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return calendarFeedResponse(request, id);
+}
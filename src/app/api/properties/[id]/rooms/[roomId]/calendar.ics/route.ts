@@ -0,0 +1,12 @@
+import { calendarFeedResponse } from "@/lib/calendarFeed";
+
+export const dynamic = "force-dynamic";
+
+// Same feed as the property calendar, limited to a single room.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; roomId: string }> },
+) {
+  const { id, roomId } = await params;
+  return calendarFeedResponse(request, id, roomId);
+}
@@ -0,0 +1,305 @@
+"use client";
+
+import { supabase } from "@/lib/supabase/client";
+import { AUDIT_COLUMNS, auditChanges, auditFieldLabel, auditRecordLabel, formatAuditValue } from "@/lib/auditLog";
+import type { Session } from "@supabase/supabase-js";
+import clsx from "clsx";
+import { addDays, format } from "date-fns";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useCallback, useEffect, useMemo, useState } from "react";
+import { AuditEntity, AuditEntry, Property, PropertyMember, auditEntities } from "../types";
+
+const buttonBase =
+    "inline-flex h-10 items-center justify-center gap-2 rounded-lg px-4 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-400 disabled:opacity-60";
+const ghostButton = `${buttonBase} border border-slate-200 bg-white text-slate-700 hover:bg-slate-50`;
+const inputClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+
+const PAGE_SIZE = 50;
+const SYSTEM_ACTOR = "system";
+
+const actionStyles: Record<AuditEntry["action"], string> = {
+    insert: "bg-emerald-50 text-emerald-700",
+    update: "bg-sky-50 text-sky-700",
+    delete: "bg-red-50 text-red-700",
+};
+
+const actionLabels: Record<AuditEntry["action"], string> = {
+    insert: "Created",
+    update: "Changed",
+    delete: "Deleted",
+};
+
+const entityLabel = (entity: AuditEntity) => auditEntities.find((e) => e.value === entity)?.label ?? entity;
+
+type AuditFilters = {
+    entity: AuditEntity | "";
+    actor: string;
+    from: string;
+    to: string;
+};
+
+function AuditLogViewer() {
+    const searchParams = useSearchParams();
+    const [session, setSession] = useState<Session | null>(null);
+    const [properties, setProperties] = useState<Property[]>([]);
+    const [propertyId, setPropertyId] = useState<string>(searchParams.get("propertyId") ?? "");
+    const [members, setMembers] = useState<PropertyMember[]>([]);
+    const [names, setNames] = useState<Map<string, string>>(new Map());
+    const [filters, setFilters] = useState<AuditFilters>({ entity: "", actor: "", from: "", to: "" });
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [hasMore, setHasMore] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        supabase.auth
+            .getSession()
+            .then(({ data }) => setSession(data.session ?? null))
+            .catch(() => setSession(null));
+    }, []);
+
+    useEffect(() => {
+        if (!session) return;
+        supabase
+            .from("properties")
+            .select("id, name, code, address, timezone")
+            .order("name")
+            .then(({ data, error: loadError }) => {
+                if (loadError) setError(loadError.message);
+                setProperties(data ?? []);
+                setPropertyId((current) => current || data?.[0]?.id || "");
+            });
+    }, [session]);
+
+    // Members fill the user filter; rooms, categories and people turn ids in the diff into names
+    useEffect(() => {
+        if (!session || !propertyId) return;
+        Promise.all([
+            supabase
+                .from("property_members")
+                .select("id, property_id, user_id, role, created_at, user:user_profiles(display_name, email)")
+                .eq("property_id", propertyId),
+            supabase.from("rooms").select("id, number").eq("property_id", propertyId),
+            supabase.from("room_categories").select("id, name").eq("property_id", propertyId),
+        ]).then(([memberResult, roomResult, categoryResult]) => {
+            const memberRows = (memberResult.data ?? []) as unknown as PropertyMember[];
+            setMembers(memberRows);
+            setNames(
+                new Map([
+                    ...memberRows.map((m): [string, string] => [m.user_id, m.user?.display_name ?? m.user_id]),
+                    ...(roomResult.data ?? []).map((r): [string, string] => [r.id, `Room ${r.number}`]),
+                    ...(categoryResult.data ?? []).map((c): [string, string] => [c.id, c.name]),
+                ]),
+            );
+        });
+    }, [session, propertyId]);
+
+    const fetchEntries = useCallback(
+        async (id: string, current: AuditFilters, offset: number) => {
+            setLoading(true);
+            let query = supabase
+                .from("audit_log")
+                .select(AUDIT_COLUMNS)
+                .eq("property_id", id)
+                .order("created_at", { ascending: false })
+                .range(offset, offset + PAGE_SIZE - 1);
+            if (current.entity) query = query.eq("entity", current.entity);
+            if (current.actor === SYSTEM_ACTOR) query = query.is("actor_id", null);
+            else if (current.actor) query = query.eq("actor_id", current.actor);
+            if (current.from) query = query.gte("created_at", new Date(`${current.from}T00:00`).toISOString());
+            if (current.to) query = query.lt("created_at", addDays(new Date(`${current.to}T00:00`), 1).toISOString());
+
+            const { data, error: loadError } = await query;
+            if (loadError) setError(loadError.message);
+            const rows = (data ?? []) as unknown as AuditEntry[];
+            setEntries((existing) => (offset === 0 ? rows : [...existing, ...rows]));
+            setHasMore(rows.length === PAGE_SIZE);
+            setLoading(false);
+        },
+        [],
+    );
+
+    useEffect(() => {
+        if (!session || !propertyId) return;
+        const timer = window.setTimeout(() => void fetchEntries(propertyId, filters, 0), 250);
+        return () => window.clearTimeout(timer);
+    }, [session, propertyId, filters, fetchEntries]);
+
+    const actors = useMemo(
+        () =>
+            members
+                .map((m) => ({ id: m.user_id, name: m.user?.display_name ?? m.user?.email ?? "Unknown user" }))
+                .sort((a, b) => a.name.localeCompare(b.name)),
+        [members],
+    );
+
+    const setFilter = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) =>
+        setFilters((current) => ({ ...current, [key]: value }));
+
+    return (
+        <div className="mx-auto max-w-6xl space-y-6">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                    <h1 className="text-2xl font-semibold text-slate-900">Audit log</h1>
+                    <p className="text-sm text-slate-500">
+                        Every change to bookings, rooms, categories and the property itself, field by field.
+                    </p>
+                </div>
+                <select
+                    className={clsx(inputClass, "sm:w-56")}
+                    value={propertyId}
+                    onChange={(e) => {
+                        setFilter("actor", "");
+                        setPropertyId(e.target.value);
+                    }}
+                >
+                    {properties.length === 0 && <option value="">No properties</option>}
+                    {properties.map((p) => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                </select>
+            </div>
+
+            {error && (
+                <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+            )}
+
+            <div className="grid gap-3 sm:grid-cols-4">
+                <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    <span>Record type</span>
+                    <select
+                        className={inputClass}
+                        value={filters.entity}
+                        onChange={(e) => setFilter("entity", e.target.value as AuditFilters["entity"])}
+                    >
+                        <option value="">Everything</option>
+                        {auditEntities.map((e) => (
+                            <option key={e.value} value={e.value}>{e.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    <span>Changed by</span>
+                    <select className={inputClass} value={filters.actor} onChange={(e) => setFilter("actor", e.target.value)}>
+                        <option value="">Anyone</option>
+                        {actors.map((a) => (
+                            <option key={a.id} value={a.id}>{a.name}</option>
+                        ))}
+                        <option value={SYSTEM_ACTOR}>System (sync, cron)</option>
+                    </select>
+                </label>
+                <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    <span>From</span>
+                    <input
+                        type="date"
+                        className={inputClass}
+                        value={filters.from}
+                        max={filters.to || undefined}
+                        onChange={(e) => setFilter("from", e.target.value)}
+                    />
+                </label>
+                <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    <span>To</span>
+                    <input
+                        type="date"
+                        className={inputClass}
+                        value={filters.to}
+                        min={filters.from || undefined}
+                        onChange={(e) => setFilter("to", e.target.value)}
+                    />
+                </label>
+            </div>
+
+            <ul className="space-y-3">
+                {entries.length === 0 && !loading && (
+                    <li className="rounded-2xl border border-slate-200 bg-white px-4 py-6 text-center text-sm text-slate-500">
+                        No changes match these filters.
+                    </li>
+                )}
+                {entries.map((entry) => {
+                    const changes = auditChanges(entry);
+                    return (
+                        <li key={entry.id} className="rounded-2xl border border-slate-200 bg-white">
+                            <div className="flex flex-wrap items-center justify-between gap-2 border-b border-slate-100 px-4 py-3">
+                                <div className="flex min-w-0 items-center gap-2">
+                                    <span
+                                        className={clsx(
+                                            "rounded-full px-2 py-0.5 text-[11px] font-semibold",
+                                            actionStyles[entry.action],
+                                        )}
+                                    >
+                                        {actionLabels[entry.action]}
+                                    </span>
+                                    <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                                        {entityLabel(entry.entity)}
+                                    </span>
+                                    <span className="truncate text-sm font-medium text-slate-900">
+                                        {auditRecordLabel(entry)}
+                                    </span>
+                                </div>
+                                <p className="text-xs text-slate-500">
+                                    {entry.actor?.display_name ?? (entry.actor_id ? "Removed user" : "System")} ·{" "}
+                                    {format(new Date(entry.created_at), "MMM d, yyyy HH:mm")}
+                                </p>
+                            </div>
+                            {changes.length > 0 && (
+                                <table className="w-full text-sm">
+                                    <tbody className="divide-y divide-slate-100">
+                                        {changes.map((change) => (
+                                            <tr key={change.field}>
+                                                <td className="w-1/4 px-4 py-2 text-xs font-medium text-slate-500">
+                                                    {auditFieldLabel(change.field)}
+                                                </td>
+                                                {entry.action !== "insert" && (
+                                                    <td
+                                                        className={clsx(
+                                                            "px-4 py-2 break-all text-slate-700",
+                                                            entry.action === "update" && "bg-red-50/60 line-through decoration-red-300",
+                                                        )}
+                                                    >
+                                                        {formatAuditValue(change.before, names)}
+                                                    </td>
+                                                )}
+                                                {entry.action !== "delete" && (
+                                                    <td
+                                                        className={clsx(
+                                                            "px-4 py-2 break-all text-slate-900",
+                                                            entry.action === "update" && "bg-emerald-50/60",
+                                                        )}
+                                                    >
+                                                        {formatAuditValue(change.after, names)}
+                                                    </td>
+                                                )}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+
+            {hasMore && (
+                <div className="flex justify-center">
+                    <button
+                        className={ghostButton}
+                        disabled={loading}
+                        onClick={() => void fetchEntries(propertyId, filters, entries.length)}
+                    >
+                        {loading ? "Loading..." : "Load older changes"}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function AuditPage() {
+    return (
+        <Suspense>
+            <AuditLogViewer />
+        </Suspense>
+    );
+}
@@ -3,8 +3,11 @@
 import {
     Booking,
     BookingWithDates,
+    IcalConflict,
+    MaintenanceTicket,
     Room,
     RoomCategory,
+    bookingSources,
 } from "../types";
 import {
     ChevronLeftIcon,
@@ -16,16 +19,17 @@ import * as Select from "@radix-ui/react-select";
 import clsx from "clsx";
 import {
     addDays,
-    addMonths,
     differenceInDays,
-    endOfMonth,
     format,
     isSameDay,
     isWithinInterval,
+    parseISO,
     startOfDay,
     startOfMonth,
+    startOfWeek,
 } from "date-fns";
 import { useEffect, useMemo, useState } from "react";
+import { formatParty } from "@/lib/party";
 
 type AvailabilityViewProps = {
     rooms: Room[];
@@ -33,13 +37,48 @@ type AvailabilityViewProps = {
     bookings: Booking[];
     onAddBooking: (roomId: string, checkIn: Date, checkOut: Date) => void;
     onEditBooking: (booking: Booking) => void;
-    currentMonth: Date;
-    onMonthChange: (next: Date) => void;
+    windowStart: Date;
+    windowDays: number;
+    onWindowChange: (start: Date, days: number) => void;
 
     loading?: boolean;
     onUpdateStatus: (bookingId: string, status: string) => Promise<void>;
+    feedConflicts?: IcalConflict[];
+    onOpenConflict?: (conflict: IcalConflict) => void;
+    onSyncFeeds?: () => Promise<void>;
+    onMoveBooking?: (booking: Booking, move: BookingMove) => Promise<void>;
+    maintenanceTickets?: MaintenanceTicket[];
+    onOpenMaintenance?: (ticket: MaintenanceTicket) => void;
 };
 
+export type BookingMove = {
+    roomId: string;
+    checkIn: string;
+    checkOut: string;
+};
+
+type DragState = {
+    booking: BookingWithDates;
+    mode: "move" | "start" | "end";
+    originX: number;
+    dayWidth: number;
+    dayDelta: number;
+    roomId: string;
+    moved: boolean;
+    saving: boolean;
+};
+
+const windowWidths = [
+    { days: 7, label: "7 days" },
+    { days: 14, label: "14 days" },
+    { days: 30, label: "30 days" },
+    { days: 60, label: "60 days" },
+];
+
+// Diagonal stripes so maintenance reads as "blocked" rather than as another stay
+const maintenanceHatch =
+    "repeating-linear-gradient(135deg, rgba(100,116,139,0.22) 0, rgba(100,116,139,0.22) 6px, rgba(255,255,255,0.6) 6px, rgba(255,255,255,0.6) 12px)";
+
 type RangeSelection = {
     roomId: string | null;
     checkIn: Date | null;
@@ -52,36 +91,30 @@ export function AvailabilityView({
     bookings,
     onAddBooking,
     onEditBooking,
-    currentMonth,
-    onMonthChange,
+    windowStart,
+    windowDays,
+    onWindowChange,
     loading = false,
     onUpdateStatus,
+    feedConflicts = [],
+    onOpenConflict,
+    onSyncFeeds,
+    onMoveBooking,
+    maintenanceTickets = [],
+    onOpenMaintenance,
 }: AvailabilityViewProps) {
     const [previewBooking, setPreviewBooking] = useState<BookingWithDates | null>(null);
-    const [viewMode, setViewMode] = useState<"month" | "half">("month");
-    const [halfIndex, setHalfIndex] = useState<0 | 1>(0);
+    const [syncing, setSyncing] = useState(false);
+    const [drag, setDrag] = useState<DragState | null>(null);
+    const [dragNotice, setDragNotice] = useState<string | null>(null);
     const [rangeSelection, setRangeSelection] = useState<RangeSelection>({
         roomId: null,
         checkIn: null,
         checkOut: null,
     });
 
-    useEffect(() => {
-        if (typeof window !== "undefined" && window.innerWidth < 1024) {
-            setViewMode("half");
-            setHalfIndex(0);
-        }
-    }, []);
-
-    const monthStart = useMemo(() => startOfMonth(currentMonth), [currentMonth]);
-    const monthEnd = useMemo(() => endOfMonth(currentMonth), [currentMonth]);
-    const currentYear = monthStart.getFullYear();
-    const currentMonthIndex = monthStart.getMonth();
-
-    useEffect(() => {
-        // Reset to the first half whenever the month changes
-        setHalfIndex(0);
-    }, [monthStart]);
+    const currentYear = windowStart.getFullYear();
+    const currentMonthIndex = windowStart.getMonth();
 
     const monthTabs = useMemo(
         () => Array.from({ length: 12 }, (_, i) => format(new Date(2024, i, 1), "MMM")),
@@ -94,48 +127,14 @@ export function AvailabilityView({
     );
 
     // 1. Data Prep
-    const daysInMonth = useMemo(() => {
-        return Array.from(
-            { length: differenceInDays(monthEnd, monthStart) + 1 },
-            (_, i) => addDays(monthStart, i)
-        );
-    }, [monthEnd, monthStart]);
-
-    const halfMonthRange = useMemo(() => {
-        const isFirstHalf = halfIndex === 0;
-        const start = addDays(monthStart, isFirstHalf ? 0 : 15);
-        const plannedEnd = isFirstHalf ? addDays(monthStart, 14) : monthEnd;
-        const clampedEnd = plannedEnd > monthEnd ? monthEnd : plannedEnd;
-
-        if (start > monthEnd) {
-            return {
-                start: monthEnd,
-                endExclusive: addDays(monthEnd, 1),
-                days: [monthEnd],
-            };
-        }
-
+    const visibleRange = useMemo(() => {
+        const start = startOfDay(windowStart);
         return {
             start,
-            endExclusive: addDays(clampedEnd, 1),
-            days: Array.from(
-                { length: differenceInDays(clampedEnd, start) + 1 },
-                (_, i) => addDays(start, i)
-            ),
+            endExclusive: addDays(start, windowDays),
+            days: Array.from({ length: windowDays }, (_, i) => addDays(start, i)),
         };
-    }, [halfIndex, monthEnd, monthStart]);
-
-    const visibleRange = useMemo(
-        () =>
-            viewMode === "month"
-                ? {
-                    start: monthStart,
-                    endExclusive: addDays(monthEnd, 1),
-                    days: daysInMonth,
-                }
-                : halfMonthRange,
-        [daysInMonth, halfMonthRange, monthEnd, monthStart, viewMode]
-    );
+    }, [windowStart, windowDays]);
 
     const visibleRangeStartKey = useMemo(
         () => visibleRange.start.getTime(),
@@ -156,6 +155,31 @@ export function AvailabilityView({
 
     const roomMap = useMemo(() => new Map(rooms.map((r) => [r.id, r])), [rooms]);
 
+    const conflictsWithDates = useMemo(
+        () =>
+            feedConflicts.map((c) => ({
+                ...c,
+                checkInDate: startOfDay(new Date(c.check_in)),
+                checkOutDate: startOfDay(new Date(c.check_out)),
+            })),
+        [feedConflicts]
+    );
+
+    const ticketsWithDates = useMemo(
+        () =>
+            maintenanceTickets.map((t) => ({
+                ...t,
+                checkInDate: startOfDay(new Date(t.start_date)),
+                checkOutDate: startOfDay(new Date(t.end_date)),
+            })),
+        [maintenanceTickets]
+    );
+
+    const findMaintenance = (roomId: string, checkIn: Date, checkOut: Date) =>
+        ticketsWithDates.find(
+            (t) => t.room_id === roomId && t.checkInDate < checkOut && t.checkOutDate > checkIn
+        );
+
     // Group rooms by category
     const groupedRooms = useMemo(() => {
         // Create a map of category ID to category
@@ -198,18 +222,18 @@ export function AvailabilityView({
 
         const dailyOccupancy = totalRooms > 0 ? Math.round((occupiedToday / totalRooms) * 100) : 0;
 
-        // Monthly Avg Occ %
-        // Simplification: Average of daily occupancy for current viewed month
+        // Window Avg Occ %
+        // Simplification: Average of daily occupancy over the visible days
         let totalOccupiedDays = 0;
-        const daysCount = daysInMonth.length;
-        daysInMonth.forEach(day => {
+        const daysCount = visibleDays.length;
+        visibleDays.forEach(day => {
             const occ = bookingsWithDates.filter(b =>
                 (b.status === 'checked_in' || b.status === 'reserved') &&
                 isWithinInterval(day, { start: b.checkInDate, end: addDays(b.checkOutDate, -1) })
             ).length;
             totalOccupiedDays += occ;
         });
-        const monthlyOccupancy = (totalRooms * daysCount) > 0
+        const windowOccupancy = (totalRooms * daysCount) > 0
             ? Math.round((totalOccupiedDays / (totalRooms * daysCount)) * 100)
             : 0;
 
@@ -224,14 +248,14 @@ export function AvailabilityView({
 
         return {
             dailyOccupancy,
-            monthlyOccupancy,
+            windowOccupancy,
             arrivals,
             departures,
             inHouse,
             vacant: totalRooms - occupiedToday,
             occupied: occupiedToday
         };
-    }, [rooms, bookingsWithDates, daysInMonth]);
+    }, [rooms, bookingsWithDates, visibleDays]);
 
     // Daily Occupancy Footer Data (for the visible range)
     const visibleOccupancyPercents = useMemo(() => {
@@ -247,7 +271,7 @@ export function AvailabilityView({
 
 
     // Helper to calculate position of a booking bar
-    const getBookingPosition = (booking: BookingWithDates) => {
+    const getBookingPosition = (booking: { checkInDate: Date; checkOutDate: Date }) => {
         const rangeStart = visibleRange.start;
         const rangeEnd = visibleRange.endExclusive;
 
@@ -285,11 +309,31 @@ export function AvailabilityView({
         }
     };
 
-    const handleMonthChange = (next: Date) => {
-        const normalized = startOfMonth(next);
-        setHalfIndex(0);
-        onMonthChange(normalized);
-    };
+    const goTo = (start: Date, days = windowDays) => onWindowChange(startOfDay(start), days);
+
+    const handleMonthChange = (next: Date) => goTo(startOfMonth(next));
+
+    // ←/→ page by the window width, Shift+←/→ by a single day, T jumps back to this week
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (
+                e.altKey || e.ctrlKey || e.metaKey ||
+                target?.closest("input, textarea, select, [contenteditable=true], [role=dialog]")
+            ) {
+                return;
+            }
+            if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+                e.preventDefault();
+                const step = e.shiftKey ? 1 : windowDays;
+                onWindowChange(addDays(windowStart, e.key === "ArrowLeft" ? -step : step), windowDays);
+            } else if (e.key === "t" || e.key === "T") {
+                onWindowChange(startOfWeek(new Date(), { weekStartsOn: 1 }), windowDays);
+            }
+        };
+        window.addEventListener("keydown", onKeyDown);
+        return () => window.removeEventListener("keydown", onKeyDown);
+    }, [windowStart, windowDays, onWindowChange]);
 
     const clearRangeSelection = () =>
         setRangeSelection({ roomId: null, checkIn: null, checkOut: null });
@@ -312,6 +356,13 @@ export function AvailabilityView({
         const checkInDate = rangeSelection.checkIn;
         const checkOutDate = normalizedDay;
 
+        const blocked = findMaintenance(roomId, checkInDate, checkOutDate);
+        if (blocked) {
+            setDragNotice(`Room ${roomMap.get(roomId)?.number ?? ""} is out of service for maintenance: ${blocked.reason}`);
+            clearRangeSelection();
+            return;
+        }
+
         setRangeSelection({ roomId, checkIn: checkInDate, checkOut: checkOutDate });
         onAddBooking(roomId, checkInDate, checkOutDate);
         clearRangeSelection();
@@ -328,18 +379,136 @@ export function AvailabilityView({
     const formatDateRange = (start: Date, end: Date) =>
         `${format(start, 'MMM d, yyyy')} → ${format(addDays(end, -1), 'MMM d, yyyy')}`;
 
+    const formatStay = (checkIn: string, checkOut: string) =>
+        `${format(new Date(checkIn), 'MMM d')} → ${format(new Date(checkOut), 'MMM d')}`;
+
+    // Channel-synced stays follow their feed, and finished or cancelled stays are history
+    const canDrag = (booking: Booking) =>
+        !!onMoveBooking &&
+        !booking.feed_id &&
+        booking.status !== "cancelled" &&
+        booking.status !== "checked_out";
+
+    // Where the dragged booking would land, clamped so a resize keeps at least one night
+    const getDragTarget = (state: DragState) => {
+        const { booking, mode } = state;
+        const nights = differenceInDays(booking.checkOutDate, booking.checkInDate);
+        let checkIn = booking.checkInDate;
+        let checkOut = booking.checkOutDate;
+        if (mode === "move") {
+            checkIn = addDays(checkIn, state.dayDelta);
+            checkOut = addDays(checkOut, state.dayDelta);
+        } else if (mode === "start") {
+            checkIn = addDays(checkIn, Math.min(state.dayDelta, nights - 1));
+        } else {
+            checkOut = addDays(checkOut, Math.max(state.dayDelta, 1 - nights));
+        }
+        const roomId = mode === "move" ? state.roomId : booking.room_id ?? state.roomId;
+        const maintenance = findMaintenance(roomId, checkIn, checkOut);
+        const overlaps = !!maintenance || bookingsWithDates.some(
+            (b) =>
+                b.id !== booking.id &&
+                b.room_id === roomId &&
+                b.status !== "cancelled" &&
+                b.checkInDate < checkOut &&
+                b.checkOutDate > checkIn
+        );
+        const unchanged =
+            roomId === booking.room_id &&
+            isSameDay(checkIn, booking.checkInDate) &&
+            isSameDay(checkOut, booking.checkOutDate);
+        return { roomId, checkInDate: checkIn, checkOutDate: checkOut, overlaps, maintenance, unchanged };
+    };
+
+    const dragTarget = drag?.moved ? getDragTarget(drag) : null;
+
+    const describeOverlap = ({ roomId, maintenance }: ReturnType<typeof getDragTarget>) =>
+        maintenance
+            ? `Room ${roomMap.get(roomId)?.number ?? ""} is out of service for maintenance: ${maintenance.reason}`
+            : `Room ${roomMap.get(roomId)?.number ?? ""} is already booked for those dates.`;
+
+    const handleBarPointerDown = (e: React.PointerEvent<HTMLDivElement>, booking: BookingWithDates) => {
+        const layer = e.currentTarget.parentElement;
+        if (e.button !== 0 || !layer || !booking.room_id || drag?.saving) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDragNotice(null);
+        setDrag({
+            booking,
+            mode: ((e.target as HTMLElement).dataset.handle as "start" | "end" | undefined) ?? "move",
+            originX: e.clientX,
+            dayWidth: layer.getBoundingClientRect().width / visibleDays.length,
+            dayDelta: 0,
+            roomId: booking.room_id,
+            moved: false,
+            saving: false,
+        });
+    };
+
+    const handleBarPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!drag || drag.saving) return;
+        const dx = e.clientX - drag.originX;
+        const dayDelta = Math.round(dx / drag.dayWidth);
+        let roomId = drag.roomId;
+        if (drag.mode === "move") {
+            const row = document
+                .elementsFromPoint(e.clientX, e.clientY)
+                .find((el): el is HTMLElement => el instanceof HTMLElement && !!el.dataset.roomId);
+            if (row?.dataset.roomId) roomId = row.dataset.roomId;
+        }
+        // A few pixels of jitter still counts as a click
+        const moved = drag.moved || Math.abs(dx) > 4 || roomId !== drag.roomId;
+        if (dayDelta !== drag.dayDelta || roomId !== drag.roomId || moved !== drag.moved) {
+            setDrag({ ...drag, dayDelta, roomId, moved });
+        }
+    };
+
+    const handleBarPointerUp = async () => {
+        if (!drag || drag.saving) return;
+        if (!drag.moved) {
+            setDrag(null);
+            setPreviewBooking(drag.booking);
+            return;
+        }
+
+        const target = getDragTarget(drag);
+        if (target.unchanged || !onMoveBooking) {
+            setDrag(null);
+            return;
+        }
+        if (target.overlaps) {
+            setDragNotice(describeOverlap(target));
+            setDrag(null);
+            return;
+        }
+
+        setDrag({ ...drag, saving: true });
+        await onMoveBooking(drag.booking, {
+            roomId: target.roomId,
+            checkIn: format(target.checkInDate, "yyyy-MM-dd"),
+            checkOut: format(target.checkOutDate, "yyyy-MM-dd"),
+        });
+        setDrag(null);
+    };
+
+    const syncFeeds = async () => {
+        if (!onSyncFeeds) return;
+        setSyncing(true);
+        await onSyncFeeds();
+        setSyncing(false);
+    };
+
     return (
         <>
             <div className="flex flex-col gap-6">
                 {loading && (
                     <div className="rounded-xl border border-amber-100 bg-amber-50 px-4 py-2 text-sm font-medium text-amber-800">
-                        Refreshing availability for this month...
+                        Refreshing availability for these dates...
                     </div>
                 )}
                 {/* Stats Header */}
                 <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
                     <StatCard label="Daily Occupancy %" value={`${stats.dailyOccupancy}%`} />
-                    <StatCard label="Monthly Avg Occ %" value={`${stats.monthlyOccupancy}%`} />
+                    <StatCard label={`${windowDays}-Day Avg Occ %`} value={`${stats.windowOccupancy}%`} />
                     <StatCard label="Today's Arrivals" value={stats.arrivals.toString()} />
                     <StatCard label="Today's Departures" value={stats.departures.toString()} />
                     <StatCard label="Total In-House" value={stats.inHouse.toString()} />
@@ -351,66 +520,56 @@ export function AvailabilityView({
                     <div className="flex flex-wrap items-center justify-between gap-3">
                         <div className="flex flex-wrap items-center gap-3">
                             <div className="font-semibold text-lg text-slate-800 px-2">
-                                {format(currentMonth, "MMMM yyyy")}
+                                {format(visibleRange.start, "MMM d")} – {format(addDays(visibleRange.endExclusive, -1), "MMM d, yyyy")}
                             </div>
 
                             <div className="flex items-center bg-slate-100 rounded-full p-1 text-xs font-semibold text-slate-600">
-                                <button
-                                    className={clsx(
-                                        "px-3 py-1.5 rounded-full transition-all",
-                                        viewMode === "half"
-                                            ? "bg-white shadow text-emerald-700"
-                                            : "hover:text-emerald-700"
-                                    )}
-                                    onClick={() => {
-                                        setViewMode("half");
-                                        setHalfIndex(0);
-                                    }}
-                                >
-                                    15 days
-                                </button>
-                                <button
-                                    className={clsx(
-                                        "px-3 py-1.5 rounded-full transition-all",
-                                        viewMode === "month"
-                                            ? "bg-white shadow text-emerald-700"
-                                            : "hover:text-emerald-700"
-                                    )}
-                                    onClick={() => setViewMode("month")}
-                                >
-                                    Full month
-                                </button>
-                            </div>
-
-                            {viewMode === "half" && (
-                                <div className="flex items-center bg-white border border-slate-200 rounded-full p-1 text-[11px] font-semibold text-slate-600 shadow-sm">
+                                {windowWidths.map((width) => (
                                     <button
+                                        key={width.days}
                                         className={clsx(
-                                            "px-3 py-1 rounded-full transition-all",
-                                            halfIndex === 0
-                                                ? "bg-emerald-50 text-emerald-700 shadow-sm"
-                                                : "hover:bg-slate-50"
+                                            "px-3 py-1.5 rounded-full transition-all",
+                                            windowDays === width.days
+                                                ? "bg-white shadow text-emerald-700"
+                                                : "hover:text-emerald-700"
                                         )}
-                                        onClick={() => setHalfIndex(0)}
+                                        onClick={() => goTo(windowStart, width.days)}
                                     >
-                                        Days 1–15
+                                        {width.label}
                                     </button>
-                                    <button
-                                        className={clsx(
-                                            "px-3 py-1 rounded-full transition-all",
-                                            halfIndex === 1
-                                                ? "bg-emerald-50 text-emerald-700 shadow-sm"
-                                                : "hover:bg-slate-50"
-                                        )}
-                                        onClick={() => setHalfIndex(1)}
-                                    >
-                                        {`Days 16–${format(monthEnd, "d")}`}
-                                    </button>
-                                </div>
-                            )}
+                                ))}
+                            </div>
+
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="date"
+                                    aria-label="Start date"
+                                    value={format(windowStart, "yyyy-MM-dd")}
+                                    onChange={(e) => {
+                                        if (e.target.value) goTo(parseISO(e.target.value));
+                                    }}
+                                    className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-700 shadow-sm focus:border-slate-400 focus:outline-none"
+                                />
+                                <button
+                                    className="rounded-full border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-600 shadow-sm hover:bg-slate-50"
+                                    onClick={() => goTo(startOfWeek(new Date(), { weekStartsOn: 1 }))}
+                                    title="Jump to this week (T)"
+                                >
+                                    Today
+                                </button>
+                            </div>
                         </div>
 
                         <div className="flex items-center gap-2">
+                            {onSyncFeeds && (
+                                <button
+                                    onClick={() => void syncFeeds()}
+                                    disabled={syncing}
+                                    className="inline-flex items-center gap-2 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:border-slate-300 disabled:opacity-60"
+                                >
+                                    {syncing ? "Syncing..." : "Sync channels"}
+                                </button>
+                            )}
                             <Select.Root
                                 value={currentYear.toString()}
                                 onValueChange={(value) => handleMonthChange(new Date(Number(value), currentMonthIndex, 1))}
@@ -437,16 +596,16 @@ export function AvailabilityView({
 
                             <div className="flex gap-1">
                                 <button
-                                    onClick={() => handleMonthChange(addMonths(currentMonth, -1))}
+                                    onClick={() => goTo(addDays(windowStart, -windowDays))}
                                     className="p-2 hover:bg-slate-50 rounded-full text-slate-500"
-                                    title="Previous month"
+                                    title={`Previous ${windowDays} days (←)`}
                                 >
                                     <ChevronLeftIcon className="w-5 h-5" />
                                 </button>
                                 <button
-                                    onClick={() => handleMonthChange(addMonths(currentMonth, 1))}
+                                    onClick={() => goTo(addDays(windowStart, windowDays))}
                                     className="p-2 hover:bg-slate-50 rounded-full text-slate-500"
-                                    title="Next month"
+                                    title={`Next ${windowDays} days (→)`}
                                 >
                                     <ChevronRightIcon className="w-5 h-5" />
                                 </button>
@@ -477,18 +636,61 @@ export function AvailabilityView({
                     </div>
                 </div>
 
+                {/* Channel conflicts */}
+                {feedConflicts.length > 0 && (
+                    <div className="rounded-2xl border border-rose-200 bg-rose-50/70 p-4 shadow-sm">
+                        <p className="text-sm font-semibold text-rose-800">
+                            {feedConflicts.length} channel stay{feedConflicts.length === 1 ? "" : "s"} could not be imported
+                        </p>
+                        <p className="text-xs text-rose-700">
+                            These stays from a channel calendar overlap bookings already in the room. Move or cancel one side, then sync again.
+                        </p>
+                        <ul className="mt-3 space-y-2">
+                            {feedConflicts.map((conflict) => (
+                                <li
+                                    key={conflict.id}
+                                    className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-rose-100 bg-white px-3 py-2 text-xs text-slate-700"
+                                >
+                                    <span>
+                                        <span className="font-semibold text-slate-900">
+                                            Room {roomMap.get(conflict.room_id)?.number ?? "?"}
+                                        </span>
+                                        {` · ${conflict.summary} (${formatStay(conflict.check_in, conflict.check_out)}) clashes with `}
+                                        <span className="font-semibold text-slate-900">{conflict.booking_guest_name}</span>
+                                        {` (${formatStay(conflict.booking_check_in, conflict.booking_check_out)})`}
+                                    </span>
+                                    {onOpenConflict && (
+                                        <button
+                                            className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-semibold text-slate-700 shadow-sm hover:bg-slate-50"
+                                            onClick={() => onOpenConflict(conflict)}
+                                        >
+                                            Open booking
+                                        </button>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
                 {/* Calendar */}
                 <div className="overflow-hidden bg-white rounded-2xl border border-slate-200 shadow-sm relative select-none">
                     {loading && (
                         <div className="absolute inset-0 z-30 flex items-center justify-center bg-white/70 backdrop-blur-sm text-sm font-semibold text-slate-700">
-                            Loading bookings for this month...
+                            Loading bookings for these dates...
                         </div>
                     )}
                     <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-b border-slate-100 bg-slate-50/60 text-xs font-semibold text-slate-600">
-                        <span>
-                            {rangeSelection.checkIn
-                                ? `Check-in selected: ${format(rangeSelection.checkIn, "MMM d")}. Choose a check-out date in the same room.`
-                                : "Select a check-in date, then a check-out date to open the booking form."}
+                        <span className={clsx(dragTarget?.overlaps || (dragNotice && !drag) ? "text-rose-700" : undefined)}>
+                            {dragTarget && drag
+                                ? dragTarget.overlaps
+                                    ? describeOverlap(dragTarget)
+                                    : `${drag.saving ? "Saving" : "Drop to move"} ${drag.booking.guest_name} to Room ${roomMap.get(dragTarget.roomId)?.number ?? ""}, ${formatDateRange(dragTarget.checkInDate, dragTarget.checkOutDate)}`
+                                : dragNotice
+                                    ? dragNotice
+                                    : rangeSelection.checkIn
+                                        ? `Check-in selected: ${format(rangeSelection.checkIn, "MMM d")}. Choose a check-out date in the same room.`
+                                        : "Select a check-in date, then a check-out date to open the booking form. Drag a booking to move it, or drag its edges to change the dates."}
                         </span>
                         {rangeSelection.checkIn && (
                             <button
@@ -500,7 +702,8 @@ export function AvailabilityView({
                         )}
                     </div>
                     <div className="overflow-x-auto custom-scrollbar">
-                        <div className="min-w-[720px] relative">
+                        {/* Keep days at least 32px wide so 60-day windows scroll instead of squashing */}
+                        <div className="min-w-[720px] relative" style={{ minWidth: 192 + visibleDays.length * 32 }}>
                             {/* Header Row */}
                             <div className="flex border-b border-slate-100">
                                 <div className="sticky left-0 w-48 bg-emerald-50/50 backdrop-blur-sm z-20 border-r border-slate-100 flex items-center px-4 font-semibold text-emerald-800 text-sm h-14">
@@ -558,7 +761,7 @@ export function AvailabilityView({
 
                                             {/* Room Rows */}
                                             {group.rooms.map(room => (
-                                                <div key={room.id} className="flex h-12 border-b border-slate-100 relative group hover:bg-slate-50/50 transition-colors">
+                                                <div key={room.id} data-room-id={room.id} className="flex h-12 border-b border-slate-100 relative group hover:bg-slate-50/50 transition-colors">
                                                     <div className="sticky left-0 w-48 bg-white group-hover:bg-slate-50 transition-colors border-r border-slate-100 px-4 flex flex-col justify-center z-10">
                                                         <div className="text-sm font-semibold text-slate-700">{room.number}</div>
                                                         <div className="text-[10px] text-slate-400 capitalize">{room.status.replace('_', ' ')}</div>
@@ -596,24 +799,99 @@ export function AvailabilityView({
 
                                                         {/* Booking Bars Layer */}
                                                         <div className="absolute inset-y-0 left-0 right-0 pointer-events-none py-2">
+                                                            {ticketsWithDates
+                                                                .filter(t => t.room_id === room.id)
+                                                                .map(t => {
+                                                                    const pos = getBookingPosition(t);
+                                                                    if (!pos) return null;
+                                                                    return (
+                                                                        <div
+                                                                            key={t.id}
+                                                                            style={{ left: pos.left, width: pos.width, backgroundImage: maintenanceHatch }}
+                                                                            className="absolute h-full min-h-[32px] rounded-xl px-3 flex items-center overflow-hidden whitespace-nowrap border border-slate-300 z-10 mx-px pointer-events-auto cursor-pointer text-[11px] font-semibold text-slate-700"
+                                                                            title={`Maintenance (${t.priority}): ${t.reason} (${formatStay(t.start_date, t.end_date)})`}
+                                                                            onClick={(e) => {
+                                                                                e.stopPropagation();
+                                                                                onOpenMaintenance?.(t);
+                                                                            }}
+                                                                        >
+                                                                            <span className="truncate">{t.reason}</span>
+                                                                        </div>
+                                                                    );
+                                                                })}
+                                                            {conflictsWithDates
+                                                                .filter(c => c.room_id === room.id)
+                                                                .map(c => {
+                                                                    const pos = getBookingPosition(c);
+                                                                    if (!pos) return null;
+                                                                    return (
+                                                                        <div
+                                                                            key={c.id}
+                                                                            style={{ left: pos.left, width: pos.width }}
+                                                                            className="absolute inset-y-1 rounded-xl border-2 border-dashed border-rose-400 bg-rose-100/40 z-30 mx-px pointer-events-auto cursor-pointer"
+                                                                            title={`Channel conflict: ${c.summary} (${formatStay(c.check_in, c.check_out)})`}
+                                                                            onClick={(e) => {
+                                                                                e.stopPropagation();
+                                                                                onOpenConflict?.(c);
+                                                                            }}
+                                                                        />
+                                                                    );
+                                                                })}
+                                                            {drag && dragTarget && dragTarget.roomId === room.id && (() => {
+                                                                const pos = getBookingPosition(dragTarget);
+                                                                if (!pos) return null;
+                                                                return (
+                                                                    <div
+                                                                        style={{ left: pos.left, width: pos.width }}
+                                                                        className={clsx(
+                                                                            "absolute h-full min-h-[32px] rounded-xl px-3 flex items-center overflow-hidden whitespace-nowrap z-30 mx-px border-2 border-dashed text-[11px] font-semibold",
+                                                                            dragTarget.overlaps
+                                                                                ? "border-rose-400 bg-rose-100/70 text-rose-700"
+                                                                                : "border-emerald-500 bg-emerald-100/70 text-emerald-800"
+                                                                        )}
+                                                                    >
+                                                                        {format(dragTarget.checkInDate, 'MMM d')} - {format(dragTarget.checkOutDate, 'MMM d')}
+                                                                    </div>
+                                                                );
+                                                            })()}
                                                             {bookingsWithDates
                                                                 .filter(b => b.room_id === room.id)
                                                                 .map(b => {
                                                                     const pos = getBookingPosition(b);
                                                                     if (!pos) return null;
+                                                                    const draggable = canDrag(b);
+                                                                    const isDragging = drag?.booking.id === b.id && drag.moved;
                                                                     return (
                                                                         <div
                                                                             key={b.id}
                                                                             style={{ left: pos.left, width: pos.width }}
                                                                             className={clsx(
                                                                                 "absolute h-full min-h-[32px] rounded-xl px-3 flex items-center gap-2 overflow-hidden whitespace-nowrap pointer-events-auto cursor-pointer transition-all duration-200 z-20 mx-px bg-gradient-to-r backdrop-blur-md border border-white/40 shadow-lg hover:shadow-xl hover:-translate-y-0.5",
-                                                                                getStatusColor(b.status)
+                                                                                getStatusColor(b.status),
+                                                                                draggable && "touch-none cursor-grab active:cursor-grabbing",
+                                                                                isDragging && "opacity-40"
                                                                             )}
                                                                             onClick={(e) => {
                                                                                 e.stopPropagation();
-                                                                                setPreviewBooking(b);
+                                                                                if (!draggable) setPreviewBooking(b);
                                                                             }}
+                                                                            onPointerDown={draggable ? (e) => handleBarPointerDown(e, b) : undefined}
+                                                                            onPointerMove={draggable ? handleBarPointerMove : undefined}
+                                                                            onPointerUp={draggable ? () => void handleBarPointerUp() : undefined}
+                                                                            onPointerCancel={draggable ? () => setDrag(null) : undefined}
                                                                         >
+                                                                            {draggable && b.checkInDate >= visibleRange.start && (
+                                                                                <span
+                                                                                    data-handle="start"
+                                                                                    className="absolute inset-y-0 left-0 w-2 cursor-ew-resize hover:bg-white/40"
+                                                                                />
+                                                                            )}
+                                                                            {draggable && b.checkOutDate <= visibleRange.endExclusive && (
+                                                                                <span
+                                                                                    data-handle="end"
+                                                                                    className="absolute inset-y-0 right-0 w-2 cursor-ew-resize hover:bg-white/40"
+                                                                                />
+                                                                            )}
                                                                             <span className="text-[11px] sm:text-xs font-semibold uppercase tracking-wide truncate">
                                                                                 {b.guest_name}
                                                                             </span>
@@ -694,6 +972,19 @@ export function AvailabilityView({
                                     </span>
                                 </div>
 
+                                {previewBooking.source && previewBooking.source !== "direct" && (
+                                    <div className="rounded-lg border border-sky-100 bg-sky-50 px-3 py-2 text-sky-800">
+                                        <p className="text-[10px] font-semibold uppercase tracking-wide">
+                                            Synced from {bookingSources.find((s) => s.value === previewBooking.source)?.label ?? previewBooking.source}
+                                        </p>
+                                        {previewBooking.feed_id && (
+                                            <p className="text-xs">
+                                                Dates follow the channel calendar; edits here are overwritten on the next sync.
+                                            </p>
+                                        )}
+                                    </div>
+                                )}
+
                                 {previewBooking.status === "tentative" && previewBooking.auto_release_at && (
                                     <div className="rounded-lg border border-amber-100 bg-amber-50 px-3 py-2 text-amber-800">
                                         <p className="text-[10px] font-semibold uppercase tracking-wide">
@@ -711,26 +1002,20 @@ export function AvailabilityView({
                                     </p>
                                     <p className="text-sm text-slate-900">
                                         {previewBooking.guest_name}
-                                        {previewBooking.second_guest_name ? ` + ${previewBooking.second_guest_name}` : ""}
+                                        {previewBooking.guest_passport && (
+                                            <span className="text-[11px] text-slate-500"> · Pass: {previewBooking.guest_passport}</span>
+                                        )}
                                     </p>
-                                    {previewBooking.second_guest_email && (
-                                        <p className="text-[11px] text-slate-500">
-                                            2nd email: {previewBooking.second_guest_email}
-                                        </p>
-                                    )}
-                                    {(previewBooking.adults ?? 1) > 0 && (
-                                        <p className="text-[11px] text-slate-500">
-                                            Count: {previewBooking.adults ?? 1}
+                                    {previewBooking.occupants?.map((occupant) => (
+                                        <p key={occupant.id} className="text-sm text-slate-900">
+                                            {occupant.full_name}
+                                            <span className="text-[11px] text-slate-500">
+                                                {occupant.age_group === "child" ? " · child" : ""}
+                                                {occupant.document_number ? ` · ${occupant.document_number}` : ""}
+                                            </span>
                                         </p>
-                                    )}
-                                    {(previewBooking.guest_passport || previewBooking.second_guest_passport) && (
-                                        <p className="text-[11px] text-slate-500">
-                                            {previewBooking.guest_passport ? `Pass: ${previewBooking.guest_passport}` : "Pass: —"}
-                                            {previewBooking.second_guest_passport
-                                                ? `${previewBooking.guest_passport ? " • " : ""}Pass 2: ${previewBooking.second_guest_passport}`
-                                                : ""}
-                                        </p>
-                                    )}
+                                    ))}
+                                    <p className="text-[11px] text-slate-500">{formatParty(previewBooking)}</p>
                                 </div>
 
                                 <div className="rounded-lg border border-slate-100 bg-slate-50 px-3 py-2">
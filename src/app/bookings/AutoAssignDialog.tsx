@@ -0,0 +1,196 @@
+import { Room } from "../types";
+import type { AssignmentPlanRow } from "@/lib/roomAssignment";
+import { partySize } from "@/lib/party";
+import { Cross2Icon } from "@radix-ui/react-icons";
+import * as Dialog from "@radix-ui/react-dialog";
+import { addDays, format, parseISO } from "date-fns";
+import { useState } from "react";
+
+const buttonBase =
+    "inline-flex h-10 items-center justify-center gap-2 rounded-lg px-4 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-400 disabled:opacity-60";
+const primaryButton = `${buttonBase} bg-black text-white hover:bg-slate-900`;
+const ghostButton = `${buttonBase} border border-slate-200 bg-white text-slate-700 hover:bg-slate-50`;
+
+const inputClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+});
+
+type AutoAssignDialogProps = {
+    open: boolean;
+    rooms: Room[];
+    onOpenChange: (open: boolean) => void;
+    onPlan: (from: string, to: string) => Promise<AssignmentPlanRow[] | null>;
+    onApply: (rows: AssignmentPlanRow[]) => Promise<boolean>;
+};
+
+export function AutoAssignDialog({ open, rooms, onOpenChange, onPlan, onApply }: AutoAssignDialogProps) {
+    const [from, setFrom] = useState(() => format(new Date(), "yyyy-MM-dd"));
+    const [to, setTo] = useState(() => format(addDays(new Date(), 14), "yyyy-MM-dd"));
+    const [plan, setPlan] = useState<AssignmentPlanRow[] | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [busy, setBusy] = useState(false);
+
+    const placeable = plan?.filter((row) => row.roomId) ?? [];
+    const floorOf = (roomId: string | null) => rooms.find((r) => r.id === roomId)?.floor;
+
+    const buildPlan = async () => {
+        setBusy(true);
+        const rows = await onPlan(from, to);
+        setPlan(rows);
+        setSelected(new Set(rows?.filter((row) => row.roomId).map((row) => row.booking.id)));
+        setBusy(false);
+    };
+
+    const applyPlan = async () => {
+        setBusy(true);
+        const applied = await onApply(placeable.filter((row) => selected.has(row.booking.id)));
+        setBusy(false);
+        if (applied) {
+            setPlan(null);
+            onOpenChange(false);
+        }
+    };
+
+    const toggle = (bookingId: string) =>
+        setSelected((current) => {
+            const next = new Set(current);
+            if (next.has(bookingId)) next.delete(bookingId);
+            else next.add(bookingId);
+            return next;
+        });
+
+    return (
+        <Dialog.Root open={open} onOpenChange={onOpenChange}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 z-50 bg-black/40" />
+                <Dialog.Content className="fixed left-1/2 top-[5%] sm:top-1/2 z-50 w-[min(720px,94vw)] max-h-[90vh] -translate-x-1/2 sm:-translate-y-1/2 rounded-2xl bg-white p-4 sm:p-6 shadow-2xl flex flex-col overflow-hidden">
+                    <div className="flex items-start justify-between flex-shrink-0">
+                        <div>
+                            <Dialog.Title className="text-lg font-semibold text-slate-900">
+                                Auto-assign rooms
+                            </Dialog.Title>
+                            <Dialog.Description className="text-sm text-slate-600">
+                                Proposes a room for every unassigned booking arriving or staying in the range.
+                                Nothing is saved until you confirm.
+                            </Dialog.Description>
+                        </div>
+                        <Dialog.Close className="text-slate-500 hover:text-slate-700 flex-shrink-0 ml-2">
+                            <Cross2Icon />
+                        </Dialog.Close>
+                    </div>
+
+                    <div className="mt-4 grid gap-2 sm:grid-cols-[1fr,1fr,auto] sm:items-end flex-shrink-0">
+                        <label className="space-y-1 text-xs text-slate-600">
+                            From
+                            <input
+                                type="date"
+                                className={inputClass}
+                                value={from}
+                                onChange={(e) => setFrom(e.target.value)}
+                            />
+                        </label>
+                        <label className="space-y-1 text-xs text-slate-600">
+                            To
+                            <input
+                                type="date"
+                                className={inputClass}
+                                value={to}
+                                min={from}
+                                onChange={(e) => setTo(e.target.value)}
+                            />
+                        </label>
+                        <button
+                            className={ghostButton}
+                            disabled={busy || !from || !to || from >= to}
+                            onClick={() => void buildPlan()}
+                        >
+                            {busy && !plan ? "Planning..." : "Propose plan"}
+                        </button>
+                    </div>
+
+                    <div className="mt-4 overflow-y-auto flex-1 min-h-0 pr-1 -mr-1">
+                        {plan === null ? null : plan.length === 0 ? (
+                            <p className="rounded-xl border border-dashed border-slate-300 bg-slate-50 px-4 py-4 text-sm text-slate-600">
+                                No unassigned bookings in that range.
+                            </p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-xs uppercase tracking-wide text-slate-500">
+                                        <th className="w-8 py-2" />
+                                        <th className="py-2">Guest</th>
+                                        <th className="py-2">Stay</th>
+                                        <th className="py-2">Proposed room</th>
+                                        <th className="py-2 text-right">Total</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100">
+                                    {plan.map((row) => (
+                                        <tr key={row.booking.id} className={row.roomId ? undefined : "text-slate-500"}>
+                                            <td className="py-2">
+                                                {row.roomId && (
+                                                    <input
+                                                        type="checkbox"
+                                                        className="h-4 w-4 rounded border-slate-300"
+                                                        checked={selected.has(row.booking.id)}
+                                                        onChange={() => toggle(row.booking.id)}
+                                                    />
+                                                )}
+                                            </td>
+                                            <td className="py-2 font-medium text-slate-900">
+                                                {row.booking.guest_name}
+                                                <span className="ml-1 text-xs font-normal text-slate-500">
+                                                    ({partySize(row.booking)})
+                                                </span>
+                                            </td>
+                                            <td className="py-2 text-xs">
+                                                {format(parseISO(row.booking.check_in), "MMM d")} →{" "}
+                                                {format(parseISO(row.booking.check_out), "MMM d")}
+                                            </td>
+                                            <td className="py-2">
+                                                {row.roomId ? (
+                                                    <>
+                                                        Room {row.roomNumber}
+                                                        {floorOf(row.roomId) && (
+                                                            <span className="ml-1 text-xs text-slate-500">
+                                                                · floor {floorOf(row.roomId)}
+                                                            </span>
+                                                        )}
+                                                    </>
+                                                ) : (
+                                                    <span className="text-xs text-rose-700">{row.reason}</span>
+                                                )}
+                                            </td>
+                                            <td className="py-2 text-right text-xs">
+                                                {row.total !== null ? currencyFormatter.format(row.total) : "—"}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+
+                    <div className="mt-4 flex items-center justify-between gap-2 flex-shrink-0">
+                        <p className="text-xs text-slate-500">
+                            {plan && `${placeable.length} of ${plan.length} can be placed`}
+                        </p>
+                        <button
+                            className={primaryButton}
+                            disabled={busy || selected.size === 0 || !plan}
+                            onClick={() => void applyPlan()}
+                        >
+                            {busy && plan ? "Assigning..." : `Assign ${selected.size} booking${selected.size === 1 ? "" : "s"}`}
+                        </button>
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
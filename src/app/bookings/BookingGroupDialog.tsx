@@ -0,0 +1,260 @@
+import { Booking, BookingGroup, Room } from "../types";
+import { Cross2Icon } from "@radix-ui/react-icons";
+import * as Dialog from "@radix-ui/react-dialog";
+import clsx from "clsx";
+import { format } from "date-fns";
+import { useMemo, useState } from "react";
+
+const buttonBase =
+    "inline-flex h-10 items-center justify-center gap-2 rounded-lg px-4 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-400 disabled:opacity-60";
+const primaryButton = `${buttonBase} bg-black text-white hover:bg-slate-900`;
+const ghostButton = `${buttonBase} border border-slate-200 bg-white text-slate-700 hover:bg-slate-50`;
+const dangerButton = `${buttonBase} bg-red-50 text-red-600 border border-red-200 hover:bg-red-100`;
+
+function FieldLabel({ children }: { children: React.ReactNode }) {
+    return <label className="text-sm font-medium text-slate-700">{children}</label>;
+}
+
+function Input(props: React.InputHTMLAttributes<HTMLInputElement>) {
+    return (
+        <input
+            {...props}
+            className={clsx(
+                "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100",
+                props.className,
+            )}
+        />
+    );
+}
+
+const formatDateRange = (from: string, to: string) => {
+    try {
+        return `${format(new Date(from), "MMM d")} - ${format(new Date(to), "MMM d, yyyy")}`;
+    } catch {
+        return `${from} → ${to}`;
+    }
+};
+
+export type PartyGuest = Pick<Booking, "guest_name" | "guest_email" | "guest_passport">;
+
+type BookingGroupDialogProps = {
+    group: BookingGroup | null;
+    bookings: Booking[];
+    rooms: Room[];
+    loading: boolean;
+    onOpenChange: (open: boolean) => void;
+    onRename: (name: string) => Promise<void>;
+    onReschedule: (checkIn: string, checkOut: string) => Promise<void>;
+    onUpdateGuest: (guest: PartyGuest) => Promise<void>;
+    onCancelGroup: () => Promise<void>;
+    onSplitBooking: (bookingId: string) => Promise<void>;
+    onEditBooking: (booking: Booking) => void;
+};
+
+// Remount with `key={group.id}` so the drafts reset when another party is opened.
+export function BookingGroupDialog({
+    group,
+    bookings,
+    rooms,
+    loading,
+    onOpenChange,
+    onRename,
+    onReschedule,
+    onUpdateGuest,
+    onCancelGroup,
+    onSplitBooking,
+    onEditBooking,
+}: BookingGroupDialogProps) {
+    const roomNumberById = useMemo(() => new Map(rooms.map((r) => [r.id, r.number])), [rooms]);
+    const activeBookings = bookings.filter(
+        (b) => b.status !== "cancelled" && b.status !== "checked_out",
+    );
+    const cancellableCount = bookings.filter(
+        (b) => b.status === "tentative" || b.status === "reserved",
+    ).length;
+
+    const [nameDraft, setNameDraft] = useState(group?.name ?? "");
+    const [checkIn, setCheckIn] = useState(activeBookings[0]?.check_in ?? "");
+    const [checkOut, setCheckOut] = useState(activeBookings[0]?.check_out ?? "");
+    const [guestName, setGuestName] = useState(bookings[0]?.guest_name ?? "");
+    const [guestEmail, setGuestEmail] = useState(bookings[0]?.guest_email ?? "");
+    const [guestPassport, setGuestPassport] = useState(bookings[0]?.guest_passport ?? "");
+    const [confirmingCancel, setConfirmingCancel] = useState(false);
+    const [busy, setBusy] = useState(false);
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        await action();
+        setBusy(false);
+    };
+
+    return (
+        <Dialog.Root open={!!group} onOpenChange={onOpenChange}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 z-50 bg-black/40" />
+                <Dialog.Content className="fixed left-1/2 top-[5%] sm:top-1/2 z-50 w-[min(600px,94vw)] max-h-[90vh] -translate-x-1/2 sm:-translate-y-1/2 rounded-2xl bg-white p-4 sm:p-6 shadow-2xl flex flex-col overflow-hidden">
+                    <div className="flex items-start justify-between flex-shrink-0">
+                        <div>
+                            <Dialog.Title className="text-lg font-semibold text-slate-900">
+                                {group?.name ?? "Party"}
+                            </Dialog.Title>
+                            <Dialog.Description className="text-sm text-slate-600">
+                                {bookings.length} room{bookings.length !== 1 ? "s" : ""} booked together. Changes here apply to the whole party.
+                            </Dialog.Description>
+                        </div>
+                        <Dialog.Close className="text-slate-500 hover:text-slate-700 flex-shrink-0 ml-2">
+                            <Cross2Icon />
+                        </Dialog.Close>
+                    </div>
+
+                    <div className="mt-4 space-y-4 overflow-y-auto flex-1 min-h-0 pr-1 -mr-1">
+                        <div className="space-y-1">
+                            <FieldLabel>Party name</FieldLabel>
+                            <div className="flex gap-2">
+                                <Input
+                                    value={nameDraft}
+                                    onChange={(e) => setNameDraft(e.target.value)}
+                                    placeholder="Smith wedding"
+                                />
+                                <button
+                                    className={ghostButton}
+                                    disabled={busy || !nameDraft.trim() || nameDraft.trim() === group?.name}
+                                    onClick={() => run(() => onRename(nameDraft.trim()))}
+                                >
+                                    Rename
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+                            <FieldLabel>Dates for all rooms</FieldLabel>
+                            <div className="grid gap-3 sm:grid-cols-[1fr,1fr,auto] sm:items-end">
+                                <div className="space-y-1">
+                                    <span className="text-xs text-slate-500">Check-in</span>
+                                    <Input type="date" value={checkIn} onChange={(e) => setCheckIn(e.target.value)} />
+                                </div>
+                                <div className="space-y-1">
+                                    <span className="text-xs text-slate-500">Check-out</span>
+                                    <Input type="date" value={checkOut} onChange={(e) => setCheckOut(e.target.value)} />
+                                </div>
+                                <button
+                                    className={primaryButton}
+                                    disabled={busy || activeBookings.length === 0}
+                                    onClick={() => run(() => onReschedule(checkIn, checkOut))}
+                                >
+                                    Move party
+                                </button>
+                            </div>
+                            <p className="text-[10px] text-slate-500">
+                                Cancelled and checked-out rooms keep their original dates.
+                            </p>
+                        </div>
+
+                        <div className="space-y-2 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+                            <FieldLabel>Lead guest for all rooms</FieldLabel>
+                            <div className="grid gap-3 sm:grid-cols-3">
+                                <div className="space-y-1">
+                                    <span className="text-xs text-slate-500">Name</span>
+                                    <Input value={guestName} onChange={(e) => setGuestName(e.target.value)} />
+                                </div>
+                                <div className="space-y-1">
+                                    <span className="text-xs text-slate-500">Email</span>
+                                    <Input type="email" value={guestEmail} onChange={(e) => setGuestEmail(e.target.value)} />
+                                </div>
+                                <div className="space-y-1">
+                                    <span className="text-xs text-slate-500">Passport</span>
+                                    <Input value={guestPassport} onChange={(e) => setGuestPassport(e.target.value)} />
+                                </div>
+                            </div>
+                            <div className="flex items-center justify-between gap-3">
+                                <p className="text-[10px] text-slate-500">
+                                    Other occupants stay on each room&apos;s own booking.
+                                </p>
+                                <button
+                                    className={ghostButton}
+                                    disabled={busy || bookings.length === 0 || !guestName.trim()}
+                                    onClick={() =>
+                                        run(() =>
+                                            onUpdateGuest({
+                                                guest_name: guestName.trim(),
+                                                guest_email: guestEmail.trim() || null,
+                                                guest_passport: guestPassport.trim() || null,
+                                            }),
+                                        )
+                                    }
+                                >
+                                    Update guest
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <FieldLabel>Rooms</FieldLabel>
+                            {loading ? (
+                                <div className="rounded-lg border border-slate-200 bg-slate-50 px-4 py-6 text-sm text-slate-600">
+                                    Loading party...
+                                </div>
+                            ) : (
+                                <div className="divide-y divide-slate-100 rounded-xl border border-slate-200">
+                                    {bookings.map((booking) => (
+                                        <div key={booking.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+                                            <div>
+                                                <p className="text-sm font-semibold text-slate-900">
+                                                    {booking.room_id
+                                                        ? `Room ${roomNumberById.get(booking.room_id) ?? "?"}`
+                                                        : "Unassigned"}
+                                                </p>
+                                                <p className="text-xs text-slate-500">
+                                                    {booking.guest_name} • {formatDateRange(booking.check_in, booking.check_out)}
+                                                </p>
+                                                <p className="text-[10px] capitalize text-slate-400">
+                                                    {booking.status.replace("_", " ")}
+                                                </p>
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                <button
+                                                    className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                                                    onClick={() => onEditBooking(booking)}
+                                                >
+                                                    Edit
+                                                </button>
+                                                <button
+                                                    className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-60"
+                                                    disabled={busy}
+                                                    onClick={() => run(() => onSplitBooking(booking.id))}
+                                                    title="Remove this room from the party and keep it as its own booking"
+                                                >
+                                                    Split off
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="mt-5 flex flex-col-reverse sm:flex-row sm:items-center justify-between gap-2 flex-shrink-0 pt-4 border-t border-slate-100">
+                        <button
+                            className={dangerButton}
+                            disabled={busy || cancellableCount === 0}
+                            onClick={() => {
+                                if (!confirmingCancel) {
+                                    setConfirmingCancel(true);
+                                    return;
+                                }
+                                setConfirmingCancel(false);
+                                void run(onCancelGroup);
+                            }}
+                        >
+                            {confirmingCancel
+                                ? `Confirm: cancel ${cancellableCount} room${cancellableCount !== 1 ? "s" : ""}`
+                                : "Cancel whole party"}
+                        </button>
+                        <Dialog.Close className={ghostButton}>Close</Dialog.Close>
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
@@ -0,0 +1,177 @@
+import { AuditEntry, BookingLog, EmailLogEntry, Room, bookingLogActions, emailEvents } from "../types";
+import { BOOKING_LOG_COLUMNS, bookingLogActor, bookingLogSummary } from "@/lib/activity";
+import { AUDIT_COLUMNS, AuditChange, auditChanges, auditFieldLabel, formatAuditValue } from "@/lib/auditLog";
+import { supabase } from "@/lib/supabase/client";
+import clsx from "clsx";
+import { format } from "date-fns";
+import { useEffect, useMemo, useState } from "react";
+
+type TimelineEvent = {
+    key: string;
+    at: string;
+    title: string;
+    actor: string;
+    detail?: string;
+    changes?: AuditChange[];
+    showBefore?: boolean; // updates show old → new, snapshots just the values
+    tone: "neutral" | "good" | "bad";
+};
+
+const toneDots: Record<TimelineEvent["tone"], string> = {
+    neutral: "bg-slate-300",
+    good: "bg-emerald-500",
+    bad: "bg-red-500",
+};
+
+const auditTitles: Record<AuditEntry["action"], string> = {
+    insert: "Booking created",
+    update: "Booking changed",
+    delete: "Booking deleted",
+};
+
+const emailTitle = (entry: EmailLogEntry) => {
+    const label =
+        entry.event === "hold_reminder"
+            ? "Hold reminder"
+            : (emailEvents.find((e) => e.value === entry.event)?.label ?? entry.event);
+    return `Email ${entry.status}: ${label}`;
+};
+
+const buildTimeline = (audit: AuditEntry[], logs: BookingLog[], emails: EmailLogEntry[]): TimelineEvent[] => {
+    // booking_logs only fills in what happened before the audit log was recording this booking
+    const auditStart = audit[0]?.created_at;
+    const olderLogs = auditStart ? logs.filter((log) => log.performed_at < auditStart) : logs;
+
+    return [
+        ...audit.map((entry) => ({
+            key: `audit-${entry.id}`,
+            at: entry.created_at,
+            title: auditTitles[entry.action],
+            actor: entry.actor?.display_name ?? (entry.actor_id ? "Removed user" : "System"),
+            changes: auditChanges(entry),
+            showBefore: entry.action === "update",
+            tone: (entry.action === "delete" ? "bad" : entry.action === "insert" ? "good" : "neutral") as TimelineEvent["tone"],
+        })),
+        ...olderLogs.map((log) => ({
+            key: `log-${log.id}`,
+            at: log.performed_at,
+            title: bookingLogActions.find((a) => a.value === log.action)?.label ?? log.action,
+            actor: bookingLogActor(log),
+            detail: bookingLogSummary(log),
+            tone: (log.action === "create" ? "good" : log.action === "update" ? "neutral" : "bad") as TimelineEvent["tone"],
+        })),
+        ...emails.map((entry) => ({
+            key: `email-${entry.id}`,
+            at: entry.created_at,
+            title: emailTitle(entry),
+            actor: "System",
+            detail: [entry.recipient, entry.error].filter(Boolean).join(" · "),
+            tone: (entry.status === "failed" ? "bad" : "neutral") as TimelineEvent["tone"],
+        })),
+    ].sort((a, b) => a.at.localeCompare(b.at));
+};
+
+type BookingHistoryPanelProps = {
+    bookingId: string;
+    rooms: Room[];
+};
+
+export function BookingHistoryPanel({ bookingId, rooms }: BookingHistoryPanelProps) {
+    const [events, setEvents] = useState<TimelineEvent[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        Promise.all([
+            supabase
+                .from("audit_log")
+                .select(AUDIT_COLUMNS)
+                .eq("entity", "bookings")
+                .eq("entity_id", bookingId)
+                .order("created_at"),
+            supabase
+                .from("booking_logs")
+                .select(BOOKING_LOG_COLUMNS)
+                .eq("booking_id", bookingId)
+                .order("performed_at"),
+            supabase
+                .from("email_log")
+                .select("id, property_id, booking_id, event, recipient, subject, transport, status, error, created_at")
+                .eq("booking_id", bookingId)
+                .order("created_at"),
+        ]).then(([auditRes, logRes, emailRes]) => {
+            const loadError = auditRes.error ?? logRes.error ?? emailRes.error;
+            if (loadError) setError(loadError.message);
+            setEvents(
+                buildTimeline(
+                    (auditRes.data ?? []) as unknown as AuditEntry[],
+                    (logRes.data ?? []) as BookingLog[],
+                    (emailRes.data ?? []) as EmailLogEntry[],
+                ),
+            );
+        });
+    }, [bookingId]);
+
+    const roomNames = useMemo(() => new Map(rooms.map((r) => [r.id, `Room ${r.number}`])), [rooms]);
+
+    if (!events) {
+        return (
+            <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-4 text-xs text-slate-600">
+                Loading history...
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            {error && <p className="text-xs font-semibold text-red-600">{error}</p>}
+            {events.length === 0 ? (
+                <p className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-4 text-xs text-slate-600">
+                    Nothing recorded for this booking yet.
+                </p>
+            ) : (
+                <ol className="relative space-y-4 border-l border-slate-200 pl-4">
+                    {events.map((event) => (
+                        <li key={event.key} className="relative">
+                            <span
+                                className={clsx(
+                                    "absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full ring-2 ring-white",
+                                    toneDots[event.tone],
+                                )}
+                            />
+                            <div className="flex flex-wrap items-baseline justify-between gap-x-2">
+                                <p className="text-sm font-semibold text-slate-900">{event.title}</p>
+                                <p className="text-[11px] text-slate-500">
+                                    {event.actor} · {format(new Date(event.at), "MMM d, yyyy HH:mm")}
+                                </p>
+                            </div>
+                            {event.detail && <p className="text-xs text-slate-600">{event.detail}</p>}
+                            {event.changes && event.changes.length > 0 && (
+                                <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+                                    {event.changes.map((change) => (
+                                        <div key={change.field} className="contents">
+                                            <dt className="text-slate-500">{auditFieldLabel(change.field)}</dt>
+                                            <dd className="break-all text-slate-800">
+                                                {event.showBefore && (
+                                                    <>
+                                                        <span className="text-red-700 line-through">
+                                                            {formatAuditValue(change.before, roomNames)}
+                                                        </span>
+                                                        {" → "}
+                                                    </>
+                                                )}
+                                                {formatAuditValue(
+                                                    change.after === undefined ? change.before : change.after,
+                                                    roomNames,
+                                                )}
+                                            </dd>
+                                        </div>
+                                    ))}
+                                </dl>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+}
@@ -16,8 +16,12 @@ import {
 import * as Dialog from "@radix-ui/react-dialog";
 import * as Select from "@radix-ui/react-select";
 import clsx from "clsx"; // Assuming clsx is used in the project
+import Link from "next/link";
+import { ExportMenu } from "@/components/ExportMenu";
+import type { ExportFormat } from "@/lib/export";
+import { formatParty, otherGuestNames, partySize } from "@/lib/party";
 import { format, addMonths, startOfMonth } from "date-fns";
-import { useMemo, useState } from "react";
+import { Fragment, useMemo, useState } from "react";
 
 // --- Sub-components / Helpers ---
 
@@ -149,7 +153,12 @@ const formatDateRange = (from: string, to: string) => {
 
 // --- Main Component ---
 
+type BookingListItem =
+    | { kind: "booking"; booking: Booking }
+    | { kind: "group"; groupId: string; name: string; bookings: Booking[] };
+
 type BookingsViewProps = {
+    propertyId: string;
     bookings: Booking[];
     rooms: Room[];
     counts: {
@@ -166,13 +175,17 @@ type BookingsViewProps = {
     searchQuery: string;
     onSearchChange: (query: string) => void;
     onEditBooking: (booking: Booking) => void;
+    onOpenGroup: (groupId: string) => void;
     onUpdateStatus: (id: string, status: string) => void;
     onDeleteBooking: (id: string) => void;
+    onExport: (format: ExportFormat) => Promise<void>;
+    onAutoAssign?: () => void;
     currentMonth: Date;
     onMonthChange: (next: Date) => void;
 };
 
 export function BookingsView({
+    propertyId,
     bookings,
     rooms,
     counts,
@@ -185,12 +198,16 @@ export function BookingsView({
     searchQuery,
     onSearchChange,
     onEditBooking,
+    onOpenGroup,
     onUpdateStatus,
     onDeleteBooking,
+    onExport,
+    onAutoAssign,
     currentMonth,
     onMonthChange,
 }: BookingsViewProps) {
     const [bookingToDelete, setBookingToDelete] = useState<Booking | null>(null);
+    const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
     const roomNumberById = useMemo(() => new Map(rooms.map((r) => [r.id, r.number])), [rooms]);
 
     const totalPages = counts.total > 0 ? Math.ceil(counts.total / counts.pageSize) : 0;
@@ -220,6 +237,213 @@ export function BookingsView({
         setBookingToDelete(booking);
     };
 
+    // Collapse rows of the same party under one entry, placed where its first room appears
+    const listItems = useMemo<BookingListItem[]>(() => {
+        const items: BookingListItem[] = [];
+        const groupItems = new Map<string, Extract<BookingListItem, { kind: "group" }>>();
+        bookings.forEach((booking) => {
+            if (!booking.group_id) {
+                items.push({ kind: "booking", booking });
+                return;
+            }
+            const existing = groupItems.get(booking.group_id);
+            if (existing) {
+                existing.bookings.push(booking);
+                return;
+            }
+            const item = {
+                kind: "group" as const,
+                groupId: booking.group_id,
+                name: booking.group_name || booking.guest_name,
+                bookings: [booking],
+            };
+            groupItems.set(booking.group_id, item);
+            items.push(item);
+        });
+        return items;
+    }, [bookings]);
+
+    const toggleGroup = (groupId: string) => {
+        setExpandedGroups((prev) => {
+            const next = new Set(prev);
+            if (next.has(groupId)) {
+                next.delete(groupId);
+            } else {
+                next.add(groupId);
+            }
+            return next;
+        });
+    };
+
+    const renderBookingCard = (booking: Booking, nested = false) => (
+        <div
+            key={booking.id}
+            className={clsx(
+                "rounded-xl border border-slate-200 bg-white p-4 shadow-sm",
+                nested && "ml-4 border-l-4 border-l-emerald-200",
+            )}
+        >
+            <div className="flex items-start justify-between gap-3">
+                <div>
+                    <p className="text-sm font-semibold text-slate-900">{booking.guest_name}</p>
+                    <p className="text-xs text-slate-500">{booking.guest_email || "No email"}</p>
+                    {booking.created_by_name && (
+                        <p className="text-[11px] text-slate-400 mt-0.5">Created by: {booking.created_by_name}</p>
+                    )}
+                    {otherGuestNames(booking) && (
+                        <p className="text-[11px] text-slate-500">+ {otherGuestNames(booking)}</p>
+                    )}
+                </div>
+                <StatusPill status={booking.status} palette="booking" />
+            </div>
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                <span className="rounded-lg bg-slate-50 px-2 py-1">
+                    {formatDateRange(booking.check_in, booking.check_out)}
+                </span>
+                <span>
+                    {booking.room_id ? `Room ${roomNumberById.get(booking.room_id) ?? "?"}` : "Unassigned"}
+                </span>
+                {booking.reference_code && (
+                    <span className="text-[11px] text-slate-500">Ref: {booking.reference_code}</span>
+                )}
+            </div>
+            <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                {booking.guest_passport && (
+                    <span className="rounded bg-slate-100 px-2 py-1">Pass: {booking.guest_passport}</span>
+                )}
+                {partySize(booking) > 1 && (
+                    <span className="rounded bg-slate-100 px-2 py-1">Guests: {formatParty(booking)}</span>
+                )}
+            </div>
+            <div className="mt-4 flex items-center gap-2">
+                {booking.status === "tentative" && (
+                    <button
+                        onClick={() => onUpdateStatus(booking.id, "reserved")}
+                        className="flex-1 rounded-lg bg-emerald-600 px-3 py-2 text-xs font-semibold text-white shadow-sm hover:bg-emerald-700"
+                    >
+                        Confirm
+                    </button>
+                )}
+                {booking.status === "checked_in" && (
+                    <button
+                        onClick={() => onUpdateStatus(booking.id, "checked_out")}
+                        className="flex-1 rounded-lg bg-slate-900 px-3 py-2 text-xs font-semibold text-white shadow-sm hover:bg-slate-800"
+                    >
+                        Check out
+                    </button>
+                )}
+                {booking.status === "checked_out" && (
+                    <Link
+                        href={`/bookings/${booking.id}/invoice`}
+                        className="flex-1 rounded-lg border border-slate-200 px-3 py-2 text-center text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                    >
+                        Invoice
+                    </Link>
+                )}
+                <button
+                    onClick={() => onEditBooking(booking)}
+                    className="flex-1 rounded-lg border border-slate-200 px-3 py-2 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                >
+                    Edit
+                </button>
+                <button
+                    onClick={() => handleDeleteClick(booking)}
+                    className="rounded-lg border border-rose-200 px-3 py-2 text-xs font-semibold text-rose-700 hover:bg-rose-50"
+                >
+                    Delete
+                </button>
+            </div>
+        </div>
+    );
+
+    const renderBookingRow = (booking: Booking, nested = false) => (
+        <tr key={booking.id} className={clsx("group hover:bg-slate-50/50", nested && "bg-emerald-50/20")}>
+            <td className={clsx("py-4 whitespace-nowrap", nested ? "pl-12 pr-6" : "px-6")}>
+                <div className="flex flex-col">
+                    <span className="text-sm font-semibold text-slate-900">{booking.guest_name}</span>
+                    <span className="text-xs text-slate-500">{booking.guest_email || "No email"}</span>
+                    {booking.created_by_name && (
+                        <span className="text-[10px] text-slate-400 mt-0.5">Created by: {booking.created_by_name}</span>
+                    )}
+                    {otherGuestNames(booking) && (
+                        <span className="text-xs text-slate-500">+ {otherGuestNames(booking)}</span>
+                    )}
+                    {partySize(booking) > 1 && (
+                        <span className="text-[10px] text-slate-500">Guests: {formatParty(booking)}</span>
+                    )}
+                    {booking.guest_passport && (
+                        <span className="text-[10px] text-slate-400">Pass: {booking.guest_passport}</span>
+                    )}
+                </div>
+            </td>
+            <td className="px-6 py-4 whitespace-nowrap">
+                <span className="text-sm text-slate-700">
+                    {booking.room_id
+                        ? roomNumberById.get(booking.room_id) ?? "Unk"
+                        : "—"}
+                </span>
+            </td>
+            <td className="px-6 py-4 whitespace-nowrap">
+                <StatusPill status={booking.status} palette="booking" />
+            </td>
+            <td className="px-6 py-4 whitespace-nowrap">
+                <div className="flex flex-col">
+                    <span className="text-sm text-slate-700">{formatDateRange(booking.check_in, booking.check_out)}</span>
+                    {booking.reference_code && (
+                        <span className="text-[10px] text-slate-400">Ref: {booking.reference_code}</span>
+                    )}
+                </div>
+            </td>
+            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                <div className="flex items-center justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    {booking.status === "tentative" && (
+                        <button
+                            onClick={() => onUpdateStatus(booking.id, "reserved")}
+                            className="rounded bg-emerald-50 px-2 py-1 text-xs font-semibold text-emerald-600 hover:bg-emerald-100"
+                            title="Confirm booking"
+                        >
+                            Confirm
+                        </button>
+                    )}
+                    {booking.status === "checked_in" && (
+                        <button
+                            onClick={() => onUpdateStatus(booking.id, "checked_out")}
+                            className="rounded bg-slate-100 px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-200"
+                            title="Check out guest"
+                        >
+                            Check out
+                        </button>
+                    )}
+                    {booking.status === "checked_out" && (
+                        <Link
+                            href={`/bookings/${booking.id}/invoice`}
+                            className="rounded bg-slate-100 px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-200"
+                            title="Print invoice"
+                        >
+                            Invoice
+                        </Link>
+                    )}
+                    <button
+                        onClick={() => onEditBooking(booking)}
+                        className="text-slate-600 hover:text-blue-600"
+                        title="Edit"
+                    >
+                        Edit
+                    </button>
+                    <div className="h-4 w-px bg-slate-300 mx-1" />
+
+                    <button
+                        onClick={() => handleDeleteClick(booking)}
+                        className="text-slate-600 hover:text-red-600"
+                        title="Delete"
+                    >
+                        Delete
+                    </button>
+                </div>
+            </td>
+        </tr>
+    );
+
     const confirmDelete = () => {
         if (bookingToDelete) {
             onDeleteBooking(bookingToDelete.id);
@@ -234,16 +458,33 @@ export function BookingsView({
                     <h3 className="text-lg font-semibold text-slate-900">Bookings</h3>
                     <p className="text-sm text-slate-500">Manage reservations and guest stays</p>
                 </div>
-                <div className="relative w-full sm:w-64">
-                    <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-slate-400">
-                        <MagnifyingGlassIcon />
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                    {onAutoAssign && (
+                        <button
+                            className="inline-flex h-10 items-center justify-center rounded-lg border border-slate-200 bg-white px-4 text-sm font-semibold text-slate-700 hover:bg-slate-50"
+                            onClick={onAutoAssign}
+                        >
+                            Auto-assign
+                        </button>
+                    )}
+                    <Link
+                        href={`/bookings/import?propertyId=${propertyId}`}
+                        className="inline-flex h-10 items-center justify-center rounded-lg border border-slate-200 bg-white px-4 text-sm font-semibold text-slate-700 hover:bg-slate-50"
+                    >
+                        Import CSV
+                    </Link>
+                    <ExportMenu onExport={onExport} />
+                    <div className="relative w-full sm:w-64">
+                        <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-slate-400">
+                            <MagnifyingGlassIcon />
+                        </div>
+                        <Input
+                            value={searchQuery}
+                            onChange={(e) => onSearchChange(e.target.value)}
+                            placeholder="Search guests..."
+                            className="pl-9"
+                        />
                     </div>
-                    <Input
-                        value={searchQuery}
-                        onChange={(e) => onSearchChange(e.target.value)}
-                        placeholder="Search guests..."
-                        className="pl-9"
-                    />
                 </div>
             </div>
 
@@ -367,72 +608,38 @@ export function BookingsView({
                             No bookings found matching your filters.
                         </div>
                     ) : (
-                        bookings.map((booking) => (
-                            <div
-                                key={booking.id}
-                                className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm"
-                            >
-                                <div className="flex items-start justify-between gap-3">
-                                    <div>
-                                        <p className="text-sm font-semibold text-slate-900">{booking.guest_name}</p>
-                                        <p className="text-xs text-slate-500">{booking.guest_email || "No email"}</p>
-                                        {booking.created_by_name && (
-                                            <p className="text-[11px] text-slate-400 mt-0.5">Created by: {booking.created_by_name}</p>
-                                        )}
-                                        {booking.second_guest_name && (
-                                            <p className="text-[11px] text-slate-500">+ {booking.second_guest_name}</p>
-                                        )}
+                        listItems.map((item) =>
+                            item.kind === "booking" ? (
+                                renderBookingCard(item.booking)
+                            ) : (
+                                <div key={item.groupId} className="space-y-2">
+                                    <div className="rounded-xl border border-emerald-200 bg-emerald-50/60 p-4 shadow-sm">
+                                        <div className="flex items-start justify-between gap-3">
+                                            <button
+                                                className="flex items-center gap-2 text-left"
+                                                onClick={() => toggleGroup(item.groupId)}
+                                            >
+                                                {expandedGroups.has(item.groupId) ? <ChevronDownIcon /> : <ChevronRightIcon />}
+                                                <div>
+                                                    <p className="text-sm font-semibold text-slate-900">{item.name}</p>
+                                                    <p className="text-xs text-slate-500">
+                                                        Party • {item.bookings.length} room{item.bookings.length !== 1 ? "s" : ""} • {formatDateRange(item.bookings[0].check_in, item.bookings[0].check_out)}
+                                                    </p>
+                                                </div>
+                                            </button>
+                                            <button
+                                                onClick={() => onOpenGroup(item.groupId)}
+                                                className="rounded-lg border border-emerald-200 bg-white px-3 py-1.5 text-xs font-semibold text-emerald-700 hover:bg-emerald-50"
+                                            >
+                                                Manage
+                                            </button>
+                                        </div>
                                     </div>
-                                    <StatusPill status={booking.status} palette="booking" />
-                                </div>
-                                <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-slate-600">
-                                    <span className="rounded-lg bg-slate-50 px-2 py-1">
-                                        {formatDateRange(booking.check_in, booking.check_out)}
-                                    </span>
-                                    <span>
-                                        {booking.room_id ? `Room ${roomNumberById.get(booking.room_id) ?? "?"}` : "Unassigned"}
-                                    </span>
-                                    {booking.reference_code && (
-                                        <span className="text-[11px] text-slate-500">Ref: {booking.reference_code}</span>
-                                    )}
-                                </div>
-                                <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-slate-600">
-                                    {(booking.guest_passport || booking.second_guest_passport) && (
-                                        <span className="rounded bg-slate-100 px-2 py-1">
-                                            {booking.guest_passport ? `Pass: ${booking.guest_passport}` : ""}
-                                            {booking.second_guest_passport
-                                                ? `${booking.guest_passport ? " • " : ""}Pass 2: ${booking.second_guest_passport}`
-                                                : ""}
-                                        </span>
-                                    )}
-                                    {(booking.adults ?? 1) > 1 && (
-                                        <span className="rounded bg-slate-100 px-2 py-1">Guests: {booking.adults ?? 1}</span>
-                                    )}
-                                </div>
-                                <div className="mt-4 flex items-center gap-2">
-                                    {booking.status === "tentative" && (
-                                        <button
-                                            onClick={() => onUpdateStatus(booking.id, "reserved")}
-                                            className="flex-1 rounded-lg bg-emerald-600 px-3 py-2 text-xs font-semibold text-white shadow-sm hover:bg-emerald-700"
-                                        >
-                                            Confirm
-                                        </button>
-                                    )}
-                                    <button
-                                        onClick={() => onEditBooking(booking)}
-                                        className="flex-1 rounded-lg border border-slate-200 px-3 py-2 text-xs font-semibold text-slate-700 hover:bg-slate-50"
-                                    >
-                                        Edit
-                                    </button>
-                                    <button
-                                        onClick={() => handleDeleteClick(booking)}
-                                        className="rounded-lg border border-rose-200 px-3 py-2 text-xs font-semibold text-rose-700 hover:bg-rose-50"
-                                    >
-                                        Delete
-                                    </button>
+                                    {expandedGroups.has(item.groupId) &&
+                                        item.bookings.map((booking) => renderBookingCard(booking, true))}
                                 </div>
-                            </div>
-                        ))
+                            )
+                        )
                     )}
                 </div>
 
@@ -463,83 +670,59 @@ export function BookingsView({
                                         </td>
                                     </tr>
                                 ) : (
-                                    bookings.map((booking) => (
-                                        <tr key={booking.id} className="group hover:bg-slate-50/50">
-                                            <td className="px-6 py-4 whitespace-nowrap">
-                                                <div className="flex flex-col">
-                                                    <span className="text-sm font-semibold text-slate-900">{booking.guest_name}</span>
-                                                    <span className="text-xs text-slate-500">{booking.guest_email || "No email"}</span>
-                                                    {booking.created_by_name && (
-                                                        <span className="text-[10px] text-slate-400 mt-0.5">Created by: {booking.created_by_name}</span>
-                                                    )}
-                                                    {booking.second_guest_name && (
-                                                        <span className="text-xs text-slate-500">+ {booking.second_guest_name}</span>
-                                                    )}
-                                                    {booking.second_guest_email && (
-                                                        <span className="text-[10px] text-slate-400">{booking.second_guest_email}</span>
-                                                    )}
-                                                    {(booking.adults ?? 1) > 1 && (
-                                                        <span className="text-[10px] text-slate-500">Guests: {booking.adults ?? 1}</span>
-                                                    )}
-                                                    {(booking.guest_passport || booking.second_guest_passport) && (
-                                                        <span className="text-[10px] text-slate-400">
-                                                            {booking.guest_passport ? `Pass: ${booking.guest_passport}` : ""}
-                                                            {booking.second_guest_passport
-                                                                ? `${booking.guest_passport ? " • " : ""}Pass 2: ${booking.second_guest_passport}`
-                                                                : ""}
+                                    listItems.map((item) =>
+                                        item.kind === "booking" ? (
+                                            renderBookingRow(item.booking)
+                                        ) : (
+                                            <Fragment key={item.groupId}>
+                                                <tr className="bg-emerald-50/40 hover:bg-emerald-50/70">
+                                                    <td className="px-6 py-4 whitespace-nowrap">
+                                                        <button
+                                                            className="flex items-center gap-2 text-left"
+                                                            onClick={() => toggleGroup(item.groupId)}
+                                                        >
+                                                            {expandedGroups.has(item.groupId) ? <ChevronDownIcon /> : <ChevronRightIcon />}
+                                                            <div className="flex flex-col">
+                                                                <span className="text-sm font-semibold text-slate-900">{item.name}</span>
+                                                                <span className="text-xs text-slate-500">
+                                                                    Party • {item.bookings.length} room{item.bookings.length !== 1 ? "s" : ""}
+                                                                </span>
+                                                            </div>
+                                                        </button>
+                                                    </td>
+                                                    <td className="px-6 py-4 whitespace-nowrap">
+                                                        <span className="text-sm text-slate-700">
+                                                            {item.bookings
+                                                                .map((b) => (b.room_id ? roomNumberById.get(b.room_id) ?? "Unk" : "—"))
+                                                                .join(", ")}
                                                         </span>
-                                                    )}
-                                                </div>
-                                            </td>
-                                            <td className="px-6 py-4 whitespace-nowrap">
-                                                <span className="text-sm text-slate-700">
-                                                    {booking.room_id
-                                                        ? roomNumberById.get(booking.room_id) ?? "Unk"
-                                                        : "—"}
-                                                </span>
-                                            </td>
-                                            <td className="px-6 py-4 whitespace-nowrap">
-                                                <StatusPill status={booking.status} palette="booking" />
-                                            </td>
-                                            <td className="px-6 py-4 whitespace-nowrap">
-                                                <div className="flex flex-col">
-                                                    <span className="text-sm text-slate-700">{formatDateRange(booking.check_in, booking.check_out)}</span>
-                                                    {booking.reference_code && (
-                                                        <span className="text-[10px] text-slate-400">Ref: {booking.reference_code}</span>
-                                                    )}
-                                                </div>
-                                            </td>
-                                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                                                <div className="flex items-center justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                                                    {booking.status === "tentative" && (
+                                                    </td>
+                                                    <td className="px-6 py-4 whitespace-nowrap">
+                                                        <div className="flex flex-wrap gap-1">
+                                                            {Array.from(new Set(item.bookings.map((b) => b.status))).map((status) => (
+                                                                <StatusPill key={status} status={status} palette="booking" />
+                                                            ))}
+                                                        </div>
+                                                    </td>
+                                                    <td className="px-6 py-4 whitespace-nowrap">
+                                                        <span className="text-sm text-slate-700">
+                                                            {formatDateRange(item.bookings[0].check_in, item.bookings[0].check_out)}
+                                                        </span>
+                                                    </td>
+                                                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                                                         <button
-                                                            onClick={() => onUpdateStatus(booking.id, "reserved")}
-                                                            className="rounded bg-emerald-50 px-2 py-1 text-xs font-semibold text-emerald-600 hover:bg-emerald-100"
-                                                            title="Confirm booking"
+                                                            onClick={() => onOpenGroup(item.groupId)}
+                                                            className="rounded bg-emerald-50 px-2 py-1 text-xs font-semibold text-emerald-700 hover:bg-emerald-100"
                                                         >
-                                                            Confirm
+                                                            Manage party
                                                         </button>
-                                                    )}
-                                                    <button
-                                                        onClick={() => onEditBooking(booking)}
-                                                        className="text-slate-600 hover:text-blue-600"
-                                                        title="Edit"
-                                                    >
-                                                        Edit
-                                                    </button>
-                                                    <div className="h-4 w-px bg-slate-300 mx-1" />
-
-                                                    <button
-                                                        onClick={() => handleDeleteClick(booking)}
-                                                        className="text-slate-600 hover:text-red-600"
-                                                        title="Delete"
-                                                    >
-                                                        Delete
-                                                    </button>
-                                                </div>
-                                            </td>
-                                        </tr>
-                                    ))
+                                                    </td>
+                                                </tr>
+                                                {expandedGroups.has(item.groupId) &&
+                                                    item.bookings.map((booking) => renderBookingRow(booking, true))}
+                                            </Fragment>
+                                        )
+                                    )
                                 )}
                             </tbody>
                         </table>
@@ -0,0 +1,255 @@
+import {
+    BookingFolio,
+    FolioItemDraft,
+    Payment,
+    PaymentDraft,
+    paymentKinds,
+    paymentMethods,
+} from "../types";
+import { folioBalance } from "@/lib/folio";
+import { Cross2Icon } from "@radix-ui/react-icons";
+import clsx from "clsx";
+import { format, parseISO } from "date-fns";
+import { useState } from "react";
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+});
+
+const inputClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-xs text-slate-900 shadow-sm placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+const smallButton =
+    "rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-60";
+
+const defaultItemDraft: FolioItemDraft = { description: "", quantity: "1", unit_amount: "" };
+const defaultPaymentDraft: PaymentDraft = { kind: "payment", method: "card", amount: "", reference: "" };
+
+type FolioLine = {
+    key: string;
+    date: string;
+    label: string;
+    detail?: string;
+    amount: number;
+    onDelete?: () => void;
+};
+
+type FolioPanelProps = {
+    folio: BookingFolio | null;
+    roomTotal: number | null;
+    loading: boolean;
+    onAddItem: (draft: FolioItemDraft) => Promise<boolean>;
+    onDeleteItem: (id: string) => Promise<void>;
+    onRecordPayment: (draft: PaymentDraft) => Promise<boolean>;
+    onDeletePayment: (id: string) => Promise<void>;
+};
+
+const paymentLabel = (payment: Payment) =>
+    paymentKinds.find((k) => k.value === payment.kind)?.label ?? payment.kind;
+
+export function FolioPanel({
+    folio,
+    roomTotal,
+    loading,
+    onAddItem,
+    onDeleteItem,
+    onRecordPayment,
+    onDeletePayment,
+}: FolioPanelProps) {
+    const [itemDraft, setItemDraft] = useState<FolioItemDraft>(defaultItemDraft);
+    const [paymentDraft, setPaymentDraft] = useState<PaymentDraft>(defaultPaymentDraft);
+    const [busy, setBusy] = useState(false);
+
+    if (loading || !folio) {
+        return (
+            <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-4 text-xs text-slate-600">
+                Loading folio...
+            </div>
+        );
+    }
+
+    const { charges, paid, balance } = folioBalance(roomTotal, folio);
+
+    // Room charges first, then extras and payments in the order they happened.
+    const lines: FolioLine[] = [
+        ...folio.items.map((item) => ({
+            key: `item-${item.id}`,
+            date: item.posted_on,
+            label: item.description,
+            detail: item.quantity > 1 ? `${item.quantity} × ${currencyFormatter.format(item.unit_amount)}` : undefined,
+            amount: item.quantity * Number(item.unit_amount),
+            onDelete: () => void onDeleteItem(item.id),
+        })),
+        ...folio.payments.map((payment) => ({
+            key: `payment-${payment.id}`,
+            date: payment.received_at.slice(0, 10),
+            label: paymentLabel(payment),
+            detail: [
+                paymentMethods.find((m) => m.value === payment.method)?.label,
+                payment.reference,
+            ].filter(Boolean).join(" • "),
+            amount: payment.kind === "refund" ? Number(payment.amount) : -Number(payment.amount),
+            onDelete: () => void onDeletePayment(payment.id),
+        })),
+    ].sort((a, b) => a.date.localeCompare(b.date));
+    lines.unshift({ key: "room", date: "", label: "Room charges", amount: Number(roomTotal ?? 0) });
+    const runningBalances = lines.reduce<number[]>(
+        (acc, line) => [...acc, (acc[acc.length - 1] ?? 0) + line.amount],
+        [],
+    );
+
+    const submitItem = async () => {
+        setBusy(true);
+        if (await onAddItem(itemDraft)) setItemDraft(defaultItemDraft);
+        setBusy(false);
+    };
+
+    const submitPayment = async () => {
+        setBusy(true);
+        if (await onRecordPayment(paymentDraft)) setPaymentDraft(defaultPaymentDraft);
+        setBusy(false);
+    };
+
+    return (
+        <div className="space-y-3 rounded-xl border border-slate-200 p-3">
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-slate-700">Folio</span>
+                <span
+                    className={clsx(
+                        "rounded-full px-2 py-0.5 text-xs font-semibold",
+                        balance > 0 && "bg-amber-50 text-amber-700 border border-amber-200",
+                        balance < 0 && "bg-blue-50 text-blue-700 border border-blue-200",
+                        balance === 0 && "bg-emerald-50 text-emerald-700 border border-emerald-200",
+                    )}
+                >
+                    {balance > 0
+                        ? `Balance due ${currencyFormatter.format(balance)}`
+                        : balance < 0
+                            ? `Credit ${currencyFormatter.format(-balance)}`
+                            : "Settled"}
+                </span>
+            </div>
+
+            <table className="w-full text-xs text-slate-600">
+                <thead>
+                    <tr className="text-[10px] uppercase tracking-wide text-slate-400">
+                        <th className="py-1 text-left font-semibold">Item</th>
+                        <th className="py-1 text-right font-semibold">Amount</th>
+                        <th className="py-1 text-right font-semibold">Balance</th>
+                        <th className="w-6" />
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                    {lines.map((line, index) => (
+                        <tr key={line.key}>
+                            <td className="py-1.5">
+                                <span className="font-medium text-slate-800">{line.label}</span>
+                                {(line.date || line.detail) && (
+                                    <span className="block text-[10px] text-slate-400">
+                                        {[line.date && format(parseISO(line.date), "MMM d"), line.detail]
+                                            .filter(Boolean)
+                                            .join(" • ")}
+                                    </span>
+                                )}
+                            </td>
+                            <td className={clsx("py-1.5 text-right", line.amount < 0 && "text-emerald-700")}>
+                                {currencyFormatter.format(line.amount)}
+                            </td>
+                            <td className="py-1.5 text-right font-semibold text-slate-800">
+                                {currencyFormatter.format(runningBalances[index])}
+                            </td>
+                            <td className="py-1.5 text-right">
+                                {line.onDelete && (
+                                    <button
+                                        type="button"
+                                        className="text-slate-400 hover:text-red-600"
+                                        onClick={line.onDelete}
+                                        aria-label={`Remove ${line.label}`}
+                                    >
+                                        <Cross2Icon />
+                                    </button>
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <p className="text-[10px] text-slate-500">
+                Charges {currencyFormatter.format(charges)} • Paid {currencyFormatter.format(paid)}
+            </p>
+
+            <div className="grid gap-2 sm:grid-cols-[1fr,4rem,6rem,auto]">
+                <input
+                    className={inputClass}
+                    value={itemDraft.description}
+                    onChange={(e) => setItemDraft((d) => ({ ...d, description: e.target.value }))}
+                    placeholder="Minibar, late checkout..."
+                />
+                <input
+                    className={inputClass}
+                    type="number"
+                    min="1"
+                    value={itemDraft.quantity}
+                    onChange={(e) => setItemDraft((d) => ({ ...d, quantity: e.target.value }))}
+                    placeholder="Qty"
+                />
+                <input
+                    className={inputClass}
+                    type="number"
+                    step="0.01"
+                    value={itemDraft.unit_amount}
+                    onChange={(e) => setItemDraft((d) => ({ ...d, unit_amount: e.target.value }))}
+                    placeholder="Amount"
+                />
+                <button type="button" className={smallButton} disabled={busy} onClick={submitItem}>
+                    Add charge
+                </button>
+            </div>
+
+            <div className="grid gap-2 sm:grid-cols-[6rem,7rem,6rem,1fr,auto]">
+                <select
+                    className={inputClass}
+                    value={paymentDraft.kind}
+                    onChange={(e) =>
+                        setPaymentDraft((d) => ({ ...d, kind: e.target.value as PaymentDraft["kind"] }))
+                    }
+                >
+                    {paymentKinds.map((k) => (
+                        <option key={k.value} value={k.value}>{k.label}</option>
+                    ))}
+                </select>
+                <select
+                    className={inputClass}
+                    value={paymentDraft.method}
+                    onChange={(e) =>
+                        setPaymentDraft((d) => ({ ...d, method: e.target.value as PaymentDraft["method"] }))
+                    }
+                >
+                    {paymentMethods.map((m) => (
+                        <option key={m.value} value={m.value}>{m.label}</option>
+                    ))}
+                </select>
+                <input
+                    className={inputClass}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={paymentDraft.amount}
+                    onChange={(e) => setPaymentDraft((d) => ({ ...d, amount: e.target.value }))}
+                    placeholder="Amount"
+                />
+                <input
+                    className={inputClass}
+                    value={paymentDraft.reference}
+                    onChange={(e) => setPaymentDraft((d) => ({ ...d, reference: e.target.value }))}
+                    placeholder="Reference (optional)"
+                />
+                <button type="button" className={smallButton} disabled={busy} onClick={submitPayment}>
+                    Record
+                </button>
+            </div>
+        </div>
+    );
+}
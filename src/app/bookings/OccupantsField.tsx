@@ -0,0 +1,122 @@
+import { BookingGuestDraft, guestAgeGroups, identityDocumentTypes } from "../types";
+import { formatParty, partyCounts } from "@/lib/party";
+import { Cross2Icon, PlusIcon } from "@radix-ui/react-icons";
+import clsx from "clsx";
+
+const inputClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+
+const emptyOccupant = (): BookingGuestDraft => ({
+    full_name: "",
+    age_group: "adult",
+    email: "",
+    document_type: "",
+    document_number: "",
+});
+
+type OccupantsFieldProps = {
+    occupants: BookingGuestDraft[];
+    capacity: number | null; // total for the selected rooms, null when unknown
+    onChange: (occupants: BookingGuestDraft[]) => void;
+};
+
+export function OccupantsField({ occupants, capacity, onChange }: OccupantsFieldProps) {
+    const { adults, children, total } = partyCounts(occupants);
+    const overCapacity = capacity !== null && total > capacity;
+
+    const update = (index: number, patch: Partial<BookingGuestDraft>) =>
+        onChange(occupants.map((o, i) => (i === index ? { ...o, ...patch } : o)));
+
+    return (
+        <div className="space-y-2 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+                <label className="text-sm font-medium text-slate-700">Other guests</label>
+                <span
+                    className={clsx(
+                        "text-[10px] font-semibold",
+                        overCapacity ? "text-red-600" : "text-slate-500",
+                    )}
+                >
+                    {formatParty({ adults, children })}
+                    {capacity !== null && ` · sleeps ${capacity}`}
+                </span>
+            </div>
+
+            {occupants.map((occupant, index) => (
+                <div key={index} className="space-y-2 rounded-lg border border-slate-200 bg-white p-2">
+                    <div className="flex gap-2">
+                        <input
+                            className={inputClass}
+                            value={occupant.full_name}
+                            onChange={(e) => update(index, { full_name: e.target.value })}
+                            placeholder="Full name"
+                        />
+                        <select
+                            className={clsx(inputClass, "w-28 flex-shrink-0")}
+                            value={occupant.age_group}
+                            onChange={(e) =>
+                                update(index, { age_group: e.target.value as BookingGuestDraft["age_group"] })
+                            }
+                        >
+                            {guestAgeGroups.map((g) => (
+                                <option key={g.value} value={g.value}>{g.label}</option>
+                            ))}
+                        </select>
+                        <button
+                            type="button"
+                            className="flex-shrink-0 px-1 text-slate-400 hover:text-red-600"
+                            onClick={() => onChange(occupants.filter((_, i) => i !== index))}
+                            aria-label="Remove guest"
+                        >
+                            <Cross2Icon />
+                        </button>
+                    </div>
+                    <div className="grid gap-2 sm:grid-cols-3">
+                        <select
+                            className={inputClass}
+                            value={occupant.document_type}
+                            onChange={(e) =>
+                                update(index, {
+                                    document_type: e.target.value,
+                                    ...(e.target.value ? {} : { document_number: "" }),
+                                })
+                            }
+                        >
+                            <option value="">No ID document</option>
+                            {identityDocumentTypes.map((d) => (
+                                <option key={d.value} value={d.value}>{d.label}</option>
+                            ))}
+                        </select>
+                        <input
+                            className={inputClass}
+                            value={occupant.document_number}
+                            disabled={!occupant.document_type}
+                            onChange={(e) => update(index, { document_number: e.target.value })}
+                            placeholder="Document number"
+                        />
+                        <input
+                            type="email"
+                            className={inputClass}
+                            value={occupant.email}
+                            onChange={(e) => update(index, { email: e.target.value })}
+                            placeholder="Email (optional)"
+                        />
+                    </div>
+                </div>
+            ))}
+
+            <button
+                type="button"
+                className="inline-flex items-center gap-1 text-xs font-semibold text-slate-700 hover:text-slate-900"
+                onClick={() => onChange([...occupants, emptyOccupant()])}
+            >
+                <PlusIcon /> Add guest
+            </button>
+            {overCapacity && (
+                <p className="text-[11px] text-red-600">
+                    {total} guests is more than the selected rooms can sleep ({capacity}).
+                </p>
+            )}
+        </div>
+    );
+}
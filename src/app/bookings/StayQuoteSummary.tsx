@@ -0,0 +1,90 @@
+import { Room } from "../types";
+import type { StayQuote } from "@/lib/rates";
+import clsx from "clsx";
+import { format, parseISO } from "date-fns";
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+});
+
+type StayQuoteSummaryProps = {
+    quotes: { roomId: string; quote: StayQuote | null }[];
+    rooms: Room[];
+    hasDates: boolean;
+};
+
+export function StayQuoteSummary({ quotes, rooms, hasDates }: StayQuoteSummaryProps) {
+    if (!hasDates || quotes.length === 0) {
+        return (
+            <div className="rounded-xl border border-dashed border-slate-200 bg-slate-50/50 px-3 py-2 text-xs text-slate-500">
+                Pick dates and a room to see a price quote.
+            </div>
+        );
+    }
+
+    const grandTotal = quotes.reduce((sum, { quote }) => sum + (quote?.total ?? 0), 0);
+    const unpriced = quotes.some(({ quote }) => !quote);
+
+    return (
+        <div className="space-y-2 rounded-xl border border-emerald-100 bg-emerald-50/40 p-3">
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-slate-700">Price quote</span>
+                <span className="text-sm font-semibold text-slate-900">
+                    {currencyFormatter.format(grandTotal)}
+                </span>
+            </div>
+            <div className="space-y-1">
+                {quotes.map(({ roomId, quote }) => {
+                    const roomNumber = rooms.find((r) => r.id === roomId)?.number ?? "?";
+                    if (!quote) {
+                        return (
+                            <p key={roomId} className="text-xs text-amber-700">
+                                Room {roomNumber}: no rate set for this room&apos;s category.
+                            </p>
+                        );
+                    }
+                    const tooShort = quote.nights.length < quote.minStay;
+                    return (
+                        <details key={roomId} className="group text-xs text-slate-600">
+                            <summary className="flex cursor-pointer list-none items-center justify-between">
+                                <span>
+                                    Room {roomNumber} • {quote.nights.length} night{quote.nights.length !== 1 ? "s" : ""}
+                                    {tooShort && (
+                                        <span className="ml-2 font-semibold text-red-600">
+                                            Minimum stay {quote.minStay} nights
+                                        </span>
+                                    )}
+                                </span>
+                                <span className="font-semibold text-slate-800">
+                                    {currencyFormatter.format(quote.total)}
+                                </span>
+                            </summary>
+                            <div className="mt-1 space-y-0.5 border-l-2 border-emerald-100 pl-3">
+                                {quote.nights.map((night) => (
+                                    <div key={night.date} className="flex justify-between">
+                                        <span>
+                                            {format(parseISO(night.date), "EEE, MMM d")}
+                                            {night.season && ` • ${night.season}`}
+                                            {night.weekend && " • Weekend"}
+                                        </span>
+                                        <span className={clsx(night.weekend && "text-emerald-700")}>
+                                            {currencyFormatter.format(night.rate)}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </details>
+                    );
+                })}
+            </div>
+            {unpriced && (
+                <p className="text-[10px] text-slate-500">
+                    Rooms without a rate are saved without a total.
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import { supabase } from "@/lib/supabase/client";
+import { folioBalance } from "@/lib/folio";
+import { buildInvoiceLines, formatInvoiceNumber } from "@/lib/invoices";
+import { otherGuestNames } from "@/lib/party";
+import type { Session } from "@supabase/supabase-js";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { useEffect, useState } from "react";
+import { Booking, Invoice, Property } from "../../../types";
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+});
+
+type InvoiceData = {
+    invoice: Invoice;
+    booking: Booking;
+    property: Property;
+    roomNumber: string | null;
+};
+
+export default function InvoicePage() {
+    const { id: bookingId } = useParams<{ id: string }>();
+    const [session, setSession] = useState<Session | null>(null);
+    const [sessionChecked, setSessionChecked] = useState(false);
+    const [data, setData] = useState<InvoiceData | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        supabase.auth
+            .getSession()
+            .then(({ data }) => setSession(data.session ?? null))
+            .catch(() => setSession(null))
+            .finally(() => setSessionChecked(true));
+    }, []);
+
+    useEffect(() => {
+        const loadInvoice = async () => {
+            if (!sessionChecked) return;
+            if (!session) {
+                setError("Sign in to view invoices.");
+                setLoading(false);
+                return;
+            }
+
+            setLoading(true);
+            const { data: booking, error: bookingError } = await supabase
+                .from("bookings")
+                .select("id, property_id, room_id, group_id, guest_name, guest_email, guest_passport, adults, children, check_in, check_out, status, auto_release_at, total, reference_code, notes, created_by, occupants:booking_guests(id, full_name, age_group, position)")
+                .eq("id", bookingId)
+                .order("position", { referencedTable: "occupants" })
+                .maybeSingle();
+
+            if (bookingError || !booking) {
+                setError(bookingError?.message ?? "Booking not found.");
+                setLoading(false);
+                return;
+            }
+            if (booking.status !== "checked_out") {
+                setError("Invoices are available once the guest has checked out.");
+                setLoading(false);
+                return;
+            }
+
+            const [propertyRes, roomRes, invoiceRes] = await Promise.all([
+                supabase
+                    .from("properties")
+                    .select("id, name, code, address, timezone")
+                    .eq("id", booking.property_id)
+                    .single(),
+                booking.room_id
+                    ? supabase
+                        .from("rooms")
+                        .select("id, number, category_id")
+                        .eq("id", booking.room_id)
+                        .maybeSingle()
+                    : Promise.resolve({ data: null, error: null }),
+                supabase
+                    .from("invoices")
+                    .select("id, property_id, booking_id, number, lines, total, amount_paid, issued_at")
+                    .eq("booking_id", bookingId)
+                    .maybeSingle(),
+            ]);
+
+            const loadError = propertyRes.error ?? roomRes.error ?? invoiceRes.error;
+            if (loadError || !propertyRes.data) {
+                setError(loadError?.message ?? "Property not found.");
+                setLoading(false);
+                return;
+            }
+
+            let invoice = invoiceRes.data as Invoice | null;
+
+            // First print: snapshot the lines and issue the next number for the property.
+            if (!invoice) {
+                const categoryId = roomRes.data?.category_id ?? null;
+                const [categoryRes, seasonsRes, itemsRes, paymentsRes] = await Promise.all([
+                    categoryId
+                        ? supabase
+                            .from("room_categories")
+                            .select("id, property_id, name, description, base_rate, capacity, weekend_uplift_pct, min_stay")
+                            .eq("id", categoryId)
+                            .maybeSingle()
+                        : Promise.resolve({ data: null, error: null }),
+                    categoryId
+                        ? supabase
+                            .from("rate_seasons")
+                            .select("id, property_id, category_id, name, start_date, end_date, nightly_rate, min_stay")
+                            .eq("category_id", categoryId)
+                        : Promise.resolve({ data: [], error: null }),
+                    supabase
+                        .from("folio_items")
+                        .select("id, property_id, booking_id, description, quantity, unit_amount, posted_on, created_at")
+                        .eq("booking_id", bookingId)
+                        .order("posted_on"),
+                    supabase
+                        .from("payments")
+                        .select("id, property_id, booking_id, kind, method, amount, reference, received_at")
+                        .eq("booking_id", bookingId),
+                ]);
+
+                const folioError = categoryRes.error ?? seasonsRes.error ?? itemsRes.error ?? paymentsRes.error;
+                if (folioError) {
+                    setError(folioError.message);
+                    setLoading(false);
+                    return;
+                }
+
+                const folio = {
+                    booking_id: bookingId,
+                    items: itemsRes.data ?? [],
+                    payments: paymentsRes.data ?? [],
+                };
+                const { data: issued, error: issueError } = await supabase.rpc("issue_invoice", {
+                    p_booking_id: bookingId,
+                    p_lines: buildInvoiceLines(booking, categoryRes.data, seasonsRes.data ?? [], folio.items),
+                    p_amount_paid: folioBalance(booking.total, folio).paid,
+                });
+                if (issueError) {
+                    setError(issueError.message);
+                    setLoading(false);
+                    return;
+                }
+                invoice = issued as Invoice;
+            }
+
+            setData({
+                invoice,
+                booking: booking as Booking,
+                property: propertyRes.data,
+                roomNumber: roomRes.data?.number ?? null,
+            });
+            setError(null);
+            setLoading(false);
+        };
+
+        void loadInvoice();
+    }, [bookingId, session, sessionChecked]);
+
+    if (loading) {
+        return (
+            <div className="mx-auto max-w-3xl rounded-2xl border border-slate-200 bg-white p-8 text-sm text-slate-600">
+                Preparing invoice...
+            </div>
+        );
+    }
+
+    if (error || !data) {
+        return (
+            <div className="mx-auto max-w-3xl space-y-4">
+                <div className="rounded-2xl border border-red-200 bg-red-50 p-6 text-sm text-red-700">
+                    {error ?? "Unable to load invoice."}
+                </div>
+                <Link href="/bookings" className="text-sm font-semibold text-slate-700 hover:underline">
+                    ← Back to bookings
+                </Link>
+            </div>
+        );
+    }
+
+    const { invoice, booking, property, roomNumber } = data;
+    const nights = differenceInCalendarDays(parseISO(booking.check_out), parseISO(booking.check_in));
+    const balanceDue = Math.round((Number(invoice.total) - Number(invoice.amount_paid)) * 100) / 100;
+
+    return (
+        <div className="mx-auto max-w-3xl space-y-4">
+            <div className="flex items-center justify-between print:hidden">
+                <Link
+                    href={`/bookings?propertyId=${booking.property_id}`}
+                    className="text-sm font-semibold text-slate-700 hover:underline"
+                >
+                    ← Back to bookings
+                </Link>
+                <button
+                    onClick={() => window.print()}
+                    className="inline-flex h-10 items-center justify-center rounded-lg bg-black px-4 text-sm font-semibold text-white hover:bg-slate-900"
+                >
+                    Print invoice
+                </button>
+            </div>
+
+            <article className="rounded-2xl border border-slate-200 bg-white p-8 shadow-sm print:rounded-none print:border-0 print:p-0 print:shadow-none">
+                <header className="flex flex-col gap-6 border-b border-slate-200 pb-6 sm:flex-row sm:justify-between">
+                    <div>
+                        <h1 className="text-2xl font-bold text-slate-900">{property.name}</h1>
+                        {property.address && (
+                            <p className="mt-1 whitespace-pre-line text-sm text-slate-600">{property.address}</p>
+                        )}
+                        {property.code && <p className="text-xs text-slate-500">Property code: {property.code}</p>}
+                    </div>
+                    <div className="sm:text-right">
+                        <p className="text-xs font-semibold uppercase tracking-[0.14em] text-slate-500">Invoice</p>
+                        <p className="text-lg font-semibold text-slate-900">
+                            {formatInvoiceNumber(property, invoice.number)}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                            Issued {format(new Date(invoice.issued_at), "MMM d, yyyy")}
+                        </p>
+                        {booking.reference_code && (
+                            <p className="text-xs text-slate-500">Booking ref: {booking.reference_code}</p>
+                        )}
+                    </div>
+                </header>
+
+                <section className="grid gap-6 border-b border-slate-200 py-6 sm:grid-cols-2">
+                    <div>
+                        <p className="text-xs font-semibold uppercase tracking-[0.08em] text-slate-500">Billed to</p>
+                        <p className="mt-1 text-sm font-semibold text-slate-900">{booking.guest_name}</p>
+                        {booking.guest_email && <p className="text-sm text-slate-600">{booking.guest_email}</p>}
+                        {booking.guest_passport && (
+                            <p className="text-xs text-slate-500">Passport: {booking.guest_passport}</p>
+                        )}
+                        {otherGuestNames(booking) && (
+                            <p className="mt-2 text-sm text-slate-600">+ {otherGuestNames(booking)}</p>
+                        )}
+                    </div>
+                    <div>
+                        <p className="text-xs font-semibold uppercase tracking-[0.08em] text-slate-500">Stay</p>
+                        <p className="mt-1 text-sm text-slate-900">
+                            {roomNumber ? `Room ${roomNumber}` : "Room unassigned"}
+                        </p>
+                        <p className="text-sm text-slate-600">
+                            {format(parseISO(booking.check_in), "MMM d, yyyy")} →{" "}
+                            {format(parseISO(booking.check_out), "MMM d, yyyy")}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                            {nights} night{nights !== 1 ? "s" : ""}
+                        </p>
+                    </div>
+                </section>
+
+                <table className="mt-6 w-full text-sm">
+                    <thead>
+                        <tr className="border-b border-slate-200 text-left text-xs uppercase tracking-wide text-slate-500">
+                            <th className="pb-2 font-semibold">Description</th>
+                            <th className="pb-2 text-right font-semibold">Qty</th>
+                            <th className="pb-2 text-right font-semibold">Unit</th>
+                            <th className="pb-2 text-right font-semibold">Amount</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {invoice.lines.length === 0 ? (
+                            <tr>
+                                <td colSpan={4} className="py-4 text-center text-slate-500">
+                                    No charges recorded.
+                                </td>
+                            </tr>
+                        ) : (
+                            invoice.lines.map((line, index) => (
+                                <tr key={index}>
+                                    <td className="py-2 text-slate-800">
+                                        {line.description}
+                                        {line.detail && (
+                                            <span className="block text-xs text-slate-500">{line.detail}</span>
+                                        )}
+                                    </td>
+                                    <td className="py-2 text-right text-slate-600">{line.quantity}</td>
+                                    <td className="py-2 text-right text-slate-600">
+                                        {currencyFormatter.format(line.unit_amount)}
+                                    </td>
+                                    <td className="py-2 text-right text-slate-900">
+                                        {currencyFormatter.format(line.amount)}
+                                    </td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+
+                <dl className="ml-auto mt-6 w-full max-w-xs space-y-1 text-sm">
+                    <div className="flex justify-between">
+                        <dt className="text-slate-600">Total</dt>
+                        <dd className="font-semibold text-slate-900">{currencyFormatter.format(invoice.total)}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                        <dt className="text-slate-600">Paid</dt>
+                        <dd className="text-slate-900">{currencyFormatter.format(invoice.amount_paid)}</dd>
+                    </div>
+                    <div className="flex justify-between border-t border-slate-200 pt-1">
+                        <dt className="font-semibold text-slate-900">Balance due</dt>
+                        <dd className="font-bold text-slate-900">{currencyFormatter.format(balanceDue)}</dd>
+                    </div>
+                </dl>
+            </article>
+        </div>
+    );
+}
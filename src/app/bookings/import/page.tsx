@@ -0,0 +1,438 @@
+"use client";
+
+import { supabase } from "@/lib/supabase/client";
+import { parseCsv } from "@/lib/csv";
+import {
+    guessMapping,
+    importDateFormats,
+    importFields,
+    planBookingImport,
+    type ImportField,
+    type ImportMapping,
+    type ImportPlanRow,
+} from "@/lib/bookingImport";
+import { quoteStay } from "@/lib/rates";
+import type { Session } from "@supabase/supabase-js";
+import clsx from "clsx";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import { Booking, MaintenanceTicket, Property, RateSeason, Room, RoomCategory } from "../../types";
+
+const buttonBase =
+    "inline-flex h-10 items-center justify-center gap-2 rounded-lg px-4 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-400 disabled:opacity-60";
+const primaryButton = `${buttonBase} bg-black text-white hover:bg-slate-900`;
+const ghostButton = `${buttonBase} border border-slate-200 bg-white text-slate-700 hover:bg-slate-50`;
+const selectClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+
+const outcomeStyles: Record<ImportPlanRow["outcome"], string> = {
+    create: "bg-emerald-50 text-emerald-700 border border-emerald-200",
+    skip: "bg-slate-100 text-slate-700 border border-slate-200",
+    reject: "bg-red-50 text-red-700 border border-red-200",
+};
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+});
+
+function BookingImport() {
+    const searchParams = useSearchParams();
+    const [session, setSession] = useState<Session | null>(null);
+    const [properties, setProperties] = useState<Property[]>([]);
+    const [propertyId, setPropertyId] = useState<string>(searchParams.get("propertyId") ?? "");
+    const [rooms, setRooms] = useState<Room[]>([]);
+    const [categories, setCategories] = useState<RoomCategory[]>([]);
+    const [rateSeasons, setRateSeasons] = useState<RateSeason[]>([]);
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [rows, setRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<ImportMapping | null>(null);
+    const [dateFormat, setDateFormat] = useState(importDateFormats[0].value);
+    const [plan, setPlan] = useState<ImportPlanRow[] | null>(null);
+    const [working, setWorking] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        supabase.auth
+            .getSession()
+            .then(({ data }) => setSession(data.session ?? null))
+            .catch(() => setSession(null));
+    }, []);
+
+    useEffect(() => {
+        if (!session) return;
+        supabase
+            .from("properties")
+            .select("id, name, code, address, timezone")
+            .order("name")
+            .then(({ data, error: loadError }) => {
+                if (loadError) setError(loadError.message);
+                setProperties(data ?? []);
+            });
+    }, [session]);
+
+    useEffect(() => {
+        if (!session || !propertyId) return;
+        const loadPropertyData = async () => {
+            const [roomRes, catRes, seasonRes] = await Promise.all([
+                supabase
+                    .from("rooms")
+                    .select("id, property_id, category_id, number, floor, status, notes")
+                    .eq("property_id", propertyId)
+                    .order("number"),
+                supabase
+                    .from("room_categories")
+                    .select("id, property_id, name, description, base_rate, capacity, weekend_uplift_pct, min_stay")
+                    .eq("property_id", propertyId),
+                supabase
+                    .from("rate_seasons")
+                    .select("id, property_id, category_id, name, start_date, end_date, nightly_rate, min_stay")
+                    .eq("property_id", propertyId),
+            ]);
+            const loadError = roomRes.error ?? catRes.error ?? seasonRes.error;
+            if (loadError) setError(loadError.message);
+            setRooms(roomRes.data ?? []);
+            setCategories(catRes.data ?? []);
+            setRateSeasons(seasonRes.data ?? []);
+            setPlan(null);
+        };
+        void loadPropertyData();
+    }, [session, propertyId]);
+
+    const quoteRoomStay = (roomId: string | null, checkIn: string, checkOut: string) => {
+        const categoryId = rooms.find((r) => r.id === roomId)?.category_id;
+        const category = categories.find((c) => c.id === categoryId);
+        return category ? quoteStay(category, rateSeasons, checkIn, checkOut) : null;
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        setPlan(null);
+        setMessage(null);
+        setError(null);
+        if (!file) return;
+
+        const [headerRow, ...dataRows] = parseCsv(await file.text());
+        if (!headerRow || dataRows.length === 0) {
+            setError("The file needs a header row and at least one booking.");
+            return;
+        }
+        setFileName(file.name);
+        setHeaders(headerRow);
+        setRows(dataRows);
+        setMapping(guessMapping(headerRow));
+    };
+
+    const runDryRun = async () => {
+        if (!mapping || !propertyId) return;
+        setWorking(true);
+        setError(null);
+        setMessage(null);
+
+        // First pass without existing bookings, only to learn the date range to check against.
+        const candidates = planBookingImport({
+            rows,
+            mapping,
+            dateFormat,
+            rooms,
+            categories,
+            existing: [],
+            tickets: [],
+            quote: quoteRoomStay,
+        }).flatMap((row) => (row.draft ? [row.draft] : []));
+
+        let existing: Booking[] = [];
+        let tickets: MaintenanceTicket[] = [];
+        if (candidates.length > 0) {
+            const from = candidates.reduce((min, d) => (d.check_in < min ? d.check_in : min), candidates[0].check_in);
+            const to = candidates.reduce((max, d) => (d.check_out > max ? d.check_out : max), candidates[0].check_out);
+            const [bookingRes, ticketRes] = await Promise.all([
+                supabase
+                    .from("bookings")
+                    .select("id, property_id, room_id, guest_name, check_in, check_out, status")
+                    .eq("property_id", propertyId)
+                    .neq("status", "cancelled")
+                    .lt("check_in", to)
+                    .gt("check_out", from),
+                supabase
+                    .from("maintenance_tickets")
+                    .select("*")
+                    .eq("property_id", propertyId)
+                    .eq("status", "open")
+                    .lt("start_date", to)
+                    .gt("end_date", from),
+            ]);
+            const overlapError = bookingRes.error ?? ticketRes.error;
+            if (overlapError) {
+                setError(overlapError.message);
+                setWorking(false);
+                return;
+            }
+            existing = (bookingRes.data ?? []) as Booking[];
+            tickets = (ticketRes.data ?? []) as MaintenanceTicket[];
+        }
+
+        setPlan(planBookingImport({ rows, mapping, dateFormat, rooms, categories, existing, tickets, quote: quoteRoomStay }));
+        setWorking(false);
+    };
+
+    const commitImport = async () => {
+        if (!plan || !propertyId) return;
+        setWorking(true);
+        setError(null);
+
+        const failures: string[] = [];
+        const created: Booking[] = [];
+        for (const row of plan) {
+            if (row.outcome !== "create" || !row.draft) continue;
+            const draft = row.draft;
+            // create_bookings re-checks overlaps in the same transaction as the insert
+            const { data, error: createError } = await supabase.rpc("create_bookings", {
+                p_property_id: propertyId,
+                p_room_ids: draft.room_ids,
+                p_booking: {
+                    guest_name: draft.guest_name,
+                    guest_email: draft.guest_email || null,
+                    guest_passport: draft.guest_passport || null,
+                    occupants: draft.occupants,
+                    check_in: draft.check_in,
+                    check_out: draft.check_out,
+                    status: draft.status,
+                    notes: draft.notes || null,
+                    room_totals: draft.room_ids[0] && row.total !== null ? { [draft.room_ids[0]]: row.total } : {},
+                },
+            });
+            if (createError) {
+                failures.push(`Row ${row.line}: ${createError.message}`);
+            } else {
+                created.push(...((data ?? []) as Booking[]));
+            }
+        }
+
+        if (created.length > 0) {
+            try {
+                await supabase.from("booking_logs").insert(
+                    created.map((booking) => ({
+                        property_id: propertyId,
+                        booking_id: booking.id,
+                        action: "create",
+                        performed_by: session?.user.id,
+                        details: {
+                            guest_name: booking.guest_name,
+                            room_number: rooms.find((r) => r.id === booking.room_id)?.number || "Unassigned",
+                            check_in: booking.check_in,
+                            check_out: booking.check_out,
+                        },
+                    })),
+                );
+            } catch (err) {
+                console.error("Failed to log imported bookings", err);
+            }
+        }
+
+        setPlan(null);
+        setMessage(`${created.length} booking${created.length !== 1 ? "s" : ""} imported`);
+        if (failures.length > 0) setError(failures.join("\n"));
+        setWorking(false);
+    };
+
+    const counts = {
+        create: plan?.filter((r) => r.outcome === "create").length ?? 0,
+        skip: plan?.filter((r) => r.outcome === "skip").length ?? 0,
+        reject: plan?.filter((r) => r.outcome === "reject").length ?? 0,
+    };
+    const missingRequired = importFields.filter((f) => f.required && mapping?.[f.key] === null);
+
+    return (
+        <div className="mx-auto max-w-5xl space-y-6">
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                    <h1 className="text-2xl font-semibold text-slate-900">Import bookings</h1>
+                    <p className="text-sm text-slate-500">
+                        Upload a CSV, check the dry run, then import. Nothing is saved until you confirm.
+                    </p>
+                </div>
+                <Link
+                    href={propertyId ? `/bookings?propertyId=${propertyId}` : "/bookings"}
+                    className="text-sm font-semibold text-slate-700 hover:underline"
+                >
+                    ← Back to bookings
+                </Link>
+            </div>
+
+            {(message || error) && (
+                <div
+                    className={clsx(
+                        "whitespace-pre-line rounded-xl border px-4 py-3 text-sm",
+                        error ? "border-red-200 bg-red-50 text-red-700" : "border-emerald-200 bg-emerald-50 text-emerald-700",
+                    )}
+                >
+                    {message && <p>{message}</p>}
+                    {error && <p>{error}</p>}
+                </div>
+            )}
+
+            <section className="grid gap-4 rounded-2xl border border-slate-200 bg-white p-5 shadow-sm sm:grid-cols-3">
+                <div className="space-y-1">
+                    <label className="text-sm font-medium text-slate-700">Property</label>
+                    <select className={selectClass} value={propertyId} onChange={(e) => setPropertyId(e.target.value)}>
+                        <option value="">Select a property</option>
+                        {properties.map((p) => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="space-y-1">
+                    <label className="text-sm font-medium text-slate-700">CSV file</label>
+                    <input
+                        type="file"
+                        accept=".csv,text/csv"
+                        onChange={(e) => void handleFile(e.target.files?.[0])}
+                        className="block w-full text-sm text-slate-600 file:mr-3 file:rounded-lg file:border-0 file:bg-slate-100 file:px-3 file:py-2 file:text-sm file:font-semibold file:text-slate-700 hover:file:bg-slate-200"
+                    />
+                </div>
+                <div className="space-y-1">
+                    <label className="text-sm font-medium text-slate-700">Date format</label>
+                    <select
+                        className={selectClass}
+                        value={dateFormat}
+                        onChange={(e) => {
+                            setDateFormat(e.target.value);
+                            setPlan(null);
+                        }}
+                    >
+                        {importDateFormats.map((f) => (
+                            <option key={f.value} value={f.value}>{f.label}</option>
+                        ))}
+                    </select>
+                </div>
+            </section>
+
+            {mapping && (
+                <section className="space-y-4 rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+                    <div>
+                        <h2 className="text-lg font-semibold text-slate-900">Map columns</h2>
+                        <p className="text-sm text-slate-500">
+                            {fileName}: {rows.length} row{rows.length !== 1 ? "s" : ""}. Room numbers are matched to the selected property.
+                        </p>
+                    </div>
+                    <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                        {importFields.map((field) => (
+                            <div key={field.key} className="space-y-1">
+                                <label className="text-xs font-medium text-slate-600">
+                                    {field.label}
+                                    {field.required && <span className="text-red-600"> *</span>}
+                                </label>
+                                <select
+                                    className={selectClass}
+                                    value={mapping[field.key] ?? ""}
+                                    onChange={(e) => {
+                                        const column = e.target.value === "" ? null : Number(e.target.value);
+                                        setMapping((m) => (m ? { ...m, [field.key as ImportField]: column } : m));
+                                        setPlan(null);
+                                    }}
+                                >
+                                    <option value="">Not in file</option>
+                                    {headers.map((header, index) => (
+                                        <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex items-center justify-end gap-2">
+                        {missingRequired.length > 0 && (
+                            <p className="text-xs text-red-600">
+                                Map {missingRequired.map((f) => f.label).join(", ")} to continue.
+                            </p>
+                        )}
+                        <button
+                            className={ghostButton}
+                            disabled={working || !propertyId || missingRequired.length > 0}
+                            onClick={runDryRun}
+                        >
+                            Run dry run
+                        </button>
+                    </div>
+                </section>
+            )}
+
+            {plan && (
+                <section className="space-y-4 rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+                    <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                        <div>
+                            <h2 className="text-lg font-semibold text-slate-900">Dry run</h2>
+                            <p className="text-sm text-slate-500">
+                                {counts.create} to create • {counts.skip} to skip • {counts.reject} rejected
+                            </p>
+                        </div>
+                        <button
+                            className={primaryButton}
+                            disabled={working || counts.create === 0}
+                            onClick={commitImport}
+                        >
+                            Import {counts.create} booking{counts.create !== 1 ? "s" : ""}
+                        </button>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-slate-200 text-sm">
+                            <thead className="bg-slate-50 text-left text-xs font-medium uppercase tracking-wider text-slate-500">
+                                <tr>
+                                    <th className="px-3 py-2">Row</th>
+                                    <th className="px-3 py-2">Result</th>
+                                    <th className="px-3 py-2">Guest</th>
+                                    <th className="px-3 py-2">Room</th>
+                                    <th className="px-3 py-2">Dates</th>
+                                    <th className="px-3 py-2 text-right">Total</th>
+                                    <th className="px-3 py-2">Notes</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {plan.map((row) => {
+                                    const cells = rows[row.line - 2] ?? [];
+                                    const raw = (field: ImportField) => {
+                                        const column = mapping?.[field];
+                                        return column === null || column === undefined ? "" : cells[column] ?? "";
+                                    };
+                                    return (
+                                        <tr key={row.line}>
+                                            <td className="px-3 py-2 text-slate-500">{row.line}</td>
+                                            <td className="px-3 py-2">
+                                                <span className={clsx("rounded-full px-2 py-0.5 text-xs font-semibold capitalize", outcomeStyles[row.outcome])}>
+                                                    {row.outcome}
+                                                </span>
+                                            </td>
+                                            <td className="px-3 py-2 text-slate-900">{row.draft?.guest_name ?? raw("guest_name")}</td>
+                                            <td className="px-3 py-2 text-slate-700">{row.roomNumber ?? "Unassigned"}</td>
+                                            <td className="px-3 py-2 whitespace-nowrap text-slate-700">
+                                                {row.draft
+                                                    ? `${row.draft.check_in} → ${row.draft.check_out}`
+                                                    : `${raw("check_in")} → ${raw("check_out")}`}
+                                            </td>
+                                            <td className="px-3 py-2 text-right text-slate-700">
+                                                {row.total !== null ? currencyFormatter.format(row.total) : "—"}
+                                            </td>
+                                            <td className="px-3 py-2 text-xs text-slate-500">{row.reason}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </section>
+            )}
+        </div>
+    );
+}
+
+export default function BookingImportPage() {
+    return (
+        <Suspense>
+            <BookingImport />
+        </Suspense>
+    );
+}
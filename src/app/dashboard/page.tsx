@@ -15,9 +15,12 @@ import {
 import { useEffect, useMemo, useState } from "react";
 import type { Session } from "@supabase/supabase-js";
 import { supabase } from "@/lib/supabase/client";
+import { BOOKING_LOG_COLUMNS, bookingLogActor, bookingLogDates, bookingLogSummary } from "@/lib/activity";
+import { downloadTable, fetchAllRows, type ExportFormat } from "@/lib/export";
+import { MEMBER_PROPERTY_COLUMNS, withMemberRole } from "@/lib/propertyAccess";
 import Link from "next/link";
 import { addDays, format, isSameDay, isWithinInterval, startOfDay, subDays, formatDistanceToNow } from "date-fns";
-import { Booking, Property, Room, UserProfile, BookingLog } from "../types";
+import { Booking, Property, Room, UserProfile, BookingLog, accountStatusNotices } from "../types";
 
 type DashboardBooking = Booking & {
     total?: number | null;
@@ -60,8 +63,7 @@ export default function DashboardPage() {
     const [activityLogs, setActivityLogs] = useState<BookingLog[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    // Approval disabled; any signed-in user can use the dashboard
-    const isApproved = true;
+    const [isApproved, setIsApproved] = useState(false);
     const displayName =
         (profile?.display_name && profile.display_name.trim()) ||
         (session?.user.email ? session.user.email.split("@")[0] : "User");
@@ -90,11 +92,10 @@ export default function DashboardPage() {
                 return;
             }
 
-            const { data, error: profileError } = await supabase
-                .from("user_profiles")
-                .select("*")
-                .eq("id", session.user.id)
-                .maybeSingle();
+            const [{ data, error: profileError }, { data: approved }] = await Promise.all([
+                supabase.from("user_profiles").select("*").eq("id", session.user.id).maybeSingle(),
+                supabase.rpc("is_user_approved", { uid: session.user.id }),
+            ]);
 
             if (profileError) {
                 setError(profileError.message);
@@ -102,6 +103,7 @@ export default function DashboardPage() {
             } else {
                 setProfile(data ?? null);
             }
+            setIsApproved(Boolean(approved));
 
             setProfileLoading(false);
         };
@@ -112,7 +114,7 @@ export default function DashboardPage() {
     useEffect(() => {
         const fetchAll = async () => {
             if (profileLoading) return;
-            if (!session) {
+            if (!session || !isApproved) {
                 setProperties([]);
                 setRooms([]);
                 setBookings([]);
@@ -126,7 +128,11 @@ export default function DashboardPage() {
                 .toISOString()
                 .split("T")[0];
             const [propertiesRes, roomsRes, bookingsRes, logsRes] = await Promise.all([
-                supabase.from("properties").select("*").order("name"),
+                supabase
+                    .from("properties")
+                    .select(MEMBER_PROPERTY_COLUMNS)
+                    .eq("membership.user_id", session.user.id)
+                    .order("name"),
                 supabase.from("rooms").select("id, property_id, number, category_id, status, floor"),
                 supabase
                     .from("bookings")
@@ -135,11 +141,7 @@ export default function DashboardPage() {
                     .order("created_at", { ascending: false }),
                 supabase
                     .from("booking_logs")
-                    .select(`
-                        *,
-                        performed_by_user:user_profiles(display_name),
-                        property:properties(name)
-                    `)
+                    .select(BOOKING_LOG_COLUMNS)
                     .order("performed_at", { ascending: false })
                     .limit(5),
             ]);
@@ -153,7 +155,7 @@ export default function DashboardPage() {
                     "Unable to load dashboard data.",
                 );
             } else {
-                setProperties(propertiesRes.data ?? []);
+                setProperties(withMemberRole(propertiesRes.data ?? []));
                 setRooms((roomsRes.data as Room[]) ?? []);
                 // Map the data to include created_by_name from the join
                 const bookingsWithCreator = (bookingsRes.data ?? []).map((booking: any) => ({
@@ -260,29 +262,50 @@ export default function DashboardPage() {
     }, [activeBookings]);
 
     const recentActivityRows = useMemo<ActivityRow[]>(() => {
-        return activityLogs.map((log) => {
-            const guestName = log.details?.guest_name || "Unknown Guest";
-            const roomNum = log.details?.room_number ? `Room ${log.details.room_number}` : "Unassigned";
-
-            let dateRange = "";
-            if (log.details?.check_in && log.details?.check_out) {
-                const checkIn = format(new Date(log.details.check_in), "MMM d, yyyy");
-                const checkOut = format(new Date(log.details.check_out), "MMM d, yyyy");
-                dateRange = `${checkIn} – ${checkOut}`;
-            }
-
-            return {
-                id: log.id,
-                user: log.performed_by_user?.display_name || "Unknown User",
-                action: log.action,
-                details: `${guestName} • ${roomNum}`,
-                property: log.property?.name || "Unknown Property",
-                time: formatDistanceToNow(new Date(log.performed_at), { addSuffix: true }),
-                dates: dateRange,
-            };
-        });
+        return activityLogs.map((log) => ({
+            id: log.id,
+            user: bookingLogActor(log),
+            action: log.action,
+            details: bookingLogSummary(log),
+            property: log.property?.name || "Unknown Property",
+            time: formatDistanceToNow(new Date(log.performed_at), { addSuffix: true }),
+            dates: bookingLogDates(log),
+        }));
     }, [activityLogs]);
 
+    const exportActivity = async (exportFormat: ExportFormat) => {
+        let logs: BookingLog[];
+        try {
+            logs = await fetchAllRows<BookingLog>((from, to) =>
+                supabase
+                    .from("booking_logs")
+                    .select(BOOKING_LOG_COLUMNS)
+                    .order("performed_at", { ascending: false })
+                    .range(from, to),
+            );
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Unable to export activity.");
+            return;
+        }
+
+        downloadTable(
+            "Booking activity",
+            [
+                { header: "Time", value: (log) => format(new Date(log.performed_at), "yyyy-MM-dd HH:mm") },
+                { header: "Property", value: (log) => log.property?.name },
+                { header: "User", value: bookingLogActor },
+                { header: "Action", value: (log) => log.action },
+                { header: "Guest", value: (log) => log.details?.guest_name },
+                { header: "Room", value: (log) => log.details?.room_number },
+                { header: "Check-in", value: (log) => log.details?.check_in },
+                { header: "Check-out", value: (log) => log.details?.check_out },
+                { header: "Amount", value: (log) => log.details?.amount },
+            ],
+            logs,
+            exportFormat,
+        );
+    };
+
     if (profileLoading) {
         return (
             <div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-600">
@@ -302,7 +325,7 @@ export default function DashboardPage() {
     if (!isApproved) {
         return (
             <div className="rounded-xl border border-amber-200 bg-amber-50 p-6 text-sm text-amber-800">
-                Your account is awaiting admin approval. Once approved, this dashboard will unlock.
+                {(profile && accountStatusNotices[profile.status]) || accountStatusNotices.pending}
             </div>
         );
     }
@@ -347,14 +370,16 @@ export default function DashboardPage() {
                     icon={CreditCard}
                     description="All active bookings across your properties."
                 />
-                <StatsCard
-                    title="Active Now"
-                    value={stats.activeStays.toString()}
-                    trend={`${stats.arrivalsToday} arrivals · ${stats.departuresToday} departures`}
-                    trendUp={stats.arrivalsToday >= stats.departuresToday}
-                    icon={Activity}
-                    description="Guests currently staying based on stay dates."
-                />
+                <Link href="/frontdesk" className="block rounded-xl transition hover:shadow-md">
+                    <StatsCard
+                        title="Active Now"
+                        value={stats.activeStays.toString()}
+                        trend={`${stats.arrivalsToday} arrivals · ${stats.departuresToday} departures`}
+                        trendUp={stats.arrivalsToday >= stats.departuresToday}
+                        icon={Activity}
+                        description="Guests currently staying based on stay dates."
+                    />
+                </Link>
                 <StatsCard
                     title="Occupancy Rate"
                     value={`${stats.occupancyRate}%`}
@@ -415,7 +440,7 @@ export default function DashboardPage() {
                     <OccupancyChart data={occupancyData} loading={loading} totalRooms={rooms.length} />
                 </div>
                 <div className="col-span-3">
-                    <RecentBookings rows={recentActivityRows} loading={loading} />
+                    <RecentBookings rows={recentActivityRows} loading={loading} onExport={exportActivity} viewAllHref="/activity" />
                 </div>
             </div>
         </div>
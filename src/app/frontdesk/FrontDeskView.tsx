@@ -0,0 +1,208 @@
+"use client";
+
+import { Booking, Room, bookingStatuses } from "../types";
+import clsx from "clsx";
+import { addDays, format, parseISO } from "date-fns";
+import { useState } from "react";
+import { formatParty } from "@/lib/party";
+
+const buttonBase =
+    "inline-flex h-9 items-center justify-center gap-2 rounded-lg px-3 text-xs font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-400 disabled:opacity-60";
+const primaryButton = `${buttonBase} bg-black text-white hover:bg-slate-900`;
+const ghostButton = `${buttonBase} border border-slate-200 bg-white text-slate-700 hover:bg-slate-50`;
+
+const inputClass =
+    "rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+
+const statusStyles: Record<string, string> = {
+    reserved: "bg-blue-50 text-blue-700 border border-blue-200",
+    tentative: "bg-amber-50 text-amber-700 border border-amber-200",
+    checked_in: "bg-emerald-50 text-emerald-700 border border-emerald-200",
+    checked_out: "bg-slate-100 text-slate-700 border border-slate-200",
+};
+
+const statusLabel = (status: string) => bookingStatuses.find((s) => s.value === status)?.label ?? status;
+
+type FrontDeskViewProps = {
+    date: string; // yyyy-MM-dd
+    onDateChange: (date: string) => void;
+    bookings: Booking[];
+    rooms: Room[];
+    loading?: boolean;
+    onUpdateStatus: (bookingId: string, status: string) => Promise<void>;
+    onEditBooking: (booking: Booking) => void;
+};
+
+export function FrontDeskView({
+    date,
+    onDateChange,
+    bookings,
+    rooms,
+    loading = false,
+    onUpdateStatus,
+    onEditBooking,
+}: FrontDeskViewProps) {
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const roomNumber = (roomId: string | null) => rooms.find((r) => r.id === roomId)?.number ?? null;
+    const today = format(new Date(), "yyyy-MM-dd");
+    const shiftDate = (days: number) => onDateChange(format(addDays(parseISO(date), days), "yyyy-MM-dd"));
+
+    // Guests who already arrived or left today stay on the lists so the desk can see the day's progress
+    const arrivals = bookings.filter(
+        (b) => b.check_in === date && ["reserved", "tentative", "checked_in"].includes(b.status)
+    );
+    const departures = bookings.filter(
+        (b) => b.check_out === date && ["checked_in", "checked_out"].includes(b.status)
+    );
+    const inHouse = bookings.filter(
+        (b) => b.status === "checked_in" && b.check_in <= date && b.check_out > date
+    );
+    const unassigned = arrivals.filter((b) => !b.room_id && b.status !== "checked_in");
+
+    const run = async (booking: Booking, status: string) => {
+        setBusyId(booking.id);
+        await onUpdateStatus(booking.id, status);
+        setBusyId(null);
+    };
+
+    const renderRow = (booking: Booking, action: React.ReactNode) => {
+        const room = roomNumber(booking.room_id);
+        return (
+            <li
+                key={booking.id}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-200 bg-white px-3 py-2"
+            >
+                <button className="min-w-0 text-left" onClick={() => onEditBooking(booking)}>
+                    <p className="truncate text-sm font-semibold text-slate-900">{booking.guest_name}</p>
+                    <p className="text-xs text-slate-500">
+                        {room ? `Room ${room}` : <span className="font-semibold text-rose-700">No room assigned</span>}
+                        {` · ${format(parseISO(booking.check_in), "MMM d")} → ${format(parseISO(booking.check_out), "MMM d")}`}
+                        {` · ${formatParty(booking)}`}
+                    </p>
+                </button>
+                <div className="flex items-center gap-2">
+                    <span
+                        className={clsx(
+                            "rounded-full px-2 py-0.5 text-[11px] font-semibold",
+                            statusStyles[booking.status] ?? statusStyles.checked_out
+                        )}
+                    >
+                        {statusLabel(booking.status)}
+                    </span>
+                    {action}
+                </div>
+            </li>
+        );
+    };
+
+    const columns = [
+        {
+            title: "Arrivals",
+            empty: "No arrivals.",
+            rows: arrivals.map((b) =>
+                renderRow(
+                    b,
+                    b.status === "checked_in" ? null : !b.room_id ? (
+                        <button className={ghostButton} onClick={() => onEditBooking(b)}>
+                            Assign room
+                        </button>
+                    ) : (
+                        <button
+                            className={primaryButton}
+                            disabled={busyId === b.id}
+                            onClick={() => void run(b, "checked_in")}
+                        >
+                            Check in
+                        </button>
+                    )
+                )
+            ),
+        },
+        {
+            title: "Departures",
+            empty: "No departures.",
+            rows: departures.map((b) =>
+                renderRow(
+                    b,
+                    b.status === "checked_in" ? (
+                        <button
+                            className={primaryButton}
+                            disabled={busyId === b.id}
+                            onClick={() => void run(b, "checked_out")}
+                        >
+                            Check out
+                        </button>
+                    ) : null
+                )
+            ),
+        },
+        {
+            title: "In house",
+            empty: "No guests in house.",
+            rows: inHouse.map((b) => renderRow(b, null)),
+        },
+    ];
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap gap-2 text-xs font-semibold">
+                    <span className="rounded-full border border-blue-200 bg-blue-50 px-3 py-1 text-blue-700">
+                        {arrivals.length} arriving
+                    </span>
+                    <span className="rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-slate-700">
+                        {departures.length} departing
+                    </span>
+                    <span className="rounded-full border border-emerald-200 bg-emerald-50 px-3 py-1 text-emerald-700">
+                        {inHouse.length} in house
+                    </span>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button className={ghostButton} onClick={() => shiftDate(-1)} aria-label="Previous day">
+                        ←
+                    </button>
+                    <input
+                        type="date"
+                        className={inputClass}
+                        value={date}
+                        onChange={(e) => e.target.value && onDateChange(e.target.value)}
+                    />
+                    <button className={ghostButton} onClick={() => shiftDate(1)} aria-label="Next day">
+                        →
+                    </button>
+                    {date !== today && (
+                        <button className={ghostButton} onClick={() => onDateChange(today)}>
+                            Today
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {unassigned.length > 0 && (
+                <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-800">
+                    {unassigned.length} arrival{unassigned.length === 1 ? " has" : "s have"} no room assigned:{" "}
+                    <span className="font-semibold">{unassigned.map((b) => b.guest_name).join(", ")}</span>
+                </div>
+            )}
+
+            <div className={clsx("grid gap-4 lg:grid-cols-3", loading && "opacity-60")}>
+                {columns.map((column) => (
+                    <section key={column.title} className="space-y-2 rounded-2xl border border-slate-200 bg-slate-50/60 p-4">
+                        <div className="flex items-center justify-between">
+                            <h4 className="text-sm font-semibold text-slate-900">{column.title}</h4>
+                            <span className="text-xs font-semibold text-slate-500">{column.rows.length}</span>
+                        </div>
+                        {column.rows.length === 0 ? (
+                            <p className="rounded-xl border border-dashed border-slate-300 bg-white px-3 py-4 text-xs text-slate-500">
+                                {column.empty}
+                            </p>
+                        ) : (
+                            <ul className="space-y-2">{column.rows}</ul>
+                        )}
+                    </section>
+                ))}
+            </div>
+        </div>
+    );
+}
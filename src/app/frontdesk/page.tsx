@@ -0,0 +1,12 @@
+"use client";
+
+import { Suspense } from "react";
+import { Dashboard } from "../page";
+
+export default function FrontDeskPage() {
+    return (
+        <Suspense>
+            <Dashboard view="frontdesk" />
+        </Suspense>
+    );
+}
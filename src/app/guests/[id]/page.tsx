@@ -0,0 +1,300 @@
+"use client";
+
+import { supabase } from "@/lib/supabase/client";
+import type { Session } from "@supabase/supabase-js";
+import clsx from "clsx";
+import { format, parseISO } from "date-fns";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useState } from "react";
+import { Booking, Guest, GuestDraft, bookingStatuses } from "../../types";
+
+const buttonBase =
+    "inline-flex h-10 items-center justify-center gap-2 rounded-lg px-4 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-400 disabled:opacity-60";
+const primaryButton = `${buttonBase} bg-black text-white hover:bg-slate-900`;
+const inputClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+});
+
+type Stay = Pick<Booking, "id" | "room_id" | "check_in" | "check_out" | "status" | "total" | "reference_code"> & {
+    room_number: string | null;
+};
+
+type StayRow = Omit<Stay, "room_number"> & { room?: { number: string } | null };
+
+const guestToDraft = (guest: Guest): GuestDraft => ({
+    full_name: guest.full_name,
+    email: guest.email ?? "",
+    passport: guest.passport ?? "",
+    phone: guest.phone ?? "",
+    notes: guest.notes ?? "",
+});
+
+const statusLabel = (status: string) => bookingStatuses.find((s) => s.value === status)?.label ?? status;
+
+export default function GuestProfilePage() {
+    const { id: guestId } = useParams<{ id: string }>();
+    const [session, setSession] = useState<Session | null>(null);
+    const [sessionChecked, setSessionChecked] = useState(false);
+    const [guest, setGuest] = useState<Guest | null>(null);
+    const [draft, setDraft] = useState<GuestDraft | null>(null);
+    const [stays, setStays] = useState<Stay[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        supabase.auth
+            .getSession()
+            .then(({ data }) => setSession(data.session ?? null))
+            .catch(() => setSession(null))
+            .finally(() => setSessionChecked(true));
+    }, []);
+
+    useEffect(() => {
+        const loadGuest = async () => {
+            if (!sessionChecked) return;
+            if (!session) {
+                setError("Sign in to view guest profiles.");
+                setLoading(false);
+                return;
+            }
+
+            setLoading(true);
+            const [guestRes, stayRes] = await Promise.all([
+                supabase
+                    .from("guests")
+                    .select("id, property_id, full_name, email, passport, phone, notes, created_at")
+                    .eq("id", guestId)
+                    .maybeSingle(),
+                supabase
+                    .from("bookings")
+                    .select("id, room_id, check_in, check_out, status, total, reference_code, room:rooms(number)")
+                    .eq("guest_id", guestId)
+                    .order("check_in", { ascending: false }),
+            ]);
+
+            if (guestRes.error || !guestRes.data) {
+                setError(guestRes.error?.message ?? "Guest not found.");
+                setLoading(false);
+                return;
+            }
+            if (stayRes.error) setError(stayRes.error.message);
+
+            // Without generated database types supabase-js infers the join as an array, hence the cast.
+            const rows = (stayRes.data ?? []) as unknown as StayRow[];
+            setGuest(guestRes.data);
+            setDraft(guestToDraft(guestRes.data));
+            setStays(rows.map(({ room, ...stay }) => ({ ...stay, room_number: room?.number ?? null })));
+            setLoading(false);
+        };
+
+        void loadGuest();
+    }, [guestId, session, sessionChecked]);
+
+    const saveGuest = async () => {
+        if (!guest || !draft) return;
+        if (!draft.full_name.trim()) {
+            setError("Guest name is required.");
+            return;
+        }
+
+        setSaving(true);
+        setError(null);
+        setMessage(null);
+        const { data, error: saveError } = await supabase
+            .from("guests")
+            .update({
+                full_name: draft.full_name.trim(),
+                email: draft.email.trim() || null,
+                passport: draft.passport.trim() || null,
+                phone: draft.phone.trim() || null,
+                notes: draft.notes.trim() || null,
+            })
+            .eq("id", guest.id)
+            .select("id, property_id, full_name, email, passport, phone, notes, created_at")
+            .single();
+        setSaving(false);
+
+        if (saveError) {
+            setError(saveError.message);
+            return;
+        }
+        setGuest(data);
+        setDraft(guestToDraft(data));
+        setMessage("Guest profile saved");
+    };
+
+    if (loading) {
+        return <p className="p-8 text-sm text-slate-500">Loading guest...</p>;
+    }
+
+    if (!guest || !draft) {
+        return (
+            <div className="mx-auto max-w-3xl space-y-4 p-8">
+                <p className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                    {error ?? "Guest not found."}
+                </p>
+                <Link href="/guests" className="text-sm font-semibold text-slate-700 hover:underline">
+                    ← Back to guests
+                </Link>
+            </div>
+        );
+    }
+
+    const today = format(new Date(), "yyyy-MM-dd");
+    const upcoming = stays
+        .filter((s) => s.check_out >= today && s.status !== "cancelled" && s.status !== "checked_out")
+        .reverse();
+    const past = stays.filter((s) => !upcoming.includes(s));
+    const nightsStayed = past
+        .filter((s) => s.status === "checked_out")
+        .reduce((sum, s) => sum + (Date.parse(s.check_out) - Date.parse(s.check_in)) / 86_400_000, 0);
+    const totalSpent = past
+        .filter((s) => s.status === "checked_out")
+        .reduce((sum, s) => sum + (s.total ?? 0), 0);
+
+    const renderStays = (list: Stay[], empty: string) =>
+        list.length === 0 ? (
+            <p className="rounded-xl border border-dashed border-slate-300 bg-slate-50 px-4 py-4 text-sm text-slate-600">
+                {empty}
+            </p>
+        ) : (
+            <ul className="divide-y divide-slate-100 rounded-2xl border border-slate-200 bg-white">
+                {list.map((stay) => (
+                    <li key={stay.id} className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 text-sm">
+                        <div>
+                            <p className="font-semibold text-slate-900">
+                                {format(parseISO(stay.check_in), "MMM d, yyyy")} →{" "}
+                                {format(parseISO(stay.check_out), "MMM d, yyyy")}
+                            </p>
+                            <p className="text-xs text-slate-500">
+                                {stay.room_number ? `Room ${stay.room_number}` : "Unassigned"}
+                                {stay.reference_code && ` · ${stay.reference_code}`}
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                            <span
+                                className={clsx(
+                                    "rounded-full border px-2 py-0.5 text-[11px] font-semibold",
+                                    stay.status === "cancelled"
+                                        ? "border-slate-200 bg-slate-50 text-slate-500"
+                                        : "border-emerald-200 bg-emerald-50 text-emerald-700",
+                                )}
+                            >
+                                {statusLabel(stay.status)}
+                            </span>
+                            <span className="w-24 text-right font-semibold text-slate-900">
+                                {stay.total !== null ? currencyFormatter.format(stay.total) : "—"}
+                            </span>
+                            {stay.status === "checked_out" && (
+                                <Link
+                                    href={`/bookings/${stay.id}/invoice`}
+                                    className="text-xs font-semibold text-slate-700 hover:underline"
+                                >
+                                    Invoice
+                                </Link>
+                            )}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        );
+
+    return (
+        <div className="mx-auto max-w-4xl space-y-6">
+            <div className="flex flex-col gap-1">
+                <Link href={`/guests?propertyId=${guest.property_id}`} className="text-xs font-semibold text-slate-500 hover:underline">
+                    ← Guests
+                </Link>
+                <h1 className="text-2xl font-semibold text-slate-900">{guest.full_name}</h1>
+                <p className="text-sm text-slate-500">
+                    {past.filter((s) => s.status === "checked_out").length} completed stays · {nightsStayed} nights ·{" "}
+                    {currencyFormatter.format(totalSpent)} · guest since {format(new Date(guest.created_at), "MMM yyyy")}
+                </p>
+            </div>
+
+            {(message || error) && (
+                <div
+                    className={clsx(
+                        "rounded-xl border px-4 py-3 text-sm",
+                        error ? "border-red-200 bg-red-50 text-red-700" : "border-emerald-200 bg-emerald-50 text-emerald-700",
+                    )}
+                >
+                    {error ?? message}
+                </div>
+            )}
+
+            <section className="space-y-3 rounded-2xl border border-slate-200 bg-white p-4 sm:p-6">
+                <h2 className="text-sm font-semibold text-slate-900">Contact details</h2>
+                <div className="grid gap-3 sm:grid-cols-2">
+                    <label className="space-y-1 text-xs text-slate-600">
+                        Full name
+                        <input
+                            className={inputClass}
+                            value={draft.full_name}
+                            onChange={(e) => setDraft({ ...draft, full_name: e.target.value })}
+                        />
+                    </label>
+                    <label className="space-y-1 text-xs text-slate-600">
+                        Email
+                        <input
+                            type="email"
+                            className={inputClass}
+                            value={draft.email}
+                            onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                        />
+                    </label>
+                    <label className="space-y-1 text-xs text-slate-600">
+                        Passport
+                        <input
+                            className={inputClass}
+                            value={draft.passport}
+                            onChange={(e) => setDraft({ ...draft, passport: e.target.value })}
+                        />
+                    </label>
+                    <label className="space-y-1 text-xs text-slate-600">
+                        Phone
+                        <input
+                            className={inputClass}
+                            value={draft.phone}
+                            onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+                        />
+                    </label>
+                </div>
+                <label className="block space-y-1 text-xs text-slate-600">
+                    Notes
+                    <textarea
+                        className={inputClass}
+                        rows={3}
+                        value={draft.notes}
+                        placeholder="Preferences, allergies, anything the team should know"
+                        onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                    />
+                </label>
+                <div className="flex justify-end">
+                    <button className={primaryButton} disabled={saving} onClick={() => void saveGuest()}>
+                        {saving ? "Saving..." : "Save profile"}
+                    </button>
+                </div>
+            </section>
+
+            <section className="space-y-3">
+                <h2 className="text-sm font-semibold text-slate-900">Upcoming stays</h2>
+                {renderStays(upcoming, "No upcoming stays.")}
+            </section>
+
+            <section className="space-y-3">
+                <h2 className="text-sm font-semibold text-slate-900">Past stays</h2>
+                {renderStays(past, "No past stays yet.")}
+            </section>
+        </div>
+    );
+}
@@ -0,0 +1,290 @@
+"use client";
+
+import { supabase } from "@/lib/supabase/client";
+import type { Session } from "@supabase/supabase-js";
+import clsx from "clsx";
+import { format } from "date-fns";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useCallback, useEffect, useMemo, useState } from "react";
+import { Guest, Property } from "../types";
+
+const buttonBase =
+    "inline-flex h-10 items-center justify-center gap-2 rounded-lg px-4 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-400 disabled:opacity-60";
+const primaryButton = `${buttonBase} bg-black text-white hover:bg-slate-900`;
+const ghostButton = `${buttonBase} border border-slate-200 bg-white text-slate-700 hover:bg-slate-50`;
+const inputClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+
+const GUEST_COLUMNS = "id, property_id, full_name, email, passport, phone, notes, created_at, bookings(count)";
+const PAGE_LIMIT = 200;
+
+type GuestRow = Guest & { bookings?: { count: number }[] };
+
+const mapGuestRows = (rows: unknown[] | null): Guest[] =>
+    ((rows ?? []) as GuestRow[]).map(({ bookings, ...guest }) => ({
+        ...guest,
+        stay_count: bookings?.[0]?.count ?? 0,
+    }));
+
+// Profiles sharing a name, email or passport are probably the same person
+const duplicateKeys = (guest: Guest) =>
+    [
+        `name:${guest.full_name.trim().toLowerCase().replace(/\s+/g, " ")}`,
+        guest.email && `email:${guest.email.trim().toLowerCase()}`,
+        guest.passport && `passport:${guest.passport.trim().toUpperCase()}`,
+    ].filter((key): key is string => !!key);
+
+function GuestDirectory() {
+    const searchParams = useSearchParams();
+    const [session, setSession] = useState<Session | null>(null);
+    const [properties, setProperties] = useState<Property[]>([]);
+    const [propertyId, setPropertyId] = useState<string>(searchParams.get("propertyId") ?? "");
+    const [search, setSearch] = useState("");
+    const [guests, setGuests] = useState<Guest[]>([]);
+    const [duplicatesOnly, setDuplicatesOnly] = useState(false);
+    const [selected, setSelected] = useState<string[]>([]);
+    const [keepId, setKeepId] = useState<string | null>(null);
+    const [working, setWorking] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        supabase.auth
+            .getSession()
+            .then(({ data }) => setSession(data.session ?? null))
+            .catch(() => setSession(null));
+    }, []);
+
+    useEffect(() => {
+        if (!session) return;
+        supabase
+            .from("properties")
+            .select("id, name, code, address, timezone")
+            .order("name")
+            .then(({ data, error: loadError }) => {
+                if (loadError) setError(loadError.message);
+                setProperties(data ?? []);
+                setPropertyId((current) => current || data?.[0]?.id || "");
+            });
+    }, [session]);
+
+    const fetchGuests = useCallback(async (id: string, term: string) => {
+        let query = supabase
+            .from("guests")
+            .select(GUEST_COLUMNS)
+            .eq("property_id", id)
+            .order("full_name")
+            .limit(PAGE_LIMIT);
+        const likeTerm = term.trim().replace(/[,()]/g, "");
+        if (likeTerm) {
+            query = query.or(
+                ["full_name", "email", "passport", "phone"].map((c) => `${c}.ilike.%${likeTerm}%`).join(","),
+            );
+        }
+        const { data, error: loadError } = await query;
+        if (loadError) setError(loadError.message);
+        setGuests(mapGuestRows(data));
+    }, []);
+
+    useEffect(() => {
+        if (!session || !propertyId) return;
+        const timer = window.setTimeout(() => void fetchGuests(propertyId, search), 250);
+        return () => window.clearTimeout(timer);
+    }, [session, propertyId, search, fetchGuests]);
+
+    const duplicateIds = useMemo(() => {
+        const byKey = new Map<string, string[]>();
+        guests.forEach((g) =>
+            duplicateKeys(g).forEach((key) => byKey.set(key, [...(byKey.get(key) ?? []), g.id])),
+        );
+        return new Set([...byKey.values()].filter((ids) => ids.length > 1).flat());
+    }, [guests]);
+
+    const visibleGuests = duplicatesOnly ? guests.filter((g) => duplicateIds.has(g.id)) : guests;
+    const selectedGuests = guests.filter((g) => selected.includes(g.id));
+
+    const toggle = (guestId: string) => {
+        setSelected((current) =>
+            current.includes(guestId) ? current.filter((id) => id !== guestId) : [...current, guestId],
+        );
+        // The oldest selected profile is kept unless staff pick another one
+        setKeepId((current) => (current && current !== guestId ? current : null));
+    };
+
+    const keepGuest =
+        selectedGuests.find((g) => g.id === keepId) ??
+        [...selectedGuests].sort((a, b) => a.created_at.localeCompare(b.created_at))[0];
+
+    const mergeSelected = async () => {
+        if (!keepGuest || selectedGuests.length < 2) return;
+        setWorking(true);
+        setError(null);
+        setMessage(null);
+        const { error: mergeError } = await supabase.rpc("merge_guests", {
+            p_keep: keepGuest.id,
+            p_merge: selected.filter((id) => id !== keepGuest.id),
+        });
+        if (mergeError) {
+            setError(mergeError.message);
+        } else {
+            setMessage(`Merged ${selectedGuests.length - 1} profile${selectedGuests.length > 2 ? "s" : ""} into ${keepGuest.full_name}`);
+            setSelected([]);
+            setKeepId(null);
+            await fetchGuests(propertyId, search);
+        }
+        setWorking(false);
+    };
+
+    return (
+        <div className="mx-auto max-w-6xl space-y-6">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                    <h1 className="text-2xl font-semibold text-slate-900">Guests</h1>
+                    <p className="text-sm text-slate-500">
+                        Everyone who has stayed or is booked, with their stay history. Select duplicates to merge them.
+                    </p>
+                </div>
+                <select
+                    className={clsx(inputClass, "sm:w-56")}
+                    value={propertyId}
+                    onChange={(e) => {
+                        setSelected([]);
+                        setPropertyId(e.target.value);
+                    }}
+                >
+                    {properties.length === 0 && <option value="">No properties</option>}
+                    {properties.map((p) => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                </select>
+            </div>
+
+            {(message || error) && (
+                <div
+                    className={clsx(
+                        "rounded-xl border px-4 py-3 text-sm",
+                        error ? "border-red-200 bg-red-50 text-red-700" : "border-emerald-200 bg-emerald-50 text-emerald-700",
+                    )}
+                >
+                    {error ?? message}
+                </div>
+            )}
+
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+                <input
+                    className={clsx(inputClass, "sm:w-80")}
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search name, email, passport or phone"
+                />
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                    <input
+                        type="checkbox"
+                        checked={duplicatesOnly}
+                        onChange={(e) => setDuplicatesOnly(e.target.checked)}
+                        className="h-4 w-4 rounded border-slate-300"
+                    />
+                    Possible duplicates only ({duplicateIds.size})
+                </label>
+            </div>
+
+            {selectedGuests.length >= 2 && keepGuest && (
+                <div className="space-y-3 rounded-2xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+                    <p className="font-semibold">Merge {selectedGuests.length} profiles. Keep:</p>
+                    <div className="flex flex-wrap gap-3">
+                        {selectedGuests.map((g) => (
+                            <label key={g.id} className="flex items-center gap-2">
+                                <input
+                                    type="radio"
+                                    name="keep-guest"
+                                    checked={keepGuest.id === g.id}
+                                    onChange={() => setKeepId(g.id)}
+                                />
+                                {g.full_name}
+                                <span className="text-xs text-amber-700">({g.stay_count} stays)</span>
+                            </label>
+                        ))}
+                    </div>
+                    <p className="text-xs text-amber-800">
+                        All stays move to {keepGuest.full_name}; missing email, passport and phone are filled from the
+                        others, which are then deleted.
+                    </p>
+                    <div className="flex gap-2">
+                        <button className={primaryButton} disabled={working} onClick={() => void mergeSelected()}>
+                            {working ? "Merging..." : `Merge into ${keepGuest.full_name}`}
+                        </button>
+                        <button className={ghostButton} disabled={working} onClick={() => setSelected([])}>
+                            Clear selection
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="overflow-x-auto rounded-2xl border border-slate-200 bg-white">
+                <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-left text-xs uppercase tracking-wide text-slate-500">
+                        <tr>
+                            <th className="w-10 px-4 py-3" />
+                            <th className="px-4 py-3">Name</th>
+                            <th className="px-4 py-3">Email</th>
+                            <th className="px-4 py-3">Passport</th>
+                            <th className="px-4 py-3 text-right">Stays</th>
+                            <th className="px-4 py-3">Added</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {visibleGuests.length === 0 ? (
+                            <tr>
+                                <td colSpan={6} className="px-4 py-6 text-center text-slate-500">
+                                    {search ? "No guests match that search." : "No guests yet. Profiles are created as bookings are made."}
+                                </td>
+                            </tr>
+                        ) : (
+                            visibleGuests.map((guest) => (
+                                <tr key={guest.id} className={clsx(selected.includes(guest.id) && "bg-amber-50/60")}>
+                                    <td className="px-4 py-3">
+                                        <input
+                                            type="checkbox"
+                                            className="h-4 w-4 rounded border-slate-300"
+                                            checked={selected.includes(guest.id)}
+                                            onChange={() => toggle(guest.id)}
+                                        />
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        <Link
+                                            href={`/guests/${guest.id}`}
+                                            className="font-semibold text-slate-900 hover:underline"
+                                        >
+                                            {guest.full_name}
+                                        </Link>
+                                        {duplicateIds.has(guest.id) && (
+                                            <span className="ml-2 rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 text-[11px] font-semibold text-amber-800">
+                                                Possible duplicate
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-3 text-slate-600">{guest.email ?? "—"}</td>
+                                    <td className="px-4 py-3 text-slate-600">{guest.passport ?? "—"}</td>
+                                    <td className="px-4 py-3 text-right font-semibold text-slate-900">{guest.stay_count}</td>
+                                    <td className="px-4 py-3 text-slate-500">{format(new Date(guest.created_at), "MMM d, yyyy")}</td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+            {guests.length === PAGE_LIMIT && (
+                <p className="text-xs text-slate-500">Showing the first {PAGE_LIMIT} guests. Search to narrow the list.</p>
+            )}
+        </div>
+    );
+}
+
+export default function GuestsPage() {
+    return (
+        <Suspense>
+            <GuestDirectory />
+        </Suspense>
+    );
+}
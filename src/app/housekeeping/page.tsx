@@ -0,0 +1,327 @@
+"use client";
+
+import { supabase } from "@/lib/supabase/client";
+import type { Session } from "@supabase/supabase-js";
+import clsx from "clsx";
+import { format, isBefore, parseISO, startOfDay } from "date-fns";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useCallback, useEffect, useState } from "react";
+import { HousekeepingTask, Property, Room, housekeepingTaskKinds } from "../types";
+
+const buttonBase =
+    "inline-flex h-9 items-center justify-center gap-2 rounded-lg px-3 text-xs font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-400 disabled:opacity-60";
+const primaryButton = `${buttonBase} bg-black text-white hover:bg-slate-900`;
+const ghostButton = `${buttonBase} border border-slate-200 bg-white text-slate-700 hover:bg-slate-50`;
+const selectClass =
+    "rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+
+const TASK_COLUMNS =
+    "*, booking:bookings(guest_name), assignee:user_profiles!housekeeping_tasks_assigned_to_fkey(display_name)";
+
+type TaskRow = HousekeepingTask & {
+    booking?: { guest_name: string } | null;
+    assignee?: { display_name: string } | null;
+};
+
+const columns: { status: HousekeepingTask["status"]; title: string; empty: string }[] = [
+    { status: "open", title: "To do", empty: "Nothing waiting. Checkouts and stay-overs show up here." },
+    { status: "in_progress", title: "In progress", empty: "No one is cleaning right now." },
+    { status: "done", title: "Done today", empty: "No tasks finished yet today." },
+];
+
+type Board = { tasks: HousekeepingTask[]; rooms: Room[]; error: string | null };
+
+async function fetchBoard(propertyId: string): Promise<Board> {
+    // Today's stay-overs are queued on first view as well as by the scheduled job
+    const { error: generateError } = await supabase.rpc("generate_stayover_tasks", { p_property_id: propertyId });
+
+    const [taskRes, roomRes] = await Promise.all([
+        supabase
+            .from("housekeeping_tasks")
+            .select(TASK_COLUMNS)
+            .eq("property_id", propertyId)
+            .or(`status.neq.done,completed_at.gte.${startOfDay(new Date()).toISOString()}`)
+            .order("due_date")
+            .order("created_at"),
+        supabase
+            .from("rooms")
+            .select("id, property_id, category_id, number, floor, status, notes")
+            .eq("property_id", propertyId)
+            .order("number"),
+    ]);
+
+    // Without generated database types supabase-js infers the joins as arrays, hence the cast.
+    const tasks = ((taskRes.data ?? []) as unknown as TaskRow[]).map(({ booking, assignee, ...task }) => ({
+        ...task,
+        guest_name: booking?.guest_name ?? null,
+        assigned_to_name: assignee?.display_name ?? null,
+    }));
+    const loadError = generateError ?? taskRes.error ?? roomRes.error;
+    return { tasks, rooms: roomRes.data ?? [], error: loadError?.message ?? null };
+}
+
+const kindLabel = (kind: string) => housekeepingTaskKinds.find((k) => k.value === kind)?.label ?? kind;
+
+function HousekeepingBoard() {
+    const searchParams = useSearchParams();
+    const [session, setSession] = useState<Session | null>(null);
+    const [properties, setProperties] = useState<Property[]>([]);
+    const [propertyId, setPropertyId] = useState<string>(searchParams.get("propertyId") ?? "");
+    const [rooms, setRooms] = useState<Room[]>([]);
+    const [tasks, setTasks] = useState<HousekeepingTask[]>([]);
+    const [mineOnly, setMineOnly] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [busyTaskId, setBusyTaskId] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        supabase.auth
+            .getSession()
+            .then(({ data }) => setSession(data.session ?? null))
+            .catch(() => setSession(null));
+    }, []);
+
+    useEffect(() => {
+        if (!session) return;
+        supabase
+            .from("properties")
+            .select("id, name, code, address, timezone")
+            .order("name")
+            .then(({ data, error: loadError }) => {
+                if (loadError) setError(loadError.message);
+                setProperties(data ?? []);
+                setPropertyId((current) => current || data?.[0]?.id || "");
+            });
+    }, [session]);
+
+    const showBoard = useCallback((board: Board) => {
+        if (board.error) setError(board.error);
+        setTasks(board.tasks);
+        setRooms(board.rooms);
+        setLoading(false);
+    }, []);
+
+    const loadBoard = async (id: string) => showBoard(await fetchBoard(id));
+
+    useEffect(() => {
+        if (!session || !propertyId) return;
+        void fetchBoard(propertyId).then(showBoard);
+    }, [session, propertyId, showBoard]);
+
+    const runTaskAction = async (taskId: string, action: () => Promise<string | null>) => {
+        setBusyTaskId(taskId);
+        setError(null);
+        setMessage(null);
+        const failure = await action();
+        if (failure) setError(failure);
+        await loadBoard(propertyId);
+        setBusyTaskId(null);
+    };
+
+    const claimTask = (task: HousekeepingTask) =>
+        runTaskAction(task.id, async () => {
+            // Only an open task can be claimed, so two housekeepers never take the same room
+            const { data, error: claimError } = await supabase
+                .from("housekeeping_tasks")
+                .update({ status: "in_progress", assigned_to: session?.user.id, claimed_at: new Date().toISOString() })
+                .eq("id", task.id)
+                .eq("status", "open")
+                .select("id");
+            if (claimError) return claimError.message;
+            if (!data?.length) return "Someone else already claimed this task.";
+            setMessage(`Room ${roomNumber(task.room_id)} claimed`);
+            return null;
+        });
+
+    const releaseTask = (task: HousekeepingTask) =>
+        runTaskAction(task.id, async () => {
+            const { error: releaseError } = await supabase
+                .from("housekeeping_tasks")
+                .update({ status: "open", assigned_to: null, claimed_at: null })
+                .eq("id", task.id);
+            return releaseError?.message ?? null;
+        });
+
+    const completeTask = (task: HousekeepingTask) =>
+        runTaskAction(task.id, async () => {
+            const { error: completeError } = await supabase.rpc("complete_housekeeping_task", {
+                p_task_id: task.id,
+            });
+            if (completeError) return completeError.message;
+            setMessage(
+                task.kind === "checkout"
+                    ? `Room ${roomNumber(task.room_id)} is clean and available`
+                    : `Stay-over service done for room ${roomNumber(task.room_id)}`,
+            );
+            return null;
+        });
+
+    const roomNumber = (roomId: string) => rooms.find((r) => r.id === roomId)?.number ?? "?";
+    const today = startOfDay(new Date());
+    const visibleTasks = mineOnly ? tasks.filter((t) => t.assigned_to === session?.user.id) : tasks;
+    const dirtyRooms = rooms.filter((r) => r.status === "dirty");
+
+    return (
+        <div className="mx-auto max-w-6xl space-y-6">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                    <h1 className="text-2xl font-semibold text-slate-900">Housekeeping</h1>
+                    <p className="text-sm text-slate-500">
+                        Claim a room, clean it, mark it done. Checkout cleans put the room back on sale.
+                    </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                        <input
+                            type="checkbox"
+                            checked={mineOnly}
+                            onChange={(e) => setMineOnly(e.target.checked)}
+                            className="h-4 w-4 rounded border-slate-300"
+                        />
+                        My tasks
+                    </label>
+                    <select
+                        className={selectClass}
+                        value={propertyId}
+                        onChange={(e) => {
+                            setLoading(true);
+                            setPropertyId(e.target.value);
+                        }}
+                    >
+                        {properties.length === 0 && <option value="">No properties</option>}
+                        {properties.map((p) => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                    </select>
+                    <button className={ghostButton} disabled={!propertyId} onClick={() => void loadBoard(propertyId)}>
+                        Refresh
+                    </button>
+                </div>
+            </div>
+
+            {(message || error) && (
+                <div
+                    className={clsx(
+                        "rounded-xl border px-4 py-3 text-sm",
+                        error ? "border-red-200 bg-red-50 text-red-700" : "border-emerald-200 bg-emerald-50 text-emerald-700",
+                    )}
+                >
+                    {error ?? message}
+                </div>
+            )}
+
+            <div className="flex flex-wrap gap-2 text-xs">
+                <span className="rounded-full border border-amber-200 bg-amber-50 px-3 py-1 font-semibold text-amber-800">
+                    {dirtyRooms.length} dirty room{dirtyRooms.length !== 1 ? "s" : ""}
+                    {dirtyRooms.length > 0 && `: ${dirtyRooms.map((r) => r.number).join(", ")}`}
+                </span>
+            </div>
+
+            {loading ? (
+                <p className="text-sm text-slate-500">Loading tasks...</p>
+            ) : (
+                <div className="grid gap-4 lg:grid-cols-3">
+                    {columns.map((column) => {
+                        const columnTasks = visibleTasks.filter((t) => t.status === column.status);
+                        return (
+                            <section
+                                key={column.status}
+                                className="space-y-3 rounded-2xl border border-slate-200 bg-slate-50/60 p-4"
+                            >
+                                <div className="flex items-center justify-between">
+                                    <h2 className="text-sm font-semibold text-slate-900">{column.title}</h2>
+                                    <span className="text-xs font-semibold text-slate-500">{columnTasks.length}</span>
+                                </div>
+                                {columnTasks.length === 0 ? (
+                                    <p className="rounded-xl border border-dashed border-slate-300 bg-white px-3 py-4 text-xs text-slate-500">
+                                        {column.empty}
+                                    </p>
+                                ) : (
+                                    columnTasks.map((task) => {
+                                        const overdue = task.status !== "done" && isBefore(parseISO(task.due_date), today);
+                                        const mine = task.assigned_to === session?.user.id;
+                                        return (
+                                            <div
+                                                key={task.id}
+                                                className="space-y-2 rounded-xl border border-slate-200 bg-white px-3 py-3 shadow-sm"
+                                            >
+                                                <div className="flex items-center justify-between gap-2">
+                                                    <p className="text-sm font-semibold text-slate-900">
+                                                        Room {roomNumber(task.room_id)}
+                                                    </p>
+                                                    <span
+                                                        className={clsx(
+                                                            "rounded-full px-2 py-0.5 text-[11px] font-semibold",
+                                                            task.kind === "checkout"
+                                                                ? "bg-amber-50 text-amber-800 border border-amber-200"
+                                                                : "bg-sky-50 text-sky-800 border border-sky-200",
+                                                        )}
+                                                    >
+                                                        {kindLabel(task.kind)}
+                                                    </span>
+                                                </div>
+                                                <p className="text-xs text-slate-500">
+                                                    {task.guest_name ? `${task.guest_name} • ` : ""}
+                                                    <span className={clsx(overdue && "font-semibold text-red-600")}>
+                                                        {overdue
+                                                            ? `Due since ${format(parseISO(task.due_date), "MMM d")}`
+                                                            : `Due ${format(parseISO(task.due_date), "MMM d")}`}
+                                                    </span>
+                                                </p>
+                                                {task.assigned_to_name && (
+                                                    <p className="text-xs text-slate-500">
+                                                        {task.status === "done" ? "Done by" : "Claimed by"}{" "}
+                                                        {mine ? "you" : task.assigned_to_name}
+                                                        {task.completed_at && ` at ${format(new Date(task.completed_at), "HH:mm")}`}
+                                                    </p>
+                                                )}
+                                                {task.status !== "done" && (
+                                                    <div className="flex gap-2">
+                                                        {task.status === "open" && (
+                                                            <button
+                                                                className={ghostButton}
+                                                                disabled={busyTaskId === task.id}
+                                                                onClick={() => void claimTask(task)}
+                                                            >
+                                                                Claim
+                                                            </button>
+                                                        )}
+                                                        {task.status === "in_progress" && mine && (
+                                                            <button
+                                                                className={ghostButton}
+                                                                disabled={busyTaskId === task.id}
+                                                                onClick={() => void releaseTask(task)}
+                                                            >
+                                                                Release
+                                                            </button>
+                                                        )}
+                                                        <button
+                                                            className={primaryButton}
+                                                            disabled={busyTaskId === task.id}
+                                                            onClick={() => void completeTask(task)}
+                                                        >
+                                                            Mark done
+                                                        </button>
+                                                    </div>
+                                                )}
+                                            </div>
+                                        );
+                                    })
+                                )}
+                            </section>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function HousekeepingPage() {
+    return (
+        <Suspense>
+            <HousekeepingBoard />
+        </Suspense>
+    );
+}
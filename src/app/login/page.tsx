@@ -1,13 +1,30 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useCallback, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import clsx from "clsx";
 import { supabase } from "@/lib/supabase/client";
 import { Eye, EyeOff, Lock, Mail, Loader2 } from "lucide-react";
 
-export default function LoginPage() {
+type InvitationDetails = {
+  email: string;
+  property_name: string | null;
+  role: string | null;
+  expires_at: string;
+  status: "valid" | "accepted" | "expired" | "revoked";
+};
+
+const invitationProblems: Record<Exclude<InvitationDetails["status"], "valid">, string> = {
+  accepted: "This invitation has already been used. Sign in with the invited account.",
+  expired: "This invitation has expired. Ask whoever invited you to send a new one.",
+  revoked: "This invitation was withdrawn.",
+};
+
+function LoginForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const inviteToken = searchParams.get("invite");
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
   const [mode, setMode] = useState<"signin" | "signup">("signin");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -18,12 +35,28 @@ export default function LoginPage() {
   const [error, setError] = useState<string | null>(null);
   const [checkingSession, setCheckingSession] = useState(true);
 
+  // Signed in: accept the invitation from the link (if any), then go to its property
+  const enterApp = useCallback(async () => {
+    if (!inviteToken) {
+      router.replace("/dashboard");
+      return;
+    }
+    const { data, error: acceptError } = await supabase.rpc("accept_invitation", { p_token: inviteToken });
+    if (acceptError) {
+      setError(acceptError.message);
+      setCheckingSession(false);
+      return;
+    }
+    const propertyId = (data as { property_id: string | null } | null)?.property_id;
+    router.replace(propertyId ? `/?propertyId=${propertyId}` : "/dashboard");
+  }, [inviteToken, router]);
+
   useEffect(() => {
     supabase.auth
       .getSession()
       .then(({ data }) => {
         if (data.session) {
-          router.replace("/dashboard");
+          void enterApp();
         } else {
           setCheckingSession(false);
         }
@@ -33,7 +66,7 @@ export default function LoginPage() {
     const { data: listener } = supabase.auth.onAuthStateChange(
       (_event, session) => {
         if (session) {
-          router.replace("/dashboard");
+          void enterApp();
         }
       },
     );
@@ -41,7 +74,26 @@ export default function LoginPage() {
     return () => {
       listener?.subscription.unsubscribe();
     };
-  }, [router]);
+  }, [enterApp]);
+
+  useEffect(() => {
+    if (!inviteToken) return;
+    supabase
+      .rpc("invitation_details", { p_token: inviteToken })
+      .maybeSingle()
+      .then(({ data }) => {
+        const details = data as InvitationDetails | null;
+        setInvitation(details);
+        if (details) {
+          setEmail(details.email);
+          if (details.status === "valid") setMode("signup");
+        } else {
+          setError("This invitation link is not valid.");
+        }
+      });
+  }, [inviteToken]);
+
+  const inviteLocked = invitation?.status === "valid";
 
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -60,7 +112,12 @@ export default function LoginPage() {
         : await supabase.auth.signUp({
           email,
           password,
-          options: { data: { display_name: displayName.trim() } },
+          options: {
+            data: {
+              display_name: displayName.trim(),
+              ...(inviteLocked && inviteToken ? { invitation_token: inviteToken } : {}),
+            },
+          },
         });
 
     if (authError) {
@@ -69,10 +126,12 @@ export default function LoginPage() {
       setMessage(
         mode === "signin"
           ? "Signed in. Redirecting..."
-          : "Account created. Awaiting admin approval.",
+          : inviteLocked
+            ? "Account created. Confirm your email if asked, then sign in to get started."
+            : "Account created. Awaiting admin approval.",
       );
       if (mode === "signin") {
-        router.replace("/dashboard");
+        await enterApp();
       }
     }
 
@@ -99,6 +158,24 @@ export default function LoginPage() {
               ? "Sign in to access the room management system"
               : "Enter your details to get started"}
           </p>
+          {invitation && (
+            <p
+              className={clsx(
+                "mt-4 rounded-lg p-3 text-sm ring-1",
+                invitation.status === "valid"
+                  ? "bg-emerald-50 text-emerald-700 ring-emerald-100"
+                  : "bg-amber-50 text-amber-800 ring-amber-100",
+              )}
+            >
+              {invitation.status === "valid"
+                ? `You've been invited${invitation.property_name ? ` to ${invitation.property_name}` : ""}. ${
+                  mode === "signup"
+                    ? "Create your account below, or sign in if you already have one."
+                    : "Sign in to accept."
+                }`
+                : invitationProblems[invitation.status]}
+            </p>
+          )}
         </div>
 
         <form className="mt-8 space-y-6" onSubmit={handleAuth}>
@@ -147,6 +224,7 @@ export default function LoginPage() {
                   type="email"
                   autoComplete="email"
                   required
+                  readOnly={inviteLocked}
                   value={email}
                   onChange={(e) => setEmail(e.target.value)}
                   className="block w-full rounded-lg border border-zinc-300 bg-zinc-50 py-2.5 pl-10 pr-3 text-zinc-900 placeholder-zinc-400 focus:border-zinc-500 focus:bg-white focus:outline-none focus:ring-1 focus:ring-zinc-500 sm:text-sm transition-colors"
@@ -246,3 +324,16 @@ export default function LoginPage() {
   );
 }
 
+export default function LoginPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center bg-zinc-50 px-4">
+          <Loader2 className="h-8 w-8 animate-spin text-zinc-400" />
+        </div>
+      }
+    >
+      <LoginForm />
+    </Suspense>
+  );
+}
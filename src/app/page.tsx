@@ -14,25 +14,68 @@ import {
   PlusIcon,
 } from "@radix-ui/react-icons";
 import clsx from "clsx";
-import { format, addDays, startOfMonth, endOfMonth } from "date-fns";
+import { format, addDays, startOfMonth, endOfMonth, startOfWeek } from "date-fns";
 import { useCallback, useEffect, useMemo, useState, Suspense } from "react";
-import { AvailabilityView } from "./availability/AvailabilityView";
+import { AvailabilityView, type BookingMove } from "./availability/AvailabilityView";
 import { BookingsView } from "./bookings/BookingsView";
+import { BookingGroupDialog, type PartyGuest } from "./bookings/BookingGroupDialog";
+import { StayQuoteSummary } from "./bookings/StayQuoteSummary";
+import { FolioPanel } from "./bookings/FolioPanel";
+import { BookingHistoryPanel } from "./bookings/BookingHistoryPanel";
+import { OccupantsField } from "./bookings/OccupantsField";
+import { CalendarFeedPanel } from "./properties/CalendarFeedPanel";
+import { HoldReminderPanel } from "./properties/HoldReminderPanel";
+import { RoomFeedsDialog } from "./rooms/RoomFeedsDialog";
+import { MaintenanceDialog } from "./rooms/MaintenanceDialog";
+import { EmailTemplatesDialog } from "./properties/EmailTemplatesDialog";
+import { PropertyMembersDialog } from "./properties/PropertyMembersDialog";
+import { FrontDeskView } from "./frontdesk/FrontDeskView";
+import { AutoAssignDialog } from "./bookings/AutoAssignDialog";
+import { planRoomAssignment, type AssignmentPlanRow } from "@/lib/roomAssignment";
+import { folioBalance } from "@/lib/folio";
+import { formatParty, otherGuestNames, partyCounts, partySize } from "@/lib/party";
+import { MEMBER_PROPERTY_COLUMNS, propertyCan, withMemberRole } from "@/lib/propertyAccess";
+import { INVITATION_COLUMNS } from "@/lib/invitations";
+import { downloadTable, fetchAllRows, type ExportFormat } from "@/lib/export";
+import { ExportMenu } from "@/components/ExportMenu";
+import { quoteStay, type StayQuote } from "@/lib/rates";
+import type { FeedSyncResult } from "@/lib/icalSync";
 
 /* eslint-disable react-hooks/set-state-in-effect */
 
 import {
   Booking,
   BookingDraft,
+  BookingFolio,
+  BookingGroup,
   BookingWithDates,
   CategoryDraft,
   DashboardView,
+  EmailEvent,
+  EmailLogEntry,
+  EmailTemplate,
+  EmailTemplateDraft,
+  FeedDraft,
+  FolioItemDraft,
+  Guest,
+  IcalConflict,
+  MaintenanceDraft,
+  MaintenanceTicket,
+  PaymentDraft,
   Property,
+  PropertyMember,
+  PropertyRole,
+  RateSeason,
   Room,
   RoomCategory,
   RoomDraft,
+  RoomIcalFeed,
+  SeasonDraft,
+  StaffInvitation,
   UserProfile,
+  accountStatusNotices,
   bookingStatuses,
+  propertyRoles,
   roomStatuses,
 } from "./types";
 
@@ -49,6 +92,7 @@ const navigationSections: {
     { id: "bookings", label: "Bookings", href: "/bookings", requiresActive: true },
     { id: "tentative", label: "Tentative", href: "/tentative", requiresActive: true },
     { id: "availability", label: "Availability", href: "/availability", requiresActive: true },
+    { id: "frontdesk", label: "Front desk", href: "/frontdesk", requiresActive: true },
   ];
 
 const buttonBase =
@@ -59,6 +103,109 @@ const dangerButton = `${buttonBase} bg-red-50 text-red-600 border border-red-200
 const cardClass =
   "rounded-2xl border border-slate-200 bg-white p-5 shadow-sm shadow-slate-100";
 const BOOKINGS_PAGE_SIZE = 10;
+const HOLD_RELEASE_INTERVAL_MS = 60_000;
+const BOOKING_COLUMNS =
+  "id, property_id, room_id, group_id, guest_id, guest_name, guest_email, guest_passport, adults, children, check_in, check_out, status, auto_release_at, total, reference_code, notes, source, feed_id, created_by, created_by_user:user_profiles(display_name), group:booking_groups(name), occupants:booking_guests(id, property_id, booking_id, full_name, age_group, email, document_type, document_number, position)";
+
+type BookingRow = Booking & {
+  created_by_user?: { display_name: string } | null;
+  group?: { name: string } | null;
+};
+
+// Flatten the joined creator and party names onto each booking. Without generated
+// database types supabase-js infers the many-to-one joins as arrays, hence the cast.
+const mapBookingRows = (rows: unknown[] | null): Booking[] =>
+  ((rows ?? []) as BookingRow[]).map(({ created_by_user, group, ...booking }) => ({
+    ...booking,
+    created_by_name: created_by_user?.display_name || null,
+    group_name: group?.name || null,
+    occupants: [...(booking.occupants ?? [])].sort((a, b) => a.position - b.position),
+  }));
+
+// Bookings are listed by the month they check in: [first of month, first of next month).
+const monthCheckInRange = (month: Date) => ({
+  from: startOfMonth(month).toISOString().split("T")[0],
+  to: addDays(endOfMonth(month), 1).toISOString().split("T")[0],
+});
+
+// Other guests live in booking_guests, so their matches are looked up first and
+// folded in as booking ids.
+const bookingSearchFilter = async (propertyId: string, search: string) => {
+  const likeTerm = `%${search.trim()}%`;
+  const { data: occupantMatches } = await supabase
+    .from("booking_guests")
+    .select("booking_id")
+    .eq("property_id", propertyId)
+    .or(`full_name.ilike.${likeTerm},email.ilike.${likeTerm},document_number.ilike.${likeTerm}`)
+    .limit(100);
+  const bookingIds = [...new Set((occupantMatches ?? []).map((m) => m.booking_id as string))];
+  return [
+    `guest_name.ilike.${likeTerm}`,
+    `guest_email.ilike.${likeTerm}`,
+    `guest_passport.ilike.${likeTerm}`,
+    `reference_code.ilike.${likeTerm}`,
+    ...(bookingIds.length > 0 ? [`id.in.(${bookingIds.join(",")})`] : []),
+  ].join(",");
+};
+
+type GuestRow = Guest & { bookings?: { count: number }[] };
+
+// Stay counts come back as a one-element aggregate array
+const mapGuestRows = (rows: unknown[] | null): Guest[] =>
+  ((rows ?? []) as GuestRow[]).map(({ bookings, ...guest }) => ({
+    ...guest,
+    stay_count: bookings?.[0]?.count ?? 0,
+  }));
+
+// Which guest email a status change sends, if any
+const statusChangeEmail = (from: string, to: string): EmailEvent | null =>
+  to === "cancelled" ? "booking_cancelled" : from === "tentative" && to === "reserved" ? "booking_confirmed" : null;
+
+const bookingSortColumn = (sort: "check_in" | "guest" | "room") =>
+  sort === "guest" ? "guest_name" : sort === "room" ? "room_id" : "check_in";
+
+const bookingToDraft = (booking: Booking): BookingDraft => ({
+  id: booking.id,
+  guest_name: booking.guest_name,
+  guest_email: booking.guest_email ?? "",
+  guest_passport: booking.guest_passport ?? "",
+  occupants: (booking.occupants ?? []).map((o) => ({
+    full_name: o.full_name,
+    age_group: o.age_group,
+    email: o.email ?? "",
+    document_type: o.document_type ?? "",
+    document_number: o.document_number ?? "",
+  })),
+  room_ids: booking.room_id ? [booking.room_id] : [],
+  check_in: booking.check_in,
+  check_out: booking.check_out,
+  status: booking.status,
+  auto_release_at: booking.auto_release_at ?? null,
+  notes: booking.notes ?? "",
+  group_id: booking.group_id,
+  guest_id: booking.guest_id ?? null,
+  total: booking.total,
+});
+
+let lastHoldReleaseAt = 0;
+let pendingHoldRelease: Promise<void> | null = null;
+
+// Lazily cancel expired tentative holds before reading bookings, at most once a minute.
+// The scheduled /api/holds/release route does the same while nobody has the app open.
+function releaseExpiredHolds() {
+  if (pendingHoldRelease) return pendingHoldRelease;
+  if (Date.now() - lastHoldReleaseAt < HOLD_RELEASE_INTERVAL_MS) return Promise.resolve();
+  lastHoldReleaseAt = Date.now();
+  pendingHoldRelease = (async () => {
+    const { error } = await supabase.rpc("release_expired_holds");
+    if (error) {
+      console.error("Failed to release expired holds", error);
+    }
+  })().finally(() => {
+    pendingHoldRelease = null;
+  });
+  return pendingHoldRelease;
+}
 
 function StatusPill({
   status,
@@ -289,9 +436,20 @@ const defaultCategoryDraft: CategoryDraft = {
   name: "",
   base_rate: "",
   capacity: "2",
+  weekend_uplift_pct: "0",
+  min_stay: "1",
   description: "",
 };
 
+const defaultSeasonDraft: SeasonDraft = {
+  category_id: "",
+  name: "",
+  start_date: "",
+  end_date: "",
+  nightly_rate: "",
+  min_stay: "",
+};
+
 const defaultRoomDraft: RoomDraft = {
   number: "",
   category_id: "",
@@ -304,9 +462,7 @@ const defaultBookingDraft: BookingDraft = {
   guest_name: "",
   guest_email: "",
   guest_passport: "",
-  second_guest_name: "",
-  second_guest_email: "",
-  second_guest_passport: "",
+  occupants: [],
   room_ids: [],
   check_in: "",
   check_out: "",
@@ -325,13 +481,29 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [profileLoading, setProfileLoading] = useState(false);
   const [profileError, setProfileError] = useState<string | null>(null);
+  // From is_user_approved(), which also knows whether this deployment requires approval
+  const [isApproved, setIsApproved] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
   const [authLoading, setAuthLoading] = useState(false);
 
   const [properties, setProperties] = useState<Property[]>([]);
   const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
   const [categories, setCategories] = useState<RoomCategory[]>([]);
+  const [rateSeasons, setRateSeasons] = useState<RateSeason[]>([]);
   const [rooms, setRooms] = useState<Room[]>([]);
+  const [roomFeeds, setRoomFeeds] = useState<RoomIcalFeed[]>([]);
+  const [feedConflicts, setFeedConflicts] = useState<IcalConflict[]>([]);
+  const [feedsRoomId, setFeedsRoomId] = useState<string | null>(null);
+  const [maintenanceTickets, setMaintenanceTickets] = useState<MaintenanceTicket[]>([]);
+  const [maintenanceRoomId, setMaintenanceRoomId] = useState<string | null>(null);
+  const [autoAssignOpen, setAutoAssignOpen] = useState(false);
+  const [emailTemplatesOpen, setEmailTemplatesOpen] = useState(false);
+  const [emailTemplates, setEmailTemplates] = useState<EmailTemplate[]>([]);
+  const [emailLog, setEmailLog] = useState<EmailLogEntry[]>([]);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [propertyMembers, setPropertyMembers] = useState<PropertyMember[]>([]);
+  const [propertyInvitations, setPropertyInvitations] = useState<StaffInvitation[]>([]);
+  const [guestSuggestions, setGuestSuggestions] = useState<Guest[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [bookingsCount, setBookingsCount] = useState(0);
   const [bookingsPage, setBookingsPage] = useState(1);
@@ -346,6 +518,16 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
   const [categoryModalOpen, setCategoryModalOpen] = useState(false);
   const [roomModalOpen, setRoomModalOpen] = useState(false);
   const [bookingModalOpen, setBookingModalOpen] = useState(false);
+  const [bookingDialogTab, setBookingDialogTab] = useState<"details" | "history">("details");
+  const [activeGroup, setActiveGroup] = useState<BookingGroup | null>(null);
+  const [groupBookings, setGroupBookings] = useState<Booking[]>([]);
+  const [groupLoading, setGroupLoading] = useState(false);
+  const [folio, setFolio] = useState<BookingFolio | null>(null);
+  const [folioLoading, setFolioLoading] = useState(false);
+  const [pendingCheckout, setPendingCheckout] = useState<{
+    bookingId: string;
+    balance: number;
+  } | null>(null);
   const [propertyDraft, setPropertyDraft] = useState({
     name: "",
     code: "",
@@ -354,10 +536,18 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
   });
   const [categoryDraft, setCategoryDraft] =
     useState<CategoryDraft>(defaultCategoryDraft);
+  const [seasonDraft, setSeasonDraft] = useState<SeasonDraft>(defaultSeasonDraft);
   const [roomDraft, setRoomDraft] = useState<RoomDraft>(defaultRoomDraft);
   const [bookingDraft, setBookingDraft] =
     useState<BookingDraft>(defaultBookingDraft);
   const [calendarMonth, setCalendarMonth] = useState<Date>(() => startOfMonth(new Date()));
+  const [availabilityWindow, setAvailabilityWindow] = useState(() => ({
+    start: startOfWeek(new Date(), { weekStartsOn: 1 }),
+    days: 30,
+  }));
+  const [frontDeskDate, setFrontDeskDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [frontDeskBookings, setFrontDeskBookings] = useState<Booking[]>([]);
+  const [frontDeskLoading, setFrontDeskLoading] = useState(false);
   const [bookingStatusFilter, setBookingStatusFilter] = useState<string>("all");
   const [bookingSort, setBookingSort] = useState<"check_in" | "guest" | "room">(
     "check_in",
@@ -368,9 +558,7 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const propertyIdParam = searchParams.get("propertyId");
-  // Approval is disabled; any signed-in user can use the app
-  const isApproved = true;
-  const canUseApp = Boolean(session);
+  const canUseApp = Boolean(session) && isApproved;
 
   useEffect(() => {
     setMounted(true);
@@ -418,14 +606,53 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
 
   const startNewBooking = () => {
     setBookingDraft(defaultBookingDraft);
+    setBookingDialogTab("details");
+    setBookingModalOpen(true);
+  };
+
+  const loadFolio = async (bookingId: string) => {
+    setFolioLoading(true);
+    const [itemsRes, paymentsRes] = await Promise.all([
+      supabase
+        .from("folio_items")
+        .select("id, property_id, booking_id, description, quantity, unit_amount, posted_on, created_at")
+        .eq("booking_id", bookingId)
+        .order("posted_on"),
+      supabase
+        .from("payments")
+        .select("id, property_id, booking_id, kind, method, amount, reference, received_at")
+        .eq("booking_id", bookingId)
+        .order("received_at"),
+    ]);
+
+    if (itemsRes.error || paymentsRes.error) {
+      setError(itemsRes.error?.message ?? paymentsRes.error?.message ?? "Unable to load folio.");
+    }
+    setFolio({
+      booking_id: bookingId,
+      items: itemsRes.data ?? [],
+      payments: paymentsRes.data ?? [],
+    });
+    setFolioLoading(false);
+  };
+
+  const editBooking = (booking: Booking) => {
+    setBookingDraft(bookingToDraft(booking));
+    setBookingDialogTab("details");
     setBookingModalOpen(true);
+    setFolio(null);
+    void loadFolio(booking.id);
   };
 
   const resetAll = useCallback(() => {
     setProperties([]);
     setSelectedPropertyId(null);
     setCategories([]);
+    setRateSeasons([]);
     setRooms([]);
+    setRoomFeeds([]);
+    setFeedConflicts([]);
+    setMaintenanceTickets([]);
     setBookings([]);
     setBookingsCount(0);
     setBookingsPage(1);
@@ -433,6 +660,9 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
     setAvailabilityBookings([]);
     setAvailabilityLoading(false);
     setCalendarMonth(startOfMonth(new Date()));
+    setAvailabilityWindow({ start: startOfWeek(new Date(), { weekStartsOn: 1 }), days: 30 });
+    setFrontDeskDate(format(new Date(), "yyyy-MM-dd"));
+    setFrontDeskBookings([]);
     setMessage(null);
     setError(null);
   }, []);
@@ -488,11 +718,15 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
           return;
         }
 
+        const { data: approved } = await supabase.rpc("is_user_approved", { uid: userId });
+        setIsApproved(Boolean(approved));
         setProfile(inserted);
         setProfileLoading(false);
         return;
       }
 
+      const { data: approved } = await supabase.rpc("is_user_approved", { uid: userId });
+      setIsApproved(Boolean(approved));
       setProfile(data);
       setProfileLoading(false);
     },
@@ -503,7 +737,8 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
     if (!session || !isApproved) return;
     const { data, error } = await supabase
       .from("properties")
-      .select("*")
+      .select(MEMBER_PROPERTY_COLUMNS)
+      .eq("membership.user_id", session.user.id)
       .order("name");
 
     if (error) {
@@ -511,9 +746,10 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
       return;
     }
 
-    setProperties(data ?? []);
-    if (!selectedPropertyId && !propertyIdParam && data?.length) {
-      setSelectedPropertyId(data[0].id);
+    const memberProperties = withMemberRole(data ?? []);
+    setProperties(memberProperties);
+    if (!selectedPropertyId && !propertyIdParam && memberProperties.length) {
+      setSelectedPropertyId(memberProperties[0].id);
     }
   }, [session, selectedPropertyId, propertyIdParam, isApproved]);
 
@@ -538,50 +774,32 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
       const targetMonth = options?.month ?? calendarMonth;
 
       setBookingsLoading(true);
+      await releaseExpiredHolds();
       const from = (page - 1) * BOOKINGS_PAGE_SIZE;
       const to = from + BOOKINGS_PAGE_SIZE - 1;
 
-      // Calculate month range for filtering
-      const monthStart = startOfMonth(targetMonth);
-      const monthEnd = endOfMonth(targetMonth);
-      const monthStartDate = monthStart.toISOString().split("T")[0];
-      const monthEndDate = addDays(monthEnd, 1).toISOString().split("T")[0];
+      const month = monthCheckInRange(targetMonth);
 
       let query = supabase
         .from("bookings")
         .select(
-          "id, property_id, room_id, guest_name, guest_email, guest_passport, second_guest_name, second_guest_email, second_guest_passport, adults, check_in, check_out, status, auto_release_at, reference_code, notes, created_by, created_by_user:user_profiles(display_name)",
+          BOOKING_COLUMNS,
           { count: "exact" },
         )
         .eq("property_id", targetPropertyId)
-        .gte("check_in", monthStartDate)
-        .lt("check_in", monthEndDate);
+        .gte("check_in", month.from)
+        .lt("check_in", month.to);
 
       if (status !== "all") {
         query = query.eq("status", status);
       }
 
       if (search.trim()) {
-        const term = search.trim();
-        const likeTerm = `%${term}%`;
-        query = query.or(
-          [
-            `guest_name.ilike.${likeTerm}`,
-            `guest_email.ilike.${likeTerm}`,
-            `guest_passport.ilike.${likeTerm}`,
-            `second_guest_name.ilike.${likeTerm}`,
-            `second_guest_email.ilike.${likeTerm}`,
-            `second_guest_passport.ilike.${likeTerm}`,
-            `reference_code.ilike.${likeTerm}`,
-          ].join(","),
-        );
+        query = query.or(await bookingSearchFilter(targetPropertyId, search));
       }
 
-      const orderColumn =
-        sort === "guest" ? "guest_name" : sort === "room" ? "room_id" : "check_in";
-
       const { data, error, count } = await query
-        .order(orderColumn, { ascending: true, nullsFirst: true })
+        .order(bookingSortColumn(sort), { ascending: true, nullsFirst: true })
         .range(from, to);
 
       if (error) {
@@ -592,13 +810,7 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
         return;
       }
 
-      // Map the data to include created_by_name from the join
-      const bookingsWithCreator = (data ?? []).map((booking: any) => ({
-        ...booking,
-        created_by_name: booking.created_by_user?.display_name || null,
-      }));
-
-      setBookings(bookingsWithCreator);
+      setBookings(mapBookingRows(data));
       setBookingsCount(count ?? 0);
       setBookingsPage(page);
       setBookingsLoading(false);
@@ -630,19 +842,19 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
     loadBookingsPage,
   ]);
 
+  // Active bookings overlapping [from, to); `to` is exclusive like a check-out date
   const loadAvailabilityBookings = useCallback(
-    async (propertyId: string, month: Date) => {
+    async (propertyId: string, from: Date, to: Date) => {
       if (!session || !isApproved) return;
       setAvailabilityLoading(true);
-      const start = startOfMonth(month);
-      const end = addDays(endOfMonth(month), 1);
-      const startDate = start.toISOString().split("T")[0];
-      const endDate = end.toISOString().split("T")[0];
+      await releaseExpiredHolds();
+      const startDate = format(from, "yyyy-MM-dd");
+      const endDate = format(to, "yyyy-MM-dd");
 
       const { data, error } = await supabase
         .from("bookings")
         .select(
-          "id, property_id, room_id, guest_name, guest_email, guest_passport, second_guest_name, second_guest_email, second_guest_passport, adults, check_in, check_out, status, auto_release_at, reference_code, notes, created_by, created_by_user:user_profiles(display_name)",
+          BOOKING_COLUMNS,
         )
         .eq("property_id", propertyId)
         .neq("status", "cancelled")
@@ -654,18 +866,38 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
         setError(error.message);
         setAvailabilityBookings([]);
       } else {
-        // Map the data to include created_by_name from the join
-        const bookingsWithCreator = (data ?? []).map((booking: any) => ({
-          ...booking,
-          created_by_name: booking.created_by_user?.display_name || null,
-        }));
-        setAvailabilityBookings(bookingsWithCreator);
+        setAvailabilityBookings(mapBookingRows(data));
       }
       setAvailabilityLoading(false);
     },
     [session, isApproved],
   );
 
+  // Everything touching the day: arriving, leaving or staying over
+  const loadFrontDeskBookings = useCallback(
+    async (propertyId: string, day: string) => {
+      if (!session || !isApproved) return;
+      setFrontDeskLoading(true);
+      const { data, error } = await supabase
+        .from("bookings")
+        .select(BOOKING_COLUMNS)
+        .eq("property_id", propertyId)
+        .neq("status", "cancelled")
+        .lte("check_in", day)
+        .gte("check_out", day)
+        .order("check_in", { ascending: true });
+
+      if (error) {
+        setError(error.message);
+        setFrontDeskBookings([]);
+      } else {
+        setFrontDeskBookings(mapBookingRows(data));
+      }
+      setFrontDeskLoading(false);
+    },
+    [session, isApproved],
+  );
+
   const loadRecentActivity = useCallback(async () => {
     if (!session || !isApproved) return;
     setActivityLoading(true);
@@ -697,10 +929,11 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
 
   const loadPropertyData = useCallback(async (propertyId: string) => {
     if (!session || !isApproved) return;
-    const [catRes, roomRes] = await Promise.all([
+    const today = format(new Date(), "yyyy-MM-dd");
+    const [catRes, roomRes, seasonRes, feedRes, conflictRes, ticketRes] = await Promise.all([
       supabase
         .from("room_categories")
-        .select("id, property_id, name, description, base_rate, capacity")
+        .select("id, property_id, name, description, base_rate, capacity, weekend_uplift_pct, min_stay")
         .eq("property_id", propertyId)
         .order("name"),
       supabase
@@ -708,13 +941,44 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
         .select("id, property_id, category_id, number, floor, status, notes")
         .eq("property_id", propertyId)
         .order("number"),
+      supabase
+        .from("rate_seasons")
+        .select("id, property_id, category_id, name, start_date, end_date, nightly_rate, min_stay")
+        .eq("property_id", propertyId)
+        .order("start_date"),
+      supabase
+        .from("room_ical_feeds")
+        .select("*")
+        .eq("property_id", propertyId)
+        .order("created_at"),
+      supabase
+        .from("ical_conflicts")
+        .select("*")
+        .eq("property_id", propertyId)
+        .gte("check_out", today)
+        .order("check_in"),
+      // Every open ticket, plus closed ones that would still have been running
+      supabase
+        .from("maintenance_tickets")
+        .select("*")
+        .eq("property_id", propertyId)
+        .or(`status.eq.open,end_date.gt.${today}`)
+        .order("start_date"),
     ]);
 
     if (catRes.error) setError(catRes.error.message);
     if (roomRes.error) setError(roomRes.error.message);
+    if (seasonRes.error) setError(seasonRes.error.message);
+    if (feedRes.error) setError(feedRes.error.message);
+    if (conflictRes.error) setError(conflictRes.error.message);
+    if (ticketRes.error) setError(ticketRes.error.message);
 
     setCategories(catRes.data ?? []);
     setRooms(roomRes.data ?? []);
+    setRateSeasons(seasonRes.data ?? []);
+    setRoomFeeds(feedRes.data ?? []);
+    setFeedConflicts(conflictRes.data ?? []);
+    setMaintenanceTickets(ticketRes.data ?? []);
   }, [session, isApproved]);
 
   useEffect(() => {
@@ -792,8 +1056,54 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
 
   useEffect(() => {
     if (!canUseApp || !selectedPropertyId) return;
-    void loadAvailabilityBookings(selectedPropertyId, calendarMonth);
-  }, [selectedPropertyId, calendarMonth, loadAvailabilityBookings, canUseApp]);
+    void loadAvailabilityBookings(
+      selectedPropertyId,
+      availabilityWindow.start,
+      addDays(availabilityWindow.start, availabilityWindow.days),
+    );
+  }, [selectedPropertyId, availabilityWindow, loadAvailabilityBookings, canUseApp]);
+
+  useEffect(() => {
+    if (!canUseApp || !selectedPropertyId) return;
+    void loadFrontDeskBookings(selectedPropertyId, frontDeskDate);
+  }, [selectedPropertyId, frontDeskDate, loadFrontDeskBookings, canUseApp]);
+
+  useEffect(() => {
+    // Narrow screens start the availability grid on two weeks instead of a month
+    if (window.innerWidth < 1024) {
+      setAvailabilityWindow((current) => ({ ...current, days: 14 }));
+    }
+  }, []);
+
+  // Offer matching guest profiles while an email or passport is typed into the booking dialog
+  useEffect(() => {
+    const email = bookingDraft.guest_email.trim().replace(/[,()]/g, "");
+    const passport = bookingDraft.guest_passport.trim().replace(/[,()]/g, "");
+    if (!bookingModalOpen || !selectedPropertyId || bookingDraft.guest_id || (email.length < 3 && passport.length < 3)) {
+      setGuestSuggestions([]);
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      const filters = [
+        email.length >= 3 ? `email.ilike.%${email}%` : null,
+        passport.length >= 3 ? `passport.ilike.${passport}` : null,
+      ].filter(Boolean).join(",");
+      void supabase
+        .from("guests")
+        .select("id, property_id, full_name, email, passport, phone, notes, created_at, bookings(count)")
+        .eq("property_id", selectedPropertyId)
+        .or(filters)
+        .limit(5)
+        .then(({ data }) => setGuestSuggestions(mapGuestRows(data)));
+    }, 300);
+    return () => window.clearTimeout(timer);
+  }, [
+    bookingModalOpen,
+    selectedPropertyId,
+    bookingDraft.guest_id,
+    bookingDraft.guest_email,
+    bookingDraft.guest_passport,
+  ]);
 
   useEffect(() => {
     if (view === "tentative" && bookingStatusFilter !== "tentative") {
@@ -813,7 +1123,12 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
           search: bookingSearch,
           month: calendarMonth,
         }),
-        loadAvailabilityBookings(selectedPropertyId, calendarMonth),
+        loadAvailabilityBookings(
+          selectedPropertyId,
+          availabilityWindow.start,
+          addDays(availabilityWindow.start, availabilityWindow.days),
+        ),
+        loadFrontDeskBookings(selectedPropertyId, frontDeskDate),
       ]);
     },
     [
@@ -823,8 +1138,11 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
       bookingSort,
       bookingSearch,
       calendarMonth,
+      availabilityWindow,
+      frontDeskDate,
       loadBookingsPage,
       loadAvailabilityBookings,
+      loadFrontDeskBookings,
       canUseApp,
     ],
   );
@@ -843,6 +1161,83 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
     });
   };
 
+  // Export every booking matching the list's current filters, not just the visible page.
+  const exportBookings = async (exportFormat: ExportFormat) => {
+    if (!selectedPropertyId) return;
+    const month = monthCheckInRange(calendarMonth);
+    const searchFilter = bookingSearch.trim() ? await bookingSearchFilter(selectedPropertyId, bookingSearch) : null;
+
+    let rows: unknown[];
+    try {
+      rows = await fetchAllRows((from, to) => {
+        let query = supabase
+          .from("bookings")
+          .select(BOOKING_COLUMNS)
+          .eq("property_id", selectedPropertyId)
+          .gte("check_in", month.from)
+          .lt("check_in", month.to);
+        if (bookingStatusFilter !== "all") {
+          query = query.eq("status", bookingStatusFilter);
+        }
+        if (searchFilter) {
+          query = query.or(searchFilter);
+        }
+        return query
+          .order(bookingSortColumn(bookingSort), { ascending: true, nullsFirst: true })
+          .order("id")
+          .range(from, to);
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to export bookings.");
+      return;
+    }
+
+    const roomNumberById = new Map(rooms.map((r) => [r.id, r.number]));
+    const exported = mapBookingRows(rows);
+    downloadTable(
+      `${activeProperty?.name ?? "Property"} bookings ${format(calendarMonth, "yyyy-MM")}`,
+      [
+        { header: "Reference", value: (b) => b.reference_code },
+        { header: "Guest", value: (b) => b.guest_name },
+        { header: "Email", value: (b) => b.guest_email },
+        { header: "Passport", value: (b) => b.guest_passport },
+        { header: "Other guests", value: (b) => b.occupants?.map((o) => o.full_name).join(", ") || null },
+        { header: "Adults", value: (b) => b.adults },
+        { header: "Children", value: (b) => b.children },
+        { header: "Room", value: (b) => (b.room_id ? roomNumberById.get(b.room_id) : "Unassigned") },
+        { header: "Party", value: (b) => b.group_name },
+        { header: "Check-in", value: (b) => b.check_in },
+        { header: "Check-out", value: (b) => b.check_out },
+        { header: "Status", value: (b) => b.status },
+        { header: "Total", value: (b) => (b.total === null ? null : Number(b.total)) },
+        { header: "Created by", value: (b) => b.created_by_name },
+        { header: "Notes", value: (b) => b.notes },
+      ],
+      exported,
+      exportFormat,
+    );
+    setMessage(`Exported ${exported.length} booking${exported.length !== 1 ? "s" : ""}`);
+  };
+
+  const exportRooms = async (exportFormat: ExportFormat) => {
+    const categoryById = new Map(categories.map((c) => [c.id, c]));
+    downloadTable(
+      `${activeProperty?.name ?? "Property"} rooms`,
+      [
+        { header: "Room", value: (r) => r.number },
+        { header: "Floor", value: (r) => r.floor },
+        { header: "Category", value: (r) => categoryById.get(r.category_id ?? "")?.name },
+        { header: "Base rate", value: (r) => categoryById.get(r.category_id ?? "")?.base_rate },
+        { header: "Capacity", value: (r) => categoryById.get(r.category_id ?? "")?.capacity },
+        { header: "Status", value: (r) => r.status },
+        { header: "Notes", value: (r) => r.notes },
+      ],
+      rooms,
+      exportFormat,
+    );
+    setMessage(`Exported ${rooms.length} room${rooms.length !== 1 ? "s" : ""}`);
+  };
+
   const handleAuth = async (mode: "signin" | "signup") => {
     if (mode === "signup" && !displayName.trim()) {
       setAuthError("Name is required.");
@@ -977,6 +1372,244 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
     await loadProperties();
   };
 
+  const rotateCalendarToken = async (revoke: boolean) => {
+    if (!selectedPropertyId) return;
+    const { data, error } = await supabase.rpc("rotate_calendar_token", {
+      p_property_id: selectedPropertyId,
+      p_revoke: revoke,
+    });
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setProperties((prev) =>
+      prev.map((p) => (p.id === selectedPropertyId ? { ...p, calendar_token: data as string | null } : p)),
+    );
+    setMessage(revoke ? "Calendar feed revoked" : "Calendar feed link generated");
+  };
+
+  const saveHoldReminders = async (hours: number[], email: boolean) => {
+    if (!selectedPropertyId) return false;
+    const { error } = await supabase
+      .from("properties")
+      .update({ hold_reminder_hours: hours, hold_reminder_email: email })
+      .eq("id", selectedPropertyId);
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+    setProperties((prev) =>
+      prev.map((p) =>
+        p.id === selectedPropertyId ? { ...p, hold_reminder_hours: hours, hold_reminder_email: email } : p,
+      ),
+    );
+    setMessage(hours.length ? "Hold reminders saved" : "Hold reminders turned off");
+    return true;
+  };
+
+  const loadPropertyMembers = async (propertyId: string) => {
+    const [memberRes, invitationRes] = await Promise.all([
+      supabase
+        .from("property_members")
+        .select("id, property_id, user_id, role, created_at, user:user_profiles(display_name, email)")
+        .eq("property_id", propertyId)
+        .order("created_at"),
+      // Only owners can see invitations; for everyone else this is just empty
+      supabase
+        .from("staff_invitations")
+        .select(INVITATION_COLUMNS)
+        .eq("property_id", propertyId)
+        .is("accepted_at", null)
+        .is("revoked_at", null)
+        .order("created_at", { ascending: false }),
+    ]);
+    if (memberRes.error) {
+      setError(memberRes.error.message);
+      return false;
+    }
+    setPropertyMembers((memberRes.data ?? []) as unknown as PropertyMember[]);
+    setPropertyInvitations((invitationRes.data ?? []) as unknown as StaffInvitation[]);
+    return true;
+  };
+
+  // People without an account get an email invitation carrying the role instead
+  const invitePropertyMember = async (email: string, role: PropertyRole) => {
+    if (!session || !selectedPropertyId) return false;
+    const response = await fetch("/api/invitations", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ email, propertyId: selectedPropertyId, role }),
+    });
+    const result = await response.json().catch(() => null);
+    if (!response.ok) {
+      setError(result?.error ?? "Unable to send the invitation.");
+      return false;
+    }
+    if (result.emailError) {
+      setError(`Invitation created, but the email could not be sent (${result.emailError}). Share this link: ${result.link}`);
+    } else {
+      setMessage(`No account for ${email} yet, so an invitation was sent`);
+    }
+    await loadPropertyMembers(selectedPropertyId);
+    return true;
+  };
+
+  const revokePropertyInvitation = async (invitation: StaffInvitation) => {
+    const { error } = await supabase
+      .from("staff_invitations")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", invitation.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setMessage("Invitation withdrawn");
+    if (selectedPropertyId) await loadPropertyMembers(selectedPropertyId);
+  };
+
+  const openPropertyMembers = async () => {
+    if (!selectedPropertyId) return;
+    if (await loadPropertyMembers(selectedPropertyId)) setMembersOpen(true);
+  };
+
+  const addPropertyMember = async (email: string, role: PropertyRole) => {
+    if (!selectedPropertyId) return false;
+    const { data: profile, error: lookupError } = await supabase
+      .from("user_profiles")
+      .select("id")
+      .eq("email", email.trim().toLowerCase())
+      .maybeSingle();
+    if (lookupError) {
+      setError(lookupError.message);
+      return false;
+    }
+    if (!profile) {
+      return invitePropertyMember(email.trim().toLowerCase(), role);
+    }
+    if (propertyMembers.some((m) => m.user_id === profile.id)) {
+      setError("That person is already a member of this property.");
+      return false;
+    }
+    const { error } = await supabase
+      .from("property_members")
+      .insert({ property_id: selectedPropertyId, user_id: profile.id, role });
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+    setMessage("Member added");
+    await loadPropertyMembers(selectedPropertyId);
+    return true;
+  };
+
+  const updateMemberRole = async (member: PropertyMember, role: PropertyRole) => {
+    const { error } = await supabase.from("property_members").update({ role }).eq("id", member.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setMessage("Role updated");
+    await loadPropertyMembers(member.property_id);
+    if (member.user_id === session?.user.id) await loadProperties();
+  };
+
+  const removePropertyMember = async (member: PropertyMember) => {
+    const { error } = await supabase.from("property_members").delete().eq("id", member.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    if (member.user_id === session?.user.id) {
+      // Leaving takes the property out of this user's list
+      setMembersOpen(false);
+      resetAll();
+      setMessage("You left the property");
+      await loadProperties();
+      return;
+    }
+    setMessage("Member removed");
+    await loadPropertyMembers(member.property_id);
+  };
+
+  const loadEmailSettings = async (propertyId: string) => {
+    const [templateRes, logRes] = await Promise.all([
+      supabase
+        .from("email_templates")
+        .select("id, property_id, event, subject, body, enabled, updated_at")
+        .eq("property_id", propertyId),
+      supabase
+        .from("email_log")
+        .select("id, property_id, booking_id, event, recipient, subject, transport, status, error, created_at")
+        .eq("property_id", propertyId)
+        .order("created_at", { ascending: false })
+        .limit(50),
+    ]);
+    if (templateRes.error || logRes.error) {
+      setError(templateRes.error?.message ?? logRes.error?.message ?? "Unable to load guest emails.");
+      return;
+    }
+    setEmailTemplates(templateRes.data ?? []);
+    setEmailLog(logRes.data ?? []);
+  };
+
+  const openEmailTemplates = async () => {
+    if (!selectedPropertyId) return;
+    await loadEmailSettings(selectedPropertyId);
+    setEmailTemplatesOpen(true);
+  };
+
+  const saveEmailTemplate = async (draft: EmailTemplateDraft) => {
+    if (!selectedPropertyId) return false;
+    if (!draft.subject.trim() || !draft.body.trim()) {
+      setError("Email subject and body are required.");
+      return false;
+    }
+    const { error } = await supabase.from("email_templates").upsert(
+      {
+        property_id: selectedPropertyId,
+        event: draft.event,
+        subject: draft.subject.trim(),
+        body: draft.body,
+        enabled: draft.enabled,
+        updated_at: new Date().toISOString(),
+        updated_by: session?.user.id,
+      },
+      { onConflict: "property_id,event" },
+    );
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+    setMessage("Email template saved");
+    await loadEmailSettings(selectedPropertyId);
+    return true;
+  };
+
+  // Guest emails are rendered and sent server-side. A failed send is recorded in the
+  // email log and reported, but never undoes the booking change that triggered it.
+  const notifyGuest = async (event: EmailEvent, bookingId: string) => {
+    if (!session) return;
+    try {
+      const response = await fetch("/api/notifications/booking", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ event, bookingId }),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok || result?.status === "failed") {
+        setError(`The guest email could not be sent: ${result?.error ?? "unknown error"}`);
+      }
+    } catch (err) {
+      console.error("Failed to send guest email", err);
+    }
+  };
+
   const upsertCategory = async () => {
     if (!selectedPropertyId) {
       setError("Select a property first.");
@@ -994,6 +1627,8 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
         ? Number(categoryDraft.base_rate)
         : null,
       capacity: categoryDraft.capacity ? Number(categoryDraft.capacity) : null,
+      weekend_uplift_pct: Number(categoryDraft.weekend_uplift_pct) || 0,
+      min_stay: Math.max(1, Number(categoryDraft.min_stay) || 1),
     };
 
     const { error } = categoryDraft.id
@@ -1055,6 +1690,86 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
     if (selectedPropertyId) await loadPropertyData(selectedPropertyId);
   };
 
+  const addRateSeason = async (categoryId: string) => {
+    if (!selectedPropertyId) {
+      setError("Select a property first.");
+      return;
+    }
+    if (!seasonDraft.name.trim()) {
+      setError("Season name is required.");
+      return;
+    }
+    if (!seasonDraft.start_date || !seasonDraft.end_date) {
+      setError("Season start and end dates are required.");
+      return;
+    }
+    if (seasonDraft.start_date > seasonDraft.end_date) {
+      setError("Season end date must be on or after its start date.");
+      return;
+    }
+    if (seasonDraft.nightly_rate === "") {
+      setError("Season nightly rate is required.");
+      return;
+    }
+
+    const { error } = await supabase.from("rate_seasons").insert([{
+      property_id: selectedPropertyId,
+      category_id: categoryId,
+      name: seasonDraft.name.trim(),
+      start_date: seasonDraft.start_date,
+      end_date: seasonDraft.end_date,
+      nightly_rate: Number(seasonDraft.nightly_rate),
+      min_stay: seasonDraft.min_stay ? Math.max(1, Number(seasonDraft.min_stay)) : null,
+    }]);
+
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setSeasonDraft(defaultSeasonDraft);
+    setMessage("Season added");
+    await loadPropertyData(selectedPropertyId);
+  };
+
+  const deleteRateSeason = async (id: string) => {
+    const { error } = await supabase.from("rate_seasons").delete().eq("id", id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setMessage("Season removed");
+    if (selectedPropertyId) await loadPropertyData(selectedPropertyId);
+  };
+
+  // Quote a stay in one room from its category rates. Unassigned bookings and rooms
+  // without a priced category have no quote.
+  const quoteRoomStay = (roomId: string | null, checkIn: string, checkOut: string): StayQuote | null => {
+    const categoryId = rooms.find((r) => r.id === roomId)?.category_id;
+    const category = categories.find((c) => c.id === categoryId);
+    return category ? quoteStay(category, rateSeasons, checkIn, checkOut) : null;
+  };
+
+  const draftQuotes = bookingDraft.room_ids.map((roomId) => ({
+    roomId,
+    quote: quoteRoomStay(roomId, bookingDraft.check_in, bookingDraft.check_out),
+  }));
+  const draftRoomTotal = draftQuotes[0]?.quote?.total ?? null;
+
+  const roomCapacity = (roomId: string | null) => {
+    const room = rooms.find((r) => r.id === roomId);
+    return categories.find((c) => c.id === room?.category_id)?.capacity ?? null;
+  };
+  // A party spread over several rooms only has to fit their combined capacity. Unknown
+  // when any selected room's category has no capacity set.
+  const draftCapacities = bookingDraft.room_ids.map(roomCapacity);
+  const draftCapacity =
+    draftCapacities.length > 0 && draftCapacities.every((c): c is number => c !== null)
+      ? draftCapacities.reduce((sum, c) => sum + c, 0)
+      : null;
+  // Balances use the stored total, like booking_balance() does when checkout is enforced
+  const draftBalance = bookingDraft.id && folio ? folioBalance(bookingDraft.total ?? null, folio).balance : 0;
+  const showBookingHistory = bookingDialogTab === "history" && Boolean(bookingDraft.id);
+
   const upsertRoom = async () => {
     if (!selectedPropertyId) {
       setError("Select a property first.");
@@ -1115,47 +1830,310 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
     if (selectedPropertyId) await loadPropertyData(selectedPropertyId);
   };
 
-  const upsertBooking = async () => {
-    if (!selectedPropertyId) {
-      setError("Select a property first.");
-      return;
-    }
-    if (!bookingDraft.guest_name.trim()) {
-      setError("Guest name is required.");
-      return;
+  const addRoomFeed = async (draft: FeedDraft) => {
+    if (!selectedPropertyId || !feedsRoomId) return false;
+    const url = draft.url.trim();
+    if (!/^(https?|webcal):\/\//i.test(url)) {
+      setError("Enter the channel's iCal link (https:// or webcal://).");
+      return false;
     }
-    if (!bookingDraft.check_in || !bookingDraft.check_out) {
-      setError("Check-in and check-out dates are required.");
-      return;
+
+    const { error } = await supabase.from("room_ical_feeds").insert([
+      {
+        property_id: selectedPropertyId,
+        room_id: feedsRoomId,
+        channel: draft.channel,
+        url,
+      },
+    ]);
+    if (error) {
+      setError(error.message);
+      return false;
     }
-    if (bookingDraft.check_in >= bookingDraft.check_out) {
-      setError("Check-out date must be after check-in date.");
+    setMessage("Channel calendar linked");
+    await loadPropertyData(selectedPropertyId);
+    return true;
+  };
+
+  const deleteRoomFeed = async (id: string) => {
+    const { error } = await supabase.from("room_ical_feeds").delete().eq("id", id);
+    if (error) {
+      setError(error.message);
       return;
     }
+    setMessage("Channel calendar removed");
+    if (selectedPropertyId) await loadPropertyData(selectedPropertyId);
+  };
 
-    // If editing existing booking, use old single-room logic
-    if (bookingDraft.id) {
-      const roomId = bookingDraft.room_ids[0] || null;
-
-      if (roomId) {
-        let conflictQuery = supabase
-          .from("bookings")
-          .select("id, check_in, check_out")
-          .eq("room_id", roomId)
-          .neq("status", "cancelled")
-          .lt("check_in", bookingDraft.check_out)
-          .gt("check_out", bookingDraft.check_in)
-          .neq("id", bookingDraft.id);
+  // Proposes rooms for unassigned bookings touching [from, to); saving is a separate step
+  const planAutoAssign = async (from: string, to: string) => {
+    if (!selectedPropertyId) return null;
+    const { data: unassignedRows, error: unassignedError } = await supabase
+      .from("bookings")
+      .select(BOOKING_COLUMNS)
+      .eq("property_id", selectedPropertyId)
+      .is("room_id", null)
+      .not("status", "in", "(cancelled,checked_out)")
+      .lt("check_in", to)
+      .gt("check_out", from)
+      .order("check_in");
+    if (unassignedError) {
+      setError(unassignedError.message);
+      return null;
+    }
+    const unassigned = mapBookingRows(unassignedRows);
+    if (unassigned.length === 0) return [];
 
-        const { data: conflictingBookings, error: overlapError } = await conflictQuery;
+    // Stays can run past the range, so check occupancy over their full span
+    const spanStart = unassigned.reduce((min, b) => (b.check_in < min ? b.check_in : min), unassigned[0].check_in);
+    const spanEnd = unassigned.reduce((max, b) => (b.check_out > max ? b.check_out : max), unassigned[0].check_out);
+    const { data: occupiedRows, error: occupiedError } = await supabase
+      .from("bookings")
+      .select("id, property_id, room_id, guest_name, check_in, check_out, status")
+      .eq("property_id", selectedPropertyId)
+      .not("room_id", "is", null)
+      .neq("status", "cancelled")
+      .lt("check_in", spanEnd)
+      .gt("check_out", spanStart);
+    if (occupiedError) {
+      setError(occupiedError.message);
+      return null;
+    }
 
-        if (overlapError) {
-          setError(overlapError.message);
-          return;
-        }
+    return planRoomAssignment({
+      unassigned,
+      occupied: (occupiedRows ?? []) as Booking[],
+      rooms,
+      categories,
+      maintenance: maintenanceTickets,
+      quote: quoteRoomStay,
+    });
+  };
 
-        if (conflictingBookings && conflictingBookings.length > 0) {
-          setError("This room already has a booking that overlaps those dates.");
+  const applyAutoAssign = async (rows: AssignmentPlanRow[]) => {
+    if (!selectedPropertyId) return false;
+    const failures: string[] = [];
+    const assigned: AssignmentPlanRow[] = [];
+    for (const row of rows) {
+      // Only fill bookings that are still unassigned; the exclusion constraint catches rooms taken meanwhile
+      const { data, error } = await supabase
+        .from("bookings")
+        .update({ room_id: row.roomId, total: row.total })
+        .eq("id", row.booking.id)
+        .is("room_id", null)
+        .select("id");
+      if (error) {
+        failures.push(
+          `${row.booking.guest_name}: ${error.code === "23P01" ? `Room ${row.roomNumber} was booked meanwhile` : error.message}`,
+        );
+      } else if (!data?.length) {
+        failures.push(`${row.booking.guest_name}: already has a room`);
+      } else {
+        assigned.push(row);
+      }
+    }
+
+    if (assigned.length > 0) {
+      try {
+        await supabase.from("booking_logs").insert(
+          assigned.map((row) => ({
+            property_id: selectedPropertyId,
+            booking_id: row.booking.id,
+            action: "update",
+            performed_by: session?.user.id,
+            details: {
+              guest_name: row.booking.guest_name,
+              room_number: row.roomNumber,
+              check_in: row.booking.check_in,
+              check_out: row.booking.check_out,
+              previous: { room_number: "Unassigned" },
+            },
+          })),
+        );
+        void loadRecentActivity();
+      } catch (err) {
+        console.error("Failed to log room assignment", err);
+      }
+      await refreshBookingsData();
+    }
+
+    if (failures.length > 0) {
+      setError(`Assigned ${assigned.length} of ${rows.length}. ${failures.join("; ")}`);
+      return false;
+    }
+    setMessage(`Assigned rooms to ${assigned.length} booking${assigned.length !== 1 ? "s" : ""}`);
+    return true;
+  };
+
+  const openMaintenanceTicket = async (draft: MaintenanceDraft) => {
+    if (!selectedPropertyId || !maintenanceRoomId) return false;
+    if (!draft.reason.trim()) {
+      setError("A reason is required.");
+      return false;
+    }
+    if (!draft.start_date || !draft.end_date || draft.start_date >= draft.end_date) {
+      setError("The room must be back in service after the start date.");
+      return false;
+    }
+
+    // Existing stays are not moved automatically; staff are told which ones need a new room
+    const { data: conflicts } = await supabase.rpc("booking_conflicts", {
+      p_room_ids: [maintenanceRoomId],
+      p_check_in: draft.start_date,
+      p_check_out: draft.end_date,
+    });
+
+    const { error } = await supabase.from("maintenance_tickets").insert([
+      {
+        property_id: selectedPropertyId,
+        room_id: maintenanceRoomId,
+        start_date: draft.start_date,
+        end_date: draft.end_date,
+        reason: draft.reason.trim(),
+        priority: draft.priority,
+        created_by: session?.user.id,
+      },
+    ]);
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+    setMessage(
+      conflicts
+        ? `Room blocked for maintenance. These overlap it and may need another room: ${conflicts}`
+        : "Room blocked for maintenance",
+    );
+    await loadPropertyData(selectedPropertyId);
+    return true;
+  };
+
+  const closeMaintenanceTicket = async (ticket: MaintenanceTicket) => {
+    const { error } = await supabase
+      .from("maintenance_tickets")
+      .update({ status: "closed", closed_at: new Date().toISOString(), closed_by: session?.user.id })
+      .eq("id", ticket.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    const roomNumber = rooms.find((r) => r.id === ticket.room_id)?.number;
+    setMessage(`Maintenance ticket closed; room ${roomNumber} is back in service`);
+    if (selectedPropertyId) await loadPropertyData(selectedPropertyId);
+  };
+
+  // Runs on the server because channel iCal links cannot be fetched from the browser (CORS).
+  const syncChannelFeeds = async (roomId?: string) => {
+    if (!session || !selectedPropertyId) return;
+    const params = new URLSearchParams({ propertyId: selectedPropertyId });
+    if (roomId) params.set("roomId", roomId);
+
+    const response = await fetch(`/api/ical/sync?${params}`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    });
+    const result = await response.json().catch(() => null);
+    if (!response.ok || !result?.feeds) {
+      setError(result?.error ?? "Channel sync failed.");
+      return;
+    }
+
+    const feeds = result.feeds as FeedSyncResult[];
+    const total = (key: "created" | "updated" | "cancelled" | "conflicts") =>
+      feeds.reduce((sum, f) => sum + f[key], 0);
+    const failed = feeds.filter((f) => f.error).length;
+    setMessage(
+      `Synced ${feeds.length} channel calendar${feeds.length === 1 ? "" : "s"}: ${total("created")} new, ${total("updated")} updated, ${total("cancelled")} cancelled, ${total("conflicts")} conflicts`,
+    );
+    if (failed > 0) {
+      setError(`${failed} channel calendar${failed === 1 ? "" : "s"} could not be synced. Check the room's channel settings.`);
+    }
+
+    await loadPropertyData(selectedPropertyId);
+    await refreshBookingsData(1);
+  };
+
+  const openConflictingBooking = async (bookingId: string) => {
+    const { data, error } = await supabase
+      .from("bookings")
+      .select(BOOKING_COLUMNS)
+      .eq("id", bookingId)
+      .maybeSingle();
+    if (error || !data) {
+      setError(error?.message ?? "Booking not found.");
+      return;
+    }
+    editBooking(mapBookingRows([data])[0]);
+  };
+
+  const upsertBooking = async () => {
+    if (!selectedPropertyId) {
+      setError("Select a property first.");
+      return;
+    }
+    if (!bookingDraft.guest_name.trim()) {
+      setError("Guest name is required.");
+      return;
+    }
+    if (!bookingDraft.check_in || !bookingDraft.check_out) {
+      setError("Check-in and check-out dates are required.");
+      return;
+    }
+    if (bookingDraft.check_in >= bookingDraft.check_out) {
+      setError("Check-out date must be after check-in date.");
+      return;
+    }
+
+    // Minimum stays only apply when the dates or room change, so existing
+    // bookings stay editable after a category's rules are tightened.
+    const original = [...bookings, ...availabilityBookings, ...groupBookings].find(
+      (b) => b.id === bookingDraft.id,
+    );
+    const stayChanged =
+      !original ||
+      original.check_in !== bookingDraft.check_in ||
+      original.check_out !== bookingDraft.check_out ||
+      original.room_id !== (bookingDraft.room_ids[0] || null);
+    const shortStay = draftQuotes.find(({ quote }) => quote && quote.nights.length < quote.minStay);
+    if (stayChanged && shortStay?.quote) {
+      const roomNumber = rooms.find((r) => r.id === shortStay.roomId)?.number;
+      setError(`Room ${roomNumber} requires a minimum stay of ${shortStay.quote.minStay} nights for those dates.`);
+      return;
+    }
+
+    if (bookingDraft.occupants.some((o) => !o.full_name.trim() && (o.email.trim() || o.document_number.trim()))) {
+      setError("Every additional guest needs a name.");
+      return;
+    }
+    const party = partyCounts(bookingDraft.occupants);
+    const partyChanged = !original || party.total !== partySize(original);
+    if ((stayChanged || partyChanged) && draftCapacity !== null && party.total > draftCapacity) {
+      setError(
+        `${party.total} guests exceed the ${draftCapacity} the selected room${bookingDraft.room_ids.length === 1 ? "" : "s"} can sleep.`,
+      );
+      return;
+    }
+    const occupants = bookingDraft.occupants.filter((o) => o.full_name.trim());
+
+    // If editing existing booking, use old single-room logic
+    if (bookingDraft.id) {
+      const roomId = bookingDraft.room_ids[0] || null;
+
+      if (roomId) {
+        // Covers other bookings and open maintenance tickets on the room
+        const { data: conflicts, error: overlapError } = await supabase.rpc("booking_conflicts", {
+          p_room_ids: [roomId],
+          p_check_in: bookingDraft.check_in,
+          p_check_out: bookingDraft.check_out,
+          p_exclude_booking: bookingDraft.id,
+        });
+
+        if (overlapError) {
+          setError(overlapError.message);
+          return;
+        }
+
+        if (conflicts) {
+          setError(`Already booked for those dates: ${conflicts}`);
           return;
         }
       }
@@ -1166,30 +2144,74 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
         guest_name: bookingDraft.guest_name.trim(),
         guest_email: bookingDraft.guest_email.trim() || null,
         guest_passport: bookingDraft.guest_passport.trim() || null,
-        second_guest_name: bookingDraft.second_guest_name.trim() || null,
-        second_guest_email: bookingDraft.second_guest_email.trim() || null,
-        second_guest_passport: bookingDraft.second_guest_passport.trim() || null,
-        adults: [
-          bookingDraft.second_guest_name,
-          bookingDraft.second_guest_email,
-          bookingDraft.second_guest_passport,
-        ].some((v) => v.trim()) ? 2 : 1,
         check_in: bookingDraft.check_in,
         check_out: bookingDraft.check_out,
         status: bookingDraft.status,
         auto_release_at: bookingDraft.status === "tentative" && bookingDraft.auto_release_at ? bookingDraft.auto_release_at : null,
         notes: bookingDraft.notes.trim() || null,
+        guest_id: bookingDraft.guest_id ?? null,
+        // Re-price only when the stay itself changes, and keep the stored total when there
+        // is no quote: it may have been negotiated or imported.
+        ...(stayChanged && draftRoomTotal !== null ? { total: draftRoomTotal } : {}),
       };
 
       const { error } = await supabase.from("bookings").update(payload).eq("id", bookingDraft.id);
 
       if (error) {
-        setError(error.message);
+        // 23P01: exclusion_violation, another booking took the room after our check
+        setError(
+          error.code === "23P01"
+            ? "This room already has a booking that overlaps those dates."
+            : error.message,
+        );
         return;
       }
+
+      // adults/children on the booking are recounted from this list by the database
+      const { error: occupantsError } = await supabase.rpc("set_booking_guests", {
+        p_booking_id: bookingDraft.id,
+        p_guests: occupants,
+      });
+      if (occupantsError) {
+        setError(`Booking saved, but the guest list was not: ${occupantsError.message}`);
+        return;
+      }
+
+      try {
+        await supabase.from("booking_logs").insert([{
+          property_id: selectedPropertyId,
+          booking_id: bookingDraft.id,
+          action: "update",
+          performed_by: session?.user.id,
+          details: {
+            guest_name: payload.guest_name,
+            room_number: rooms.find((r) => r.id === roomId)?.number || "Unassigned",
+            check_in: payload.check_in,
+            check_out: payload.check_out,
+            status: payload.status,
+            ...(original && stayChanged
+              ? {
+                  previous: {
+                    room_number: rooms.find((r) => r.id === original.room_id)?.number || "Unassigned",
+                    check_in: original.check_in,
+                    check_out: original.check_out,
+                  },
+                }
+              : {}),
+          },
+        }]);
+        void loadRecentActivity();
+      } catch (err) {
+        console.error("Failed to log booking update", err);
+      }
+
       setBookingDraft(defaultBookingDraft);
       setBookingModalOpen(false);
       setMessage("Booking updated");
+      const emailEvent =
+        (original && statusChangeEmail(original.status, bookingDraft.status)) ??
+        (stayChanged || partyChanged ? "booking_changed" : null);
+      if (emailEvent) void notifyGuest(emailEvent, bookingDraft.id);
       await refreshBookingsData(1);
       return;
     }
@@ -1197,58 +2219,28 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
     // New booking logic: handle multiple rooms
     const roomIds = bookingDraft.room_ids.length > 0 ? bookingDraft.room_ids : [null];
 
-    // Check for conflicts in all selected rooms
-    for (const roomId of roomIds) {
-      if (roomId) {
-        const { data: conflictingBookings, error: overlapError } = await supabase
-          .from("bookings")
-          .select("id, check_in, check_out")
-          .eq("room_id", roomId)
-          .neq("status", "cancelled")
-          .lt("check_in", bookingDraft.check_out)
-          .gt("check_out", bookingDraft.check_in);
-
-        if (overlapError) {
-          setError(overlapError.message);
-          return;
-        }
-
-        if (conflictingBookings && conflictingBookings.length > 0) {
-          const room = rooms.find(r => r.id === roomId);
-          setError(`Room ${room?.number || roomId} already has a booking that overlaps those dates.`);
-          return;
-        }
-      }
-    }
-
-    // Create bookings for all selected rooms
-    const basePayload = {
-      property_id: selectedPropertyId,
-      guest_name: bookingDraft.guest_name.trim(),
-      guest_email: bookingDraft.guest_email.trim() || null,
-      guest_passport: bookingDraft.guest_passport.trim() || null,
-      second_guest_name: bookingDraft.second_guest_name.trim() || null,
-      second_guest_email: bookingDraft.second_guest_email.trim() || null,
-      second_guest_passport: bookingDraft.second_guest_passport.trim() || null,
-      adults: [
-        bookingDraft.second_guest_name,
-        bookingDraft.second_guest_email,
-        bookingDraft.second_guest_passport,
-      ].some((v) => v.trim()) ? 2 : 1,
-      check_in: bookingDraft.check_in,
-      check_out: bookingDraft.check_out,
-      status: bookingDraft.status,
-      auto_release_at: bookingDraft.status === "tentative" && bookingDraft.auto_release_at ? bookingDraft.auto_release_at : null,
-      notes: bookingDraft.notes.trim() || null,
-      created_by: session?.user.id || null,
-    };
-
-    const payloads = roomIds.map(roomId => ({
-      ...basePayload,
-      room_id: roomId,
-    }));
-
-    const { error } = await supabase.from("bookings").insert(payloads);
+    // The overlap check and inserts run in one transaction on the server,
+    // backed by an exclusion constraint on (room_id, stay dates).
+    const { data: createdBookings, error } = await supabase.rpc("create_bookings", {
+      p_property_id: selectedPropertyId,
+      p_room_ids: bookingDraft.room_ids,
+      p_booking: {
+        guest_name: bookingDraft.guest_name.trim(),
+        guest_email: bookingDraft.guest_email.trim() || null,
+        guest_passport: bookingDraft.guest_passport.trim() || null,
+        occupants,
+        check_in: bookingDraft.check_in,
+        check_out: bookingDraft.check_out,
+        status: bookingDraft.status,
+        auto_release_at: bookingDraft.status === "tentative" && bookingDraft.auto_release_at ? bookingDraft.auto_release_at : null,
+        notes: bookingDraft.notes.trim() || null,
+        group_name: bookingDraft.group_name?.trim() || null,
+        guest_id: bookingDraft.guest_id ?? null,
+        room_totals: Object.fromEntries(
+          draftQuotes.flatMap(({ roomId, quote }) => (quote ? [[roomId, quote.total]] : [])),
+        ),
+      },
+    });
 
     if (error) {
       setError(error.message);
@@ -1268,12 +2260,17 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
       setMessage(`${roomIds.length} booking${roomIds.length !== 1 ? "s" : ""} created for room${roomIds.length !== 1 ? "s" : ""} ${roomNumbers}`);
     }
 
+    // One email per party, listing all of its rooms
+    const [firstCreated] = (createdBookings ?? []) as Booking[];
+    if (firstCreated) void notifyGuest("booking_created", firstCreated.id);
+
     // Log the creation
     try {
-      const logPayloads = roomIds.map(roomId => {
-        const roomNumber = rooms.find(r => r.id === roomId)?.number || "Unassigned";
+      const logPayloads = ((createdBookings ?? []) as Booking[]).map((created) => {
+        const roomNumber = rooms.find(r => r.id === created.room_id)?.number || "Unassigned";
         return {
           property_id: selectedPropertyId,
+          booking_id: created.id,
           action: "create",
           performed_by: session?.user.id,
           details: {
@@ -1294,19 +2291,229 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
     await refreshBookingsData(1);
   };
 
-  const updateBookingStatus = async (bookingId: string, status: string) => {
+  // Drag-and-drop from the availability grid: same overlap and minimum-stay rules as
+  // the booking dialog, and the log keeps the previous room and dates.
+  const moveBooking = async (booking: Booking, move: BookingMove) => {
+    const quote = quoteRoomStay(move.roomId, move.checkIn, move.checkOut);
+    const roomNumber = rooms.find((r) => r.id === move.roomId)?.number || "Unassigned";
+    if (quote && quote.nights.length < quote.minStay) {
+      setError(`Room ${roomNumber} requires a minimum stay of ${quote.minStay} nights for those dates.`);
+      return;
+    }
+    const capacity = roomCapacity(move.roomId);
+    if (move.roomId !== booking.room_id && capacity !== null && partySize(booking) > capacity) {
+      setError(`Room ${roomNumber} sleeps ${capacity}; this booking has ${partySize(booking)} guests.`);
+      return;
+    }
+
+    const { data: conflicts, error: conflictError } = await supabase.rpc("booking_conflicts", {
+      p_room_ids: [move.roomId],
+      p_check_in: move.checkIn,
+      p_check_out: move.checkOut,
+      p_exclude_booking: booking.id,
+    });
+    if (conflictError) {
+      setError(conflictError.message);
+      return;
+    }
+    if (conflicts) {
+      setError(`Already booked for those dates: ${conflicts}`);
+      return;
+    }
+
     const { error } = await supabase
+      .from("bookings")
+      .update({
+        room_id: move.roomId,
+        check_in: move.checkIn,
+        check_out: move.checkOut,
+        ...(quote ? { total: quote.total } : {}),
+      })
+      .eq("id", booking.id);
+    if (error) {
+      // 23P01: exclusion_violation, another booking took the room after our check
+      setError(
+        error.code === "23P01"
+          ? "This room already has a booking that overlaps those dates."
+          : error.message,
+      );
+      return;
+    }
+
+    try {
+      await supabase.from("booking_logs").insert([{
+        property_id: booking.property_id,
+        booking_id: booking.id,
+        action: "update",
+        performed_by: session?.user.id,
+        details: {
+          guest_name: booking.guest_name,
+          room_number: roomNumber,
+          check_in: move.checkIn,
+          check_out: move.checkOut,
+          previous: {
+            room_number: rooms.find((r) => r.id === booking.room_id)?.number || "Unassigned",
+            check_in: booking.check_in,
+            check_out: booking.check_out,
+          },
+        },
+      }]);
+      void loadRecentActivity();
+    } catch (err) {
+      console.error("Failed to log booking move", err);
+    }
+
+    setMessage(`${booking.guest_name} moved to Room ${roomNumber}`);
+    await refreshBookingsData();
+  };
+
+  const updateBookingStatus = async (
+    bookingId: string,
+    status: string,
+    ignoreOpenBalance = false,
+  ) => {
+    if (status === "checked_out" && !ignoreOpenBalance) {
+      const { data: balance, error: balanceError } = await supabase.rpc("booking_balance", {
+        p_booking_id: bookingId,
+      });
+      if (balanceError) {
+        setError(balanceError.message);
+        return;
+      }
+      if (Number(balance) > 0) {
+        setPendingCheckout({ bookingId, balance: Number(balance) });
+        return;
+      }
+    }
+
+    const previousStatus = [...bookings, ...availabilityBookings, ...frontDeskBookings, ...groupBookings].find(
+      (b) => b.id === bookingId,
+    )?.status;
+    const { data: updated, error } = await supabase
       .from("bookings")
       .update({ status })
-      .eq("id", bookingId);
+      .eq("id", bookingId)
+      .select("id, property_id, room_id, guest_name, check_in, check_out");
     if (error) {
       setError(error.message);
       return;
     }
+
+    const [changed] = updated ?? [];
+    if (changed && previousStatus !== status) {
+      try {
+        await supabase.from("booking_logs").insert([{
+          property_id: changed.property_id,
+          booking_id: changed.id,
+          action: "update",
+          performed_by: session?.user.id,
+          details: {
+            guest_name: changed.guest_name,
+            room_number: rooms.find((r) => r.id === changed.room_id)?.number || "Unassigned",
+            check_in: changed.check_in,
+            check_out: changed.check_out,
+            status,
+          },
+        }]);
+        void loadRecentActivity();
+      } catch (err) {
+        console.error("Failed to log status change", err);
+      }
+    }
+
+    const emailEvent = statusChangeEmail(previousStatus ?? "", status);
+    if (emailEvent && previousStatus !== status) void notifyGuest(emailEvent, bookingId);
+    if (status === "checked_in" || status === "checked_out") {
+      // Status triggers keep the room in step: occupied on check-in, dirty (with a
+      // cleaning task queued) on check-out
+      setMessage(
+        status === "checked_in"
+          ? "Guest checked in; room marked occupied"
+          : "Guest checked out; room marked dirty for housekeeping",
+      );
+      await refreshBookingsData();
+      if (selectedPropertyId) await loadPropertyData(selectedPropertyId);
+      return;
+    }
     setMessage("Booking updated");
     await refreshBookingsData();
   };
 
+  const addFolioItem = async (draft: FolioItemDraft) => {
+    if (!selectedPropertyId || !folio) return false;
+    if (!draft.description.trim()) {
+      setError("Charge description is required.");
+      return false;
+    }
+    if (draft.unit_amount === "" || Number.isNaN(Number(draft.unit_amount))) {
+      setError("Charge amount is required.");
+      return false;
+    }
+
+    const { error } = await supabase.from("folio_items").insert([{
+      property_id: selectedPropertyId,
+      booking_id: folio.booking_id,
+      description: draft.description.trim(),
+      quantity: Math.max(1, Number(draft.quantity) || 1),
+      unit_amount: Number(draft.unit_amount),
+      created_by: session?.user.id,
+    }]);
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+    setMessage("Charge added");
+    await loadFolio(folio.booking_id);
+    return true;
+  };
+
+  const deleteFolioItem = async (id: string) => {
+    if (!folio) return;
+    const { error } = await supabase.from("folio_items").delete().eq("id", id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setMessage("Charge removed");
+    await loadFolio(folio.booking_id);
+  };
+
+  const recordPayment = async (draft: PaymentDraft) => {
+    if (!selectedPropertyId || !folio) return false;
+    if (!(Number(draft.amount) > 0)) {
+      setError("Payment amount must be greater than zero.");
+      return false;
+    }
+
+    const { error } = await supabase.from("payments").insert([{
+      property_id: selectedPropertyId,
+      booking_id: folio.booking_id,
+      kind: draft.kind,
+      method: draft.method,
+      amount: Number(draft.amount),
+      reference: draft.reference.trim() || null,
+      created_by: session?.user.id,
+    }]);
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+    setMessage(draft.kind === "refund" ? "Refund recorded" : "Payment recorded");
+    await loadFolio(folio.booking_id);
+    return true;
+  };
+
+  const deletePayment = async (id: string) => {
+    if (!folio) return;
+    const { error } = await supabase.from("payments").delete().eq("id", id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setMessage("Payment removed");
+    await loadFolio(folio.booking_id);
+  };
+
   const deleteBooking = async (id: string) => {
     const bookingToDelete = bookings.find(b => b.id === id);
 
@@ -1335,15 +2542,276 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
         }]);
         void loadRecentActivity();
       } catch (err) {
-        console.error("Failed to log deletion", err);
+        console.error("Failed to log deletion", err);
+      }
+    }
+
+    // Deleting a live booking cancels it as far as the guest is concerned
+    if (bookingToDelete && !["cancelled", "checked_out"].includes(bookingToDelete.status)) {
+      void notifyGuest("booking_cancelled", bookingToDelete.id);
+    }
+
+    setMessage("Booking removed");
+    const nextPage =
+      bookings.length === 1 && bookingsPage > 1 ? bookingsPage - 1 : bookingsPage;
+    setBookingsPage(nextPage);
+    await refreshBookingsData(nextPage);
+  };
+
+  const loadBookingGroup = async (groupId: string) => {
+    setGroupLoading(true);
+    const [groupRes, groupBookingsRes] = await Promise.all([
+      supabase
+        .from("booking_groups")
+        .select("id, property_id, name, notes, created_by, created_at")
+        .eq("id", groupId)
+        .maybeSingle(),
+      supabase
+        .from("bookings")
+        .select(BOOKING_COLUMNS)
+        .eq("group_id", groupId)
+        .order("check_in", { ascending: true }),
+    ]);
+
+    if (groupRes.error || groupBookingsRes.error) {
+      setError(groupRes.error?.message ?? groupBookingsRes.error?.message ?? "Unable to load party.");
+      setGroupLoading(false);
+      return;
+    }
+
+    if (!groupRes.data) {
+      setError("This party no longer exists.");
+      setActiveGroup(null);
+      setGroupBookings([]);
+      setGroupLoading(false);
+      return;
+    }
+
+    setActiveGroup(groupRes.data);
+    setGroupBookings(mapBookingRows(groupBookingsRes.data));
+    setGroupLoading(false);
+  };
+
+  const openBookingGroup = (groupId: string) => {
+    setBookingModalOpen(false);
+    setBookingDraft(defaultBookingDraft);
+    void loadBookingGroup(groupId);
+  };
+
+  const closeBookingGroup = () => {
+    setActiveGroup(null);
+    setGroupBookings([]);
+  };
+
+  const renameBookingGroup = async (name: string) => {
+    if (!activeGroup) return;
+    const { error } = await supabase
+      .from("booking_groups")
+      .update({ name })
+      .eq("id", activeGroup.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setMessage("Party renamed");
+    await Promise.all([loadBookingGroup(activeGroup.id), refreshBookingsData()]);
+  };
+
+  const rescheduleBookingGroup = async (checkIn: string, checkOut: string) => {
+    if (!activeGroup) return;
+    if (!checkIn || !checkOut) {
+      setError("Check-in and check-out dates are required.");
+      return;
+    }
+    if (checkIn >= checkOut) {
+      setError("Check-out date must be after check-in date.");
+      return;
+    }
+
+    const { data: moved, error } = await supabase.rpc("reschedule_booking_group", {
+      p_group_id: activeGroup.id,
+      p_check_in: checkIn,
+      p_check_out: checkOut,
+    });
+    if (error) {
+      setError(error.message);
+      return;
+    }
+
+    const movedBookings = (moved ?? []) as Booking[];
+    // Only stays whose dates actually moved are re-priced, and only where there is a quote
+    const repriced = await Promise.all(
+      movedBookings.flatMap((booking) => {
+        const before = groupBookings.find((b) => b.id === booking.id);
+        const quote = quoteRoomStay(booking.room_id, checkIn, checkOut);
+        if (!quote || (before && before.check_in === checkIn && before.check_out === checkOut)) return [];
+        return [supabase.from("bookings").update({ total: quote.total }).eq("id", booking.id)];
+      }),
+    );
+    const repriceError = repriced.find((res) => res.error)?.error;
+    if (repriceError) {
+      setError(`Party moved, but totals were not updated: ${repriceError.message}`);
+    }
+
+    try {
+      await supabase.from("booking_logs").insert(
+        movedBookings.map((booking) => ({
+          property_id: booking.property_id,
+          booking_id: booking.id,
+          action: "update",
+          performed_by: session?.user.id,
+          details: {
+            guest_name: booking.guest_name,
+            room_number: rooms.find((r) => r.id === booking.room_id)?.number || "Unassigned",
+            check_in: booking.check_in,
+            check_out: booking.check_out,
+          },
+        })),
+      );
+      void loadRecentActivity();
+    } catch (err) {
+      console.error("Failed to log party reschedule", err);
+    }
+
+    setMessage(`Party moved: ${movedBookings.length} room${movedBookings.length !== 1 ? "s" : ""} updated`);
+    await Promise.all([loadBookingGroup(activeGroup.id), refreshBookingsData()]);
+  };
+
+  const updateBookingGroupGuest = async (guest: PartyGuest) => {
+    if (!activeGroup) return;
+    if (!guest.guest_name) {
+      setError("Guest name is required.");
+      return;
+    }
+    const { data: updated, error } = await supabase
+      .from("bookings")
+      .update(guest)
+      .eq("group_id", activeGroup.id)
+      .select("id, property_id, room_id, check_in, check_out");
+    if (error) {
+      setError(error.message);
+      return;
+    }
+
+    try {
+      await supabase.from("booking_logs").insert(
+        (updated ?? []).map((booking) => ({
+          property_id: booking.property_id,
+          booking_id: booking.id,
+          action: "update",
+          performed_by: session?.user.id,
+          details: {
+            guest_name: guest.guest_name,
+            room_number: rooms.find((r) => r.id === booking.room_id)?.number || "Unassigned",
+            check_in: booking.check_in,
+            check_out: booking.check_out,
+            group_name: activeGroup.name,
+          },
+        })),
+      );
+      void loadRecentActivity();
+    } catch (err) {
+      console.error("Failed to log party guest update", err);
+    }
+
+    setMessage("Lead guest updated for the whole party");
+    await Promise.all([loadBookingGroup(activeGroup.id), refreshBookingsData()]);
+  };
+
+  const cancelBookingGroup = async () => {
+    if (!activeGroup) return;
+    const { data: cancelled, error } = await supabase
+      .from("bookings")
+      .update({ status: "cancelled" })
+      .eq("group_id", activeGroup.id)
+      .in("status", ["tentative", "reserved"])
+      .select("id, property_id, room_id, guest_name, check_in, check_out");
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    const count = cancelled?.length ?? 0;
+
+    if (count > 0) {
+      try {
+        await supabase.from("booking_logs").insert(
+          cancelled.map((booking) => ({
+            property_id: booking.property_id,
+            booking_id: booking.id,
+            action: "update",
+            performed_by: session?.user.id,
+            details: {
+              guest_name: booking.guest_name,
+              room_number: rooms.find((r) => r.id === booking.room_id)?.number || "Unassigned",
+              check_in: booking.check_in,
+              check_out: booking.check_out,
+              status: "cancelled",
+              group_name: activeGroup.name,
+            },
+          })),
+        );
+        void loadRecentActivity();
+      } catch (err) {
+        console.error("Failed to log party cancellation", err);
+      }
+    }
+    setMessage(`Party cancelled: ${count} room${count !== 1 ? "s" : ""} released`);
+    await Promise.all([loadBookingGroup(activeGroup.id), refreshBookingsData()]);
+  };
+
+  const splitBookingFromGroup = async (bookingId: string) => {
+    if (!activeGroup) return;
+    const { error } = await supabase
+      .from("bookings")
+      .update({ group_id: null })
+      .eq("id", bookingId);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+
+    const splitBooking = groupBookings.find((b) => b.id === bookingId);
+    if (splitBooking) {
+      try {
+        await supabase.from("booking_logs").insert([{
+          property_id: splitBooking.property_id,
+          booking_id: splitBooking.id,
+          action: "update",
+          performed_by: session?.user.id,
+          details: {
+            guest_name: splitBooking.guest_name,
+            room_number: rooms.find((r) => r.id === splitBooking.room_id)?.number || "Unassigned",
+            check_in: splitBooking.check_in,
+            check_out: splitBooking.check_out,
+            group_name: null,
+            previous: { group_name: activeGroup.name },
+          },
+        }]);
+        void loadRecentActivity();
+      } catch (err) {
+        console.error("Failed to log party split", err);
       }
     }
 
-    setMessage("Booking removed");
-    const nextPage =
-      bookings.length === 1 && bookingsPage > 1 ? bookingsPage - 1 : bookingsPage;
-    setBookingsPage(nextPage);
-    await refreshBookingsData(nextPage);
+    // A party of one is just a booking; drop the group record
+    const remaining = groupBookings.filter((b) => b.id !== bookingId);
+    if (remaining.length < 2) {
+      const { error: deleteError } = await supabase
+        .from("booking_groups")
+        .delete()
+        .eq("id", activeGroup.id);
+      if (deleteError) {
+        setError(deleteError.message);
+        return;
+      }
+      closeBookingGroup();
+      setMessage("Room split off; the party has been dissolved");
+      await refreshBookingsData();
+      return;
+    }
+
+    setMessage("Room split off from the party");
+    await Promise.all([loadBookingGroup(activeGroup.id), refreshBookingsData()]);
   };
 
   const formatDateRange = (from: string, to: string) => {
@@ -1399,7 +2867,33 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
     );
   }
 
-  // Approval gating removed; allow all signed-in users through
+  if (profile && !isApproved) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-50 px-4">
+        <div className={clsx(cardClass, "max-w-md w-full space-y-4")}>
+          <h1 className="text-xl font-semibold text-slate-900">
+            {profile.status === "pending" ? "Awaiting approval" : "No access"}
+          </h1>
+          <p className="text-sm text-slate-600">
+            {accountStatusNotices[profile.status] || accountStatusNotices.pending}
+          </p>
+          <div className="flex gap-3">
+            <button className={ghostButton} onClick={handleSignOut}>
+              Sign out
+            </button>
+            <button
+              className={primaryButton}
+              onClick={() => {
+                if (session) void loadUserProfile(session);
+              }}
+            >
+              Check again
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <main
@@ -1412,7 +2906,11 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
         open={bookingModalOpen}
         onOpenChange={(open) => {
           setBookingModalOpen(open);
-          if (!open) setBookingDraft(defaultBookingDraft);
+          if (!open) {
+            setBookingDraft(defaultBookingDraft);
+            setFolio(null);
+            setBookingDialogTab("details");
+          }
         }}
       >
         <Dialog.Portal>
@@ -1426,12 +2924,50 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                 <Dialog.Description className="text-sm text-slate-600">
                   Capture stay dates and assign a room when ready.
                 </Dialog.Description>
+                {bookingDraft.group_id && (
+                  <button
+                    type="button"
+                    className="mt-1 text-xs font-semibold text-emerald-700 hover:underline"
+                    onClick={() => bookingDraft.group_id && openBookingGroup(bookingDraft.group_id)}
+                  >
+                    Part of a party. Manage all rooms →
+                  </button>
+                )}
               </div>
               <Dialog.Close className="text-slate-500 hover:text-slate-700 flex-shrink-0 ml-2">
                 <Cross2Icon />
               </Dialog.Close>
             </div>
-            <div className="mt-4 space-y-3 overflow-y-auto flex-1 min-h-0 pr-1 -mr-1">
+            {bookingDraft.id && (
+              <div className="mt-3 flex gap-1 border-b border-slate-100 flex-shrink-0">
+                {(["details", "history"] as const).map((tab) => (
+                  <button
+                    key={tab}
+                    type="button"
+                    className={clsx(
+                      "-mb-px border-b-2 px-3 py-1.5 text-sm font-semibold capitalize transition",
+                      bookingDialogTab === tab
+                        ? "border-slate-900 text-slate-900"
+                        : "border-transparent text-slate-500 hover:text-slate-700",
+                    )}
+                    onClick={() => setBookingDialogTab(tab)}
+                  >
+                    {tab}
+                  </button>
+                ))}
+              </div>
+            )}
+            {showBookingHistory && bookingDraft.id && (
+              <div className="mt-4 overflow-y-auto flex-1 min-h-0 pr-1 -mr-1">
+                <BookingHistoryPanel key={bookingDraft.id} bookingId={bookingDraft.id} rooms={rooms} />
+              </div>
+            )}
+            <div
+              className={clsx(
+                "mt-4 space-y-3 overflow-y-auto flex-1 min-h-0 pr-1 -mr-1",
+                showBookingHistory && "hidden",
+              )}
+            >
               <div className="space-y-1">
                 <FieldLabel>Guest name</FieldLabel>
                 <Input
@@ -1441,6 +2977,52 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                   }
                   placeholder="Guest full name"
                 />
+                {bookingDraft.guest_id ? (
+                  <p className="text-[11px] text-slate-500">
+                    Linked to a{" "}
+                    <Link href={`/guests/${bookingDraft.guest_id}`} className="font-semibold text-emerald-700 hover:underline">
+                      guest profile
+                    </Link>
+                    .{" "}
+                    <button
+                      type="button"
+                      className="font-semibold text-slate-600 hover:underline"
+                      onClick={() => setBookingDraft((d) => ({ ...d, guest_id: null }))}
+                    >
+                      Unlink
+                    </button>
+                  </p>
+                ) : (
+                  guestSuggestions.length > 0 && (
+                    <div className="space-y-1 rounded-lg border border-emerald-100 bg-emerald-50/60 p-2">
+                      <p className="text-[11px] font-semibold text-emerald-800">Returning guest?</p>
+                      {guestSuggestions.map((guest) => (
+                        <button
+                          key={guest.id}
+                          type="button"
+                          className="flex w-full items-center justify-between gap-2 rounded-md px-2 py-1 text-left text-xs text-slate-700 hover:bg-white"
+                          onClick={() =>
+                            setBookingDraft((d) => ({
+                              ...d,
+                              guest_id: guest.id,
+                              guest_name: guest.full_name,
+                              guest_email: guest.email ?? d.guest_email,
+                              guest_passport: guest.passport ?? d.guest_passport,
+                            }))
+                          }
+                        >
+                          <span>
+                            <span className="font-semibold">{guest.full_name}</span>
+                            {[guest.email, guest.passport].filter(Boolean).map((v) => ` · ${v}`).join("")}
+                          </span>
+                          <span className="text-[11px] text-slate-500">
+                            {guest.stay_count} stay{guest.stay_count === 1 ? "" : "s"}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  )
+                )}
               </div>
               <div className="grid gap-3 sm:grid-cols-2">
                 <div className="space-y-1">
@@ -1486,6 +3068,21 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                   )}
                 </div>
               </div>
+              {!bookingDraft.id && bookingDraft.room_ids.length > 1 && (
+                <div className="space-y-1">
+                  <FieldLabel>Party name</FieldLabel>
+                  <Input
+                    value={bookingDraft.group_name ?? ""}
+                    onChange={(e) =>
+                      setBookingDraft((d) => ({ ...d, group_name: e.target.value }))
+                    }
+                    placeholder={bookingDraft.guest_name.trim() || "Defaults to the guest name"}
+                  />
+                  <p className="text-[10px] text-slate-500">
+                    All {bookingDraft.room_ids.length} rooms are linked so the party can be moved or cancelled together.
+                  </p>
+                </div>
+              )}
               <div className="space-y-1">
                 <FieldLabel>Passport number (primary guest)</FieldLabel>
                 <Input
@@ -1499,53 +3096,11 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                   Optional, but helps with future green tax reporting.
                 </p>
               </div>
-              <div className="space-y-2 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
-                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
-                  <FieldLabel>Second guest (optional)</FieldLabel>
-                  <span className="text-[10px] font-semibold text-slate-500">
-                    Counts toward guest total
-                  </span>
-                </div>
-                <div className="grid gap-3 sm:grid-cols-2">
-                  <div className="space-y-1">
-                    <FieldLabel>Name</FieldLabel>
-                    <Input
-                      value={bookingDraft.second_guest_name}
-                      onChange={(e) =>
-                        setBookingDraft((d) => ({ ...d, second_guest_name: e.target.value }))
-                      }
-                      placeholder="Second guest name"
-                    />
-                  </div>
-                  <div className="space-y-1">
-                    <FieldLabel>Email</FieldLabel>
-                    <Input
-                      type="email"
-                      value={bookingDraft.second_guest_email}
-                      onChange={(e) =>
-                        setBookingDraft((d) => ({
-                          ...d,
-                          second_guest_email: e.target.value,
-                        }))
-                      }
-                      placeholder="second@email.com"
-                    />
-                  </div>
-                </div>
-                <div className="space-y-1">
-                  <FieldLabel>Passport number</FieldLabel>
-                  <Input
-                    value={bookingDraft.second_guest_passport}
-                    onChange={(e) =>
-                      setBookingDraft((d) => ({
-                        ...d,
-                        second_guest_passport: e.target.value,
-                      }))
-                    }
-                    placeholder="Passport number"
-                  />
-                </div>
-              </div>
+              <OccupantsField
+                occupants={bookingDraft.occupants}
+                capacity={draftCapacity}
+                onChange={(occupants) => setBookingDraft((d) => ({ ...d, occupants }))}
+              />
               <div className="grid gap-3 sm:grid-cols-2">
                 <div className="space-y-1">
                   <FieldLabel>Check-in</FieldLabel>
@@ -1568,6 +3123,11 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                   />
                 </div>
               </div>
+              <StayQuoteSummary
+                quotes={draftQuotes}
+                rooms={rooms}
+                hasDates={Boolean(bookingDraft.check_in && bookingDraft.check_out)}
+              />
               <div className="space-y-1">
                 <FieldLabel>Status</FieldLabel>
                 <SelectField
@@ -1577,6 +3137,11 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                   }
                   options={bookingStatuses}
                 />
+                {bookingDraft.status === "checked_out" && draftBalance > 0 && (
+                  <p className="text-[10px] font-semibold text-amber-700">
+                    The guest still owes ${draftBalance.toFixed(2)}. Settle the folio before checking out.
+                  </p>
+                )}
               </div>
               {bookingDraft.status === "tentative" && (
                 <div className="space-y-1">
@@ -1604,6 +3169,18 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                   placeholder="Early arrival, payment status, etc."
                 />
               </div>
+              {bookingDraft.id && (
+                <FolioPanel
+                  key={bookingDraft.id}
+                  folio={folio}
+                  roomTotal={bookingDraft.total ?? null}
+                  loading={folioLoading}
+                  onAddItem={addFolioItem}
+                  onDeleteItem={deleteFolioItem}
+                  onRecordPayment={recordPayment}
+                  onDeletePayment={deletePayment}
+                />
+              )}
             </div>
             <div className="mt-5 flex flex-col-reverse sm:flex-row justify-end gap-2 flex-shrink-0 pt-4 border-t border-slate-100">
               <Dialog.Close className={ghostButton}>Cancel</Dialog.Close>
@@ -1614,6 +3191,113 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
           </Dialog.Content>
         </Dialog.Portal>
       </Dialog.Root>
+      <Dialog.Root
+        open={!!pendingCheckout}
+        onOpenChange={(open) => {
+          if (!open) setPendingCheckout(null);
+        }}
+      >
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 z-50 bg-black/40" />
+          <Dialog.Content className="fixed left-1/2 top-1/2 z-50 w-[min(400px,92vw)] -translate-x-1/2 -translate-y-1/2 rounded-2xl bg-white p-6 shadow-2xl">
+            <Dialog.Title className="text-lg font-semibold text-slate-900">
+              Open balance
+            </Dialog.Title>
+            <Dialog.Description className="mt-2 text-sm text-slate-600">
+              This guest still owes{" "}
+              <span className="font-semibold text-slate-900">
+                ${pendingCheckout?.balance.toFixed(2)}
+              </span>
+              . Check them out anyway?
+            </Dialog.Description>
+            <div className="mt-6 flex justify-end gap-2">
+              <Dialog.Close className={ghostButton}>Cancel</Dialog.Close>
+              <button
+                className={dangerButton}
+                onClick={() => {
+                  if (!pendingCheckout) return;
+                  const { bookingId } = pendingCheckout;
+                  setPendingCheckout(null);
+                  void updateBookingStatus(bookingId, "checked_out", true);
+                }}
+              >
+                Check out anyway
+              </button>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+      <BookingGroupDialog
+        key={activeGroup?.id ?? "no-group"}
+        group={activeGroup}
+        bookings={groupBookings}
+        rooms={rooms}
+        loading={groupLoading}
+        onOpenChange={(open) => {
+          if (!open) closeBookingGroup();
+        }}
+        onRename={renameBookingGroup}
+        onReschedule={rescheduleBookingGroup}
+        onUpdateGuest={updateBookingGroupGuest}
+        onCancelGroup={cancelBookingGroup}
+        onSplitBooking={splitBookingFromGroup}
+        onEditBooking={(booking) => {
+          closeBookingGroup();
+          editBooking(booking);
+        }}
+      />
+      <RoomFeedsDialog
+        key={feedsRoomId ?? "no-room"}
+        room={rooms.find((r) => r.id === feedsRoomId) ?? null}
+        feeds={roomFeeds.filter((f) => f.room_id === feedsRoomId)}
+        onOpenChange={(open) => {
+          if (!open) setFeedsRoomId(null);
+        }}
+        onAddFeed={addRoomFeed}
+        onDeleteFeed={deleteRoomFeed}
+        onSync={() => syncChannelFeeds(feedsRoomId ?? undefined)}
+      />
+      <AutoAssignDialog
+        key={autoAssignOpen ? "open" : "closed"}
+        open={autoAssignOpen}
+        rooms={rooms}
+        onOpenChange={setAutoAssignOpen}
+        onPlan={planAutoAssign}
+        onApply={applyAutoAssign}
+      />
+      <EmailTemplatesDialog
+        key={emailTemplatesOpen ? "open" : "closed"}
+        property={emailTemplatesOpen ? activeProperty ?? null : null}
+        templates={emailTemplates}
+        log={emailLog}
+        previewBooking={bookings[0] ?? null}
+        previewRoomNumber={rooms.find((r) => r.id === bookings[0]?.room_id)?.number ?? null}
+        onOpenChange={setEmailTemplatesOpen}
+        onSave={saveEmailTemplate}
+      />
+      <PropertyMembersDialog
+        key={membersOpen ? "open" : "closed"}
+        property={membersOpen ? activeProperty ?? null : null}
+        members={propertyMembers}
+        invitations={propertyInvitations}
+        currentUserId={session?.user.id ?? null}
+        canManage={propertyCan(activeProperty?.role, "manage_members")}
+        onOpenChange={setMembersOpen}
+        onAdd={addPropertyMember}
+        onChangeRole={updateMemberRole}
+        onRemove={removePropertyMember}
+        onRevokeInvitation={revokePropertyInvitation}
+      />
+      <MaintenanceDialog
+        key={maintenanceRoomId ?? "no-room"}
+        room={rooms.find((r) => r.id === maintenanceRoomId) ?? null}
+        tickets={maintenanceTickets.filter((t) => t.room_id === maintenanceRoomId)}
+        onOpenChange={(open) => {
+          if (!open) setMaintenanceRoomId(null);
+        }}
+        onOpenTicket={openMaintenanceTicket}
+        onCloseTicket={closeMaintenanceTicket}
+      />
       <div className="mx-auto max-w-7xl">
         {/* Legacy sidebar removed in favor of global layout */}
 
@@ -1884,6 +3568,7 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                               </p>
                               <p className="text-xs text-slate-500">
                                 {property.code ?? "No code"} • {property.timezone ?? "UTC"}
+                                {property.role && ` • ${propertyRoles.find((r) => r.value === property.role)?.label}`}
                               </p>
                             </div>
                             <div className="flex items-center gap-2">
@@ -1896,15 +3581,17 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                               >
                                 Set active
                               </button>
-                              <button
-                                className={clsx(
-                                  dangerButton,
-                                  "px-3 py-1 text-xs",
-                                )}
-                                onClick={() => deleteProperty(property.id)}
-                              >
-                                Remove
-                              </button>
+                              {propertyCan(property.role, "delete_property") && (
+                                <button
+                                  className={clsx(
+                                    dangerButton,
+                                    "px-3 py-1 text-xs",
+                                  )}
+                                  onClick={() => deleteProperty(property.id)}
+                                >
+                                  Remove
+                                </button>
+                              )}
                             </div>
                           </div>
                           {property.address && (
@@ -1970,6 +3657,48 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                       row level security.
                     </p>
                   </div>
+                  {activeProperty && (
+                    <CalendarFeedPanel
+                      property={activeProperty}
+                      rooms={rooms}
+                      onRotate={rotateCalendarToken}
+                    />
+                  )}
+                  {activeProperty && propertyCan(activeProperty.role, "edit_property") && (
+                    <HoldReminderPanel
+                      key={activeProperty.id}
+                      property={activeProperty}
+                      onSave={saveHoldReminders}
+                    />
+                  )}
+                  {activeProperty && (
+                    <div className="mt-4 flex items-center justify-between border-t border-slate-200 pt-3">
+                      <p className="text-xs font-semibold uppercase tracking-[0.08em] text-slate-500">
+                        Guest emails
+                      </p>
+                      <button
+                        type="button"
+                        className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                        onClick={() => void openEmailTemplates()}
+                      >
+                        Templates & log
+                      </button>
+                    </div>
+                  )}
+                  {activeProperty && (
+                    <div className="mt-4 flex items-center justify-between border-t border-slate-200 pt-3">
+                      <p className="text-xs font-semibold uppercase tracking-[0.08em] text-slate-500">
+                        Staff access
+                      </p>
+                      <button
+                        type="button"
+                        className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                        onClick={() => void openPropertyMembers()}
+                      >
+                        {propertyCan(activeProperty.role, "manage_members") ? "Manage members" : "Members"}
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             </section>
@@ -1979,7 +3708,8 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
             shouldShowSection("rooms") ||
             shouldShowSection("bookings") ||
             shouldShowSection("tentative") ||
-            shouldShowSection("availability")) &&
+            shouldShowSection("availability") ||
+            shouldShowSection("frontdesk")) &&
             (activeProperty ? (
               <div className="grid gap-6 lg:grid-cols-2">
                 {shouldShowSection("categories") && (
@@ -2065,6 +3795,42 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                                   />
                                 </div>
                               </div>
+                              <div className="grid gap-3 sm:grid-cols-2">
+                                <div className="space-y-1">
+                                  <FieldLabel>Weekend uplift (%)</FieldLabel>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    step="0.5"
+                                    value={categoryDraft.weekend_uplift_pct}
+                                    onChange={(e) =>
+                                      setCategoryDraft((d) => ({
+                                        ...d,
+                                        weekend_uplift_pct: e.target.value,
+                                      }))
+                                    }
+                                    placeholder="0"
+                                  />
+                                  <p className="text-[10px] text-slate-500">
+                                    Added to Friday and Saturday nights.
+                                  </p>
+                                </div>
+                                <div className="space-y-1">
+                                  <FieldLabel>Minimum stay (nights)</FieldLabel>
+                                  <Input
+                                    type="number"
+                                    min="1"
+                                    value={categoryDraft.min_stay}
+                                    onChange={(e) =>
+                                      setCategoryDraft((d) => ({
+                                        ...d,
+                                        min_stay: e.target.value,
+                                      }))
+                                    }
+                                    placeholder="1"
+                                  />
+                                </div>
+                              </div>
                               <div className="space-y-1">
                                 <FieldLabel>Description</FieldLabel>
                                 <TextArea
@@ -2110,6 +3876,8 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                                   <p className="text-xs text-slate-500">
                                     {category.capacity ?? "—"} guests •{" "}
                                     {category.base_rate ? `$${category.base_rate}` : "Rate N/A"}
+                                    {Number(category.weekend_uplift_pct) > 0 && ` • +${category.weekend_uplift_pct}% weekends`}
+                                    {category.min_stay > 1 && ` • ${category.min_stay}-night minimum`}
                                   </p>
                                 </div>
                                 <div className="flex items-center gap-2">
@@ -2121,6 +3889,8 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                                         name: category.name ?? "",
                                         base_rate: category.base_rate?.toString() ?? "",
                                         capacity: category.capacity?.toString() ?? "",
+                                        weekend_uplift_pct: category.weekend_uplift_pct?.toString() ?? "0",
+                                        min_stay: category.min_stay?.toString() ?? "1",
                                         description: category.description ?? "",
                                       });
                                       setCategoryModalOpen(true);
@@ -2141,6 +3911,101 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                                   {category.description}
                                 </p>
                               )}
+                              <div className="mt-3 space-y-2 border-t border-slate-100 pt-3">
+                                <p className="text-[11px] font-semibold uppercase tracking-[0.08em] text-slate-500">
+                                  Seasonal rates
+                                </p>
+                                {rateSeasons
+                                  .filter((season) => season.category_id === category.id)
+                                  .map((season) => (
+                                    <div
+                                      key={season.id}
+                                      className="flex items-center justify-between gap-2 rounded-lg bg-slate-50 px-3 py-2 text-xs text-slate-600"
+                                    >
+                                      <span>
+                                        <span className="font-semibold text-slate-800">{season.name}</span>{" "}
+                                        {season.start_date} → {season.end_date} • ${season.nightly_rate}/night
+                                        {season.min_stay ? ` • ${season.min_stay}-night minimum` : ""}
+                                      </span>
+                                      <button
+                                        className="text-red-600 hover:text-red-700"
+                                        onClick={() => deleteRateSeason(season.id)}
+                                        aria-label={`Remove ${season.name}`}
+                                      >
+                                        <Cross2Icon />
+                                      </button>
+                                    </div>
+                                  ))}
+                                {seasonDraft.category_id === category.id ? (
+                                  <div className="space-y-2 rounded-lg border border-slate-200 p-3">
+                                    <Input
+                                      value={seasonDraft.name}
+                                      onChange={(e) =>
+                                        setSeasonDraft((d) => ({ ...d, name: e.target.value }))
+                                      }
+                                      placeholder="Peak season"
+                                    />
+                                    <div className="grid gap-2 sm:grid-cols-2">
+                                      <Input
+                                        type="date"
+                                        value={seasonDraft.start_date}
+                                        onChange={(e) =>
+                                          setSeasonDraft((d) => ({ ...d, start_date: e.target.value }))
+                                        }
+                                      />
+                                      <Input
+                                        type="date"
+                                        value={seasonDraft.end_date}
+                                        onChange={(e) =>
+                                          setSeasonDraft((d) => ({ ...d, end_date: e.target.value }))
+                                        }
+                                      />
+                                      <Input
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={seasonDraft.nightly_rate}
+                                        onChange={(e) =>
+                                          setSeasonDraft((d) => ({ ...d, nightly_rate: e.target.value }))
+                                        }
+                                        placeholder="Nightly rate"
+                                      />
+                                      <Input
+                                        type="number"
+                                        min="1"
+                                        value={seasonDraft.min_stay}
+                                        onChange={(e) =>
+                                          setSeasonDraft((d) => ({ ...d, min_stay: e.target.value }))
+                                        }
+                                        placeholder="Min. nights (optional)"
+                                      />
+                                    </div>
+                                    <div className="flex justify-end gap-2">
+                                      <button
+                                        className={ghostButton}
+                                        onClick={() => setSeasonDraft(defaultSeasonDraft)}
+                                      >
+                                        Cancel
+                                      </button>
+                                      <button
+                                        className={primaryButton}
+                                        onClick={() => addRateSeason(category.id)}
+                                      >
+                                        Add season
+                                      </button>
+                                    </div>
+                                  </div>
+                                ) : (
+                                  <button
+                                    className="text-xs font-semibold text-emerald-700 hover:underline"
+                                    onClick={() =>
+                                      setSeasonDraft({ ...defaultSeasonDraft, category_id: category.id })
+                                    }
+                                  >
+                                    + Add season
+                                  </button>
+                                )}
+                              </div>
                             </div>
                           ))}
                         </div>
@@ -2160,102 +4025,105 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                           Room numbers & status
                         </h3>
                       </div>
-                      <Dialog.Root
-                        open={roomModalOpen}
-                        onOpenChange={(open) => {
-                          setRoomModalOpen(open);
-                          if (!open) setRoomDraft(defaultRoomDraft);
-                        }}
-                      >
-                        <Dialog.Trigger className={primaryButton}>
-                          <PlusIcon /> Add room
-                        </Dialog.Trigger>
-                        <Dialog.Portal>
-                          <Dialog.Overlay className="fixed inset-0 z-50 bg-black/40" />
-                          <Dialog.Content className="fixed left-1/2 top-1/2 z-50 w-[min(520px,92vw)] -translate-x-1/2 -translate-y-1/2 rounded-2xl bg-white p-6 shadow-2xl">
-                            <div className="flex items-start justify-between">
-                              <div>
-                                <Dialog.Title className="text-lg font-semibold text-slate-900">
-                                  {roomDraft.id ? "Edit room" : "Add room"}
-                                </Dialog.Title>
-                                <Dialog.Description className="text-sm text-slate-600">
-                                  Assign room numbers, categories, and housekeeping status.
-                                </Dialog.Description>
-                              </div>
-                              <Dialog.Close className="text-slate-500 hover:text-slate-700">
-                                <Cross2Icon />
-                              </Dialog.Close>
-                            </div>
-                            <div className="mt-4 space-y-3">
-                              <div className="grid gap-3 sm:grid-cols-2">
-                                <div className="space-y-1">
-                                  <FieldLabel>Room number</FieldLabel>
-                                  <Input
-                                    value={roomDraft.number}
-                                    onChange={(e) =>
-                                      setRoomDraft((d) => ({ ...d, number: e.target.value }))
-                                    }
-                                    placeholder="201"
-                                  />
-                                </div>
-                                <div className="space-y-1">
-                                  <FieldLabel>Floor</FieldLabel>
-                                  <Input
-                                    value={roomDraft.floor}
-                                    onChange={(e) =>
-                                      setRoomDraft((d) => ({ ...d, floor: e.target.value }))
-                                    }
-                                    placeholder="2"
-                                  />
+                      <div className="flex items-center gap-2">
+                        <ExportMenu onExport={exportRooms} />
+                        <Dialog.Root
+                          open={roomModalOpen}
+                          onOpenChange={(open) => {
+                            setRoomModalOpen(open);
+                            if (!open) setRoomDraft(defaultRoomDraft);
+                          }}
+                        >
+                          <Dialog.Trigger className={primaryButton}>
+                            <PlusIcon /> Add room
+                          </Dialog.Trigger>
+                          <Dialog.Portal>
+                            <Dialog.Overlay className="fixed inset-0 z-50 bg-black/40" />
+                            <Dialog.Content className="fixed left-1/2 top-1/2 z-50 w-[min(520px,92vw)] -translate-x-1/2 -translate-y-1/2 rounded-2xl bg-white p-6 shadow-2xl">
+                              <div className="flex items-start justify-between">
+                                <div>
+                                  <Dialog.Title className="text-lg font-semibold text-slate-900">
+                                    {roomDraft.id ? "Edit room" : "Add room"}
+                                  </Dialog.Title>
+                                  <Dialog.Description className="text-sm text-slate-600">
+                                    Assign room numbers, categories, and housekeeping status.
+                                  </Dialog.Description>
                                 </div>
+                                <Dialog.Close className="text-slate-500 hover:text-slate-700">
+                                  <Cross2Icon />
+                                </Dialog.Close>
                               </div>
-                              <div className="grid gap-3 sm:grid-cols-2">
-                                <div className="space-y-1">
-                                  <FieldLabel>Category</FieldLabel>
-                                  <SelectField
-                                    value={roomDraft.category_id}
-                                    onValueChange={(val) =>
-                                      setRoomDraft((d) => ({ ...d, category_id: val }))
-                                    }
-                                    options={categories.map((c) => ({
-                                      value: c.id,
-                                      label: c.name,
-                                    }))}
-                                    placeholder="Choose category"
-                                  />
+                              <div className="mt-4 space-y-3">
+                                <div className="grid gap-3 sm:grid-cols-2">
+                                  <div className="space-y-1">
+                                    <FieldLabel>Room number</FieldLabel>
+                                    <Input
+                                      value={roomDraft.number}
+                                      onChange={(e) =>
+                                        setRoomDraft((d) => ({ ...d, number: e.target.value }))
+                                      }
+                                      placeholder="201"
+                                    />
+                                  </div>
+                                  <div className="space-y-1">
+                                    <FieldLabel>Floor</FieldLabel>
+                                    <Input
+                                      value={roomDraft.floor}
+                                      onChange={(e) =>
+                                        setRoomDraft((d) => ({ ...d, floor: e.target.value }))
+                                      }
+                                      placeholder="2"
+                                    />
+                                  </div>
+                                </div>
+                                <div className="grid gap-3 sm:grid-cols-2">
+                                  <div className="space-y-1">
+                                    <FieldLabel>Category</FieldLabel>
+                                    <SelectField
+                                      value={roomDraft.category_id}
+                                      onValueChange={(val) =>
+                                        setRoomDraft((d) => ({ ...d, category_id: val }))
+                                      }
+                                      options={categories.map((c) => ({
+                                        value: c.id,
+                                        label: c.name,
+                                      }))}
+                                      placeholder="Choose category"
+                                    />
+                                  </div>
+                                  <div className="space-y-1">
+                                    <FieldLabel>Status</FieldLabel>
+                                    <SelectField
+                                      value={roomDraft.status}
+                                      onValueChange={(val) =>
+                                        setRoomDraft((d) => ({ ...d, status: val }))
+                                      }
+                                      options={roomStatuses}
+                                    />
+                                  </div>
                                 </div>
                                 <div className="space-y-1">
-                                  <FieldLabel>Status</FieldLabel>
-                                  <SelectField
-                                    value={roomDraft.status}
-                                    onValueChange={(val) =>
-                                      setRoomDraft((d) => ({ ...d, status: val }))
+                                  <FieldLabel>Notes</FieldLabel>
+                                  <TextArea
+                                    rows={3}
+                                    value={roomDraft.notes}
+                                    onChange={(e) =>
+                                      setRoomDraft((d) => ({ ...d, notes: e.target.value }))
                                     }
-                                    options={roomStatuses}
+                                    placeholder="Special equipment, facing, etc."
                                   />
                                 </div>
                               </div>
-                              <div className="space-y-1">
-                                <FieldLabel>Notes</FieldLabel>
-                                <TextArea
-                                  rows={3}
-                                  value={roomDraft.notes}
-                                  onChange={(e) =>
-                                    setRoomDraft((d) => ({ ...d, notes: e.target.value }))
-                                  }
-                                  placeholder="Special equipment, facing, etc."
-                                />
+                              <div className="mt-5 flex justify-end gap-2">
+                                <Dialog.Close className={ghostButton}>Cancel</Dialog.Close>
+                                <button className={primaryButton} onClick={upsertRoom}>
+                                  Save room
+                                </button>
                               </div>
-                            </div>
-                            <div className="mt-5 flex justify-end gap-2">
-                              <Dialog.Close className={ghostButton}>Cancel</Dialog.Close>
-                              <button className={primaryButton} onClick={upsertRoom}>
-                                Save room
-                              </button>
-                            </div>
-                          </Dialog.Content>
-                        </Dialog.Portal>
-                      </Dialog.Root>
+                            </Dialog.Content>
+                          </Dialog.Portal>
+                        </Dialog.Root>
+                      </div>
                     </div>
                     <div className="space-y-3">
                       {rooms.length === 0 ? (
@@ -2320,6 +4188,16 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                                 >
                                   Edit
                                 </button>
+                                <button className={ghostButton} onClick={() => setFeedsRoomId(room.id)}>
+                                  Channels
+                                  {roomFeeds.some((f) => f.room_id === room.id) &&
+                                    ` (${roomFeeds.filter((f) => f.room_id === room.id).length})`}
+                                </button>
+                                <button className={ghostButton} onClick={() => setMaintenanceRoomId(room.id)}>
+                                  Maintenance
+                                  {maintenanceTickets.some((t) => t.room_id === room.id && t.status === "open") &&
+                                    ` (${maintenanceTickets.filter((t) => t.room_id === room.id && t.status === "open").length})`}
+                                </button>
                                 <button className={dangerButton} onClick={() => deleteRoom(room.id)}>
                                   Delete
                                 </button>
@@ -2335,6 +4213,7 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                 {shouldShowSection("bookings") && (
                   <section id="bookings" className={clsx(cardClass, "lg:col-span-2")}>
                     <BookingsView
+                      propertyId={activeProperty.id}
                       bookings={bookings}
                       rooms={rooms}
                       counts={{
@@ -2350,26 +4229,12 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                       loading={bookingsLoading}
                       searchQuery={bookingSearch}
                       onSearchChange={setBookingSearch}
-                      onEditBooking={(booking) => {
-                        setBookingDraft({
-                          id: booking.id,
-                          guest_name: booking.guest_name,
-                          guest_email: booking.guest_email ?? "",
-                          guest_passport: booking.guest_passport ?? "",
-                          second_guest_name: booking.second_guest_name ?? "",
-                          second_guest_email: booking.second_guest_email ?? "",
-                          second_guest_passport: booking.second_guest_passport ?? "",
-                          room_ids: booking.room_id ? [booking.room_id] : [],
-                          check_in: booking.check_in,
-                          check_out: booking.check_out,
-                          status: booking.status,
-                          auto_release_at: booking.auto_release_at ?? null,
-                          notes: booking.notes ?? "",
-                        });
-                        setBookingModalOpen(true);
-                      }}
+                      onEditBooking={editBooking}
+                      onOpenGroup={openBookingGroup}
                       onUpdateStatus={updateBookingStatus}
                       onDeleteBooking={deleteBooking}
+                      onExport={exportBookings}
+                      onAutoAssign={() => setAutoAssignOpen(true)}
                       currentMonth={calendarMonth}
                       onMonthChange={setCalendarMonth}
                     />
@@ -2419,27 +4284,19 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                                   <p className="text-xs text-slate-500">
                                     {booking.guest_email ?? "No email"}
                                   </p>
-                                  {booking.second_guest_name && (
+                                  {otherGuestNames(booking) && (
                                     <p className="text-xs text-slate-500">
-                                      + {booking.second_guest_name}
-                                    </p>
-                                  )}
-                                  {booking.second_guest_email && (
-                                    <p className="text-[10px] text-slate-400">
-                                      {booking.second_guest_email}
+                                      + {otherGuestNames(booking)}
                                     </p>
                                   )}
-                                  {(booking.adults ?? 1) > 1 && (
+                                  {partySize(booking) > 1 && (
                                     <p className="text-[10px] text-slate-500">
-                                      Guests: {booking.adults ?? 1}
+                                      Guests: {formatParty(booking)}
                                     </p>
                                   )}
-                                  {(booking.guest_passport || booking.second_guest_passport) && (
+                                  {booking.guest_passport && (
                                     <p className="text-[10px] text-slate-400">
-                                      {booking.guest_passport ? `Pass: ${booking.guest_passport}` : "Pass: —"}
-                                      {booking.second_guest_passport
-                                        ? `${booking.guest_passport ? " • " : ""}Pass 2: ${booking.second_guest_passport}`
-                                        : ""}
+                                      Pass: {booking.guest_passport}
                                     </p>
                                   )}
                                 </div>
@@ -2475,24 +4332,7 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                                 </button>
                                 <button
                                   className="rounded-lg border border-amber-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 shadow-sm hover:bg-amber-50"
-                                  onClick={() => {
-                                    setBookingDraft({
-                                      id: booking.id,
-                                      guest_name: booking.guest_name,
-                                      guest_email: booking.guest_email ?? "",
-                                      guest_passport: booking.guest_passport ?? "",
-                                      second_guest_name: booking.second_guest_name ?? "",
-                                      second_guest_email: booking.second_guest_email ?? "",
-                                      second_guest_passport: booking.second_guest_passport ?? "",
-                                      room_ids: booking.room_id ? [booking.room_id] : [],
-                                      check_in: booking.check_in,
-                                      check_out: booking.check_out,
-                                      status: booking.status,
-                                      auto_release_at: booking.auto_release_at ?? "",
-                                      notes: booking.notes ?? "",
-                                    });
-                                    setBookingModalOpen(true);
-                                  }}
+                                  onClick={() => editBooking(booking)}
                                 >
                                   Edit
                                 </button>
@@ -2511,6 +4351,28 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                   </section>
                 )}
 
+                {shouldShowSection("frontdesk") && (
+                  <section id="frontdesk" className={clsx(cardClass, "lg:col-span-2")}>
+                    <div className="mb-4">
+                      <p className="text-xs font-semibold uppercase tracking-[0.08em] text-slate-500">
+                        Front desk
+                      </p>
+                      <h3 className="text-lg font-semibold text-slate-900">
+                        Arrivals, departures and in-house guests
+                      </h3>
+                    </div>
+                    <FrontDeskView
+                      date={frontDeskDate}
+                      onDateChange={setFrontDeskDate}
+                      bookings={frontDeskBookings}
+                      rooms={rooms}
+                      loading={frontDeskLoading}
+                      onUpdateStatus={updateBookingStatus}
+                      onEditBooking={editBooking}
+                    />
+                  </section>
+                )}
+
                 {shouldShowSection("availability") && (
                   <section
                     id="availability"
@@ -2525,8 +4387,9 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                         rooms={rooms}
                         categories={categories}
                         bookings={availabilityBookings}
-                        currentMonth={calendarMonth}
-                        onMonthChange={setCalendarMonth}
+                        windowStart={availabilityWindow.start}
+                        windowDays={availabilityWindow.days}
+                        onWindowChange={(start, days) => setAvailabilityWindow({ start, days })}
                         loading={availabilityLoading}
                         onAddBooking={(roomId, checkIn, checkOut) => {
                           setBookingDraft({
@@ -2537,25 +4400,14 @@ export function Dashboard({ view = "all" }: { view?: DashboardView }) {
                           });
                           setBookingModalOpen(true);
                         }}
-                        onEditBooking={(booking) => {
-                          setBookingDraft({
-                            id: booking.id,
-                            guest_name: booking.guest_name,
-                            guest_email: booking.guest_email ?? "",
-                            guest_passport: booking.guest_passport ?? "",
-                            second_guest_name: booking.second_guest_name ?? "",
-                            second_guest_email: booking.second_guest_email ?? "",
-                            second_guest_passport: booking.second_guest_passport ?? "",
-                            room_ids: booking.room_id ? [booking.room_id] : [],
-                            check_in: booking.check_in,
-                            check_out: booking.check_out,
-                            status: booking.status,
-                            auto_release_at: booking.auto_release_at ?? null,
-                            notes: booking.notes ?? "",
-                          });
-                          setBookingModalOpen(true);
-                        }}
+                        onEditBooking={editBooking}
                         onUpdateStatus={updateBookingStatus}
+                        feedConflicts={feedConflicts}
+                        onOpenConflict={(conflict) => void openConflictingBooking(conflict.booking_id)}
+                        onSyncFeeds={roomFeeds.length > 0 ? () => syncChannelFeeds() : undefined}
+                        onMoveBooking={moveBooking}
+                        maintenanceTickets={maintenanceTickets.filter((t) => t.status === "open")}
+                        onOpenMaintenance={(ticket) => setMaintenanceRoomId(ticket.room_id)}
                       />
                     </div>
                   </section>
@@ -0,0 +1,91 @@
+import { Property, Room } from "../types";
+import { useState } from "react";
+
+const inputClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-xs text-slate-900 shadow-sm focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+const smallButton =
+    "rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-60";
+
+type CalendarFeedPanelProps = {
+    property: Property;
+    rooms: Room[];
+    onRotate: (revoke: boolean) => Promise<void>;
+};
+
+export function CalendarFeedPanel({ property, rooms, onRotate }: CalendarFeedPanelProps) {
+    const [roomId, setRoomId] = useState("");
+    const [busy, setBusy] = useState(false);
+    const [copied, setCopied] = useState(false);
+
+    const token = property.calendar_token;
+    const feedUrl = token
+        ? `${window.location.origin}/api/properties/${property.id}${roomId ? `/rooms/${roomId}` : ""}/calendar.ics?token=${token}`
+        : "";
+
+    const run = async (revoke: boolean) => {
+        setBusy(true);
+        await onRotate(revoke);
+        setBusy(false);
+        setCopied(false);
+    };
+
+    const copy = async () => {
+        await navigator.clipboard.writeText(feedUrl);
+        setCopied(true);
+    };
+
+    return (
+        <div className="mt-4 space-y-2 border-t border-slate-200 pt-3">
+            <div className="flex items-center justify-between">
+                <p className="text-xs font-semibold uppercase tracking-[0.08em] text-slate-500">
+                    Calendar feed
+                </p>
+                <span className="text-xs text-slate-500">{token ? "Enabled" : "Off"}</span>
+            </div>
+            {token ? (
+                <>
+                    <p className="text-xs text-slate-600">
+                        Subscribe from Google Calendar, Outlook or Apple Calendar. Anyone with the link can
+                        see guest names, so regenerate it if it leaks.
+                    </p>
+                    <select
+                        className={inputClass}
+                        value={roomId}
+                        onChange={(e) => {
+                            setRoomId(e.target.value);
+                            setCopied(false);
+                        }}
+                    >
+                        <option value="">All rooms</option>
+                        {rooms.map((room) => (
+                            <option key={room.id} value={room.id}>
+                                Room {room.number}
+                            </option>
+                        ))}
+                    </select>
+                    <input className={inputClass} value={feedUrl} readOnly onFocus={(e) => e.target.select()} />
+                    <div className="flex flex-wrap gap-2">
+                        <button type="button" className={smallButton} onClick={() => void copy()}>
+                            {copied ? "Copied" : "Copy link"}
+                        </button>
+                        <button type="button" className={smallButton} disabled={busy} onClick={() => void run(false)}>
+                            Regenerate
+                        </button>
+                        <button type="button" className={smallButton} disabled={busy} onClick={() => void run(true)}>
+                            Revoke
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <>
+                    <p className="text-xs text-slate-600">
+                        Publish bookings as a private iCal link that calendar apps can subscribe to.
+                    </p>
+                    <button type="button" className={smallButton} disabled={busy} onClick={() => void run(false)}>
+                        Enable calendar feed
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
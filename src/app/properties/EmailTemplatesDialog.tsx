@@ -0,0 +1,255 @@
+import { Booking, EmailEvent, EmailLogEntry, EmailTemplate, EmailTemplateDraft, Property, emailEvents } from "../types";
+import {
+    bookingTemplateVariables,
+    defaultEmailTemplates,
+    renderTemplate,
+    templateVariables,
+} from "@/lib/emailTemplates";
+import { Cross2Icon } from "@radix-ui/react-icons";
+import * as Dialog from "@radix-ui/react-dialog";
+import clsx from "clsx";
+import { addDays, format } from "date-fns";
+import { useState } from "react";
+
+const buttonBase =
+    "inline-flex h-10 items-center justify-center gap-2 rounded-lg px-4 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-400 disabled:opacity-60";
+const primaryButton = `${buttonBase} bg-black text-white hover:bg-slate-900`;
+const ghostButton = `${buttonBase} border border-slate-200 bg-white text-slate-700 hover:bg-slate-50`;
+
+const inputClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+
+const logStatusStyles: Record<EmailLogEntry["status"], string> = {
+    sent: "bg-emerald-50 text-emerald-700 border border-emerald-200",
+    failed: "bg-red-50 text-red-700 border border-red-200",
+    skipped: "bg-slate-100 text-slate-600 border border-slate-200",
+};
+
+const eventLabel = (event: string) =>
+    event === "hold_reminder" ? "Hold reminder (staff)" : (emailEvents.find((e) => e.value === event)?.label ?? event);
+
+const toDraft = (event: EmailEvent, templates: EmailTemplate[]): EmailTemplateDraft => {
+    const saved = templates.find((t) => t.event === event);
+    return saved
+        ? { event, subject: saved.subject, body: saved.body, enabled: saved.enabled }
+        : { event, ...defaultEmailTemplates[event], enabled: true };
+};
+
+// Stand-in booking for the preview when the property has none to show
+const sampleBooking = (propertyId: string): Booking => ({
+    id: "sample",
+    property_id: propertyId,
+    room_id: null,
+    guest_name: "Alex Morgan",
+    guest_email: "alex@example.com",
+    guest_passport: null,
+    adults: 2,
+    children: 1,
+    check_in: format(addDays(new Date(), 14), "yyyy-MM-dd"),
+    check_out: format(addDays(new Date(), 17), "yyyy-MM-dd"),
+    status: "reserved",
+    auto_release_at: null,
+    total: 480,
+    reference_code: "AB12CD",
+    notes: null,
+    created_by: null,
+    group_id: null,
+    source: "direct",
+    feed_id: null,
+});
+
+type EmailTemplatesDialogProps = {
+    property: Property | null;
+    templates: EmailTemplate[];
+    log: EmailLogEntry[];
+    previewBooking: Booking | null;
+    previewRoomNumber: string | null;
+    onOpenChange: (open: boolean) => void;
+    onSave: (draft: EmailTemplateDraft) => Promise<boolean>;
+};
+
+export function EmailTemplatesDialog({
+    property,
+    templates,
+    log,
+    previewBooking,
+    previewRoomNumber,
+    onOpenChange,
+    onSave,
+}: EmailTemplatesDialogProps) {
+    const [tab, setTab] = useState<"templates" | "log">("templates");
+    const [draft, setDraft] = useState<EmailTemplateDraft>(() => toDraft("booking_created", templates));
+    const [busy, setBusy] = useState(false);
+
+    const selectEvent = (event: EmailEvent) => setDraft(toDraft(event, templates));
+    const isCustom = templates.some((t) => t.event === draft.event);
+
+    const variables = property
+        ? bookingTemplateVariables(
+            previewBooking ?? sampleBooking(property.id),
+            previewRoomNumber ? [previewRoomNumber] : [],
+            property,
+        )
+        : {};
+
+    const save = async () => {
+        setBusy(true);
+        await onSave(draft);
+        setBusy(false);
+    };
+
+    return (
+        <Dialog.Root open={!!property} onOpenChange={onOpenChange}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 z-50 bg-black/40" />
+                <Dialog.Content className="fixed left-1/2 top-[5%] sm:top-1/2 z-50 w-[min(820px,94vw)] max-h-[90vh] -translate-x-1/2 sm:-translate-y-1/2 rounded-2xl bg-white p-4 sm:p-6 shadow-2xl flex flex-col overflow-hidden">
+                    <div className="flex items-start justify-between flex-shrink-0">
+                        <div>
+                            <Dialog.Title className="text-lg font-semibold text-slate-900">
+                                Guest emails · {property?.name}
+                            </Dialog.Title>
+                            <Dialog.Description className="text-sm text-slate-600">
+                                Sent to the primary guest when a booking is created, confirmed, changed or cancelled.
+                            </Dialog.Description>
+                        </div>
+                        <Dialog.Close className="text-slate-500 hover:text-slate-700 flex-shrink-0 ml-2">
+                            <Cross2Icon />
+                        </Dialog.Close>
+                    </div>
+
+                    <div className="mt-4 flex gap-2 flex-shrink-0">
+                        {(["templates", "log"] as const).map((value) => (
+                            <button
+                                key={value}
+                                className={clsx(
+                                    "rounded-full px-3 py-1 text-xs font-semibold",
+                                    tab === value ? "bg-slate-900 text-white" : "bg-slate-100 text-slate-700 hover:bg-slate-200",
+                                )}
+                                onClick={() => setTab(value)}
+                            >
+                                {value === "templates" ? "Templates" : `Send log (${log.length})`}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="mt-4 overflow-y-auto flex-1 min-h-0 pr-1 -mr-1">
+                        {tab === "templates" ? (
+                            <div className="grid gap-4 md:grid-cols-2">
+                                <div className="space-y-3">
+                                    <select
+                                        className={inputClass}
+                                        value={draft.event}
+                                        onChange={(e) => selectEvent(e.target.value as EmailEvent)}
+                                    >
+                                        {emailEvents.map((e) => (
+                                            <option key={e.value} value={e.value}>
+                                                {e.label}
+                                                {templates.some((t) => t.event === e.value) ? " (customised)" : ""}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                                        <input
+                                            type="checkbox"
+                                            className="h-4 w-4 rounded border-slate-300"
+                                            checked={draft.enabled}
+                                            onChange={(e) => setDraft((d) => ({ ...d, enabled: e.target.checked }))}
+                                        />
+                                        Send this email
+                                    </label>
+                                    <input
+                                        className={inputClass}
+                                        value={draft.subject}
+                                        onChange={(e) => setDraft((d) => ({ ...d, subject: e.target.value }))}
+                                        placeholder="Subject"
+                                    />
+                                    <textarea
+                                        className={clsx(inputClass, "font-mono text-xs")}
+                                        rows={14}
+                                        value={draft.body}
+                                        onChange={(e) => setDraft((d) => ({ ...d, body: e.target.value }))}
+                                    />
+                                    <div className="flex flex-wrap gap-2">
+                                        <button className={primaryButton} disabled={busy} onClick={() => void save()}>
+                                            {busy ? "Saving..." : "Save template"}
+                                        </button>
+                                        <button
+                                            className={ghostButton}
+                                            disabled={busy}
+                                            onClick={() =>
+                                                setDraft((d) => ({ ...d, ...defaultEmailTemplates[d.event] }))
+                                            }
+                                        >
+                                            Reset wording
+                                        </button>
+                                    </div>
+                                    {!isCustom && (
+                                        <p className="text-[11px] text-slate-500">
+                                            Using the built-in wording until you save.
+                                        </p>
+                                    )}
+                                </div>
+                                <div className="space-y-3">
+                                    <div className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+                                        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                                            Preview{previewBooking ? ` · ${previewBooking.guest_name}` : " · sample booking"}
+                                        </p>
+                                        <p className="mt-2 text-sm font-semibold text-slate-900">
+                                            {renderTemplate(draft.subject, variables)}
+                                        </p>
+                                        <pre className="mt-2 whitespace-pre-wrap font-sans text-xs text-slate-700">
+                                            {renderTemplate(draft.body, variables)}
+                                        </pre>
+                                    </div>
+                                    <div>
+                                        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                                            Variables
+                                        </p>
+                                        <ul className="mt-1 space-y-0.5 text-[11px] text-slate-600">
+                                            {templateVariables.map((v) => (
+                                                <li key={v.key}>
+                                                    <code className="rounded bg-slate-100 px-1">{`{{${v.key}}}`}</code>{" "}
+                                                    {v.description}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                </div>
+                            </div>
+                        ) : log.length === 0 ? (
+                            <p className="rounded-xl border border-dashed border-slate-300 bg-slate-50 px-4 py-4 text-sm text-slate-600">
+                                No guest emails yet.
+                            </p>
+                        ) : (
+                            <ul className="divide-y divide-slate-100">
+                                {log.map((entry) => (
+                                    <li key={entry.id} className="flex flex-wrap items-start justify-between gap-2 py-2 text-sm">
+                                        <div className="min-w-0">
+                                            <p className="truncate font-medium text-slate-900">
+                                                {entry.subject ?? eventLabel(entry.event)}
+                                            </p>
+                                            <p className="text-xs text-slate-500">
+                                                {eventLabel(entry.event)} · {entry.recipient ?? "no recipient"}
+                                                {entry.transport && ` · via ${entry.transport}`}
+                                                {` · ${format(new Date(entry.created_at), "MMM d, HH:mm")}`}
+                                            </p>
+                                            {entry.error && <p className="text-xs text-red-600">{entry.error}</p>}
+                                        </div>
+                                        <span
+                                            className={clsx(
+                                                "rounded-full px-2 py-0.5 text-[11px] font-semibold capitalize",
+                                                logStatusStyles[entry.status],
+                                            )}
+                                        >
+                                            {entry.status}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
@@ -0,0 +1,69 @@
+import { Property } from "../types";
+import { useState } from "react";
+
+const inputClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-xs text-slate-900 shadow-sm focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+const smallButton =
+    "rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-60";
+
+const DEFAULT_HOURS = [24, 2];
+
+// "24, 2h,6" -> [24, 6, 2]; null when anything is not a positive whole number of hours
+const parseReminderHours = (value: string) => {
+    const parts = value.split(",").map((part) => part.trim().replace(/h$/i, "")).filter(Boolean);
+    const hours = parts.map(Number);
+    if (hours.some((h) => !Number.isInteger(h) || h <= 0)) return null;
+    return [...new Set(hours)].sort((a, b) => b - a);
+};
+
+type HoldReminderPanelProps = {
+    property: Property;
+    onSave: (hours: number[], email: boolean) => Promise<boolean>;
+};
+
+export function HoldReminderPanel({ property, onSave }: HoldReminderPanelProps) {
+    const saved = property.hold_reminder_hours ?? DEFAULT_HOURS;
+    const [hours, setHours] = useState(saved.join(", "));
+    const [email, setEmail] = useState(property.hold_reminder_email ?? false);
+    const [busy, setBusy] = useState(false);
+
+    const parsed = parseReminderHours(hours);
+
+    const save = async () => {
+        if (!parsed) return;
+        setBusy(true);
+        if (await onSave(parsed, email)) setHours(parsed.join(", "));
+        setBusy(false);
+    };
+
+    return (
+        <div className="mt-4 space-y-2 border-t border-slate-200 pt-3">
+            <p className="text-xs font-semibold uppercase tracking-[0.08em] text-slate-500">
+                Hold reminders
+            </p>
+            <p className="text-xs text-slate-600">
+                Whoever placed a tentative hold is reminded this many hours before it is released.
+                Leave empty to turn reminders off.
+            </p>
+            <input
+                className={inputClass}
+                value={hours}
+                onChange={(e) => setHours(e.target.value)}
+                placeholder="24, 2"
+            />
+            {!parsed && <p className="text-xs text-red-600">Use whole hours separated by commas.</p>}
+            <label className="flex items-center gap-2 text-xs text-slate-700">
+                <input
+                    type="checkbox"
+                    className="h-4 w-4 rounded border-slate-300"
+                    checked={email}
+                    onChange={(e) => setEmail(e.target.checked)}
+                />
+                Email the reminder as well
+            </label>
+            <button type="button" className={smallButton} disabled={busy || !parsed} onClick={() => void save()}>
+                {busy ? "Saving..." : "Save reminders"}
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,211 @@
+import { Property, PropertyMember, PropertyRole, StaffInvitation, propertyRoles } from "../types";
+import { Cross2Icon } from "@radix-ui/react-icons";
+import * as Dialog from "@radix-ui/react-dialog";
+import { invitationStatus } from "@/lib/invitations";
+import { format } from "date-fns";
+import { useState } from "react";
+
+const buttonBase =
+    "inline-flex h-10 items-center justify-center gap-2 rounded-lg px-4 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-400 disabled:opacity-60";
+const primaryButton = `${buttonBase} bg-black text-white hover:bg-slate-900`;
+
+const inputClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+
+const roleLabel = (role: PropertyRole) => propertyRoles.find((r) => r.value === role)?.label ?? role;
+
+type PropertyMembersDialogProps = {
+    property: Property | null;
+    members: PropertyMember[];
+    invitations: StaffInvitation[];
+    currentUserId: string | null;
+    canManage: boolean;
+    onOpenChange: (open: boolean) => void;
+    onAdd: (email: string, role: PropertyRole) => Promise<boolean>;
+    onChangeRole: (member: PropertyMember, role: PropertyRole) => Promise<void>;
+    onRemove: (member: PropertyMember) => Promise<void>;
+    onRevokeInvitation: (invitation: StaffInvitation) => Promise<void>;
+};
+
+export function PropertyMembersDialog({
+    property,
+    members,
+    invitations,
+    currentUserId,
+    canManage,
+    onOpenChange,
+    onAdd,
+    onChangeRole,
+    onRemove,
+    onRevokeInvitation,
+}: PropertyMembersDialogProps) {
+    const [email, setEmail] = useState("");
+    const [role, setRole] = useState<PropertyRole>("front_desk");
+    const [busy, setBusy] = useState(false);
+
+    const run = async (action: () => Promise<unknown>) => {
+        setBusy(true);
+        await action();
+        setBusy(false);
+    };
+
+    const add = () =>
+        run(async () => {
+            if (await onAdd(email, role)) setEmail("");
+        });
+
+    return (
+        <Dialog.Root open={!!property} onOpenChange={onOpenChange}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 z-50 bg-black/40" />
+                <Dialog.Content className="fixed left-1/2 top-[5%] sm:top-1/2 z-50 w-[min(640px,94vw)] max-h-[90vh] -translate-x-1/2 sm:-translate-y-1/2 rounded-2xl bg-white p-4 sm:p-6 shadow-2xl flex flex-col overflow-hidden">
+                    <div className="flex items-start justify-between flex-shrink-0">
+                        <div>
+                            <Dialog.Title className="text-lg font-semibold text-slate-900">
+                                Staff access · {property?.name}
+                            </Dialog.Title>
+                            <Dialog.Description className="text-sm text-slate-600">
+                                Only members see this property. Their role decides what they can change.
+                            </Dialog.Description>
+                        </div>
+                        <Dialog.Close className="text-slate-500 hover:text-slate-700 flex-shrink-0 ml-2">
+                            <Cross2Icon />
+                        </Dialog.Close>
+                    </div>
+
+                    <div className="mt-4 overflow-y-auto flex-1 min-h-0 pr-1 -mr-1 space-y-4">
+                        <ul className="divide-y divide-slate-100">
+                            {members.map((member) => {
+                                const isSelf = member.user_id === currentUserId;
+                                return (
+                                    <li key={member.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                                        <div className="min-w-0">
+                                            <p className="truncate text-sm font-medium text-slate-900">
+                                                {member.user?.display_name ?? "Unknown user"}
+                                                {isSelf && <span className="text-slate-500"> (you)</span>}
+                                            </p>
+                                            <p className="truncate text-xs text-slate-500">{member.user?.email}</p>
+                                        </div>
+                                        {canManage ? (
+                                            <div className="flex items-center gap-2">
+                                                <select
+                                                    className={`${inputClass} w-auto py-1.5 text-xs`}
+                                                    value={member.role}
+                                                    disabled={busy}
+                                                    onChange={(e) =>
+                                                        void run(() => onChangeRole(member, e.target.value as PropertyRole))
+                                                    }
+                                                >
+                                                    {propertyRoles.map((r) => (
+                                                        <option key={r.value} value={r.value}>
+                                                            {r.label}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <button
+                                                    type="button"
+                                                    className="rounded-lg border border-red-200 bg-white px-3 py-1.5 text-xs font-semibold text-red-700 hover:bg-red-50 disabled:opacity-60"
+                                                    disabled={busy}
+                                                    onClick={() => void run(() => onRemove(member))}
+                                                >
+                                                    {isSelf ? "Leave" : "Remove"}
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-700">
+                                                {roleLabel(member.role)}
+                                            </span>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+
+                        {canManage && invitations.length > 0 && (
+                            <div>
+                                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                                    Invited
+                                </p>
+                                <ul className="divide-y divide-slate-100">
+                                    {invitations.map((invitation) => {
+                                        const expired = invitationStatus(invitation) === "expired";
+                                        return (
+                                            <li
+                                                key={invitation.id}
+                                                className="flex flex-wrap items-center justify-between gap-2 py-2"
+                                            >
+                                                <div className="min-w-0">
+                                                    <p className="truncate text-sm text-slate-900">{invitation.email}</p>
+                                                    <p className="text-xs text-slate-500">
+                                                        {invitation.role && roleLabel(invitation.role)} ·{" "}
+                                                        {expired
+                                                            ? "expired"
+                                                            : `expires ${format(new Date(invitation.expires_at), "MMM d")}`}
+                                                    </p>
+                                                </div>
+                                                <button
+                                                    type="button"
+                                                    className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-60"
+                                                    disabled={busy}
+                                                    onClick={() => void run(() => onRevokeInvitation(invitation))}
+                                                >
+                                                    Withdraw
+                                                </button>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            </div>
+                        )}
+
+                        {canManage && (
+                            <div className="space-y-2 rounded-xl border border-slate-200 bg-slate-50 p-3">
+                                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                                    Add a member
+                                </p>
+                                <p className="text-[11px] text-slate-500">
+                                    Existing accounts are added right away; anyone else gets an email invitation.
+                                </p>
+                                <div className="flex flex-col gap-2 sm:flex-row">
+                                    <input
+                                        className={inputClass}
+                                        type="email"
+                                        value={email}
+                                        onChange={(e) => setEmail(e.target.value)}
+                                        placeholder="name@company.com"
+                                    />
+                                    <select
+                                        className={`${inputClass} sm:w-44`}
+                                        value={role}
+                                        onChange={(e) => setRole(e.target.value as PropertyRole)}
+                                    >
+                                        {propertyRoles.map((r) => (
+                                            <option key={r.value} value={r.value}>
+                                                {r.label}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        className={primaryButton}
+                                        disabled={busy || !email.trim()}
+                                        onClick={() => void add()}
+                                    >
+                                        Add
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        <ul className="space-y-0.5 text-[11px] text-slate-600">
+                            {propertyRoles.map((r) => (
+                                <li key={r.value}>
+                                    <span className="font-semibold text-slate-700">{r.label}:</span> {r.description}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
@@ -0,0 +1,201 @@
+import { MaintenanceDraft, MaintenanceTicket, Room, maintenancePriorities } from "../types";
+import { Cross2Icon } from "@radix-ui/react-icons";
+import * as Dialog from "@radix-ui/react-dialog";
+import clsx from "clsx";
+import { addDays, format, parseISO } from "date-fns";
+import { useState } from "react";
+
+const buttonBase =
+    "inline-flex h-10 items-center justify-center gap-2 rounded-lg px-4 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-400 disabled:opacity-60";
+const primaryButton = `${buttonBase} bg-black text-white hover:bg-slate-900`;
+
+const inputClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+
+const priorityStyles: Record<MaintenanceTicket["priority"], string> = {
+    low: "bg-slate-100 text-slate-700 border border-slate-200",
+    normal: "bg-sky-50 text-sky-800 border border-sky-200",
+    high: "bg-amber-50 text-amber-800 border border-amber-200",
+    urgent: "bg-red-50 text-red-700 border border-red-200",
+};
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+const defaultDraft = (): MaintenanceDraft => ({
+    start_date: today(),
+    end_date: format(addDays(new Date(), 1), "yyyy-MM-dd"),
+    reason: "",
+    priority: "normal",
+});
+
+// end_date is exclusive, so the last blocked night is the day before it
+const formatRange = (ticket: { start_date: string; end_date: string }) =>
+    `${format(parseISO(ticket.start_date), "MMM d")} → ${format(addDays(parseISO(ticket.end_date), -1), "MMM d")}`;
+
+type MaintenanceDialogProps = {
+    room: Room | null;
+    tickets: MaintenanceTicket[];
+    onOpenChange: (open: boolean) => void;
+    onOpenTicket: (draft: MaintenanceDraft) => Promise<boolean>;
+    onCloseTicket: (ticket: MaintenanceTicket) => Promise<void>;
+};
+
+export function MaintenanceDialog({
+    room,
+    tickets,
+    onOpenChange,
+    onOpenTicket,
+    onCloseTicket,
+}: MaintenanceDialogProps) {
+    const [draft, setDraft] = useState<MaintenanceDraft>(defaultDraft);
+    const [busy, setBusy] = useState(false);
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        await action();
+        setBusy(false);
+    };
+
+    const openTicket = () =>
+        run(async () => {
+            if (await onOpenTicket(draft)) setDraft(defaultDraft());
+        });
+
+    const openTickets = tickets.filter((t) => t.status === "open");
+    const closedTickets = tickets.filter((t) => t.status === "closed");
+
+    return (
+        <Dialog.Root open={!!room} onOpenChange={onOpenChange}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 z-50 bg-black/40" />
+                <Dialog.Content className="fixed left-1/2 top-[5%] sm:top-1/2 z-50 w-[min(560px,94vw)] max-h-[90vh] -translate-x-1/2 sm:-translate-y-1/2 rounded-2xl bg-white p-4 sm:p-6 shadow-2xl flex flex-col overflow-hidden">
+                    <div className="flex items-start justify-between flex-shrink-0">
+                        <div>
+                            <Dialog.Title className="text-lg font-semibold text-slate-900">
+                                Maintenance · Room {room?.number}
+                            </Dialog.Title>
+                            <Dialog.Description className="text-sm text-slate-600">
+                                An open ticket blocks the room for its dates. Closing it puts the room back in service.
+                            </Dialog.Description>
+                        </div>
+                        <Dialog.Close className="text-slate-500 hover:text-slate-700 flex-shrink-0 ml-2">
+                            <Cross2Icon />
+                        </Dialog.Close>
+                    </div>
+
+                    <div className="mt-4 space-y-4 overflow-y-auto flex-1 min-h-0 pr-1 -mr-1">
+                        {openTickets.length === 0 ? (
+                            <p className="rounded-xl border border-dashed border-slate-300 bg-slate-50 px-4 py-4 text-sm text-slate-600">
+                                No open maintenance tickets for this room.
+                            </p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {openTickets.map((ticket) => (
+                                    <li
+                                        key={ticket.id}
+                                        className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                                    >
+                                        <div className="flex items-center justify-between gap-3">
+                                            <div className="flex items-center gap-2">
+                                                <span
+                                                    className={clsx(
+                                                        "rounded-full px-2 py-0.5 text-[11px] font-semibold capitalize",
+                                                        priorityStyles[ticket.priority],
+                                                    )}
+                                                >
+                                                    {ticket.priority}
+                                                </span>
+                                                <span className="font-semibold text-slate-900">
+                                                    {formatRange(ticket)}
+                                                </span>
+                                            </div>
+                                            <button
+                                                className="text-xs font-semibold text-emerald-700 hover:text-emerald-800 disabled:opacity-60"
+                                                disabled={busy}
+                                                onClick={() => run(() => onCloseTicket(ticket))}
+                                            >
+                                                Close ticket
+                                            </button>
+                                        </div>
+                                        <p className="text-xs text-slate-600">{ticket.reason}</p>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        {closedTickets.length > 0 && (
+                            <div className="space-y-1">
+                                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Recently closed</p>
+                                {closedTickets.map((ticket) => (
+                                    <p key={ticket.id} className="text-xs text-slate-500">
+                                        {formatRange(ticket)} · {ticket.reason}
+                                        {ticket.closed_at && ` · closed ${format(new Date(ticket.closed_at), "MMM d, HH:mm")}`}
+                                    </p>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="space-y-2 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+                            <p className="text-sm font-medium text-slate-700">Open a ticket</p>
+                            <div className="grid gap-2 sm:grid-cols-3">
+                                <label className="space-y-1 text-xs text-slate-600">
+                                    From
+                                    <input
+                                        type="date"
+                                        className={inputClass}
+                                        value={draft.start_date}
+                                        onChange={(e) => setDraft((d) => ({ ...d, start_date: e.target.value }))}
+                                    />
+                                </label>
+                                <label className="space-y-1 text-xs text-slate-600">
+                                    Back in service
+                                    <input
+                                        type="date"
+                                        className={inputClass}
+                                        value={draft.end_date}
+                                        min={draft.start_date}
+                                        onChange={(e) => setDraft((d) => ({ ...d, end_date: e.target.value }))}
+                                    />
+                                </label>
+                                <label className="space-y-1 text-xs text-slate-600">
+                                    Priority
+                                    <select
+                                        className={inputClass}
+                                        value={draft.priority}
+                                        onChange={(e) =>
+                                            setDraft((d) => ({
+                                                ...d,
+                                                priority: e.target.value as MaintenanceDraft["priority"],
+                                            }))
+                                        }
+                                    >
+                                        {maintenancePriorities.map((p) => (
+                                            <option key={p.value} value={p.value}>
+                                                {p.label}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </label>
+                            </div>
+                            <input
+                                className={inputClass}
+                                value={draft.reason}
+                                onChange={(e) => setDraft((d) => ({ ...d, reason: e.target.value }))}
+                                placeholder="Reason, e.g. Leaking shower, repaint"
+                            />
+                            <div className="flex justify-end">
+                                <button
+                                    className={primaryButton}
+                                    disabled={busy || !draft.reason.trim()}
+                                    onClick={() => void openTicket()}
+                                >
+                                    Block room
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
@@ -0,0 +1,158 @@
+import { FeedDraft, Room, RoomIcalFeed, bookingSources } from "../types";
+import { Cross2Icon } from "@radix-ui/react-icons";
+import * as Dialog from "@radix-ui/react-dialog";
+import { format } from "date-fns";
+import { useState } from "react";
+
+const buttonBase =
+    "inline-flex h-10 items-center justify-center gap-2 rounded-lg px-4 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-400 disabled:opacity-60";
+const primaryButton = `${buttonBase} bg-black text-white hover:bg-slate-900`;
+const ghostButton = `${buttonBase} border border-slate-200 bg-white text-slate-700 hover:bg-slate-50`;
+
+const inputClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm placeholder:text-slate-400 focus:border-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-100";
+
+const channelOptions = bookingSources.filter((s) => s.value !== "direct");
+const defaultFeedDraft: FeedDraft = { channel: "airbnb", url: "" };
+
+const channelLabel = (channel: string) =>
+    bookingSources.find((s) => s.value === channel)?.label ?? channel;
+
+type RoomFeedsDialogProps = {
+    room: Room | null;
+    feeds: RoomIcalFeed[];
+    onOpenChange: (open: boolean) => void;
+    onAddFeed: (draft: FeedDraft) => Promise<boolean>;
+    onDeleteFeed: (id: string) => Promise<void>;
+    onSync: () => Promise<void>;
+};
+
+export function RoomFeedsDialog({
+    room,
+    feeds,
+    onOpenChange,
+    onAddFeed,
+    onDeleteFeed,
+    onSync,
+}: RoomFeedsDialogProps) {
+    const [draft, setDraft] = useState<FeedDraft>(defaultFeedDraft);
+    const [busy, setBusy] = useState(false);
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        await action();
+        setBusy(false);
+    };
+
+    const addFeed = () =>
+        run(async () => {
+            if (await onAddFeed(draft)) setDraft(defaultFeedDraft);
+        });
+
+    return (
+        <Dialog.Root open={!!room} onOpenChange={onOpenChange}>
+            <Dialog.Portal>
+                <Dialog.Overlay className="fixed inset-0 z-50 bg-black/40" />
+                <Dialog.Content className="fixed left-1/2 top-[5%] sm:top-1/2 z-50 w-[min(560px,94vw)] max-h-[90vh] -translate-x-1/2 sm:-translate-y-1/2 rounded-2xl bg-white p-4 sm:p-6 shadow-2xl flex flex-col overflow-hidden">
+                    <div className="flex items-start justify-between flex-shrink-0">
+                        <div>
+                            <Dialog.Title className="text-lg font-semibold text-slate-900">
+                                Channel calendars · Room {room?.number}
+                            </Dialog.Title>
+                            <Dialog.Description className="text-sm text-slate-600">
+                                Paste the iCal export link from each channel this room is listed on. Stays are
+                                imported as bookings; clashes show up on the availability calendar.
+                            </Dialog.Description>
+                        </div>
+                        <Dialog.Close className="text-slate-500 hover:text-slate-700 flex-shrink-0 ml-2">
+                            <Cross2Icon />
+                        </Dialog.Close>
+                    </div>
+
+                    <div className="mt-4 space-y-4 overflow-y-auto flex-1 min-h-0 pr-1 -mr-1">
+                        {feeds.length === 0 ? (
+                            <p className="rounded-xl border border-dashed border-slate-300 bg-slate-50 px-4 py-4 text-sm text-slate-600">
+                                No channel calendars linked to this room yet.
+                            </p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {feeds.map((feed) => (
+                                    <li
+                                        key={feed.id}
+                                        className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                                    >
+                                        <div className="flex items-center justify-between gap-3">
+                                            <span className="font-semibold text-slate-900">
+                                                {channelLabel(feed.channel)}
+                                            </span>
+                                            <button
+                                                className="text-xs font-semibold text-red-600 hover:text-red-700 disabled:opacity-60"
+                                                disabled={busy}
+                                                onClick={() => run(() => onDeleteFeed(feed.id))}
+                                            >
+                                                Remove
+                                            </button>
+                                        </div>
+                                        <p className="truncate text-xs text-slate-500" title={feed.url}>
+                                            {feed.url}
+                                        </p>
+                                        <p className="text-[11px] text-slate-400">
+                                            {feed.last_synced_at
+                                                ? `Last synced ${format(new Date(feed.last_synced_at), "MMM d, HH:mm")}`
+                                                : "Not synced yet"}
+                                        </p>
+                                        {feed.last_error && (
+                                            <p className="text-[11px] text-red-600">{feed.last_error}</p>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        <div className="space-y-2 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+                            <p className="text-sm font-medium text-slate-700">Link a channel calendar</p>
+                            <div className="grid gap-2 sm:grid-cols-[140px,1fr]">
+                                <select
+                                    className={inputClass}
+                                    value={draft.channel}
+                                    onChange={(e) => setDraft((d) => ({ ...d, channel: e.target.value }))}
+                                >
+                                    {channelOptions.map((c) => (
+                                        <option key={c.value} value={c.value}>
+                                            {c.label}
+                                        </option>
+                                    ))}
+                                </select>
+                                <input
+                                    className={inputClass}
+                                    value={draft.url}
+                                    onChange={(e) => setDraft((d) => ({ ...d, url: e.target.value }))}
+                                    placeholder="https://www.airbnb.com/calendar/ical/….ics"
+                                />
+                            </div>
+                            <div className="flex justify-end">
+                                <button
+                                    className={primaryButton}
+                                    disabled={busy || !draft.url.trim()}
+                                    onClick={() => void addFeed()}
+                                >
+                                    Add calendar
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="mt-4 flex justify-end gap-2 flex-shrink-0">
+                        <button
+                            className={ghostButton}
+                            disabled={busy || feeds.length === 0}
+                            onClick={() => run(onSync)}
+                        >
+                            {busy ? "Working..." : "Sync now"}
+                        </button>
+                    </div>
+                </Dialog.Content>
+            </Dialog.Portal>
+        </Dialog.Root>
+    );
+}
@@ -4,6 +4,24 @@ export type Property = {
     code: string | null;
     address: string | null;
     timezone: string | null;
+    calendar_token?: string | null;
+    hold_reminder_hours?: number[];
+    hold_reminder_email?: boolean;
+    role?: PropertyRole; // the signed-in user's role here
+};
+
+export type PropertyRole = "owner" | "manager" | "front_desk" | "housekeeping" | "read_only";
+
+export type PropertyMember = {
+    id: string;
+    property_id: string;
+    user_id: string;
+    role: PropertyRole;
+    created_at: string;
+    user?: {
+        display_name: string;
+        email: string;
+    } | null;
 };
 
 export type RoomCategory = {
@@ -13,6 +31,19 @@ export type RoomCategory = {
     description: string | null;
     base_rate: number | null;
     capacity: number | null;
+    weekend_uplift_pct: number;
+    min_stay: number;
+};
+
+export type RateSeason = {
+    id: string;
+    property_id: string;
+    category_id: string;
+    name: string;
+    start_date: string;
+    end_date: string;
+    nightly_rate: number;
+    min_stay: number | null;
 };
 
 export type Room = {
@@ -32,18 +63,205 @@ export type Booking = {
     guest_name: string;
     guest_email: string | null;
     guest_passport: string | null;
-    second_guest_name: string | null;
-    second_guest_email: string | null;
-    second_guest_passport: string | null;
-    adults: number | null;
+    adults: number | null; // primary guest plus adult occupants
+    children: number | null;
     check_in: string;
     check_out: string;
     status: string;
     auto_release_at: string | null;
+    total: number | null;
     reference_code: string | null;
     notes: string | null;
     created_by: string | null;
+    group_id: string | null;
+    guest_id?: string | null;
+    source: string;
+    feed_id: string | null;
     created_by_name?: string | null; // Populated via join
+    group_name?: string | null; // Populated via join
+    occupants?: BookingGuest[]; // Populated via join
+};
+
+export type BookingGuest = {
+    id: string;
+    property_id: string;
+    booking_id: string;
+    full_name: string;
+    age_group: "adult" | "child";
+    email: string | null;
+    document_type: "passport" | "national_id" | "driving_licence" | "other" | null;
+    document_number: string | null;
+    position: number;
+};
+
+export type Guest = {
+    id: string;
+    property_id: string;
+    full_name: string;
+    email: string | null;
+    passport: string | null;
+    phone: string | null;
+    notes: string | null;
+    created_at: string;
+    stay_count?: number; // Populated via join
+};
+
+export type BookingGroup = {
+    id: string;
+    property_id: string;
+    name: string;
+    notes: string | null;
+    created_by: string | null;
+    created_at: string;
+};
+
+export type FolioItem = {
+    id: string;
+    property_id: string;
+    booking_id: string;
+    description: string;
+    quantity: number;
+    unit_amount: number;
+    posted_on: string;
+    created_at: string;
+};
+
+export type Payment = {
+    id: string;
+    property_id: string;
+    booking_id: string;
+    kind: "deposit" | "payment" | "refund";
+    method: "cash" | "card" | "bank_transfer" | "other";
+    amount: number;
+    reference: string | null;
+    received_at: string;
+};
+
+export type BookingFolio = {
+    booking_id: string;
+    items: FolioItem[];
+    payments: Payment[];
+};
+
+export type InvoiceLine = {
+    description: string;
+    detail?: string | null;
+    quantity: number;
+    unit_amount: number;
+    amount: number;
+};
+
+export type Invoice = {
+    id: string;
+    property_id: string;
+    booking_id: string;
+    number: number;
+    lines: InvoiceLine[];
+    total: number;
+    amount_paid: number;
+    issued_at: string;
+};
+
+export type RoomIcalFeed = {
+    id: string;
+    property_id: string;
+    room_id: string;
+    channel: string;
+    url: string;
+    last_synced_at: string | null;
+    last_error: string | null;
+    created_at: string;
+};
+
+export type IcalConflict = {
+    id: string;
+    property_id: string;
+    feed_id: string;
+    room_id: string;
+    external_uid: string;
+    summary: string;
+    check_in: string;
+    check_out: string;
+    booking_id: string;
+    booking_guest_name: string;
+    booking_check_in: string;
+    booking_check_out: string;
+    detected_at: string;
+};
+
+export type HousekeepingTask = {
+    id: string;
+    property_id: string;
+    room_id: string;
+    booking_id: string | null;
+    kind: "checkout" | "stayover";
+    status: "open" | "in_progress" | "done";
+    due_date: string;
+    notes: string | null;
+    assigned_to: string | null;
+    claimed_at: string | null;
+    completed_at: string | null;
+    completed_by: string | null;
+    created_at: string;
+    guest_name?: string | null; // Populated via join
+    assigned_to_name?: string | null; // Populated via join
+};
+
+export type MaintenanceTicket = {
+    id: string;
+    property_id: string;
+    room_id: string;
+    start_date: string;
+    end_date: string; // exclusive, like check_out
+    reason: string;
+    priority: "low" | "normal" | "high" | "urgent";
+    status: "open" | "closed";
+    created_by: string | null;
+    created_at: string;
+    closed_at: string | null;
+    closed_by: string | null;
+};
+
+export type EmailEvent = "booking_created" | "booking_confirmed" | "booking_changed" | "booking_cancelled";
+
+export type EmailTemplate = {
+    id: string;
+    property_id: string;
+    event: EmailEvent;
+    subject: string;
+    body: string;
+    enabled: boolean;
+    updated_at: string;
+};
+
+export type EmailLogEntry = {
+    id: string;
+    property_id: string;
+    booking_id: string | null;
+    event: EmailEvent | "hold_reminder"; // hold_reminder goes to staff, not the guest
+    recipient: string | null;
+    subject: string | null;
+    transport: string | null;
+    status: "sent" | "failed" | "skipped";
+    error: string | null;
+    created_at: string;
+};
+
+export type StaffNotification = {
+    id: string;
+    property_id: string;
+    booking_id: string | null;
+    kind: "hold_expiring";
+    lead_hours: number | null;
+    expires_at: string | null;
+    title: string;
+    body: string | null;
+    read_at: string | null;
+    created_at: string;
+    booking?: {
+        status: string;
+        auto_release_at: string | null;
+    } | null;
 };
 
 export type BookingWithDates = Booking & {
@@ -56,18 +274,88 @@ export type UserProfile = {
     email: string;
     display_name: string;
     role: "admin" | "user";
-    status: "pending" | "approved" | "rejected";
+    status: "pending" | "approved" | "rejected" | "suspended";
     created_at: string;
 };
 
+export type AdminAction =
+    | "approve"
+    | "reject"
+    | "suspend"
+    | "reactivate"
+    | "promote"
+    | "demote"
+    | "delete"
+    | "require_approval"
+    | "invite"
+    | "revoke_invitation"
+    | "accept_invitation";
+
+export type StaffInvitation = {
+    id: string;
+    email: string;
+    property_id: string | null;
+    role: PropertyRole | null;
+    invited_by: string | null;
+    expires_at: string;
+    accepted_at: string | null;
+    revoked_at: string | null;
+    created_at: string;
+    property?: {
+        name: string;
+    } | null;
+};
+
+export type AdminAuditEntry = {
+    id: string;
+    actor_id: string | null;
+    action: AdminAction;
+    target_user_id: string | null;
+    target_email: string | null;
+    details: Record<string, unknown> | null;
+    created_at: string;
+    actor?: {
+        display_name: string;
+    } | null;
+};
+
+export type AuditEntity = "properties" | "room_categories" | "rooms" | "bookings";
+
+export type AuditEntry = {
+    id: string;
+    entity: AuditEntity;
+    entity_id: string;
+    property_id: string | null;
+    action: "insert" | "update" | "delete";
+    old_data: Record<string, unknown> | null;
+    new_data: Record<string, unknown> | null;
+    changed_fields: string[];
+    actor_id: string | null;
+    created_at: string;
+    actor?: {
+        display_name: string;
+    } | null;
+};
+
 export type CategoryDraft = {
     id?: string;
     name: string;
     base_rate: string;
     capacity: string;
+    weekend_uplift_pct: string;
+    min_stay: string;
     description: string;
 };
 
+export type SeasonDraft = {
+    category_id: string;
+    name: string;
+    start_date: string;
+    end_date: string;
+    nightly_rate: string;
+    min_stay: string;
+};
+
 export type RoomDraft = {
     id?: string;
     number: string;
@@ -82,15 +370,65 @@ export type BookingDraft = {
     guest_name: string;
     guest_email: string;
     guest_passport: string;
-    second_guest_name: string;
-    second_guest_email: string;
-    second_guest_passport: string;
+    occupants: BookingGuestDraft[];
     room_ids: string[];
     check_in: string;
     check_out: string;
     status: string;
     auto_release_at: string | null;
     notes: string;
+    group_id?: string | null;
+    group_name?: string;
+    guest_id?: string | null;
+    total?: number | null; // as stored; what the folio balance is measured against
+};
+
+export type BookingGuestDraft = {
+    full_name: string;
+    age_group: BookingGuest["age_group"];
+    email: string;
+    document_type: string;
+    document_number: string;
+};
+
+export type GuestDraft = {
+    full_name: string;
+    email: string;
+    passport: string;
+    phone: string;
+    notes: string;
+};
+
+export type FolioItemDraft = {
+    description: string;
+    quantity: string;
+    unit_amount: string;
+};
+
+export type PaymentDraft = {
+    kind: Payment["kind"];
+    method: Payment["method"];
+    amount: string;
+    reference: string;
+};
+
+export type FeedDraft = {
+    channel: string;
+    url: string;
+};
+
+export type EmailTemplateDraft = {
+    event: EmailEvent;
+    subject: string;
+    body: string;
+    enabled: boolean;
+};
+
+export type MaintenanceDraft = {
+    start_date: string;
+    end_date: string;
+    reason: string;
+    priority: MaintenanceTicket["priority"];
 };
 
 export type DashboardView =
@@ -100,7 +438,8 @@ export type DashboardView =
     | "rooms"
     | "bookings"
     | "availability"
-    | "tentative";
+    | "tentative"
+    | "frontdesk";
 
 export const roomStatuses = [
     { value: "available", label: "Available" },
@@ -117,11 +456,100 @@ export const bookingStatuses = [
     { value: "cancelled", label: "Cancelled" },
 ];
 
+export const bookingSources = [
+    { value: "direct", label: "Direct" },
+    { value: "airbnb", label: "Airbnb" },
+    { value: "booking_com", label: "Booking.com" },
+    { value: "vrbo", label: "Vrbo" },
+    { value: "expedia", label: "Expedia" },
+    { value: "other", label: "Other channel" },
+];
+
+export const housekeepingTaskKinds = [
+    { value: "checkout", label: "Checkout clean" },
+    { value: "stayover", label: "Stay-over service" },
+];
+
+export const housekeepingTaskStatuses = [
+    { value: "open", label: "Open" },
+    { value: "in_progress", label: "In progress" },
+    { value: "done", label: "Done" },
+];
+
+export const guestAgeGroups = [
+    { value: "adult", label: "Adult" },
+    { value: "child", label: "Child" },
+];
+
+export const identityDocumentTypes = [
+    { value: "passport", label: "Passport" },
+    { value: "national_id", label: "National ID" },
+    { value: "driving_licence", label: "Driving licence" },
+    { value: "other", label: "Other" },
+];
+
+export const maintenancePriorities = [
+    { value: "low", label: "Low" },
+    { value: "normal", label: "Normal" },
+    { value: "high", label: "High" },
+    { value: "urgent", label: "Urgent" },
+];
+
+export const emailEvents: { value: EmailEvent; label: string }[] = [
+    { value: "booking_created", label: "Booking created" },
+    { value: "booking_confirmed", label: "Hold confirmed" },
+    { value: "booking_changed", label: "Stay changed" },
+    { value: "booking_cancelled", label: "Booking cancelled" },
+];
+
+export const propertyRoles: { value: PropertyRole; label: string; description: string }[] = [
+    { value: "owner", label: "Owner", description: "Everything, including staff access and deleting the property" },
+    { value: "manager", label: "Manager", description: "Property settings, categories, rooms and bookings" },
+    { value: "front_desk", label: "Front desk", description: "Bookings, check-in/out and room status" },
+    { value: "housekeeping", label: "Housekeeping", description: "Room status and cleaning tasks" },
+    { value: "read_only", label: "Read only", description: "Can view but not change anything" },
+];
+
+export const bookingLogActions: { value: BookingLog["action"]; label: string }[] = [
+    { value: "create", label: "Added" },
+    { value: "update", label: "Updated" },
+    { value: "delete", label: "Deleted" },
+    { value: "auto_release", label: "Hold lapsed" },
+];
+
+export const auditEntities: { value: AuditEntity; label: string }[] = [
+    { value: "bookings", label: "Bookings" },
+    { value: "rooms", label: "Rooms" },
+    { value: "room_categories", label: "Categories" },
+    { value: "properties", label: "Properties" },
+];
+
+// Shown instead of the app to signed-in users whose account is not (or no longer) active
+export const accountStatusNotices: Record<UserProfile["status"], string> = {
+    pending: "Your account is awaiting admin approval. You will get access once an admin approves it.",
+    approved: "",
+    rejected: "Your signup request was declined. Contact an administrator if you think this is a mistake.",
+    suspended: "Your account has been suspended. Contact an administrator to restore access.",
+};
+
+export const paymentKinds = [
+    { value: "deposit", label: "Deposit" },
+    { value: "payment", label: "Payment" },
+    { value: "refund", label: "Refund" },
+];
+
+export const paymentMethods = [
+    { value: "card", label: "Card" },
+    { value: "cash", label: "Cash" },
+    { value: "bank_transfer", label: "Bank transfer" },
+    { value: "other", label: "Other" },
+];
+
 export type BookingLog = {
     id: string;
     booking_id: string | null;
     property_id: string;
-    action: "create" | "delete" | "update";
+    action: "create" | "delete" | "update" | "auto_release";
     performed_by: string | null;
     performed_at: string;
     details: {
@@ -130,6 +558,16 @@ export type BookingLog = {
         check_in?: string;
         check_out?: string;
         amount?: number;
+        auto_release_at?: string;
+        status?: string;
+        source?: string;
+        group_name?: string | null;
+        previous?: {
+            room_number?: string;
+            check_in?: string;
+            check_out?: string;
+            group_name?: string;
+        };
     };
     performed_by_user?: {
         display_name: string;
@@ -0,0 +1,58 @@
+"use client";
+
+import * as DropdownMenu from "@radix-ui/react-dropdown-menu";
+import { DownloadIcon } from "@radix-ui/react-icons";
+import clsx from "clsx";
+import { useState } from "react";
+import type { ExportFormat } from "@/lib/export";
+
+type ExportMenuProps = {
+    onExport: (format: ExportFormat) => Promise<void>;
+    label?: string;
+    className?: string;
+};
+
+export function ExportMenu({ onExport, label = "Export", className }: ExportMenuProps) {
+    const [busy, setBusy] = useState(false);
+
+    const run = async (format: ExportFormat) => {
+        setBusy(true);
+        await onExport(format);
+        setBusy(false);
+    };
+
+    return (
+        <DropdownMenu.Root>
+            <DropdownMenu.Trigger
+                disabled={busy}
+                className={clsx(
+                    "inline-flex h-10 items-center justify-center gap-2 rounded-lg border border-slate-200 bg-white px-4 text-sm font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-60",
+                    className,
+                )}
+            >
+                <DownloadIcon />
+                {busy ? "Exporting..." : label}
+            </DropdownMenu.Trigger>
+            <DropdownMenu.Portal>
+                <DropdownMenu.Content
+                    align="end"
+                    sideOffset={4}
+                    className="z-50 min-w-[140px] rounded-lg border border-slate-200 bg-white p-1 shadow-xl"
+                >
+                    <DropdownMenu.Item
+                        onSelect={() => void run("csv")}
+                        className="cursor-pointer rounded-md px-3 py-2 text-sm text-slate-800 outline-none data-[highlighted]:bg-slate-100"
+                    >
+                        CSV (.csv)
+                    </DropdownMenu.Item>
+                    <DropdownMenu.Item
+                        onSelect={() => void run("xlsx")}
+                        className="cursor-pointer rounded-md px-3 py-2 text-sm text-slate-800 outline-none data-[highlighted]:bg-slate-100"
+                    >
+                        Excel (.xlsx)
+                    </DropdownMenu.Item>
+                </DropdownMenu.Content>
+            </DropdownMenu.Portal>
+        </DropdownMenu.Root>
+    );
+}
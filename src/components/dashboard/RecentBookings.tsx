@@ -1,11 +1,14 @@
 
 import { formatDistanceToNow } from "date-fns";
+import Link from "next/link";
 import { BookingLog } from "@/app/types";
+import { ExportMenu } from "@/components/ExportMenu";
+import type { ExportFormat } from "@/lib/export";
 
 export type ActivityRow = {
     id: string;
     user: string;
-    action: "create" | "delete" | "update";
+    action: BookingLog["action"];
     details: string;
     property: string;
     time: string;
@@ -15,20 +18,32 @@ export type ActivityRow = {
 type RecentBookingsProps = {
     rows: ActivityRow[];
     loading?: boolean;
+    onExport?: (format: ExportFormat) => Promise<void>;
+    viewAllHref?: string;
 };
 
-export function RecentBookings({ rows, loading = false }: RecentBookingsProps) {
+export function RecentBookings({ rows, loading = false, onExport, viewAllHref }: RecentBookingsProps) {
     const hasRows = rows.length > 0;
 
     return (
         <div className="glass-card rounded-xl h-full flex flex-col">
-            <div className="p-6 pb-2">
-                <h3 className="font-semibold leading-none tracking-tight">
-                    Recent Activity
-                </h3>
-                <p className="text-sm text-muted-foreground mt-1">
-                    Latest booking actions.
-                </p>
+            <div className="p-6 pb-2 flex items-start justify-between gap-3">
+                <div>
+                    <h3 className="font-semibold leading-none tracking-tight">
+                        Recent Activity
+                    </h3>
+                    <p className="text-sm text-muted-foreground mt-1">
+                        Latest booking actions.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    {viewAllHref && (
+                        <Link href={viewAllHref} className="text-xs font-semibold text-primary hover:underline">
+                            View all
+                        </Link>
+                    )}
+                    {onExport && <ExportMenu onExport={onExport} label="Export all" />}
+                </div>
             </div>
             {loading ? (
                 <div className="p-6 text-sm text-muted-foreground">Loading activity...</div>
@@ -67,10 +82,18 @@ export function RecentBookings({ rows, loading = false }: RecentBookingsProps) {
                                                     ? "border-emerald-200 bg-emerald-50 text-emerald-700"
                                                     : row.action === "delete"
                                                         ? "border-rose-200 bg-rose-50 text-rose-700"
-                                                        : "border-slate-200 bg-slate-50 text-slate-700"
+                                                        : row.action === "auto_release"
+                                                            ? "border-amber-200 bg-amber-50 text-amber-700"
+                                                            : "border-slate-200 bg-slate-50 text-slate-700"
                                                     }`}
                                             >
-                                                {row.action === "create" ? "Added" : row.action === "delete" ? "Deleted" : "Updated"}
+                                                {row.action === "create"
+                                                    ? "Added"
+                                                    : row.action === "delete"
+                                                        ? "Deleted"
+                                                        : row.action === "auto_release"
+                                                            ? "Hold lapsed"
+                                                            : "Updated"}
                                             </span>
                                         </td>
                                         <td className="p-4 align-middle">
@@ -5,6 +5,7 @@ import { useEffect, useState } from "react";
 import { usePathname } from "next/navigation";
 import * as Dialog from "@radix-ui/react-dialog";
 import { Menu, X, Hotel } from "lucide-react";
+import { NotificationBell } from "./NotificationBell";
 import { Sidebar } from "./Sidebar";
 
 type Props = {
@@ -33,14 +34,14 @@ export function AppShell({ children }: Props) {
   return (
     <div className="min-h-screen bg-background text-foreground">
       <div className="lg:flex">
-        <div className="hidden lg:block">
+        <div className="hidden lg:block print:hidden">
           <Sidebar />
         </div>
 
-        <div className="flex min-h-screen flex-1 flex-col lg:ml-[280px]">
-          {/* Mobile top bar */}
-          <header className="flex items-center justify-between border-b px-4 py-3 lg:hidden">
-            <div className="flex items-center gap-3">
+        <div className="flex min-h-screen flex-1 flex-col lg:ml-[280px] print:ml-0">
+          {/* Top bar: navigation on mobile, notifications everywhere */}
+          <header className="flex items-center justify-between border-b px-4 py-3 lg:justify-end lg:border-b-0 lg:px-8 lg:pb-0 lg:pt-4 print:hidden">
+            <div className="flex items-center gap-3 lg:hidden">
               <button
                 type="button"
                 aria-label="Open navigation"
@@ -54,9 +55,10 @@ export function AppShell({ children }: Props) {
                 <span className="text-base font-semibold">RoomMaster</span>
               </div>
             </div>
+            <NotificationBell />
           </header>
 
-          <main className="flex-1 p-4 sm:p-6 lg:p-8">{children}</main>
+          <main className="flex-1 p-4 sm:p-6 lg:p-8 print:p-0">{children}</main>
         </div>
       </div>
 
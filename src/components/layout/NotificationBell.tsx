@@ -0,0 +1,295 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import * as DropdownMenu from "@radix-ui/react-dropdown-menu";
+import type { Session } from "@supabase/supabase-js";
+import { Bell } from "lucide-react";
+import { addHours, formatDistanceToNow } from "date-fns";
+import clsx from "clsx";
+import { supabase } from "@/lib/supabase/client";
+import type { StaffNotification } from "@/app/types";
+
+const POLL_INTERVAL_MS = 60_000;
+const HOLD_EXTENSION_HOURS = 24;
+
+const smallButton =
+    "rounded-md border border-slate-200 bg-white px-2 py-1 text-[11px] font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-60";
+
+// A reminder can still be acted on while the booking is on the same hold it was raised for
+const isActionable = (n: StaffNotification) =>
+    n.booking?.status === "tentative" &&
+    !!n.booking.auto_release_at &&
+    !!n.expires_at &&
+    new Date(n.booking.auto_release_at).getTime() === new Date(n.expires_at).getTime();
+
+const outcome = (n: StaffNotification) => {
+    if (!n.booking) return "Booking was deleted";
+    if (n.booking.status === "cancelled") return "Hold was released";
+    if (n.booking.status !== "tentative") return "Hold was confirmed";
+    return "Hold was extended";
+};
+
+const HOLD_COLUMNS = "id, property_id, guest_name, check_in, check_out, room:rooms(number)";
+
+type HeldBooking = {
+    id: string;
+    property_id: string;
+    guest_name: string;
+    check_in: string;
+    check_out: string;
+    room: { number: string } | null;
+};
+
+// Reminders are queued by the scheduled job (/api/holds/reminders); the bell only reads them
+async function fetchNotifications(userId: string) {
+    const { data, error } = await supabase
+        .from("staff_notifications")
+        .select(
+            "id, property_id, booking_id, kind, lead_hours, expires_at, title, body, read_at, created_at, booking:bookings(status, auto_release_at)",
+        )
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(30);
+    if (error) {
+        console.error("Failed to load notifications", error);
+        return null;
+    }
+    return (data ?? []) as unknown as StaffNotification[];
+}
+
+export function NotificationBell({ className }: { className?: string }) {
+    const [session, setSession] = useState<Session | null>(null);
+    const [notifications, setNotifications] = useState<StaffNotification[]>([]);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isMounted = true;
+
+        supabase.auth
+            .getSession()
+            .then(({ data }) => {
+                if (isMounted) setSession(data.session ?? null);
+            })
+            .catch(() => {
+                if (isMounted) setSession(null);
+            });
+
+        const { data: listener } = supabase.auth.onAuthStateChange((_event, newSession) => {
+            if (isMounted) setSession(newSession);
+        });
+
+        return () => {
+            isMounted = false;
+            listener?.subscription.unsubscribe();
+        };
+    }, []);
+
+    const userId = session?.user.id ?? null;
+
+    const refresh = useCallback(async () => {
+        if (!userId) return;
+        const rows = await fetchNotifications(userId);
+        if (rows) setNotifications(rows);
+    }, [userId]);
+
+    useEffect(() => {
+        if (!userId) return;
+        let isMounted = true;
+        const load = () =>
+            fetchNotifications(userId).then((rows) => {
+                if (isMounted && rows) setNotifications(rows);
+            });
+        void load();
+        const timer = window.setInterval(() => void load(), POLL_INTERVAL_MS);
+        return () => {
+            isMounted = false;
+            window.clearInterval(timer);
+        };
+    }, [userId]);
+
+    const markRead = async (ids: string[]) => {
+        if (ids.length === 0) return;
+        const readAt = new Date().toISOString();
+        const { error } = await supabase.from("staff_notifications").update({ read_at: readAt }).in("id", ids);
+        if (error) {
+            setError(error.message);
+            return;
+        }
+        setNotifications((prev) => prev.map((n) => (ids.includes(n.id) ? { ...n, read_at: n.read_at ?? readAt } : n)));
+    };
+
+    const run = async (notification: StaffNotification, action: () => Promise<string | null>) => {
+        setBusyId(notification.id);
+        setError(null);
+        const failure = await action();
+        if (failure) {
+            setError(failure);
+        } else {
+            await markRead([notification.id]);
+            await refresh();
+        }
+        setBusyId(null);
+    };
+
+    // Logged the way the dashboard logs a status change or booking edit, so the activity feed and history show it
+    const logHoldChange = async (booking: HeldBooking, change: { status?: string; auto_release_at?: string }) => {
+        try {
+            await supabase.from("booking_logs").insert([{
+                property_id: booking.property_id,
+                booking_id: booking.id,
+                action: "update",
+                performed_by: userId,
+                details: {
+                    guest_name: booking.guest_name,
+                    room_number: booking.room?.number || "Unassigned",
+                    check_in: booking.check_in,
+                    check_out: booking.check_out,
+                    ...change,
+                },
+            }]);
+        } catch (err) {
+            console.error("Failed to log hold change", err);
+        }
+    };
+
+    const confirmHold = (notification: StaffNotification) =>
+        run(notification, async () => {
+            const { data, error } = await supabase
+                .from("bookings")
+                .update({ status: "reserved" })
+                .eq("id", notification.booking_id)
+                .eq("status", "tentative")
+                .select(HOLD_COLUMNS);
+            if (error) return error.message;
+            if (!data?.length) return "This hold is no longer tentative.";
+            await logHoldChange(data[0] as unknown as HeldBooking, { status: "reserved" });
+            // Same guest email the dashboard sends when a hold is confirmed
+            void fetch("/api/notifications/booking", {
+                method: "POST",
+                headers: {
+                    Authorization: `Bearer ${session?.access_token}`,
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({ event: "booking_confirmed", bookingId: notification.booking_id }),
+            }).catch((err) => console.error("Failed to send guest email", err));
+            return null;
+        });
+
+    const extendHold = (notification: StaffNotification) =>
+        run(notification, async () => {
+            const current = notification.booking?.auto_release_at;
+            if (!current) return "This hold has no release time.";
+            const { data, error } = await supabase
+                .from("bookings")
+                .update({ auto_release_at: addHours(new Date(current), HOLD_EXTENSION_HOURS).toISOString() })
+                .eq("id", notification.booking_id)
+                .eq("status", "tentative")
+                .eq("auto_release_at", current)
+                .select(`${HOLD_COLUMNS}, auto_release_at`);
+            if (error) return error.message;
+            if (!data?.length) return "This hold changed in the meantime.";
+            const [extended] = data as unknown as (HeldBooking & { auto_release_at: string })[];
+            await logHoldChange(extended, { auto_release_at: extended.auto_release_at });
+            return null;
+        });
+
+    if (!session) return null;
+
+    const unread = notifications.filter((n) => !n.read_at);
+
+    return (
+        <DropdownMenu.Root onOpenChange={(open) => open && void refresh()}>
+            <DropdownMenu.Trigger
+                aria-label={unread.length ? `${unread.length} unread notifications` : "Notifications"}
+                className={clsx(
+                    "relative rounded-md border border-border p-2 text-sm font-semibold hover:bg-muted",
+                    className,
+                )}
+            >
+                <Bell className="h-5 w-5" />
+                {unread.length > 0 && (
+                    <span className="absolute -right-1 -top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-bold text-white">
+                        {unread.length > 9 ? "9+" : unread.length}
+                    </span>
+                )}
+            </DropdownMenu.Trigger>
+            <DropdownMenu.Portal>
+                <DropdownMenu.Content
+                    align="end"
+                    sideOffset={6}
+                    className="z-50 w-[min(360px,92vw)] rounded-lg border border-slate-200 bg-white p-2 shadow-xl"
+                >
+                    <div className="flex items-center justify-between px-2 py-1">
+                        <p className="text-xs font-semibold uppercase tracking-[0.08em] text-slate-500">
+                            Notifications
+                        </p>
+                        {unread.length > 0 && (
+                            <button
+                                type="button"
+                                className="text-[11px] font-semibold text-slate-600 hover:text-slate-900"
+                                onClick={() => void markRead(unread.map((n) => n.id))}
+                            >
+                                Mark all read
+                            </button>
+                        )}
+                    </div>
+                    {error && <p className="px-2 py-1 text-xs text-red-600">{error}</p>}
+                    {notifications.length === 0 ? (
+                        <p className="px-2 py-4 text-sm text-slate-500">Nothing needs your attention.</p>
+                    ) : (
+                        <ul className="max-h-[60vh] divide-y divide-slate-100 overflow-y-auto">
+                            {notifications.map((n) => {
+                                const actionable = isActionable(n);
+                                const busy = busyId === n.id;
+                                return (
+                                    <li key={n.id} className={clsx("px-2 py-2", !n.read_at && "bg-amber-50/60")}>
+                                        <p className="text-sm font-semibold text-slate-900">{n.title}</p>
+                                        {n.body && <p className="text-xs text-slate-600">{n.body}</p>}
+                                        <p className="mt-0.5 text-[11px] text-slate-500">
+                                            {actionable && n.expires_at
+                                                ? `Releases ${formatDistanceToNow(new Date(n.expires_at), { addSuffix: true })}`
+                                                : outcome(n)}
+                                        </p>
+                                        <div className="mt-1.5 flex flex-wrap gap-1.5">
+                                            {actionable && (
+                                                <>
+                                                    <button
+                                                        type="button"
+                                                        className={smallButton}
+                                                        disabled={busy}
+                                                        onClick={() => void confirmHold(n)}
+                                                    >
+                                                        Confirm booking
+                                                    </button>
+                                                    <button
+                                                        type="button"
+                                                        className={smallButton}
+                                                        disabled={busy}
+                                                        onClick={() => void extendHold(n)}
+                                                    >
+                                                        Extend {HOLD_EXTENSION_HOURS}h
+                                                    </button>
+                                                </>
+                                            )}
+                                            {!n.read_at && (
+                                                <button
+                                                    type="button"
+                                                    className={smallButton}
+                                                    disabled={busy}
+                                                    onClick={() => void markRead([n.id])}
+                                                >
+                                                    Mark read
+                                                </button>
+                                            )}
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </DropdownMenu.Content>
+            </DropdownMenu.Portal>
+        </DropdownMenu.Root>
+    );
+}
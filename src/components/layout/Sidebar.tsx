@@ -14,15 +14,25 @@ import {
     Settings,
     Grid,
     ShieldCheck,
+    Sparkles,
+    ConciergeBell,
+    Users,
+    History,
+    Activity,
 } from "lucide-react";
 
 const baseNavigation = [
     { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
     { name: "Bookings", href: "/bookings", icon: CalendarDays },
+    { name: "Guests", href: "/guests", icon: Users },
     { name: "Rooms", href: "/rooms", icon: BedDouble },
     { name: "Properties", href: "/properties", icon: Hotel },
     { name: "Categories", href: "/categories", icon: Grid },
     { name: "Availability", href: "/availability", icon: CalendarDays },
+    { name: "Front desk", href: "/frontdesk", icon: ConciergeBell },
+    { name: "Housekeeping", href: "/housekeeping", icon: Sparkles },
+    { name: "Activity", href: "/activity", icon: Activity },
+    { name: "Audit log", href: "/audit", icon: History },
     { name: "Settings", href: "/settings", icon: Settings },
 ];
 
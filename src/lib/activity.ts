@@ -0,0 +1,30 @@
+import { format } from "date-fns";
+import type { BookingLog } from "@/app/types";
+
+export const BOOKING_LOG_COLUMNS = "*, performed_by_user:user_profiles(display_name), property:properties(name)";
+
+// Entries without a user come from scheduled jobs: hold release and channel syncs
+export const bookingLogActor = (log: BookingLog) => {
+  if (log.performed_by_user?.display_name) return log.performed_by_user.display_name;
+  if (log.performed_by) return "Unknown User";
+  return log.details?.source ? "Channel sync" : "System";
+};
+
+// "Guest • Room 12 (from Room 9)"
+export const bookingLogSummary = (log: BookingLog) => {
+  const guestName = log.details?.guest_name || "Unknown Guest";
+  const roomNum = log.details?.room_number ? `Room ${log.details.room_number}` : "Unassigned";
+  const previous = log.details?.previous;
+  const movedFrom =
+    previous?.room_number && previous.room_number !== log.details?.room_number
+      ? ` (from Room ${previous.room_number})`
+      : "";
+  return `${guestName} • ${roomNum}${movedFrom}`;
+};
+
+export const bookingLogDates = (log: BookingLog) => {
+  if (!log.details?.check_in || !log.details?.check_out) return "";
+  const checkIn = format(new Date(log.details.check_in), "MMM d, yyyy");
+  const checkOut = format(new Date(log.details.check_out), "MMM d, yyyy");
+  return `${checkIn} – ${checkOut}`;
+};
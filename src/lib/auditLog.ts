@@ -0,0 +1,54 @@
+import type { AuditEntry } from "@/app/types";
+
+export const AUDIT_COLUMNS =
+  "id, entity, entity_id, property_id, action, old_data, new_data, changed_fields, actor_id, created_at, actor:user_profiles(display_name)";
+
+export type AuditChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+// Bookkeeping columns that only add noise when a row is created or removed
+const quietFields = new Set(["id", "property_id", "created_at", "created_by"]);
+
+// Updates list just the changed columns; inserts and deletes list every filled-in column
+export const auditChanges = (entry: AuditEntry): AuditChange[] => {
+  const before = entry.old_data ?? {};
+  const after = entry.new_data ?? {};
+  if (entry.action === "update") {
+    return entry.changed_fields.map((field) => ({ field, before: before[field], after: after[field] }));
+  }
+  const row = entry.action === "insert" ? after : before;
+  return Object.keys(row)
+    .filter((field) => !quietFields.has(field) && row[field] !== null && row[field] !== "")
+    .sort()
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+};
+
+export const auditFieldLabel = (field: string) => {
+  const label = field.replace(/_id$/, "").replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+// Ids of rooms, categories and the like read better as their names
+export const formatAuditValue = (value: unknown, names?: Map<string, string>) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string") return names?.get(value) ?? value;
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "number") return String(value);
+  return JSON.stringify(value);
+};
+
+export const auditRecordLabel = (entry: AuditEntry) => {
+  const row = entry.new_data ?? entry.old_data ?? {};
+  const text = (key: string) => (typeof row[key] === "string" ? (row[key] as string) : "");
+  switch (entry.entity) {
+    case "bookings":
+      return [text("guest_name"), text("reference_code") && `#${text("reference_code")}`].filter(Boolean).join(" ");
+    case "rooms":
+      return `Room ${text("number")}`;
+    default:
+      return text("name");
+  }
+};
@@ -0,0 +1,210 @@
+import {
+  bookingStatuses,
+  type Booking,
+  type BookingDraft,
+  type MaintenanceTicket,
+  type Room,
+  type RoomCategory,
+} from "@/app/types";
+import { partyCounts } from "@/lib/party";
+import type { StayQuote } from "@/lib/rates";
+import { format, isValid, parse } from "date-fns";
+
+export const importFields = [
+  { key: "guest_name", label: "Guest name", required: true },
+  { key: "guest_email", label: "Guest email", required: false },
+  { key: "guest_passport", label: "Passport", required: false },
+  { key: "second_guest_name", label: "Second guest name", required: false },
+  { key: "second_guest_email", label: "Second guest email", required: false },
+  { key: "second_guest_passport", label: "Second guest passport", required: false },
+  { key: "room", label: "Room number", required: false },
+  { key: "check_in", label: "Check-in", required: true },
+  { key: "check_out", label: "Check-out", required: true },
+  { key: "status", label: "Status", required: false },
+  { key: "notes", label: "Notes", required: false },
+] as const;
+
+export type ImportField = (typeof importFields)[number]["key"];
+export type ImportMapping = Record<ImportField, number | null>;
+
+export const importDateFormats = [
+  { value: "yyyy-MM-dd", label: "YYYY-MM-DD" },
+  { value: "dd/MM/yyyy", label: "DD/MM/YYYY" },
+  { value: "MM/dd/yyyy", label: "MM/DD/YYYY" },
+];
+
+export type ImportPlanRow = {
+  line: number;
+  outcome: "create" | "skip" | "reject";
+  reason: string | null;
+  draft: BookingDraft | null;
+  roomNumber: string | null;
+  total: number | null;
+};
+
+const headerAliases: Record<ImportField, string[]> = {
+  guest_name: ["guest", "guest name", "name", "primary guest", "booker"],
+  guest_email: ["email", "guest email", "e-mail"],
+  guest_passport: ["passport", "passport number", "guest passport"],
+  second_guest_name: ["second guest", "second guest name", "guest 2"],
+  second_guest_email: ["second guest email", "guest 2 email"],
+  second_guest_passport: ["second guest passport", "guest 2 passport"],
+  room: ["room", "room number", "room no", "unit"],
+  check_in: ["check-in", "check in", "checkin", "arrival", "from"],
+  check_out: ["check-out", "check out", "checkout", "departure", "to"],
+  status: ["status", "booking status"],
+  notes: ["notes", "note", "comments", "remarks"],
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\s]+/g, " ");
+
+// Match CSV headers to booking fields by common spreadsheet and channel-export names.
+export function guessMapping(headers: string[]): ImportMapping {
+  const normalized = headers.map(normalizeHeader);
+  return Object.fromEntries(
+    importFields.map(({ key }) => {
+      const index = normalized.findIndex(
+        (h) => h === normalizeHeader(key) || headerAliases[key].includes(h),
+      );
+      return [key, index >= 0 ? index : null];
+    }),
+  ) as ImportMapping;
+}
+
+const parseImportDate = (value: string, dateFormat: string) => {
+  const parsed = parse(value.trim(), dateFormat, new Date());
+  return isValid(parsed) ? format(parsed, "yyyy-MM-dd") : null;
+};
+
+const parseStatus = (value: string) => {
+  const needle = value.trim().toLowerCase();
+  if (!needle) return "reserved";
+  return (
+    bookingStatuses.find(
+      (s) => s.value === needle.replace(/[\s-]+/g, "_") || s.label.toLowerCase() === needle,
+    )?.value ?? null
+  );
+};
+
+const sameStay = (a: { guest_name: string; check_in: string; check_out: string }, b: typeof a) =>
+  a.guest_name.trim().toLowerCase() === b.guest_name.trim().toLowerCase() &&
+  a.check_in === b.check_in &&
+  a.check_out === b.check_out;
+
+type PlanInput = {
+  rows: string[][];
+  mapping: ImportMapping;
+  dateFormat: string;
+  rooms: Room[];
+  categories: RoomCategory[];
+  existing: Booking[];
+  tickets: MaintenanceTicket[];
+  quote: (roomId: string | null, checkIn: string, checkOut: string) => StayQuote | null;
+};
+
+// Dry run: decide what each data row would do, applying the same checks as the booking
+// dialog and create_bookings. Rows that exactly repeat an existing booking are skipped so
+// an export can be re-imported; rows that overlap an existing or earlier imported stay or
+// an open maintenance ticket, or that the room cannot sleep, are rejected.
+export function planBookingImport({ rows, mapping, dateFormat, rooms, categories, existing, tickets, quote }: PlanInput) {
+  const roomByNumber = new Map(rooms.map((r) => [r.number.trim().toLowerCase(), r]));
+  const active = existing.filter((b) => b.status !== "cancelled");
+  const openTickets = tickets.filter((t) => t.status === "open");
+  const planned: ImportPlanRow[] = [];
+
+  rows.forEach((cells, index) => {
+    const line = index + 2; // 1-based, after the header row
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? "" : (cells[column] ?? "").trim();
+    };
+    const reject = (reason: string, roomNumber: string | null = null) => {
+      planned.push({ line, outcome: "reject", reason, draft: null, roomNumber, total: null });
+    };
+
+    const guestName = cell("guest_name");
+    const roomNumber = cell("room") || null;
+    if (!guestName) return reject("Guest name is required.");
+
+    const checkIn = parseImportDate(cell("check_in"), dateFormat);
+    const checkOut = parseImportDate(cell("check_out"), dateFormat);
+    if (!checkIn || !checkOut) return reject("Check-in and check-out dates are required.", roomNumber);
+    if (checkIn >= checkOut) return reject("Check-out date must be after check-in date.", roomNumber);
+
+    const status = parseStatus(cell("status"));
+    if (!status) return reject(`Unknown status "${cell("status")}".`, roomNumber);
+
+    const room = roomNumber ? roomByNumber.get(roomNumber.toLowerCase()) : null;
+    if (roomNumber && !room) return reject(`Room ${roomNumber} does not exist in this property.`, roomNumber);
+    const roomId = room?.id ?? null;
+
+    const draft: BookingDraft = {
+      guest_name: guestName,
+      guest_email: cell("guest_email"),
+      guest_passport: cell("guest_passport"),
+      // Spreadsheets still carry a single "second guest"; it becomes the first other occupant
+      occupants: cell("second_guest_name")
+        ? [
+          {
+            full_name: cell("second_guest_name"),
+            age_group: "adult",
+            email: cell("second_guest_email"),
+            document_type: cell("second_guest_passport") ? "passport" : "",
+            document_number: cell("second_guest_passport"),
+          },
+        ]
+        : [],
+      room_ids: roomId ? [roomId] : [],
+      check_in: checkIn,
+      check_out: checkOut,
+      status,
+      auto_release_at: null,
+      notes: cell("notes"),
+    };
+
+    const duplicate = active.some((b) => b.room_id === roomId && sameStay(b, draft));
+    if (duplicate) {
+      planned.push({ line, outcome: "skip", reason: "Already booked.", draft: null, roomNumber, total: null });
+      return;
+    }
+
+    if (roomId) {
+      const overlapsExisting = active.some(
+        (b) => b.room_id === roomId && b.check_in < checkOut && b.check_out > checkIn,
+      );
+      if (overlapsExisting) return reject("This room already has a booking that overlaps those dates.", roomNumber);
+
+      const earlier = planned.find(
+        (p) =>
+          p.outcome === "create" &&
+          p.draft?.room_ids[0] === roomId &&
+          p.draft.check_in < checkOut &&
+          p.draft.check_out > checkIn,
+      );
+      if (earlier) return reject(`Overlaps row ${earlier.line} of this file.`, roomNumber);
+
+      const ticket = openTickets.find((t) => t.room_id === roomId && t.start_date < checkOut && t.end_date > checkIn);
+      if (ticket) {
+        return reject(
+          `Room ${roomNumber} is out of service ${ticket.start_date} → ${ticket.end_date}: ${ticket.reason}.`,
+          roomNumber,
+        );
+      }
+
+      const capacity = categories.find((c) => c.id === room?.category_id)?.capacity ?? null;
+      const party = partyCounts(draft.occupants);
+      if (capacity !== null && party.total > capacity) {
+        return reject(`${party.total} guests exceed the ${capacity} room ${roomNumber} can sleep.`, roomNumber);
+      }
+    }
+
+    const stayQuote = quote(roomId, checkIn, checkOut);
+    if (stayQuote && stayQuote.nights.length < stayQuote.minStay) {
+      return reject(`Room ${roomNumber} requires a minimum stay of ${stayQuote.minStay} nights for those dates.`, roomNumber);
+    }
+
+    planned.push({ line, outcome: "create", reason: null, draft, roomNumber, total: stayQuote?.total ?? null });
+  });
+
+  return planned;
+}
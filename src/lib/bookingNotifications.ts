@@ -0,0 +1,133 @@
+import { emailEvents, type Booking, type EmailEvent } from "@/app/types";
+import { emailSender, transportFromEnv } from "@/lib/email";
+import { bookingTemplateVariables, defaultEmailTemplates, renderTemplate } from "@/lib/emailTemplates";
+import { propertyCan } from "@/lib/propertyAccess";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type BookingNotificationRequest = {
+  event: EmailEvent;
+  bookingId: string;
+  sentBy: string;
+};
+
+export type BookingNotificationResult = {
+  status: "sent" | "failed" | "skipped";
+  error: string | null;
+};
+
+export const isEmailEvent = (value: unknown): value is EmailEvent =>
+  emailEvents.some((e) => e.value === value);
+
+const isEmailAddress = (value: string) => /^[^\s@,<>]+@[^\s@,<>]+\.[^\s@,<>]+$/.test(value);
+
+// A new party hears about all of its rooms at once; otherwise just the booking's own room.
+async function roomNumbersFor(supabase: SupabaseClient, booking: Booking, event: EmailEvent) {
+  let roomIds = booking.room_id ? [booking.room_id] : [];
+  if (event === "booking_created" && booking.group_id) {
+    const { data } = await supabase.from("bookings").select("room_id").eq("group_id", booking.group_id);
+    roomIds = (data ?? []).map((b) => b.room_id as string | null).filter((id): id is string => !!id);
+  }
+  if (roomIds.length === 0) return [];
+  const { data } = await supabase.from("rooms").select("number").in("id", roomIds).order("number");
+  return (data ?? []).map((r) => r.number as string);
+}
+
+// Cancellations for deleted bookings are only sent shortly after the delete
+const DELETED_BOOKING_WINDOW_MS = 60 * 60 * 1000;
+
+// A deleted booking is read back from the row the audit trigger kept, never from the
+// request, so mail only goes to guests of bookings that really existed.
+async function deletedBooking(supabase: SupabaseClient, bookingId: string) {
+  const { data, error } = await supabase
+    .from("audit_log")
+    .select("old_data")
+    .eq("entity", "bookings")
+    .eq("entity_id", bookingId)
+    .eq("action", "delete")
+    .gte("created_at", new Date(Date.now() - DELETED_BOOKING_WINDOW_MS).toISOString())
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data?.old_data as Booking | undefined) ?? null;
+}
+
+// Renders the property's template for the event (or the built-in one), sends it to the
+// primary guest and records the attempt in email_log, including skips.
+export async function sendBookingNotification(
+  supabase: SupabaseClient,
+  { event, bookingId, sentBy }: BookingNotificationRequest,
+): Promise<BookingNotificationResult> {
+  const { data: stored, error: bookingError } = await supabase
+    .from("bookings")
+    .select("*")
+    .eq("id", bookingId)
+    .maybeSingle();
+  if (bookingError) throw new Error(bookingError.message);
+  const booking =
+    (stored as Booking | null) ?? (event === "booking_cancelled" ? await deletedBooking(supabase, bookingId) : null);
+  if (!booking) throw new Error("Booking not found.");
+
+  // Reading a booking is not enough: only staff who manage bookings may email its guest
+  const { data: membership } = await supabase
+    .from("property_members")
+    .select("role")
+    .eq("property_id", booking.property_id)
+    .eq("user_id", sentBy)
+    .maybeSingle();
+  if (!propertyCan(membership?.role, "manage_bookings")) {
+    throw new Error("You cannot email guests of this property.");
+  }
+
+  const [propertyRes, templateRes, roomNumbers] = await Promise.all([
+    supabase.from("properties").select("id, name, address").eq("id", booking.property_id).maybeSingle(),
+    supabase
+      .from("email_templates")
+      .select("subject, body, enabled")
+      .eq("property_id", booking.property_id)
+      .eq("event", event)
+      .maybeSingle(),
+    roomNumbersFor(supabase, booking, event),
+  ]);
+  // RLS hides properties the caller does not manage
+  if (propertyRes.error || !propertyRes.data) throw new Error(propertyRes.error?.message ?? "Property not found.");
+
+  const template = templateRes.data ?? { ...defaultEmailTemplates[event], enabled: true };
+  const variables = bookingTemplateVariables(booking, roomNumbers, propertyRes.data);
+  const subject = renderTemplate(template.subject, variables);
+  const text = renderTemplate(template.body, variables);
+  const recipient = booking.guest_email?.trim() || null;
+
+  let result: BookingNotificationResult;
+  let transportName: string | null = null;
+  if (!template.enabled) {
+    result = { status: "skipped", error: "Template is turned off." };
+  } else if (!recipient || !isEmailAddress(recipient)) {
+    result = { status: "skipped", error: "Booking has no valid guest email." };
+  } else {
+    try {
+      const transport = transportFromEnv();
+      transportName = transport.name;
+      await transport.send({ from: emailSender(), to: recipient, subject, text });
+      result = { status: "sent", error: null };
+    } catch (err) {
+      result = { status: "failed", error: err instanceof Error ? err.message : "Email could not be sent." };
+    }
+  }
+
+  const { error: logError } = await supabase.from("email_log").insert({
+    property_id: booking.property_id,
+    booking_id: stored ? booking.id : null,
+    event,
+    recipient,
+    subject,
+    body: text,
+    transport: transportName,
+    status: result.status,
+    error: result.error,
+    sent_by: sentBy,
+  });
+  if (logError) console.error("Failed to record email", logError);
+
+  return result;
+}
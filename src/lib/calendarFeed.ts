@@ -0,0 +1,92 @@
+import { bookingStatuses, type Booking, type Property, type Room } from "@/app/types";
+import { fetchAllRows } from "@/lib/export";
+import { buildCalendar } from "@/lib/ics";
+import { createServiceClient } from "@/lib/supabase/server";
+
+type FeedBooking = Pick<
+  Booking,
+  "id" | "room_id" | "guest_name" | "check_in" | "check_out" | "status" | "reference_code" | "notes"
+>;
+
+const statusLabel = (status: string) => bookingStatuses.find((s) => s.value === status)?.label ?? status;
+
+// Serves the subscription feed for a property, or one of its rooms. Calendar apps cannot
+// sign in, so access is granted by the property's calendar_token in the query string.
+export async function calendarFeedResponse(request: Request, propertyId: string, roomId?: string) {
+  const token = new URL(request.url).searchParams.get("token");
+  if (!token) {
+    return new Response("Missing calendar token.", { status: 401 });
+  }
+
+  const supabase = createServiceClient();
+  const { data: property, error: propertyError } = await supabase
+    .from("properties")
+    .select("id, name, code")
+    .eq("id", propertyId)
+    .eq("calendar_token", token)
+    .maybeSingle<Pick<Property, "id" | "name" | "code">>();
+
+  if (propertyError) {
+    return new Response(propertyError.message, { status: 500 });
+  }
+  // Same response for an unknown property and a wrong or revoked token
+  if (!property) {
+    return new Response("Calendar feed not found.", { status: 404 });
+  }
+
+  const { data: rooms, error: roomsError } = await supabase
+    .from("rooms")
+    .select("id, number")
+    .eq("property_id", propertyId)
+    .returns<Pick<Room, "id" | "number">[]>();
+  if (roomsError) {
+    return new Response(roomsError.message, { status: 500 });
+  }
+
+  const roomNumbers = new Map((rooms ?? []).map((r) => [r.id, r.number]));
+  if (roomId && !roomNumbers.has(roomId)) {
+    return new Response("Calendar feed not found.", { status: 404 });
+  }
+
+  let bookings: FeedBooking[];
+  try {
+    bookings = await fetchAllRows<FeedBooking>((from, to) => {
+      let query = supabase
+        .from("bookings")
+        .select("id, room_id, guest_name, check_in, check_out, status, reference_code, notes")
+        .eq("property_id", propertyId)
+        .neq("status", "cancelled")
+        .order("check_in", { ascending: true })
+        .range(from, to);
+      if (roomId) query = query.eq("room_id", roomId);
+      return query;
+    });
+  } catch (err) {
+    return new Response(err instanceof Error ? err.message : "Could not load bookings.", { status: 500 });
+  }
+
+  const host = new URL(request.url).host;
+  const name = roomId ? `${property.name} · Room ${roomNumbers.get(roomId)}` : property.name;
+  const body = buildCalendar(
+    name,
+    bookings.map((b) => {
+      const roomNumber = b.room_id ? roomNumbers.get(b.room_id) : null;
+      return {
+        uid: `${b.id}@${host}`,
+        start: b.check_in,
+        end: b.check_out,
+        summary: `${b.guest_name} • ${roomNumber ? `Room ${roomNumber}` : "Unassigned"} • ${statusLabel(b.status)}`,
+        description: [b.reference_code && `Reference: ${b.reference_code}`, b.notes].filter(Boolean).join("\n"),
+        status: b.status === "tentative" ? "TENTATIVE" : "CONFIRMED",
+      };
+    }),
+  );
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${(property.code || "bookings").toLowerCase().replace(/[^a-z0-9]+/g, "-")}.ics"`,
+      "Cache-Control": "private, max-age=300",
+    },
+  });
+}
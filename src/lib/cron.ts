@@ -0,0 +1,6 @@
+// Scheduled jobs call our /api routes with `Authorization: Bearer <CRON_SECRET>`.
+export function isAuthorizedCronRequest(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return request.headers.get("authorization") === `Bearer ${secret}`;
+}
@@ -0,0 +1,61 @@
+// Parse RFC 4180 CSV: quoted fields may contain commas, newlines and "" escapes.
+// Blank lines are dropped; a leading byte-order mark is ignored.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+// Text that a spreadsheet would read as a formula gets a leading apostrophe. Guest names
+// and notes can come from channel feeds, so exported cells are never trusted.
+export const escapeFormula = (text: string) => (/^[=+\-@\t\r]/.test(text) ? `'${text}` : text);
+
+// Serialise rows to CSV, quoting fields that contain commas, quotes or newlines.
+export function toCsv(rows: (string | number | null)[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const text = value === null ? "" : typeof value === "string" ? escapeFormula(value) : String(value);
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(","),
+    )
+    .join("\r\n");
+}
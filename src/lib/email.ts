@@ -0,0 +1,107 @@
+// Outgoing email for route handlers. Messages go through a transport picked by
+// EMAIL_TRANSPORT: "smtp" for real delivery, "file" (.eml files) or "console" for dev and test.
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { sendSmtp } from "@/lib/smtp";
+
+export type EmailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export type EmailTransport = {
+  name: string;
+  send: (message: EmailMessage) => Promise<void>;
+};
+
+// "Front Desk <desk@hotel.com>" -> "desk@hotel.com"
+const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+
+const encodeHeader = (value: string) => {
+  const clean = value.replace(/[\r\n]+/g, " ");
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean).toString("base64")}?=`;
+};
+
+// Plain-text RFC 5322 message. The body is base64 so any UTF-8 survives relays without 8BITMIME.
+export function formatMessage(message: EmailMessage) {
+  const domain = addressOf(message.from).split("@")[1] ?? "localhost";
+  const body = Buffer.from(message.text.replace(/\r?\n/g, "\r\n"))
+    .toString("base64")
+    .replace(/.{76}/g, "$&\r\n");
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+export function smtpTransport(): EmailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) throw new Error("Missing SMTP_HOST for the smtp email transport.");
+  const port = Number(process.env.SMTP_PORT ?? 587);
+  const config = {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    // Credentials and guest details stay off the wire unless TLS is explicitly waived
+    requireTls: process.env.SMTP_REQUIRE_TLS !== "false",
+    user: process.env.SMTP_USER ?? null,
+    password: process.env.SMTP_PASSWORD ?? null,
+  };
+  return {
+    name: "smtp",
+    send: (message) =>
+      sendSmtp(config, { from: addressOf(message.from), to: [addressOf(message.to)] }, formatMessage(message)),
+  };
+}
+
+export function fileTransport(): EmailTransport {
+  const directory = path.resolve(process.env.EMAIL_FILE_DIR ?? ".emails");
+  return {
+    name: "file",
+    send: async (message) => {
+      await mkdir(directory, { recursive: true });
+      const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${addressOf(message.to).replace(/[^\w.@-]/g, "_")}.eml`;
+      await writeFile(path.join(directory, name), formatMessage(message));
+    },
+  };
+}
+
+export function consoleTransport(): EmailTransport {
+  return {
+    name: "console",
+    send: async (message) => {
+      console.info(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n\n${message.text}\n`);
+    },
+  };
+}
+
+// Register another provider (an HTTP API, say) by adding its factory here.
+export const emailTransports: Record<string, () => EmailTransport> = {
+  smtp: smtpTransport,
+  file: fileTransport,
+  console: consoleTransport,
+};
+
+export function transportFromEnv(): EmailTransport {
+  const name = process.env.EMAIL_TRANSPORT ?? (process.env.SMTP_HOST ? "smtp" : "console");
+  const factory = emailTransports[name];
+  if (!factory) {
+    throw new Error(`Unknown EMAIL_TRANSPORT "${name}". Use one of: ${Object.keys(emailTransports).join(", ")}.`);
+  }
+  return factory();
+}
+
+export function emailSender() {
+  return process.env.EMAIL_FROM ?? "Reservations <no-reply@localhost>";
+}
@@ -0,0 +1,119 @@
+import { bookingStatuses, type Booking, type EmailEvent, type Property } from "@/app/types";
+import { formatParty } from "@/lib/party";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+
+export const templateVariables = [
+  { key: "guest_name", description: "Primary guest's name" },
+  { key: "reference_code", description: "Booking reference" },
+  { key: "check_in", description: "Arrival date" },
+  { key: "check_out", description: "Departure date" },
+  { key: "nights", description: "Number of nights" },
+  { key: "room_number", description: "Room number(s), or \"to be assigned\"" },
+  { key: "guests", description: "Party size, e.g. \"2 adults, 1 child\"" },
+  { key: "total", description: "Room total" },
+  { key: "status", description: "Booking status" },
+  { key: "hold_expires", description: "When a tentative hold lapses" },
+  { key: "property_name", description: "Property name" },
+  { key: "property_address", description: "Property address" },
+] as const;
+
+export type TemplateVariables = Record<(typeof templateVariables)[number]["key"], string>;
+
+// Used until a property saves its own wording for an event
+export const defaultEmailTemplates: Record<EmailEvent, { subject: string; body: string }> = {
+  booking_created: {
+    subject: "Your booking at {{property_name}} ({{reference_code}})",
+    body: `Dear {{guest_name}},
+
+Thank you for booking with {{property_name}}. Your booking is {{status}}.
+
+Arrival: {{check_in}}
+Departure: {{check_out}} ({{nights}} nights)
+Room: {{room_number}}
+Guests: {{guests}}
+Total: {{total}}
+
+Reference: {{reference_code}}
+
+We look forward to welcoming you.
+{{property_name}}
+{{property_address}}`,
+  },
+  booking_confirmed: {
+    subject: "Your booking at {{property_name}} is confirmed ({{reference_code}})",
+    body: `Dear {{guest_name}},
+
+Good news: the room we were holding for you is now confirmed.
+
+Arrival: {{check_in}}
+Departure: {{check_out}} ({{nights}} nights)
+Room: {{room_number}}
+Total: {{total}}
+
+Reference: {{reference_code}}
+
+{{property_name}}`,
+  },
+  booking_changed: {
+    subject: "Your booking at {{property_name}} has changed ({{reference_code}})",
+    body: `Dear {{guest_name}},
+
+Your booking has been updated. The new details are:
+
+Arrival: {{check_in}}
+Departure: {{check_out}} ({{nights}} nights)
+Room: {{room_number}}
+Guests: {{guests}}
+Total: {{total}}
+
+If you did not ask for this change, please get in touch.
+
+{{property_name}}`,
+  },
+  booking_cancelled: {
+    subject: "Your booking at {{property_name}} has been cancelled ({{reference_code}})",
+    body: `Dear {{guest_name}},
+
+Your booking for {{check_in}} to {{check_out}} has been cancelled.
+
+If this is unexpected, please reply to this email and we will help.
+
+{{property_name}}`,
+  },
+};
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+export function bookingTemplateVariables(
+  booking: Booking,
+  roomNumbers: string[],
+  property: Pick<Property, "name" | "address">,
+): TemplateVariables {
+  const checkIn = parseISO(booking.check_in);
+  const checkOut = parseISO(booking.check_out);
+  return {
+    guest_name: booking.guest_name,
+    reference_code: booking.reference_code ?? "",
+    check_in: format(checkIn, "EEEE, MMMM d, yyyy"),
+    check_out: format(checkOut, "EEEE, MMMM d, yyyy"),
+    nights: String(differenceInCalendarDays(checkOut, checkIn)),
+    room_number: roomNumbers.length > 0 ? roomNumbers.join(", ") : "to be assigned",
+    guests: formatParty(booking),
+    total: booking.total !== null ? currencyFormatter.format(Number(booking.total)) : "",
+    status: (bookingStatuses.find((s) => s.value === booking.status)?.label ?? booking.status).toLowerCase(),
+    hold_expires: booking.auto_release_at ? format(new Date(booking.auto_release_at), "MMMM d, yyyy h:mm a") : "",
+    property_name: property.name,
+    property_address: property.address ?? "",
+  };
+}
+
+// Replaces {{name}} placeholders. Unknown names are left as typed so a typo shows up
+// in the preview instead of silently disappearing.
+export function renderTemplate(template: string, variables: Partial<Record<string, string>>) {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) => variables[key] ?? placeholder);
+}
@@ -0,0 +1,48 @@
+import { toCsv } from "@/lib/csv";
+import { buildXlsx, type SheetCell } from "@/lib/xlsx";
+import { format } from "date-fns";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type ExportColumn<T> = {
+  header: string;
+  value: (row: T) => SheetCell | undefined;
+};
+
+const EXPORT_PAGE_SIZE = 1000;
+
+// PostgREST caps each response, so read the full result set page by page.
+export async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + EXPORT_PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data ?? []));
+    if (!data || data.length < EXPORT_PAGE_SIZE) return rows;
+  }
+}
+
+export function downloadTable<T>(
+  name: string,
+  columns: ExportColumn<T>[],
+  rows: T[],
+  exportFormat: ExportFormat,
+) {
+  const table: SheetCell[][] = [
+    columns.map((c) => c.header),
+    ...rows.map((row) => columns.map((c) => c.value(row) ?? null)),
+  ];
+  const blob =
+    exportFormat === "xlsx"
+      ? buildXlsx(table, name)
+      : new Blob([toCsv(table)], { type: "text/csv;charset=utf-8" });
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-${format(new Date(), "yyyyMMdd-HHmm")}.${exportFormat}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,120 @@
+import dns from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import net from "node:net";
+
+const MAX_REDIRECTS = 3;
+
+// Loopback, private, link-local (cloud metadata lives there), shared, multicast and
+// reserved ranges. Feed URLs come from staff, so the server must not be pointed inward.
+const blockedRanges = new net.BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([address, prefix]) => blockedRanges.addSubnet(address as string, prefix as number, "ipv4"));
+[
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([address, prefix]) => blockedRanges.addSubnet(address as string, prefix as number, "ipv6"));
+
+const isPublicAddress = (address: string) => {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return isPublicAddress(mapped);
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockedRanges.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+// Hosts named in ICAL_ALLOWED_HOSTS (comma-separated, e.g. "localhost,127.0.0.1") skip the
+// public-address check, so a local stub server can stand in for a channel during development.
+const allowedHosts = () =>
+  new Set(
+    (process.env.ICAL_ALLOWED_HOSTS ?? "")
+      .split(",")
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean),
+  );
+
+// Checked on every connection, so a DNS answer cannot change between the check and the request
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    const usable = addresses.filter((a) => isPublicAddress(a.address));
+    if (usable.length === 0 || usable.length !== addresses.length) {
+      return callback(Object.assign(new Error(`${hostname} is not a public address.`), { code: "EBLOCKED" }), "");
+    }
+    if (options.all) return callback(null, usable);
+    callback(null, usable[0].address, usable[0].family);
+  });
+};
+
+type FeedResponse = {
+  status: number;
+  body: string;
+};
+
+function request(url: URL, maxBytes: number, signal: AbortSignal, trusted: boolean) {
+  return new Promise<FeedResponse & { location: string | null }>((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.get(url, { lookup: trusted ? undefined : publicOnlyLookup, signal, headers: { accept: "text/calendar, */*" } }, (res) => {
+      const status = res.statusCode ?? 0;
+      if (status >= 300 && status < 400) {
+        res.resume();
+        resolve({ status, body: "", location: res.headers.location ?? null });
+        return;
+      }
+      const chunks: Buffer[] = [];
+      let size = 0;
+      res.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          req.destroy(new Error(`Feed is larger than ${maxBytes} bytes.`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      res.on("end", () => resolve({ status, body: Buffer.concat(chunks).toString("utf8"), location: null }));
+      res.on("error", reject);
+    });
+    req.on("error", reject);
+  });
+}
+
+// Downloads a feed over http(s) from a public host only, following a few redirects (each
+// one checked again) and giving up past maxBytes or the timeout.
+export async function fetchFeed(
+  rawUrl: string,
+  { maxBytes, timeoutMs }: { maxBytes: number; timeoutMs: number },
+): Promise<FeedResponse> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  const allowed = allowedHosts();
+  let url = new URL(rawUrl);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      throw new Error("Only http and https feed links are supported.");
+    }
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    const trusted = allowed.has(host.toLowerCase());
+    // Literal IPs skip the lookup, so check them here
+    if (!trusted && net.isIP(host) && !isPublicAddress(host)) {
+      throw new Error(`${host} is not a public address.`);
+    }
+    const response = await request(url, maxBytes, signal, trusted);
+    if (!response.location) return { status: response.status, body: response.body };
+    url = new URL(response.location, url);
+  }
+  throw new Error("Feed redirected too many times.");
+}
@@ -0,0 +1,21 @@
+import type { BookingFolio } from "@/app/types";
+
+export type FolioBalance = {
+  charges: number;
+  paid: number;
+  balance: number;
+};
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Mirrors public.booking_balance(): room total plus folio charges, less what the
+// guest has paid. Refunds count against payments.
+export function folioBalance(roomTotal: number | null, folio: BookingFolio): FolioBalance {
+  const extras = folio.items.reduce((sum, item) => sum + item.quantity * Number(item.unit_amount), 0);
+  const paid = folio.payments.reduce(
+    (sum, p) => sum + (p.kind === "refund" ? -Number(p.amount) : Number(p.amount)),
+    0,
+  );
+  const charges = roundCents(Number(roomTotal ?? 0) + extras);
+  return { charges, paid: roundCents(paid), balance: roundCents(charges - paid) };
+}
@@ -0,0 +1,84 @@
+import { emailSender, transportFromEnv } from "@/lib/email";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type PendingReminder = {
+  id: string;
+  property_id: string;
+  booking_id: string | null;
+  title: string;
+  body: string | null;
+  expires_at: string | null;
+  user: { email: string; display_name: string } | null;
+  property: { name: string; hold_reminder_email: boolean } | null;
+};
+
+export type HoldReminderEmailResult = {
+  sent: number;
+  failed: number;
+};
+
+// Emails queued hold reminders for properties that opted in. Runs with the service client
+// from the cron route. Each reminder is emailed at most once and every attempt is logged.
+export async function sendHoldReminderEmails(supabase: SupabaseClient): Promise<HoldReminderEmailResult> {
+  const { data, error } = await supabase
+    .from("staff_notifications")
+    .select(
+      "id, property_id, booking_id, title, body, expires_at, user:user_profiles(email, display_name), property:properties!inner(name, hold_reminder_email)",
+    )
+    .eq("kind", "hold_expiring")
+    .eq("property.hold_reminder_email", true)
+    .is("emailed_at", null)
+    .is("read_at", null)
+    .gt("expires_at", new Date().toISOString());
+  if (error) throw new Error(error.message);
+
+  const result: HoldReminderEmailResult = { sent: 0, failed: 0 };
+  const reminders = (data ?? []) as unknown as PendingReminder[];
+  if (reminders.length === 0) return result;
+
+  const transport = transportFromEnv();
+  for (const reminder of reminders) {
+    const recipient = reminder.user?.email ?? null;
+    const subject = `${reminder.title} · ${reminder.property?.name ?? "RoomMaster"}`;
+    const expires = reminder.expires_at ? new Date(reminder.expires_at).toUTCString() : "soon";
+    const text = [
+      `Hi ${reminder.user?.display_name ?? "there"},`,
+      "",
+      reminder.body ?? reminder.title,
+      "",
+      `The hold is released automatically at ${expires}.`,
+      "Open the notification bell in RoomMaster to confirm it or extend the hold.",
+    ].join("\n");
+
+    let status: "sent" | "failed" = "sent";
+    let sendError: string | null = null;
+    if (!recipient) {
+      status = "failed";
+      sendError = "Staff member has no email address.";
+    } else {
+      try {
+        await transport.send({ from: emailSender(), to: recipient, subject, text });
+      } catch (err) {
+        status = "failed";
+        sendError = err instanceof Error ? err.message : "Email could not be sent.";
+      }
+    }
+    result[status] += 1;
+
+    await supabase.from("staff_notifications").update({ emailed_at: new Date().toISOString() }).eq("id", reminder.id);
+    const { error: logError } = await supabase.from("email_log").insert({
+      property_id: reminder.property_id,
+      booking_id: reminder.booking_id,
+      event: "hold_reminder",
+      recipient,
+      subject,
+      body: text,
+      transport: transport.name,
+      status,
+      error: sendError,
+      sent_by: null,
+    });
+    if (logError) console.error("Failed to record email", logError);
+  }
+  return result;
+}
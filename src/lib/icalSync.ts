@@ -0,0 +1,96 @@
+import { bookingSources, type RoomIcalFeed } from "@/app/types";
+import { fetchFeed } from "@/lib/feedFetch";
+import { parseCalendar } from "@/lib/ics";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+const FETCH_TIMEOUT_MS = 15_000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+
+// What staff see on the feed. The detail only goes to the server log, so the sync cannot
+// be used to probe what other hosts answer.
+const DOWNLOAD_FAILED = "The feed could not be downloaded. Check the link and try again.";
+
+export type FeedSyncResult = {
+  feedId: string;
+  roomId: string;
+  created: number;
+  updated: number;
+  cancelled: number;
+  conflicts: number;
+  error: string | null;
+};
+
+const channelLabel = (channel: string) =>
+  bookingSources.find((s) => s.value === channel)?.label ?? channel;
+
+// Calendar apps hand out webcal:// links; they are plain HTTPS underneath.
+const feedUrl = (url: string) => url.trim().replace(/^webcal:\/\//i, "https://");
+
+async function syncFeed(supabase: SupabaseClient, feed: RoomIcalFeed): Promise<FeedSyncResult> {
+  const result: FeedSyncResult = {
+    feedId: feed.id,
+    roomId: feed.room_id,
+    created: 0,
+    updated: 0,
+    cancelled: 0,
+    conflicts: 0,
+    error: null,
+  };
+
+  try {
+    let body: string;
+    try {
+      const response = await fetchFeed(feedUrl(feed.url), { maxBytes: MAX_FEED_BYTES, timeoutMs: FETCH_TIMEOUT_MS });
+      if (response.status < 200 || response.status >= 300) throw new Error(`Feed responded with HTTP ${response.status}.`);
+      body = response.body;
+    } catch (err) {
+      console.error(`iCal feed ${feed.id} download failed`, err);
+      throw new Error(DOWNLOAD_FAILED);
+    }
+    if (!body.includes("BEGIN:VCALENDAR")) throw new Error("Response is not an iCal calendar.");
+
+    // Channels mostly publish anonymous "Reserved"/"Not available" blocks; keep the
+    // summary when there is one so staff can tell stays apart.
+    const events = parseCalendar(body)
+      .filter((e) => !e.cancelled)
+      .map((e) => ({
+        uid: e.uid,
+        summary: e.summary || `${channelLabel(feed.channel)} booking`,
+        check_in: e.start,
+        check_out: e.end,
+      }));
+
+    const { data, error } = await supabase.rpc("sync_ical_feed", {
+      p_feed_id: feed.id,
+      p_events: events,
+    });
+    if (error) throw new Error(error.message);
+
+    Object.assign(result, data as Pick<FeedSyncResult, "created" | "updated" | "cancelled" | "conflicts">);
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : "Sync failed.";
+    await supabase.from("room_ical_feeds").update({ last_error: result.error }).eq("id", feed.id);
+  }
+
+  return result;
+}
+
+// Sync feeds one after another so a large property does not hammer the channel servers.
+// A failing feed records its error and does not stop the rest.
+export async function syncIcalFeeds(
+  supabase: SupabaseClient,
+  filter: { propertyId?: string | null; roomId?: string | null } = {},
+) {
+  let query = supabase.from("room_ical_feeds").select("*").order("created_at");
+  if (filter.propertyId) query = query.eq("property_id", filter.propertyId);
+  if (filter.roomId) query = query.eq("room_id", filter.roomId);
+
+  const { data: feeds, error } = await query.returns<RoomIcalFeed[]>();
+  if (error) throw new Error(error.message);
+
+  const results: FeedSyncResult[] = [];
+  for (const feed of feeds ?? []) {
+    results.push(await syncFeed(supabase, feed));
+  }
+  return results;
+}
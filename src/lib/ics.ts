@@ -0,0 +1,133 @@
+// Minimal iCalendar (RFC 5545) support: all-day booking events out, channel exports in.
+
+export type CalendarEvent = {
+  uid: string;
+  start: string; // yyyy-MM-dd, inclusive
+  end: string; // yyyy-MM-dd, exclusive (the check-out day)
+  summary: string;
+  description?: string | null;
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+};
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const encoder = new TextEncoder();
+
+// Content lines are limited to 75 octets; continuations start with a single space.
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const formatDate = (date: string) => date.replace(/-/g, "");
+
+const formatTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+export function buildCalendar(name: string, events: CalendarEvent[]) {
+  const stamp = formatTimestamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//RoomMaster//Bookings//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.start)}`,
+      `DTEND;VALUE=DATE:${formatDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    lines.push("TRANSP:OPAQUE", "END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export type ParsedEvent = {
+  uid: string;
+  summary: string;
+  start: string; // yyyy-MM-dd
+  end: string; // yyyy-MM-dd, exclusive
+  cancelled: boolean;
+};
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === "n" ? "\n" : char));
+
+// DATE (20261101) and DATE-TIME (20261101T150000Z) values both reduce to the calendar day.
+const parseDate = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const nextDay = (date: string) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+};
+
+// Read the VEVENTs of a channel export. Events without a start date are dropped; a missing
+// or non-advancing end means a single night.
+export function parseCalendar(text: string): ParsedEvent[] {
+  const lines = text.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const events: ParsedEvent[] = [];
+  let current: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      current = {};
+      continue;
+    }
+    if (line === "END:VEVENT") {
+      const start = current?.DTSTART ? parseDate(current.DTSTART) : null;
+      if (current && start) {
+        const end = current.DTEND ? parseDate(current.DTEND) : null;
+        events.push({
+          uid: current.UID || `${start}-${current.SUMMARY ?? ""}`,
+          summary: unescapeText(current.SUMMARY ?? "").trim(),
+          start,
+          end: end && end > start ? end : nextDay(start),
+          cancelled: current.STATUS?.toUpperCase() === "CANCELLED",
+        });
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+    // Drop parameters such as ";VALUE=DATE" or ";TZID=Europe/Paris"
+    const name = line.slice(0, separator).split(";")[0].toUpperCase();
+    current[name] = line.slice(separator + 1);
+  }
+
+  return events;
+}
@@ -0,0 +1,34 @@
+import { propertyRoles, type PropertyRole } from "@/app/types";
+import { emailSender, transportFromEnv } from "@/lib/email";
+
+type InvitationEmail = {
+  to: string;
+  link: string;
+  inviterName: string;
+  propertyName: string | null;
+  role: PropertyRole | null;
+  expiresAt: string;
+};
+
+// Plain-text invitation sent through the configured email transport. Throws when sending fails.
+export async function sendInvitationEmail({ to, link, inviterName, propertyName, role, expiresAt }: InvitationEmail) {
+  const roleLabel = propertyRoles.find((r) => r.value === role)?.label;
+  const access = propertyName && roleLabel ? ` as ${roleLabel.toLowerCase()} at ${propertyName}` : "";
+  const transport = transportFromEnv();
+  await transport.send({
+    from: emailSender(),
+    to,
+    subject: propertyName ? `You're invited to ${propertyName} on RoomMaster` : "You're invited to RoomMaster",
+    text: [
+      "Hello,",
+      "",
+      `${inviterName} invited you to join RoomMaster${access}.`,
+      "",
+      "Create your account (or sign in if you already have one) with this link:",
+      link,
+      "",
+      `The link expires on ${new Date(expiresAt).toUTCString()}.`,
+    ].join("\n"),
+  });
+  return transport.name;
+}
@@ -0,0 +1,14 @@
+import type { StaffInvitation } from "@/app/types";
+
+export const INVITATION_COLUMNS =
+  "id, email, property_id, role, invited_by, expires_at, accepted_at, revoked_at, created_at, property:properties(name)";
+
+export const invitationLink = (origin: string, token: string) =>
+  `${origin.replace(/\/$/, "")}/login?invite=${encodeURIComponent(token)}`;
+
+export const invitationStatus = (invitation: StaffInvitation) => {
+  if (invitation.revoked_at) return "revoked";
+  if (invitation.accepted_at) return "accepted";
+  if (new Date(invitation.expires_at).getTime() < Date.now()) return "expired";
+  return "pending";
+};
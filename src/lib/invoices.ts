@@ -0,0 +1,53 @@
+import type { Booking, FolioItem, InvoiceLine, Property, RateSeason, RoomCategory } from "@/app/types";
+import { quoteStay } from "@/lib/rates";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+
+// e.g. "HTL-00042", falling back to "INV-" for properties without a code.
+export function formatInvoiceNumber(property: Pick<Property, "code">, number: number) {
+  return `${property.code?.trim() || "INV"}-${String(number).padStart(5, "0")}`;
+}
+
+// Nightly room lines plus folio extras. The nightly breakdown is only used when the
+// current rates still add up to the stored total; otherwise the stay is one line.
+export function buildInvoiceLines(
+  booking: Pick<Booking, "check_in" | "check_out" | "total">,
+  category: RoomCategory | null,
+  seasons: RateSeason[],
+  items: FolioItem[],
+): InvoiceLine[] {
+  const lines: InvoiceLine[] = [];
+  const total = Number(booking.total ?? 0);
+  const quote = category ? quoteStay(category, seasons, booking.check_in, booking.check_out) : null;
+
+  if (quote && quote.total === total) {
+    for (const night of quote.nights) {
+      lines.push({
+        description: `Night of ${format(parseISO(night.date), "EEE, MMM d, yyyy")}`,
+        detail: [night.season, night.weekend ? "Weekend" : null].filter(Boolean).join(" • ") || null,
+        quantity: 1,
+        unit_amount: night.rate,
+        amount: night.rate,
+      });
+    }
+  } else if (total > 0) {
+    const nights = differenceInCalendarDays(parseISO(booking.check_out), parseISO(booking.check_in));
+    lines.push({
+      description: `Accommodation, ${nights} night${nights !== 1 ? "s" : ""}`,
+      quantity: 1,
+      unit_amount: total,
+      amount: total,
+    });
+  }
+
+  for (const item of items) {
+    lines.push({
+      description: item.description,
+      detail: format(parseISO(item.posted_on), "MMM d, yyyy"),
+      quantity: item.quantity,
+      unit_amount: Number(item.unit_amount),
+      amount: Math.round(item.quantity * Number(item.unit_amount) * 100) / 100,
+    });
+  }
+
+  return lines;
+}
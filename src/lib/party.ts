@@ -0,0 +1,22 @@
+import type { Booking, BookingGuestDraft } from "@/app/types";
+
+// The primary guest counts as one adult on top of the listed occupants
+export const partyCounts = (occupants: BookingGuestDraft[]) => {
+  const named = occupants.filter((o) => o.full_name.trim());
+  const children = named.filter((o) => o.age_group === "child").length;
+  return { adults: 1 + named.length - children, children, total: 1 + named.length };
+};
+
+export const partySize = ({ adults, children }: Pick<Booking, "adults" | "children">) =>
+  Math.max(adults ?? 1, 1) + (children ?? 0);
+
+// "3 adults, 1 child"; adults already includes the primary guest
+export const formatParty = ({ adults, children }: Pick<Booking, "adults" | "children">) => {
+  const adultCount = Math.max(adults ?? 1, 1);
+  const childCount = children ?? 0;
+  const adultLabel = `${adultCount} adult${adultCount === 1 ? "" : "s"}`;
+  return childCount > 0 ? `${adultLabel}, ${childCount} child${childCount === 1 ? "" : "ren"}` : adultLabel;
+};
+
+export const otherGuestNames = (booking: Booking) =>
+  booking.occupants?.map((o) => o.full_name).join(", ") || null;
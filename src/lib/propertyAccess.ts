@@ -0,0 +1,30 @@
+import type { Property, PropertyRole } from "@/app/types";
+
+export type PropertyCapability =
+  | "manage_members"
+  | "delete_property"
+  | "edit_property"
+  | "manage_rooms"
+  | "manage_bookings"
+  | "update_room_status";
+
+// Mirrors the RLS policies in 20261103_property_members.sql and 20261107_role_write_policies.sql.
+// The database has the final say; this only decides which actions the UI offers.
+const roleCapabilities: Record<PropertyRole, PropertyCapability[]> = {
+  owner: ["manage_members", "delete_property", "edit_property", "manage_rooms", "manage_bookings", "update_room_status"],
+  manager: ["edit_property", "manage_rooms", "manage_bookings", "update_room_status"],
+  front_desk: ["manage_bookings", "update_room_status"],
+  housekeeping: ["update_room_status"],
+  read_only: [],
+};
+
+export const propertyCan = (role: PropertyRole | null | undefined, capability: PropertyCapability) =>
+  !!role && roleCapabilities[role].includes(capability);
+
+// Properties the user belongs to, each with their role
+export const MEMBER_PROPERTY_COLUMNS = "*, membership:property_members!inner(role)";
+
+type MemberPropertyRow = Property & { membership: { role: PropertyRole }[] | null };
+
+export const withMemberRole = (rows: MemberPropertyRow[]): Property[] =>
+  rows.map(({ membership, ...property }) => ({ ...property, role: membership?.[0]?.role }));
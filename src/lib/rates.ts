@@ -0,0 +1,65 @@
+import type { RateSeason, RoomCategory } from "@/app/types";
+import { addDays, format, getDay, parseISO } from "date-fns";
+
+export type NightlyRate = {
+  date: string;
+  rate: number;
+  season: string | null;
+  weekend: boolean;
+};
+
+export type StayQuote = {
+  nights: NightlyRate[];
+  total: number;
+  minStay: number;
+};
+
+// Friday and Saturday nights get the category's weekend uplift.
+const isWeekendNight = (night: Date) => {
+  const day = getDay(night);
+  return day === 5 || day === 6;
+};
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Price a stay night by night. A season covering the night replaces the category
+// base rate (the latest-starting season wins when they overlap). Returns null when
+// a night has no rate to charge, e.g. a category without a base rate.
+export function quoteStay(
+  category: RoomCategory,
+  seasons: RateSeason[],
+  checkIn: string,
+  checkOut: string,
+): StayQuote | null {
+  if (!checkIn || !checkOut || checkIn >= checkOut) return null;
+
+  const categorySeasons = seasons
+    .filter((s) => s.category_id === category.id)
+    .sort((a, b) => b.start_date.localeCompare(a.start_date));
+  const uplift = 1 + Number(category.weekend_uplift_pct ?? 0) / 100;
+
+  const nights: NightlyRate[] = [];
+  let minStay = category.min_stay ?? 1;
+
+  for (let night = parseISO(checkIn); format(night, "yyyy-MM-dd") < checkOut; night = addDays(night, 1)) {
+    const date = format(night, "yyyy-MM-dd");
+    const season = categorySeasons.find((s) => s.start_date <= date && s.end_date >= date);
+    const baseRate = season ? Number(season.nightly_rate) : category.base_rate;
+    if (baseRate === null || baseRate === undefined) return null;
+
+    const weekend = isWeekendNight(night);
+    nights.push({
+      date,
+      rate: roundCents(weekend ? Number(baseRate) * uplift : Number(baseRate)),
+      season: season?.name ?? null,
+      weekend,
+    });
+    if (season?.min_stay) minStay = Math.max(minStay, season.min_stay);
+  }
+
+  return {
+    nights,
+    total: roundCents(nights.reduce((sum, n) => sum + n.rate, 0)),
+    minStay,
+  };
+}
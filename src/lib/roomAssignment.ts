@@ -0,0 +1,132 @@
+import type { Booking, MaintenanceTicket, Room, RoomCategory } from "@/app/types";
+import { partySize } from "@/lib/party";
+import type { StayQuote } from "@/lib/rates";
+
+export type AssignmentPlanRow = {
+  booking: Booking;
+  roomId: string | null;
+  roomNumber: string | null;
+  total: number | null;
+  reason: string | null; // why the booking could not be placed
+};
+
+type AssignmentInput = {
+  unassigned: Booking[];
+  occupied: Booking[]; // assigned, non-cancelled stays overlapping the unassigned ones
+  rooms: Room[];
+  categories: RoomCategory[];
+  maintenance: MaintenanceTicket[]; // open tickets
+  quote: (roomId: string | null, checkIn: string, checkOut: string) => StayQuote | null;
+};
+
+type Stay = { room_id: string | null; check_in: string; check_out: string };
+
+const overlaps = (a: Stay, b: { check_in: string; check_out: string }) =>
+  a.check_in < b.check_out && a.check_out > b.check_in;
+
+const nights = (b: Booking) => (Date.parse(b.check_out) - Date.parse(b.check_in)) / 86_400_000;
+
+// Numeric floors sort as numbers ("2" before "10"); rooms without a floor go last.
+const floorRank = (floor: string | null) => {
+  if (!floor?.trim()) return Number.POSITIVE_INFINITY;
+  const numeric = Number(floor);
+  return Number.isNaN(numeric) ? Number.MAX_SAFE_INTEGER : numeric;
+};
+
+// Dry run: propose a room for each unassigned booking. A booking only ever gets one
+// room for its whole stay. Larger parties and then longer stays are placed first since
+// they are the hardest to fit. Rooms are tried from the smallest category that holds the party, then floor
+// by floor so occupancy stays packed together. Nothing is saved here.
+export function planRoomAssignment({
+  unassigned,
+  occupied,
+  rooms,
+  categories,
+  maintenance,
+  quote,
+}: AssignmentInput): AssignmentPlanRow[] {
+  const categoryById = new Map(categories.map((c) => [c.id, c]));
+  const taken: Stay[] = occupied.filter((b) => b.room_id && b.status !== "cancelled");
+  const blocks: Stay[] = maintenance
+    .filter((t) => t.status === "open")
+    .map((t) => ({ room_id: t.room_id, check_in: t.start_date, check_out: t.end_date }));
+
+  // A room set out of service by hand stays out; one closed by a ticket is only blocked for its dates
+  const candidates = rooms
+    .filter((r) => r.status !== "out_of_service" || blocks.some((b) => b.room_id === r.id))
+    .map((room) => {
+      const category = room.category_id ? categoryById.get(room.category_id) : undefined;
+      return { room, capacity: category?.capacity ?? null };
+    });
+
+  const ordered = [...unassigned].sort(
+    (a, b) =>
+      partySize(b) - partySize(a) ||
+      nights(b) - nights(a) ||
+      a.check_in.localeCompare(b.check_in) ||
+      a.guest_name.localeCompare(b.guest_name),
+  );
+
+  const planned = new Map<string, AssignmentPlanRow>();
+  for (const booking of ordered) {
+    const party = partySize(booking);
+    const fits = candidates
+      .filter(({ capacity }) => capacity === null || capacity >= party)
+      .sort(
+        (a, b) =>
+          (a.capacity ?? Number.MAX_SAFE_INTEGER) - (b.capacity ?? Number.MAX_SAFE_INTEGER) ||
+          floorRank(a.room.floor) - floorRank(b.room.floor) ||
+          a.room.number.localeCompare(b.room.number, undefined, { numeric: true }),
+      );
+
+    if (fits.length === 0) {
+      planned.set(booking.id, {
+        booking,
+        roomId: null,
+        roomNumber: null,
+        total: null,
+        reason: `No room category holds ${party} guest${party === 1 ? "" : "s"}.`,
+      });
+      continue;
+    }
+
+    let choice: (typeof fits)[number] | undefined;
+    let minStay: number | null = null;
+    for (const candidate of fits) {
+      const busy = [...taken, ...blocks].some((s) => s.room_id === candidate.room.id && overlaps(s, booking));
+      if (busy) continue;
+      const stayQuote = quote(candidate.room.id, booking.check_in, booking.check_out);
+      if (stayQuote && stayQuote.nights.length < stayQuote.minStay) {
+        minStay = stayQuote.minStay;
+        continue;
+      }
+      choice = candidate;
+      break;
+    }
+
+    if (!choice) {
+      planned.set(booking.id, {
+        booking,
+        roomId: null,
+        roomNumber: null,
+        total: null,
+        reason: minStay
+          ? `Free rooms require a minimum stay of ${minStay} nights.`
+          : "No suitable room is free for the whole stay.",
+      });
+      continue;
+    }
+
+    taken.push({ room_id: choice.room.id, check_in: booking.check_in, check_out: booking.check_out });
+    planned.set(booking.id, {
+      booking,
+      roomId: choice.room.id,
+      roomNumber: choice.room.number,
+      total: quote(choice.room.id, booking.check_in, booking.check_out)?.total ?? booking.total,
+      reason: null,
+    });
+  }
+
+  // Report in arrival order, whatever order they were placed in
+  return [...planned.values()].sort((a, b) => a.booking.check_in.localeCompare(b.booking.check_in));
+}
@@ -0,0 +1,111 @@
+// Minimal SMTP client: one message per connection, implicit TLS or STARTTLS, AUTH PLAIN. Enough for transactional mail through a relay
+// (SES, Postmark, Mailgun, a local Mailpit) without pulling in a mail library.
+import net from "node:net";
+import { hostname } from "node:os";
+import tls from "node:tls";
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte (port 465); otherwise STARTTLS when offered
+  requireTls: boolean; // refuse to send (or log in) over a plaintext connection
+  user: string | null;
+  password: string | null;
+};
+
+type Reply = { code: number; text: string };
+
+// Collects multi-line replies ("250-..." continues, "250 ..." ends) and hands them out in order.
+function replyReader(socket: net.Socket) {
+  let buffer = "";
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const replies: Reply[] = [];
+  const waiting: { resolve: (reply: Reply) => void; reject: (err: Error) => void }[] = [];
+
+  const fail = (err: Error) => {
+    failure ??= err;
+    waiting.splice(0).forEach((w) => w.reject(err));
+  };
+
+  socket.setEncoding("utf8");
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    for (let end = buffer.indexOf("\r\n"); end >= 0; end = buffer.indexOf("\r\n")) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      if (line[3] === "-") continue;
+      const reply = { code: Number(line.slice(0, 3)), text: lines.join("\n") };
+      lines = [];
+      const next = waiting.shift();
+      if (next) next.resolve(reply);
+      else replies.push(reply);
+    }
+  });
+  socket.on("error", fail);
+  socket.on("close", () => fail(new Error("SMTP server closed the connection.")));
+
+  return (): Promise<Reply> => {
+    const reply = replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+  };
+}
+
+// `message` is a complete RFC 5322 message with CRLF line endings.
+export async function sendSmtp(config: SmtpConfig, envelope: { from: string; to: string[] }, message: string) {
+  let socket: net.Socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port });
+  socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP server timed out.")));
+  let read = replyReader(socket);
+
+  const command = async (line: string | null, expected: number[]) => {
+    if (line !== null) socket.write(`${line}\r\n`);
+    const reply = await read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${reply.code}: ${reply.text.replace(/\n/g, " ")}`);
+    }
+    return reply;
+  };
+
+  try {
+    await command(null, [220]);
+    const ehlo = await command(`EHLO ${hostname()}`, [250]);
+
+    let encrypted = config.secure;
+    if (!config.secure && /^STARTTLS\b/im.test(ehlo.text)) {
+      await command("STARTTLS", [220]);
+      // The TLS socket reads the raw one from here on; its old error handler stays attached
+      socket.removeAllListeners("data");
+      socket.removeAllListeners("close");
+      socket = tls.connect({ socket, servername: config.host });
+      read = replyReader(socket);
+      await command(`EHLO ${hostname()}`, [250]);
+      encrypted = true;
+    }
+    if (!encrypted && config.requireTls) {
+      throw new Error("SMTP server does not offer STARTTLS; set SMTP_REQUIRE_TLS=false to send without encryption.");
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ""}`).toString("base64");
+      await command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await command(`MAIL FROM:<${envelope.from}>`, [250]);
+    for (const recipient of envelope.to) {
+      await command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await command("DATA", [354]);
+    // A line holding a single "." ends the data, so leading dots are doubled
+    await command(`${message.replace(/^\./gm, "..")}\r\n.`, [250]);
+    await command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    socket.end();
+  }
+}
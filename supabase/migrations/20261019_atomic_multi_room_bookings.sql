@@ -0,0 +1,191 @@
+-- Prevent double-booking at the database level and create multi-room bookings atomically
+create extension if not exists "btree_gist";
+
+-- One active booking per room per night. Cancelled rows and unassigned bookings are ignored.
+-- Existing overlapping rows must be resolved before this constraint can be added.
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'bookings_no_overlapping_stays'
+  ) then
+    alter table public.bookings
+      add constraint bookings_no_overlapping_stays
+      exclude using gist (
+        room_id with =,
+        daterange(check_in, check_out) with &&
+      )
+      where (status <> 'cancelled' and room_id is not null);
+  end if;
+end;
+$$;
+
+-- Describe active bookings that clash with a stay in any of the given rooms
+create or replace function public.booking_conflicts(
+  p_room_ids uuid[],
+  p_check_in date,
+  p_check_out date,
+  p_exclude_booking uuid default null
+)
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  select string_agg(
+    format('Room %s (%s → %s)', r.number, b.check_in, b.check_out),
+    ', '
+    order by r.number, b.check_in
+  )
+  from public.bookings b
+  join public.rooms r on r.id = b.room_id
+  where b.room_id = any(p_room_ids)
+    and b.status <> 'cancelled'
+    and b.check_in < p_check_out
+    and b.check_out > p_check_in
+    and (p_exclude_booking is null or b.id <> p_exclude_booking);
+$$;
+
+-- Raise if any of the rooms is taken for the stay. booking_conflicts() describes every
+-- clash, so anything else that blocks a room only has to extend that function.
+create or replace function public.assert_rooms_free(
+  p_room_ids uuid[],
+  p_check_in date,
+  p_check_out date
+)
+returns void
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_conflicts text;
+begin
+  v_conflicts := public.booking_conflicts(p_room_ids, p_check_in, p_check_out);
+  if v_conflicts is not null then
+    raise exception 'Already booked for those dates: %', v_conflicts
+      using errcode = 'exclusion_violation';
+  end if;
+end;
+$$;
+
+-- Insert one room's booking from a create_bookings request. Features that store more
+-- on a new booking redefine this rather than create_bookings.
+create or replace function public.insert_requested_booking(
+  p_property_id uuid,
+  p_room_id uuid,
+  p_request jsonb
+)
+returns public.bookings
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+begin
+  insert into public.bookings (
+    property_id,
+    room_id,
+    guest_name,
+    guest_email,
+    guest_passport,
+    second_guest_name,
+    second_guest_email,
+    second_guest_passport,
+    adults,
+    check_in,
+    check_out,
+    status,
+    auto_release_at,
+    notes,
+    created_by
+  )
+  values (
+    p_property_id,
+    p_room_id,
+    p_request->>'guest_name',
+    p_request->>'guest_email',
+    p_request->>'guest_passport',
+    p_request->>'second_guest_name',
+    p_request->>'second_guest_email',
+    p_request->>'second_guest_passport',
+    coalesce((p_request->>'adults')::int, 1),
+    (p_request->>'check_in')::date,
+    (p_request->>'check_out')::date,
+    coalesce(p_request->>'status', 'reserved'),
+    (p_request->>'auto_release_at')::timestamptz,
+    p_request->>'notes',
+    auth.uid()
+  )
+  returning * into v_booking;
+  return v_booking;
+end;
+$$;
+
+-- Hooks around the room loop: start_booking_request runs once before the first room and
+-- next_booking_request after each one, so a feature can add to the request (a party, a
+-- shared guest profile) without touching create_bookings. Both pass it through here.
+create or replace function public.start_booking_request(
+  p_property_id uuid,
+  p_room_ids uuid[],
+  p_request jsonb
+)
+returns jsonb
+language sql
+set search_path = public
+as $$
+  select p_request;
+$$;
+
+create or replace function public.next_booking_request(
+  p_request jsonb,
+  p_booking public.bookings
+)
+returns jsonb
+language sql
+set search_path = public
+as $$
+  select p_request;
+$$;
+
+-- Create one booking per room in a single transaction. Nothing is inserted if any room clashes.
+-- An empty room list creates a single unassigned booking.
+create or replace function public.create_bookings(
+  p_property_id uuid,
+  p_room_ids uuid[],
+  p_booking jsonb
+)
+returns setof public.bookings
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_check_in date := (p_booking->>'check_in')::date;
+  v_check_out date := (p_booking->>'check_out')::date;
+  v_room_ids uuid[] := coalesce(p_room_ids, '{}');
+  v_room_id uuid;
+  v_request jsonb;
+  v_booking public.bookings;
+  v_conflicts text;
+begin
+  perform public.assert_rooms_free(v_room_ids, v_check_in, v_check_out);
+
+  if cardinality(v_room_ids) = 0 then
+    v_room_ids := array[null::uuid];
+  end if;
+
+  begin
+    v_request := public.start_booking_request(p_property_id, v_room_ids, p_booking);
+    foreach v_room_id in array v_room_ids loop
+      v_booking := public.insert_requested_booking(p_property_id, v_room_id, v_request);
+      v_request := public.next_booking_request(v_request, v_booking);
+      return next v_booking;
+    end loop;
+  exception
+    -- Another session booked one of the rooms between our check and insert
+    when exclusion_violation then
+      v_conflicts := public.booking_conflicts(v_room_ids, v_check_in, v_check_out);
+      raise exception 'Already booked for those dates: %', coalesce(v_conflicts, 'one of the selected rooms')
+        using errcode = 'exclusion_violation';
+  end;
+end;
+$$;
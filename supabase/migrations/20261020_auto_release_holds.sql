@@ -0,0 +1,40 @@
+-- Allow auto-released holds in the activity log
+alter table public.booking_logs
+  drop constraint if exists booking_logs_action_check;
+
+alter table public.booking_logs
+  add constraint booking_logs_action_check
+  check (action in ('create', 'delete', 'update', 'auto_release'));
+
+-- Release expired tentative bookings and record each one in booking_logs
+create or replace function public.release_expired_holds()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with released as (
+    update public.bookings
+    set status = 'cancelled'
+    where status = 'tentative'
+      and auto_release_at < now()
+    returning id, property_id, room_id, guest_name, check_in, check_out, auto_release_at
+  )
+  insert into public.booking_logs (booking_id, property_id, action, performed_by, details)
+  select
+    r.id,
+    r.property_id,
+    'auto_release',
+    null,
+    jsonb_build_object(
+      'guest_name', r.guest_name,
+      'room_number', coalesce(rm.number, 'Unassigned'),
+      'check_in', r.check_in,
+      'check_out', r.check_out,
+      'auto_release_at', r.auto_release_at
+    )
+  from released r
+  left join public.rooms rm on rm.id = r.room_id;
+end;
+$$;
@@ -0,0 +1,157 @@
+-- Group bookings: rooms booked together belong to one party record
+create table if not exists public.booking_groups (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  name text not null,
+  notes text,
+  created_by uuid references public.user_profiles(id) on delete set null,
+  created_at timestamptz default now()
+);
+
+alter table if exists public.bookings
+  add column if not exists group_id uuid references public.booking_groups(id) on delete set null;
+
+create index if not exists idx_bookings_group on public.bookings(group_id);
+create index if not exists idx_booking_groups_property on public.booking_groups(property_id);
+
+alter table public.booking_groups enable row level security;
+
+drop policy if exists "Approved users manage booking groups" on public.booking_groups;
+create policy "Approved users manage booking groups"
+  on public.booking_groups
+  for all
+  using (property_is_owned(property_id))
+  with check (property_is_owned(property_id));
+
+-- Multi-room bookings now create a party record and link every room to it. The group id
+-- always comes from here, never from the caller's request.
+create or replace function public.start_booking_request(
+  p_property_id uuid,
+  p_room_ids uuid[],
+  p_request jsonb
+)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_group_id uuid;
+begin
+  if cardinality(p_room_ids) > 1 then
+    insert into public.booking_groups (property_id, name, created_by)
+    values (
+      p_property_id,
+      coalesce(nullif(trim(p_request->>'group_name'), ''), p_request->>'guest_name'),
+      auth.uid()
+    )
+    returning id into v_group_id;
+  end if;
+  return jsonb_set(p_request, '{group_id}', coalesce(to_jsonb(v_group_id), 'null'::jsonb));
+end;
+$$;
+
+create or replace function public.insert_requested_booking(
+  p_property_id uuid,
+  p_room_id uuid,
+  p_request jsonb
+)
+returns public.bookings
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+begin
+  insert into public.bookings (
+    property_id,
+    room_id,
+    group_id,
+    guest_name,
+    guest_email,
+    guest_passport,
+    second_guest_name,
+    second_guest_email,
+    second_guest_passport,
+    adults,
+    check_in,
+    check_out,
+    status,
+    auto_release_at,
+    notes,
+    created_by
+  )
+  values (
+    p_property_id,
+    p_room_id,
+    (p_request->>'group_id')::uuid,
+    p_request->>'guest_name',
+    p_request->>'guest_email',
+    p_request->>'guest_passport',
+    p_request->>'second_guest_name',
+    p_request->>'second_guest_email',
+    p_request->>'second_guest_passport',
+    coalesce((p_request->>'adults')::int, 1),
+    (p_request->>'check_in')::date,
+    (p_request->>'check_out')::date,
+    coalesce(p_request->>'status', 'reserved'),
+    (p_request->>'auto_release_at')::timestamptz,
+    p_request->>'notes',
+    auth.uid()
+  )
+  returning * into v_booking;
+  return v_booking;
+end;
+$$;
+
+-- Move every active room of a party to new dates, or none of them
+create or replace function public.reschedule_booking_group(
+  p_group_id uuid,
+  p_check_in date,
+  p_check_out date
+)
+returns setof public.bookings
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_conflicts text;
+begin
+  if p_check_out <= p_check_in then
+    raise exception 'Check-out date must be after check-in date.'
+      using errcode = 'check_violation';
+  end if;
+
+  select string_agg(
+    format('Room %s (%s → %s)', r.number, b.check_in, b.check_out),
+    ', '
+    order by r.number, b.check_in
+  )
+  into v_conflicts
+  from public.bookings b
+  join public.rooms r on r.id = b.room_id
+  where b.room_id in (
+      select g.room_id
+      from public.bookings g
+      where g.group_id = p_group_id
+        and g.status not in ('cancelled', 'checked_out')
+        and g.room_id is not null
+    )
+    and b.group_id is distinct from p_group_id
+    and b.status <> 'cancelled'
+    and b.check_in < p_check_out
+    and b.check_out > p_check_in;
+
+  if v_conflicts is not null then
+    raise exception 'Already booked for those dates: %', v_conflicts
+      using errcode = 'exclusion_violation';
+  end if;
+
+  return query
+    update public.bookings
+    set check_in = p_check_in,
+        check_out = p_check_out
+    where group_id = p_group_id
+      and status not in ('cancelled', 'checked_out')
+    returning *;
+end;
+$$;
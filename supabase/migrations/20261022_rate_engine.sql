@@ -0,0 +1,97 @@
+-- Rate engine: weekend uplift and minimum stay per category, plus seasonal rates
+alter table if exists public.room_categories
+  add column if not exists weekend_uplift_pct numeric(5, 2) not null default 0,
+  add column if not exists min_stay int not null default 1;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'room_categories_min_stay_check'
+  ) then
+    alter table public.room_categories
+      add constraint room_categories_min_stay_check check (min_stay >= 1);
+  end if;
+end;
+$$;
+
+-- Seasons override the category base rate for every night between start_date and end_date (inclusive)
+create table if not exists public.rate_seasons (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  category_id uuid not null references public.room_categories(id) on delete cascade,
+  name text not null,
+  start_date date not null,
+  end_date date not null,
+  nightly_rate numeric(10, 2) not null check (nightly_rate >= 0),
+  min_stay int check (min_stay >= 1),
+  created_at timestamptz default now(),
+  constraint rate_seasons_dates check (end_date >= start_date)
+);
+
+create index if not exists idx_rate_seasons_category on public.rate_seasons(category_id, start_date);
+
+alter table public.rate_seasons enable row level security;
+
+drop policy if exists "Approved users manage rate seasons" on public.rate_seasons;
+create policy "Approved users manage rate seasons"
+  on public.rate_seasons
+  for all
+  using (property_is_owned(property_id))
+  with check (property_is_owned(property_id));
+
+-- New bookings store the quoted total for their room, passed to create_bookings as
+-- p_booking.room_totals = { "<room_id>": 420.00, ... }
+create or replace function public.insert_requested_booking(
+  p_property_id uuid,
+  p_room_id uuid,
+  p_request jsonb
+)
+returns public.bookings
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+begin
+  insert into public.bookings (
+    property_id,
+    room_id,
+    group_id,
+    guest_name,
+    guest_email,
+    guest_passport,
+    second_guest_name,
+    second_guest_email,
+    second_guest_passport,
+    adults,
+    check_in,
+    check_out,
+    status,
+    auto_release_at,
+    total,
+    notes,
+    created_by
+  )
+  values (
+    p_property_id,
+    p_room_id,
+    (p_request->>'group_id')::uuid,
+    p_request->>'guest_name',
+    p_request->>'guest_email',
+    p_request->>'guest_passport',
+    p_request->>'second_guest_name',
+    p_request->>'second_guest_email',
+    p_request->>'second_guest_passport',
+    coalesce((p_request->>'adults')::int, 1),
+    (p_request->>'check_in')::date,
+    (p_request->>'check_out')::date,
+    coalesce(p_request->>'status', 'reserved'),
+    (p_request->>'auto_release_at')::timestamptz,
+    (p_request->'room_totals'->>p_room_id::text)::numeric,
+    p_request->>'notes',
+    auth.uid()
+  )
+  returning * into v_booking;
+  return v_booking;
+end;
+$$;
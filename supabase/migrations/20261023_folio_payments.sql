@@ -0,0 +1,68 @@
+-- Folio: extra charges posted to a booking on top of its room total
+create table if not exists public.folio_items (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  description text not null,
+  quantity int not null default 1 check (quantity > 0),
+  unit_amount numeric(10, 2) not null, -- negative for discounts
+  posted_on date not null default current_date,
+  created_by uuid references public.user_profiles(id) on delete set null,
+  created_at timestamptz default now()
+);
+
+-- Money received from (or returned to) the guest
+create table if not exists public.payments (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  kind text not null default 'payment' check (kind in ('deposit', 'payment', 'refund')),
+  method text not null default 'card' check (method in ('cash', 'card', 'bank_transfer', 'other')),
+  amount numeric(10, 2) not null check (amount > 0),
+  reference text,
+  received_at timestamptz not null default now(),
+  created_by uuid references public.user_profiles(id) on delete set null,
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_folio_items_booking on public.folio_items(booking_id);
+create index if not exists idx_payments_booking on public.payments(booking_id);
+
+alter table public.folio_items enable row level security;
+alter table public.payments enable row level security;
+
+drop policy if exists "Approved users manage folio items" on public.folio_items;
+create policy "Approved users manage folio items"
+  on public.folio_items
+  for all
+  using (property_is_owned(property_id))
+  with check (property_is_owned(property_id));
+
+drop policy if exists "Approved users manage payments" on public.payments;
+create policy "Approved users manage payments"
+  on public.payments
+  for all
+  using (property_is_owned(property_id))
+  with check (property_is_owned(property_id));
+
+-- Outstanding amount: room total + folio charges - deposits/payments + refunds.
+-- Runs with the caller's rights so RLS still applies.
+create or replace function public.booking_balance(p_booking_id uuid)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select
+    coalesce((select b.total from public.bookings b where b.id = p_booking_id), 0)
+    + coalesce((
+        select sum(f.quantity * f.unit_amount)
+        from public.folio_items f
+        where f.booking_id = p_booking_id
+      ), 0)
+    - coalesce((
+        select sum(case when p.kind = 'refund' then -p.amount else p.amount end)
+        from public.payments p
+        where p.booking_id = p_booking_id
+      ), 0);
+$$;
@@ -0,0 +1,78 @@
+-- Invoices: one per checked-out booking, numbered sequentially per property.
+-- Lines are snapshotted on first issue so reprints match the original.
+create table if not exists public.invoices (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  booking_id uuid not null unique references public.bookings(id) on delete cascade,
+  number int not null,
+  lines jsonb not null default '[]',
+  total numeric(10, 2) not null default 0,
+  amount_paid numeric(10, 2) not null default 0,
+  issued_at timestamptz not null default now(),
+  issued_by uuid references public.user_profiles(id) on delete set null,
+  unique (property_id, number)
+);
+
+create index if not exists idx_invoices_property on public.invoices(property_id, number);
+
+alter table public.invoices enable row level security;
+
+drop policy if exists "Approved users manage invoices" on public.invoices;
+create policy "Approved users manage invoices"
+  on public.invoices
+  for all
+  using (property_is_owned(property_id))
+  with check (property_is_owned(property_id));
+
+-- Return the booking's invoice, issuing the next number for its property the first time
+create or replace function public.issue_invoice(
+  p_booking_id uuid,
+  p_lines jsonb,
+  p_amount_paid numeric
+)
+returns public.invoices
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+  v_invoice public.invoices;
+begin
+  select * into v_invoice from public.invoices where booking_id = p_booking_id;
+  if found then
+    return v_invoice;
+  end if;
+
+  select * into v_booking from public.bookings where id = p_booking_id;
+  if not found then
+    raise exception 'Booking not found.' using errcode = 'no_data_found';
+  end if;
+  if v_booking.status <> 'checked_out' then
+    raise exception 'Invoices can only be issued once the guest has checked out.'
+      using errcode = 'check_violation';
+  end if;
+
+  -- Serialise numbering per property so two invoices never share a number
+  perform pg_advisory_xact_lock(hashtext('invoices:' || v_booking.property_id::text));
+
+  insert into public.invoices (property_id, booking_id, number, lines, total, amount_paid, issued_by)
+  values (
+    v_booking.property_id,
+    p_booking_id,
+    coalesce((select max(number) from public.invoices where property_id = v_booking.property_id), 0) + 1,
+    coalesce(p_lines, '[]'),
+    coalesce((select sum((l->>'amount')::numeric) from jsonb_array_elements(coalesce(p_lines, '[]')) l), 0),
+    coalesce(p_amount_paid, 0),
+    auth.uid()
+  )
+  on conflict (booking_id) do nothing
+  returning * into v_invoice;
+
+  -- Another session issued it first
+  if v_invoice.id is null then
+    select * into v_invoice from public.invoices where booking_id = p_booking_id;
+  end if;
+
+  return v_invoice;
+end;
+$$;
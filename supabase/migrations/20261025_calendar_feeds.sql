@@ -0,0 +1,36 @@
+-- Calendar feeds: a per-property secret token lets calendar apps subscribe to
+-- /api/properties/<id>/calendar.ics without a session. Null means the feed is off.
+alter table public.properties
+  add column if not exists calendar_token text;
+
+create unique index if not exists idx_properties_calendar_token
+  on public.properties(calendar_token)
+  where calendar_token is not null;
+
+-- Issue a fresh token (invalidating any previous subscription URL), or clear it to revoke
+create or replace function public.rotate_calendar_token(
+  p_property_id uuid,
+  p_revoke boolean default false
+)
+returns text
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_token text;
+begin
+  if not p_revoke then
+    v_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+  end if;
+
+  update public.properties
+  set calendar_token = v_token
+  where id = p_property_id;
+
+  if not found then
+    raise exception 'Property not found.' using errcode = 'no_data_found';
+  end if;
+
+  return v_token;
+end;
+$$;
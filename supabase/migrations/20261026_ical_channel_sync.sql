@@ -0,0 +1,247 @@
+-- Channel iCal sync: rooms listed on OTAs (Airbnb, Booking.com, ...) pull the channel's
+-- iCal export and mirror each stay as a blocking booking tagged with its source.
+create table if not exists public.room_ical_feeds (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  room_id uuid not null references public.rooms(id) on delete cascade,
+  channel text not null default 'other'
+    check (channel in ('airbnb', 'booking_com', 'vrbo', 'expedia', 'other')),
+  url text not null,
+  last_synced_at timestamptz,
+  last_error text,
+  created_at timestamptz not null default now(),
+  unique (room_id, url)
+);
+
+create index if not exists idx_room_ical_feeds_property on public.room_ical_feeds(property_id);
+
+alter table public.room_ical_feeds enable row level security;
+
+drop policy if exists "Approved users manage room ical feeds" on public.room_ical_feeds;
+create policy "Approved users manage room ical feeds"
+  on public.room_ical_feeds
+  for all
+  using (property_is_owned(property_id))
+  with check (property_is_owned(property_id));
+
+-- Where a booking came from. Synced stays remember their feed and the event UID so
+-- later syncs update them in place instead of duplicating them.
+alter table public.bookings
+  add column if not exists source text not null default 'direct',
+  add column if not exists feed_id uuid references public.room_ical_feeds(id) on delete set null,
+  add column if not exists external_uid text;
+
+alter table public.bookings
+  drop constraint if exists bookings_source_check;
+
+alter table public.bookings
+  add constraint bookings_source_check
+  check (source in ('direct', 'airbnb', 'booking_com', 'vrbo', 'expedia', 'other'));
+
+create unique index if not exists idx_bookings_feed_event
+  on public.bookings(feed_id, external_uid)
+  where feed_id is not null;
+
+-- Channel stays that could not be applied because the room is already booked.
+-- Rebuilt on every sync of the feed, so resolved clashes disappear on their own.
+create table if not exists public.ical_conflicts (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  feed_id uuid not null references public.room_ical_feeds(id) on delete cascade,
+  room_id uuid not null references public.rooms(id) on delete cascade,
+  external_uid text not null,
+  summary text not null,
+  check_in date not null,
+  check_out date not null,
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  booking_guest_name text not null,
+  booking_check_in date not null,
+  booking_check_out date not null,
+  detected_at timestamptz not null default now(),
+  unique (feed_id, external_uid)
+);
+
+create index if not exists idx_ical_conflicts_property on public.ical_conflicts(property_id, check_in);
+
+alter table public.ical_conflicts enable row level security;
+
+drop policy if exists "Approved users manage ical conflicts" on public.ical_conflicts;
+create policy "Approved users manage ical conflicts"
+  on public.ical_conflicts
+  for all
+  using (property_is_owned(property_id))
+  with check (property_is_owned(property_id));
+
+-- Apply one feed's events ([{ uid, summary, check_in, check_out }]) to its room.
+-- New stays become reserved bookings, moved stays are updated, and future stays that
+-- disappeared from the feed are cancelled. A stay that overlaps any other booking is
+-- recorded in ical_conflicts and left for staff to resolve; nothing is overwritten.
+create or replace function public.sync_ical_feed(
+  p_feed_id uuid,
+  p_events jsonb
+)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_feed public.room_ical_feeds;
+  v_room_number text;
+  v_event jsonb;
+  v_uid text;
+  v_summary text;
+  v_check_in date;
+  v_check_out date;
+  v_existing public.bookings;
+  v_clash public.bookings;
+  v_uids text[] := '{}';
+  v_created int := 0;
+  v_updated int := 0;
+  v_cancelled int := 0;
+  v_conflicts int := 0;
+begin
+  select * into v_feed from public.room_ical_feeds where id = p_feed_id;
+  if not found then
+    raise exception 'Feed not found.' using errcode = 'no_data_found';
+  end if;
+
+  select number into v_room_number from public.rooms where id = v_feed.room_id;
+
+  delete from public.ical_conflicts where feed_id = p_feed_id;
+
+  for v_event in select * from jsonb_array_elements(coalesce(p_events, '[]')) loop
+    v_uid := v_event->>'uid';
+    v_summary := v_event->>'summary';
+    v_check_in := (v_event->>'check_in')::date;
+    v_check_out := (v_event->>'check_out')::date;
+    v_uids := v_uids || v_uid;
+
+    -- Past stays are history; leave them as they are
+    continue when v_check_out <= current_date or v_check_out <= v_check_in;
+
+    select * into v_existing
+    from public.bookings
+    where feed_id = p_feed_id and external_uid = v_uid;
+
+    select * into v_clash
+    from public.bookings b
+    where b.room_id = v_feed.room_id
+      and b.status <> 'cancelled'
+      and b.check_in < v_check_out
+      and b.check_out > v_check_in
+      and b.id is distinct from v_existing.id
+    order by b.check_in
+    limit 1;
+
+    if v_clash.id is not null then
+      insert into public.ical_conflicts (
+        property_id, feed_id, room_id, external_uid, summary, check_in, check_out,
+        booking_id, booking_guest_name, booking_check_in, booking_check_out
+      )
+      values (
+        v_feed.property_id, p_feed_id, v_feed.room_id, v_uid, v_summary, v_check_in, v_check_out,
+        v_clash.id, v_clash.guest_name, v_clash.check_in, v_clash.check_out
+      )
+      -- Recurring or split events can repeat a UID; the first clash is enough to resolve
+      on conflict (feed_id, external_uid) do nothing;
+      if found then
+        v_conflicts := v_conflicts + 1;
+      end if;
+      continue;
+    end if;
+
+    if v_existing.id is null then
+      insert into public.bookings (
+        property_id, room_id, guest_name, check_in, check_out, status,
+        source, feed_id, external_uid, created_by
+      )
+      values (
+        v_feed.property_id, v_feed.room_id, v_summary, v_check_in, v_check_out, 'reserved',
+        v_feed.channel, p_feed_id, v_uid, auth.uid()
+      )
+      returning * into v_existing;
+
+      insert into public.booking_logs (booking_id, property_id, action, performed_by, details)
+      values (
+        v_existing.id,
+        v_feed.property_id,
+        'create',
+        auth.uid(),
+        jsonb_build_object(
+          'guest_name', v_summary,
+          'room_number', coalesce(v_room_number, 'Unassigned'),
+          'check_in', v_check_in,
+          'check_out', v_check_out,
+          'source', v_feed.channel
+        )
+      );
+      v_created := v_created + 1;
+    elsif v_existing.check_in <> v_check_in
+      or v_existing.check_out <> v_check_out
+      or v_existing.guest_name <> v_summary
+      or v_existing.status = 'cancelled' then
+      update public.bookings
+      set check_in = v_check_in,
+          check_out = v_check_out,
+          guest_name = v_summary,
+          status = case when status = 'cancelled' then 'reserved' else status end
+      where id = v_existing.id;
+
+      insert into public.booking_logs (booking_id, property_id, action, performed_by, details)
+      values (
+        v_existing.id,
+        v_feed.property_id,
+        'update',
+        auth.uid(),
+        jsonb_build_object(
+          'guest_name', v_summary,
+          'room_number', coalesce(v_room_number, 'Unassigned'),
+          'check_in', v_check_in,
+          'check_out', v_check_out,
+          'source', v_feed.channel
+        )
+      );
+      v_updated := v_updated + 1;
+    end if;
+  end loop;
+
+  -- Upcoming stays no longer in the feed were cancelled on the channel
+  with cancelled as (
+    update public.bookings
+    set status = 'cancelled'
+    where feed_id = p_feed_id
+      and status in ('tentative', 'reserved')
+      and check_out > current_date
+      and not (external_uid = any(v_uids))
+    returning id, guest_name, check_in, check_out
+  )
+  insert into public.booking_logs (booking_id, property_id, action, performed_by, details)
+  select
+    c.id,
+    v_feed.property_id,
+    'update',
+    auth.uid(),
+    jsonb_build_object(
+      'guest_name', c.guest_name,
+      'room_number', coalesce(v_room_number, 'Unassigned'),
+      'check_in', c.check_in,
+      'check_out', c.check_out,
+      'status', 'cancelled',
+      'source', v_feed.channel
+    )
+  from cancelled c;
+  get diagnostics v_cancelled = row_count;
+
+  update public.room_ical_feeds
+  set last_synced_at = now(),
+      last_error = null
+  where id = p_feed_id;
+
+  return jsonb_build_object(
+    'created', v_created,
+    'updated', v_updated,
+    'cancelled', v_cancelled,
+    'conflicts', v_conflicts
+  );
+end;
+$$;
@@ -0,0 +1,124 @@
+-- Housekeeping: cleaning tasks driven by checkouts, plus daily stay-over service
+create table if not exists public.housekeeping_tasks (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  room_id uuid not null references public.rooms(id) on delete cascade,
+  booking_id uuid references public.bookings(id) on delete set null,
+  kind text not null check (kind in ('checkout', 'stayover')),
+  status text not null default 'open' check (status in ('open', 'in_progress', 'done')),
+  due_date date not null default current_date,
+  notes text,
+  assigned_to uuid references public.user_profiles(id) on delete set null,
+  claimed_at timestamptz,
+  completed_at timestamptz,
+  completed_by uuid references public.user_profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- One task of each kind per booking per day, so generating twice is harmless
+create unique index if not exists idx_housekeeping_tasks_booking_day
+  on public.housekeeping_tasks(booking_id, kind, due_date)
+  where booking_id is not null;
+
+create index if not exists idx_housekeeping_tasks_property_status
+  on public.housekeeping_tasks(property_id, status, due_date);
+
+alter table public.housekeeping_tasks enable row level security;
+
+drop policy if exists "Approved users manage housekeeping tasks" on public.housekeeping_tasks;
+create policy "Approved users manage housekeeping tasks"
+  on public.housekeeping_tasks
+  for all
+  using (property_is_owned(property_id))
+  with check (property_is_owned(property_id));
+
+-- Checking a guest out leaves the room dirty and queues its cleaning, whichever
+-- screen the status change came from. Rooms already out of service keep that status.
+create or replace function public.queue_checkout_cleaning()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status = 'checked_out'
+    and old.status is distinct from 'checked_out'
+    and new.room_id is not null then
+    update public.rooms
+    set status = 'dirty'
+    where id = new.room_id and status <> 'out_of_service';
+
+    insert into public.housekeeping_tasks (property_id, room_id, booking_id, kind, due_date)
+    values (new.property_id, new.room_id, new.id, 'checkout', current_date)
+    on conflict do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_queue_checkout_cleaning on public.bookings;
+create trigger bookings_queue_checkout_cleaning
+  after update of status on public.bookings
+  for each row
+  execute function public.queue_checkout_cleaning();
+
+-- Finish a task. The room goes back to available once its last checkout clean is done.
+create or replace function public.complete_housekeeping_task(p_task_id uuid)
+returns public.housekeeping_tasks
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_task public.housekeeping_tasks;
+begin
+  update public.housekeeping_tasks
+  set status = 'done',
+      completed_at = now(),
+      completed_by = auth.uid(),
+      assigned_to = coalesce(assigned_to, auth.uid())
+  where id = p_task_id and status <> 'done'
+  returning * into v_task;
+
+  if not found then
+    raise exception 'Task not found or already completed.' using errcode = 'no_data_found';
+  end if;
+
+  if v_task.kind = 'checkout' and not exists (
+    select 1 from public.housekeeping_tasks
+    where room_id = v_task.room_id and kind = 'checkout' and status <> 'done'
+  ) then
+    update public.rooms
+    set status = 'available'
+    where id = v_task.room_id and status = 'dirty';
+  end if;
+
+  return v_task;
+end;
+$$;
+
+-- Queue a stay-over service for every checked-in guest who is staying on through
+-- p_date: arrived before it and not leaving on it (departures get a checkout clean).
+create or replace function public.generate_stayover_tasks(
+  p_property_id uuid default null,
+  p_date date default current_date
+)
+returns int
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_count int;
+begin
+  insert into public.housekeeping_tasks (property_id, room_id, booking_id, kind, due_date)
+  select b.property_id, b.room_id, b.id, 'stayover', p_date
+  from public.bookings b
+  where b.status = 'checked_in'
+    and b.room_id is not null
+    and b.check_in < p_date
+    and b.check_out > p_date
+    and (p_property_id is null or b.property_id = p_property_id)
+  on conflict do nothing;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
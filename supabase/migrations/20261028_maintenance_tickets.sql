@@ -0,0 +1,105 @@
+-- Maintenance tickets: take a room out of service for a date range, with a reason
+create table if not exists public.maintenance_tickets (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  room_id uuid not null references public.rooms(id) on delete cascade,
+  start_date date not null,
+  end_date date not null, -- exclusive, like a check-out date
+  reason text not null,
+  priority text not null default 'normal' check (priority in ('low', 'normal', 'high', 'urgent')),
+  status text not null default 'open' check (status in ('open', 'closed')),
+  created_by uuid references public.user_profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  closed_at timestamptz,
+  closed_by uuid references public.user_profiles(id) on delete set null,
+  check (end_date > start_date)
+);
+
+create index if not exists idx_maintenance_tickets_room_dates
+  on public.maintenance_tickets(room_id, start_date, end_date)
+  where status = 'open';
+
+create index if not exists idx_maintenance_tickets_property
+  on public.maintenance_tickets(property_id, status, start_date);
+
+alter table public.maintenance_tickets enable row level security;
+
+drop policy if exists "Approved users manage maintenance tickets" on public.maintenance_tickets;
+create policy "Approved users manage maintenance tickets"
+  on public.maintenance_tickets
+  for all
+  using (property_is_owned(property_id))
+  with check (property_is_owned(property_id));
+
+-- Keep rooms.status in line with today's tickets: an open ticket covering today puts the
+-- room out of service, and closing, moving or deleting that ticket puts it back.
+create or replace function public.apply_maintenance_room_status()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_room_id uuid := coalesce(new.room_id, old.room_id);
+begin
+  if exists (
+    select 1 from public.maintenance_tickets
+    where room_id = v_room_id
+      and status = 'open'
+      and start_date <= current_date
+      and end_date > current_date
+  ) then
+    update public.rooms
+    set status = 'out_of_service'
+    where id = v_room_id and status <> 'out_of_service';
+  elsif tg_op <> 'INSERT'
+    and old.status = 'open'
+    and old.start_date <= current_date
+    and old.end_date > current_date then
+    update public.rooms
+    set status = 'available'
+    where id = v_room_id and status = 'out_of_service';
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists maintenance_tickets_room_status on public.maintenance_tickets;
+create trigger maintenance_tickets_room_status
+  after insert or update or delete on public.maintenance_tickets
+  for each row
+  execute function public.apply_maintenance_room_status();
+
+-- Open maintenance blocks a room just like a booking does
+create or replace function public.booking_conflicts(
+  p_room_ids uuid[],
+  p_check_in date,
+  p_check_out date,
+  p_exclude_booking uuid default null
+)
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  select string_agg(c.description, ', ' order by c.room_number, c.starts)
+  from (
+    select r.number as room_number, b.check_in as starts,
+      format('Room %s (%s → %s)', r.number, b.check_in, b.check_out) as description
+    from public.bookings b
+    join public.rooms r on r.id = b.room_id
+    where b.room_id = any(p_room_ids)
+      and b.status <> 'cancelled'
+      and b.check_in < p_check_out
+      and b.check_out > p_check_in
+      and (p_exclude_booking is null or b.id <> p_exclude_booking)
+    union all
+    select r.number, t.start_date,
+      format('Room %s (maintenance %s → %s: %s)', r.number, t.start_date, t.end_date, t.reason)
+    from public.maintenance_tickets t
+    join public.rooms r on r.id = t.room_id
+    where t.room_id = any(p_room_ids)
+      and t.status = 'open'
+      and t.start_date < p_check_out
+      and t.end_date > p_check_in
+  ) c;
+$$;
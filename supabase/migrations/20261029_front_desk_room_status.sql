@@ -0,0 +1,24 @@
+-- Front desk: checking a guest in marks their room occupied. Checking out already
+-- marks it dirty (see queue_checkout_cleaning). Rooms out of service keep that status.
+create or replace function public.mark_room_occupied()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status = 'checked_in'
+    and old.status is distinct from 'checked_in'
+    and new.room_id is not null then
+    update public.rooms
+    set status = 'occupied'
+    where id = new.room_id and status <> 'out_of_service';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_mark_room_occupied on public.bookings;
+create trigger bookings_mark_room_occupied
+  after update of status on public.bookings
+  for each row
+  execute function public.mark_room_occupied();
@@ -0,0 +1,215 @@
+-- Guest profiles: one row per person, linked from their bookings so repeat stays add up
+create table if not exists public.guests (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  full_name text not null,
+  email text,
+  passport text,
+  phone text,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_guests_property_email on public.guests(property_id, lower(email));
+create index if not exists idx_guests_property_passport on public.guests(property_id, upper(passport));
+create index if not exists idx_guests_property_name on public.guests(property_id, lower(full_name));
+
+alter table public.guests enable row level security;
+
+drop policy if exists "Approved users manage guests" on public.guests;
+create policy "Approved users manage guests"
+  on public.guests
+  for all
+  using (property_is_owned(property_id))
+  with check (property_is_owned(property_id));
+
+alter table public.bookings
+  add column if not exists guest_id uuid references public.guests(id) on delete set null;
+
+create index if not exists idx_bookings_guest on public.bookings(guest_id, check_in);
+
+-- Link a booking to its guest whichever path created it (dialog, import, channel sync).
+-- An existing guest is matched by email, then passport; otherwise a new profile is made.
+-- Channel stays without contact details ("Reserved", "Airbnb booking") stay unlinked.
+create or replace function public.link_booking_guest()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_email text := nullif(lower(trim(new.guest_email)), '');
+  v_passport text := nullif(upper(trim(new.guest_passport)), '');
+  v_guest_id uuid;
+begin
+  if new.guest_id is not null or nullif(trim(new.guest_name), '') is null then
+    return new;
+  end if;
+  if new.source <> 'direct' and v_email is null and v_passport is null then
+    return new;
+  end if;
+
+  select id into v_guest_id
+  from public.guests
+  where property_id = new.property_id
+    and (lower(email) = v_email or upper(passport) = v_passport)
+  order by (lower(email) = v_email) desc nulls last, created_at
+  limit 1;
+
+  if v_guest_id is null then
+    insert into public.guests (property_id, full_name, email, passport)
+    values (new.property_id, trim(new.guest_name), nullif(trim(new.guest_email), ''), nullif(trim(new.guest_passport), ''))
+    returning id into v_guest_id;
+  else
+    -- Fill in contact details the profile was missing
+    update public.guests
+    set email = coalesce(email, nullif(trim(new.guest_email), '')),
+        passport = coalesce(passport, nullif(trim(new.guest_passport), ''))
+    where id = v_guest_id;
+  end if;
+
+  new.guest_id := v_guest_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_link_guest on public.bookings;
+create trigger bookings_link_guest
+  before insert or update of guest_name, guest_email, guest_passport, guest_id on public.bookings
+  for each row
+  execute function public.link_booking_guest();
+
+-- Backfill: touching guest_name runs the trigger for each existing booking. Oldest first,
+-- so the earliest spelling of a name becomes the profile name.
+do $$
+declare
+  v_booking_id uuid;
+begin
+  for v_booking_id in
+    select id from public.bookings where guest_id is null order by created_at, id
+  loop
+    update public.bookings set guest_name = guest_name where id = v_booking_id;
+  end loop;
+end;
+$$;
+
+-- Fold duplicate profiles into p_keep: their bookings move over, missing contact details
+-- are filled from the duplicates (oldest first), and the duplicates are deleted.
+create or replace function public.merge_guests(p_keep uuid, p_merge uuid[])
+returns public.guests
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_keep public.guests;
+  v_merge uuid[] := array_remove(coalesce(p_merge, '{}'), p_keep);
+begin
+  select * into v_keep from public.guests where id = p_keep;
+  if not found then
+    raise exception 'Guest not found.' using errcode = 'no_data_found';
+  end if;
+
+  if exists (
+    select 1 from public.guests
+    where id = any(v_merge) and property_id <> v_keep.property_id
+  ) then
+    raise exception 'Guests from different properties cannot be merged.';
+  end if;
+
+  update public.bookings set guest_id = p_keep where guest_id = any(v_merge);
+
+  update public.guests g
+  set email = coalesce(g.email, d.email),
+      passport = coalesce(g.passport, d.passport),
+      phone = coalesce(g.phone, d.phone),
+      notes = nullif(concat_ws(E'\n', g.notes, d.notes), '')
+  from (
+    select
+      (array_agg(email order by created_at) filter (where email is not null))[1] as email,
+      (array_agg(passport order by created_at) filter (where passport is not null))[1] as passport,
+      (array_agg(phone order by created_at) filter (where phone is not null))[1] as phone,
+      string_agg(notes, E'\n' order by created_at) as notes
+    from public.guests
+    where id = any(v_merge)
+  ) d
+  where g.id = p_keep
+  returning g.* into v_keep;
+
+  delete from public.guests where id = any(v_merge);
+
+  return v_keep;
+end;
+$$;
+
+-- New bookings take an explicitly chosen guest profile (p_booking.guest_id). Every room
+-- of a party shares the profile linked to the first one.
+create or replace function public.insert_requested_booking(
+  p_property_id uuid,
+  p_room_id uuid,
+  p_request jsonb
+)
+returns public.bookings
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+begin
+  insert into public.bookings (
+    property_id,
+    room_id,
+    group_id,
+    guest_id,
+    guest_name,
+    guest_email,
+    guest_passport,
+    second_guest_name,
+    second_guest_email,
+    second_guest_passport,
+    adults,
+    check_in,
+    check_out,
+    status,
+    auto_release_at,
+    total,
+    notes,
+    created_by
+  )
+  values (
+    p_property_id,
+    p_room_id,
+    (p_request->>'group_id')::uuid,
+    (p_request->>'guest_id')::uuid,
+    p_request->>'guest_name',
+    p_request->>'guest_email',
+    p_request->>'guest_passport',
+    p_request->>'second_guest_name',
+    p_request->>'second_guest_email',
+    p_request->>'second_guest_passport',
+    coalesce((p_request->>'adults')::int, 1),
+    (p_request->>'check_in')::date,
+    (p_request->>'check_out')::date,
+    coalesce(p_request->>'status', 'reserved'),
+    (p_request->>'auto_release_at')::timestamptz,
+    (p_request->'room_totals'->>p_room_id::text)::numeric,
+    p_request->>'notes',
+    auth.uid()
+  )
+  returning * into v_booking;
+  return v_booking;
+end;
+$$;
+
+create or replace function public.next_booking_request(
+  p_request jsonb,
+  p_booking public.bookings
+)
+returns jsonb
+language sql
+set search_path = public
+as $$
+  select jsonb_set(
+    p_request,
+    '{guest_id}',
+    coalesce(to_jsonb(coalesce((p_request->>'guest_id')::uuid, p_booking.guest_id)), 'null'::jsonb)
+  );
+$$;
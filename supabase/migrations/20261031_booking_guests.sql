@@ -0,0 +1,190 @@
+-- Everyone staying on a booking besides the primary guest, adults and children alike.
+-- Replaces the fixed second_guest_* columns; bookings.adults/children become counts kept
+-- in sync from this table (adults includes the primary guest).
+create table if not exists public.booking_guests (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  full_name text not null,
+  age_group text not null default 'adult' check (age_group in ('adult', 'child')),
+  email text,
+  document_type text check (document_type in ('passport', 'national_id', 'driving_licence', 'other')),
+  document_number text,
+  position int not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_booking_guests_booking on public.booking_guests(booking_id, position);
+create index if not exists idx_booking_guests_property_name on public.booking_guests(property_id, lower(full_name));
+
+alter table public.booking_guests enable row level security;
+
+drop policy if exists "Approved users manage booking guests" on public.booking_guests;
+create policy "Approved users manage booking guests"
+  on public.booking_guests
+  for all
+  using (property_is_owned(property_id))
+  with check (property_is_owned(property_id));
+
+create or replace function public.sync_booking_party_size()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_booking_id uuid;
+begin
+  foreach v_booking_id in array array_remove(array[old.booking_id, new.booking_id], null) loop
+    update public.bookings b
+    set adults = 1 + (select count(*) from public.booking_guests g where g.booking_id = b.id and g.age_group = 'adult'),
+        children = (select count(*) from public.booking_guests g where g.booking_id = b.id and g.age_group = 'child')
+    where b.id = v_booking_id;
+  end loop;
+  return null;
+end;
+$$;
+
+drop trigger if exists booking_guests_sync_party_size on public.booking_guests;
+create trigger booking_guests_sync_party_size
+  after insert or update or delete on public.booking_guests
+  for each row
+  execute function public.sync_booking_party_size();
+
+-- Move the old second guest over, then retire the fixed columns
+insert into public.booking_guests (property_id, booking_id, full_name, email, document_type, document_number)
+select
+  property_id,
+  id,
+  coalesce(nullif(trim(second_guest_name), ''), 'Second guest'),
+  nullif(trim(second_guest_email), ''),
+  case when nullif(trim(second_guest_passport), '') is not null then 'passport' end,
+  nullif(trim(second_guest_passport), '')
+from public.bookings
+where coalesce(trim(second_guest_name), '') <> ''
+   or coalesce(trim(second_guest_email), '') <> ''
+   or coalesce(trim(second_guest_passport), '') <> '';
+
+update public.bookings b
+set adults = 1 + (select count(*) from public.booking_guests g where g.booking_id = b.id and g.age_group = 'adult'),
+    children = (select count(*) from public.booking_guests g where g.booking_id = b.id and g.age_group = 'child');
+
+alter table public.bookings
+  drop column if exists second_guest_name,
+  drop column if exists second_guest_email,
+  drop column if exists second_guest_passport;
+
+-- Replace a booking's occupant list in one go. p_guests is an array of
+-- { full_name, age_group, email, document_type, document_number } in display order.
+create or replace function public.set_booking_guests(p_booking_id uuid, p_guests jsonb)
+returns setof public.booking_guests
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_property_id uuid;
+begin
+  select property_id into v_property_id from public.bookings where id = p_booking_id;
+  if not found then
+    raise exception 'Booking not found.' using errcode = 'no_data_found';
+  end if;
+
+  delete from public.booking_guests where booking_id = p_booking_id;
+
+  return query
+  insert into public.booking_guests (
+    property_id,
+    booking_id,
+    full_name,
+    age_group,
+    email,
+    document_type,
+    document_number,
+    position
+  )
+  select
+    v_property_id,
+    p_booking_id,
+    trim(g.value->>'full_name'),
+    coalesce(g.value->>'age_group', 'adult'),
+    nullif(trim(g.value->>'email'), ''),
+    nullif(g.value->>'document_type', ''),
+    nullif(trim(g.value->>'document_number'), ''),
+    g.ordinality::int
+  from jsonb_array_elements(coalesce(p_guests, '[]'::jsonb)) with ordinality as g(value, ordinality)
+  where nullif(trim(g.value->>'full_name'), '') is not null
+  returning *;
+end;
+$$;
+
+-- New bookings no longer carry second guest columns. The occupant list belongs to the
+-- party as a whole, so it is stored once, on the first room's booking.
+create or replace function public.insert_requested_booking(
+  p_property_id uuid,
+  p_room_id uuid,
+  p_request jsonb
+)
+returns public.bookings
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+begin
+  insert into public.bookings (
+    property_id,
+    room_id,
+    group_id,
+    guest_id,
+    guest_name,
+    guest_email,
+    guest_passport,
+    check_in,
+    check_out,
+    status,
+    auto_release_at,
+    total,
+    notes,
+    created_by
+  )
+  values (
+    p_property_id,
+    p_room_id,
+    (p_request->>'group_id')::uuid,
+    (p_request->>'guest_id')::uuid,
+    p_request->>'guest_name',
+    p_request->>'guest_email',
+    p_request->>'guest_passport',
+    (p_request->>'check_in')::date,
+    (p_request->>'check_out')::date,
+    coalesce(p_request->>'status', 'reserved'),
+    (p_request->>'auto_release_at')::timestamptz,
+    (p_request->'room_totals'->>p_room_id::text)::numeric,
+    p_request->>'notes',
+    auth.uid()
+  )
+  returning * into v_booking;
+
+  -- adults/children are recounted from the list
+  if jsonb_array_length(coalesce(p_request->'occupants', '[]'::jsonb)) > 0 then
+    perform public.set_booking_guests(v_booking.id, p_request->'occupants');
+    select * into v_booking from public.bookings where id = v_booking.id;
+  end if;
+  return v_booking;
+end;
+$$;
+
+-- Later rooms of the party share the first one's guest profile but not its occupants
+create or replace function public.next_booking_request(
+  p_request jsonb,
+  p_booking public.bookings
+)
+returns jsonb
+language sql
+set search_path = public
+as $$
+  select jsonb_set(
+    p_request - 'occupants',
+    '{guest_id}',
+    coalesce(to_jsonb(coalesce((p_request->>'guest_id')::uuid, p_booking.guest_id)), 'null'::jsonb)
+  );
+$$;
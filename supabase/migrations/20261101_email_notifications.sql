@@ -0,0 +1,49 @@
+-- Guest emails for booking lifecycle events. Each property can override the subject and
+-- body per event (the app falls back to built-in wording), and every attempt is logged.
+create table if not exists public.email_templates (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  event text not null check (event in ('booking_created', 'booking_confirmed', 'booking_changed', 'booking_cancelled')),
+  subject text not null,
+  body text not null,
+  enabled boolean not null default true,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users(id) on delete set null,
+  unique (property_id, event)
+);
+
+alter table public.email_templates enable row level security;
+
+drop policy if exists "Approved users manage email templates" on public.email_templates;
+create policy "Approved users manage email templates"
+  on public.email_templates
+  for all
+  using (property_is_owned(property_id))
+  with check (property_is_owned(property_id));
+
+create table if not exists public.email_log (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  booking_id uuid references public.bookings(id) on delete set null,
+  event text not null,
+  recipient text,
+  subject text,
+  body text,
+  transport text,
+  status text not null check (status in ('sent', 'failed', 'skipped')),
+  error text,
+  sent_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_email_log_property_created on public.email_log(property_id, created_at desc);
+create index if not exists idx_email_log_booking on public.email_log(booking_id);
+
+alter table public.email_log enable row level security;
+
+drop policy if exists "Approved users manage email log" on public.email_log;
+create policy "Approved users manage email log"
+  on public.email_log
+  for all
+  using (property_is_owned(property_id))
+  with check (property_is_owned(property_id));
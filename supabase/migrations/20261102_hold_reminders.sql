@@ -0,0 +1,82 @@
+-- Remind whoever placed a tentative hold before it is auto-released. Each property picks
+-- how many hours ahead to remind (24h and 2h by default) and whether to email as well.
+alter table public.properties
+  add column if not exists hold_reminder_hours int[] not null default '{24,2}',
+  add column if not exists hold_reminder_email boolean not null default false;
+
+-- In-app notifications for staff. One row per reminder; the unique key stops the same
+-- lead time firing twice for one expiry, while extending a hold (new expiry) re-arms it.
+create table if not exists public.staff_notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.user_profiles(id) on delete cascade,
+  property_id uuid not null references public.properties(id) on delete cascade,
+  booking_id uuid references public.bookings(id) on delete cascade,
+  kind text not null check (kind in ('hold_expiring')),
+  lead_hours int,
+  expires_at timestamptz,
+  title text not null,
+  body text,
+  read_at timestamptz,
+  emailed_at timestamptz, -- set once an email was attempted; failures are in email_log
+  created_at timestamptz not null default now(),
+  unique (booking_id, kind, lead_hours, expires_at)
+);
+
+create index if not exists idx_staff_notifications_user_created on public.staff_notifications(user_id, created_at desc);
+
+alter table public.staff_notifications enable row level security;
+
+drop policy if exists "Users read own notifications" on public.staff_notifications;
+create policy "Users read own notifications"
+  on public.staff_notifications
+  for select
+  using (user_id = auth.uid());
+
+drop policy if exists "Users update own notifications" on public.staff_notifications;
+create policy "Users update own notifications"
+  on public.staff_notifications
+  for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Queue a reminder for every hold whose reminder time has come. Only the nearest lead time
+-- already reached counts, so a hold placed 1h before expiry gets one reminder, not two.
+create or replace function public.queue_hold_reminders()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  insert into public.staff_notifications (user_id, property_id, booking_id, kind, lead_hours, expires_at, title, body)
+  select
+    b.created_by,
+    b.property_id,
+    b.id,
+    'hold_expiring',
+    lead.hours,
+    b.auto_release_at,
+    'Hold for ' || b.guest_name || ' is about to expire',
+    'Room ' || coalesce(r.number, 'unassigned') || ', '
+      || to_char(b.check_in, 'Mon DD') || ' - ' || to_char(b.check_out, 'Mon DD')
+      || '. Confirm it or extend the hold before it is released.'
+  from public.bookings b
+  join public.properties p on p.id = b.property_id
+  left join public.rooms r on r.id = b.room_id
+  cross join lateral (
+    select min(h) as hours
+    from unnest(p.hold_reminder_hours) as h
+    where h > 0 and b.auto_release_at - make_interval(hours => h) <= now()
+  ) lead
+  where b.status = 'tentative'
+    and b.created_by is not null
+    and b.auto_release_at > now()
+    and lead.hours is not null
+  on conflict (booking_id, kind, lead_hours, expires_at) do nothing;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
@@ -0,0 +1,206 @@
+-- Per-property access. Until now property_is_owned() was true for any existing property,
+-- so every signed-in user could read and change everything. Access now comes from a
+-- membership row with one role per property:
+--   owner        everything, including members and deleting the property
+--   manager      property settings, categories, rooms and bookings
+--   front_desk   bookings and room status
+--   housekeeping room status
+--   read_only    read only
+create table if not exists public.property_members (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  user_id uuid not null references public.user_profiles(id) on delete cascade,
+  role text not null check (role in ('owner', 'manager', 'front_desk', 'housekeeping', 'read_only')),
+  created_at timestamptz not null default now(),
+  unique (property_id, user_id)
+);
+
+create index if not exists idx_property_members_user on public.property_members(user_id);
+
+-- Existing owners keep their properties. Anyone who already took bookings somewhere keeps
+-- front desk access there; everyone else has to be added by an owner.
+insert into public.property_members (property_id, user_id, role)
+select p.id, p.owner_id, 'owner'
+from public.properties p
+join public.user_profiles up on up.id = p.owner_id
+on conflict (property_id, user_id) do nothing;
+
+insert into public.property_members (property_id, user_id, role)
+select distinct b.property_id, b.created_by, 'front_desk'
+from public.bookings b
+join public.user_profiles up on up.id = b.created_by
+on conflict (property_id, user_id) do nothing;
+
+-- Caller's role at a property, or null. Security definer so policies on property_members
+-- itself can use it without recursing into their own RLS.
+create or replace function public.property_role(target_property uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select pm.role
+  from public.property_members pm
+  where pm.property_id = target_property
+    and pm.user_id = auth.uid();
+$$;
+
+create or replace function public.has_property_role(target_property uuid, roles text[])
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(public.property_role(target_property) = any (roles), false);
+$$;
+
+-- Kept under its old name because every property-scoped policy calls it; it now means
+-- "the caller belongs to this property" in any role.
+create or replace function public.property_is_owned(target_property uuid)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select public.property_role(target_property) is not null;
+$$;
+
+-- Whoever creates a property owns it
+create or replace function public.add_property_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.property_members (property_id, user_id, role)
+  values (new.id, new.owner_id, 'owner')
+  on conflict (property_id, user_id) do update set role = 'owner';
+  return new;
+end;
+$$;
+
+drop trigger if exists properties_add_owner on public.properties;
+create trigger properties_add_owner
+  after insert on public.properties
+  for each row
+  execute function public.add_property_owner();
+
+-- A property always keeps at least one owner. Deleting the property itself cascades past this.
+create or replace function public.keep_property_owner()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if old.role = 'owner'
+    and (tg_op = 'DELETE' or new.role <> 'owner')
+    and exists (select 1 from public.properties p where p.id = old.property_id)
+    and not exists (
+      select 1 from public.property_members pm
+      where pm.property_id = old.property_id
+        and pm.role = 'owner'
+        and pm.id <> old.id
+    )
+  then
+    raise exception 'A property needs at least one owner.';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists property_members_keep_owner on public.property_members;
+create trigger property_members_keep_owner
+  before update or delete on public.property_members
+  for each row
+  execute function public.keep_property_owner();
+
+alter table public.property_members enable row level security;
+
+drop policy if exists "Members read property members" on public.property_members;
+create policy "Members read property members"
+  on public.property_members for select
+  using (property_is_owned(property_id));
+
+drop policy if exists "Owners manage property members" on public.property_members;
+create policy "Owners manage property members"
+  on public.property_members for all
+  using (has_property_role(property_id, array['owner']))
+  with check (has_property_role(property_id, array['owner']));
+
+-- Properties
+drop policy if exists "Approved users can read properties" on public.properties;
+drop policy if exists "Approved users can insert properties" on public.properties;
+drop policy if exists "Approved users can update properties" on public.properties;
+drop policy if exists "Approved users can delete properties" on public.properties;
+
+create policy "Members read properties"
+  on public.properties for select
+  using (property_is_owned(id));
+
+create policy "Users create their own properties"
+  on public.properties for insert
+  with check (auth.uid() is not null and owner_id = auth.uid());
+
+create policy "Managers update properties"
+  on public.properties for update
+  using (has_property_role(id, array['owner', 'manager']))
+  with check (has_property_role(id, array['owner', 'manager']));
+
+create policy "Owners delete properties"
+  on public.properties for delete
+  using (has_property_role(id, array['owner']));
+
+-- Room categories
+drop policy if exists "Approved users manage categories" on public.room_categories;
+
+create policy "Members read categories"
+  on public.room_categories for select
+  using (property_is_owned(property_id));
+
+create policy "Managers manage categories"
+  on public.room_categories for all
+  using (has_property_role(property_id, array['owner', 'manager']))
+  with check (has_property_role(property_id, array['owner', 'manager']));
+
+-- Rooms. Front desk and housekeeping change room status (check-in/out, cleaning).
+drop policy if exists "Approved users manage rooms" on public.rooms;
+
+create policy "Members read rooms"
+  on public.rooms for select
+  using (property_is_owned(property_id));
+
+create policy "Managers manage rooms"
+  on public.rooms for all
+  using (has_property_role(property_id, array['owner', 'manager']))
+  with check (has_property_role(property_id, array['owner', 'manager']));
+
+create policy "Staff update room status"
+  on public.rooms for update
+  using (has_property_role(property_id, array['front_desk', 'housekeeping']))
+  with check (has_property_role(property_id, array['front_desk', 'housekeeping']));
+
+-- Bookings
+drop policy if exists "Approved users manage bookings" on public.bookings;
+
+create policy "Members read bookings"
+  on public.bookings for select
+  using (property_is_owned(property_id));
+
+create policy "Front desk manages bookings"
+  on public.bookings for all
+  using (has_property_role(property_id, array['owner', 'manager', 'front_desk']))
+  with check (has_property_role(property_id, array['owner', 'manager', 'front_desk']));
+
+-- Booking logs
+drop policy if exists "Approved users can read booking logs" on public.booking_logs;
+drop policy if exists "Approved users can insert booking logs" on public.booking_logs;
+
+create policy "Members read booking logs"
+  on public.booking_logs for select
+  using (property_is_owned(property_id));
+
+create policy "Front desk writes booking logs"
+  on public.booking_logs for insert
+  with check (has_property_role(property_id, array['owner', 'manager', 'front_desk']));
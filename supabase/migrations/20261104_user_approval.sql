@@ -0,0 +1,249 @@
+-- Account approval and admin user management. is_user_approved() had been stubbed to
+-- true; approval is enforced again unless the deployment turns it off in app_settings.
+-- Account status changes go through admin_user_action(), which records each one.
+
+-- One row per deployment
+create table if not exists public.app_settings (
+  id boolean primary key default true check (id),
+  require_approval boolean not null default true,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references public.user_profiles(id) on delete set null
+);
+
+insert into public.app_settings (id) values (true) on conflict (id) do nothing;
+
+alter table public.app_settings enable row level security;
+
+drop policy if exists "Signed-in users read app settings" on public.app_settings;
+create policy "Signed-in users read app settings"
+  on public.app_settings for select
+  using (auth.uid() is not null);
+
+alter table public.user_profiles
+  drop constraint if exists user_profiles_status_check;
+
+alter table public.user_profiles
+  add constraint user_profiles_status_check
+  check (status in ('pending', 'approved', 'rejected', 'suspended'));
+
+create table if not exists public.admin_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid references public.user_profiles(id) on delete set null,
+  action text not null check (action in (
+    'approve', 'reject', 'suspend', 'reactivate', 'promote', 'demote', 'delete', 'require_approval'
+  )),
+  target_user_id uuid, -- no foreign key so entries outlive deleted accounts
+  target_email text,
+  details jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_admin_audit_log_created on public.admin_audit_log(created_at desc);
+
+alter table public.admin_audit_log enable row level security;
+
+drop policy if exists "Admins read audit log" on public.admin_audit_log;
+create policy "Admins read audit log"
+  on public.admin_audit_log for select
+  using (public.is_user_admin(auth.uid()));
+
+create or replace function public.is_user_approved(uid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  -- Rejected and suspended accounts are always locked out; pending ones only while
+  -- the deployment requires approval.
+  select exists (
+    select 1
+    from public.user_profiles up
+    where up.id = uid
+      and (
+        up.status = 'approved'
+        or (up.status = 'pending' and not coalesce((select s.require_approval from public.app_settings s), true))
+      )
+  );
+$$;
+
+-- Only approved, active users count as admins
+create or replace function public.is_user_admin(uid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.user_profiles up
+    where up.id = uid
+      and up.role = 'admin'
+      and up.status = 'approved'
+  );
+$$;
+
+-- Property access requires an approved account as well as a membership
+create or replace function public.property_role(target_property uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select pm.role
+  from public.property_members pm
+  where pm.property_id = target_property
+    and pm.user_id = auth.uid()
+    and public.is_user_approved(auth.uid());
+$$;
+
+drop policy if exists "Users create their own properties" on public.properties;
+create policy "Users create their own properties"
+  on public.properties for insert
+  with check (public.is_user_approved(auth.uid()) and owner_id = auth.uid());
+
+-- New profiles never choose their own role or status: the first account becomes the
+-- approved admin, everyone after that waits for approval when it is required.
+create or replace function public.set_initial_admin()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.user_profiles where role = 'admin') then
+    new.role := 'admin';
+    new.status := 'approved';
+  else
+    new.role := 'user';
+    new.status := case
+      when coalesce((select require_approval from public.app_settings), true) then 'pending'
+      else 'approved'
+    end;
+  end if;
+  return new;
+end;
+$$;
+
+-- Role and status only change through admin_user_action() (which sets app.admin_action),
+-- the service role, or the bootstrap self-approval while there is no approved admin.
+create or replace function public.guard_user_profile_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.role, new.status) is distinct from (old.role, old.status)
+    and auth.uid() is not null
+    and coalesce(current_setting('app.admin_action', true), '') <> 'on'
+    and exists (select 1 from public.user_profiles where role = 'admin' and status = 'approved')
+  then
+    raise exception 'Only admins can change roles or account status.';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists user_profiles_guard_changes on public.user_profiles;
+create trigger user_profiles_guard_changes
+  before update on public.user_profiles
+  for each row
+  execute function public.guard_user_profile_changes();
+
+create or replace function public.admin_user_action(p_user_id uuid, p_action text)
+returns public.user_profiles
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user public.user_profiles;
+  v_role text;
+  v_status text;
+begin
+  if not public.is_user_admin(auth.uid()) then
+    raise exception 'Only admins can manage users.';
+  end if;
+
+  select * into v_user from public.user_profiles where id = p_user_id for update;
+  if not found then
+    raise exception 'User not found.';
+  end if;
+
+  if p_user_id = auth.uid() and p_action in ('reject', 'suspend', 'demote') then
+    raise exception 'You cannot % your own account.', p_action;
+  end if;
+
+  v_role := v_user.role;
+  v_status := v_user.status;
+  case p_action
+    when 'approve' then
+      if v_user.status not in ('pending', 'rejected') then
+        raise exception 'Only pending or rejected accounts can be approved.';
+      end if;
+      v_status := 'approved';
+    when 'reject' then
+      if v_user.status <> 'pending' then
+        raise exception 'Only pending accounts can be rejected.';
+      end if;
+      v_status := 'rejected';
+    when 'suspend' then
+      if v_user.status <> 'approved' then
+        raise exception 'Only approved accounts can be suspended.';
+      end if;
+      v_status := 'suspended';
+    when 'reactivate' then
+      if v_user.status <> 'suspended' then
+        raise exception 'Only suspended accounts can be reactivated.';
+      end if;
+      v_status := 'approved';
+    when 'promote' then
+      v_role := 'admin';
+    when 'demote' then
+      v_role := 'user';
+    else
+      raise exception 'Unknown action %.', p_action;
+  end case;
+
+  perform set_config('app.admin_action', 'on', true);
+  update public.user_profiles
+  set role = v_role, status = v_status
+  where id = p_user_id
+  returning * into v_user;
+  perform set_config('app.admin_action', '', true);
+
+  insert into public.admin_audit_log (actor_id, action, target_user_id, target_email, details)
+  values (
+    auth.uid(),
+    p_action,
+    p_user_id,
+    v_user.email,
+    jsonb_build_object('role', v_role, 'status', v_status)
+  );
+
+  return v_user;
+end;
+$$;
+
+create or replace function public.admin_set_require_approval(p_required boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_user_admin(auth.uid()) then
+    raise exception 'Only admins can change this setting.';
+  end if;
+
+  update public.app_settings
+  set require_approval = p_required, updated_at = now(), updated_by = auth.uid()
+  where id;
+
+  insert into public.admin_audit_log (actor_id, action, details)
+  values (auth.uid(), 'require_approval', jsonb_build_object('require_approval', p_required));
+end;
+$$;
@@ -0,0 +1,249 @@
+-- Staff invitations. Admins (with or without a property) and property owners invite by
+-- email; the link carries a token that expires. Accepting approves the account and adds
+-- the property membership with the invited role.
+create table if not exists public.staff_invitations (
+  id uuid primary key default gen_random_uuid(),
+  email text not null,
+  token text not null unique default replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  property_id uuid references public.properties(id) on delete cascade,
+  role text check (role in ('owner', 'manager', 'front_desk', 'housekeeping', 'read_only')),
+  invited_by uuid references public.user_profiles(id) on delete set null,
+  expires_at timestamptz not null default now() + interval '7 days',
+  accepted_at timestamptz,
+  accepted_by uuid references public.user_profiles(id) on delete set null,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now(),
+  check ((property_id is null) = (role is null))
+);
+
+create index if not exists idx_staff_invitations_property on public.staff_invitations(property_id, created_at desc);
+create index if not exists idx_staff_invitations_email on public.staff_invitations(lower(email));
+
+alter table public.staff_invitations enable row level security;
+
+drop policy if exists "Inviters read invitations" on public.staff_invitations;
+create policy "Inviters read invitations"
+  on public.staff_invitations for select
+  using (
+    public.is_user_admin(auth.uid())
+    or invited_by = auth.uid()
+    or (property_id is not null and has_property_role(property_id, array['owner']))
+  );
+
+drop policy if exists "Admins and owners send invitations" on public.staff_invitations;
+create policy "Admins and owners send invitations"
+  on public.staff_invitations for insert
+  with check (
+    invited_by = auth.uid()
+    and (
+      public.is_user_admin(auth.uid())
+      or (property_id is not null and has_property_role(property_id, array['owner']))
+    )
+  );
+
+drop policy if exists "Admins and owners revoke invitations" on public.staff_invitations;
+create policy "Admins and owners revoke invitations"
+  on public.staff_invitations for update
+  using (
+    public.is_user_admin(auth.uid())
+    or (property_id is not null and has_property_role(property_id, array['owner']))
+  )
+  with check (
+    public.is_user_admin(auth.uid())
+    or (property_id is not null and has_property_role(property_id, array['owner']))
+  );
+
+alter table public.admin_audit_log
+  drop constraint if exists admin_audit_log_action_check;
+
+alter table public.admin_audit_log
+  add constraint admin_audit_log_action_check
+  check (action in (
+    'approve', 'reject', 'suspend', 'reactivate', 'promote', 'demote', 'delete', 'require_approval',
+    'invite', 'revoke_invitation', 'accept_invitation'
+  ));
+
+-- Sending and revoking show up in the admin audit trail alongside account changes
+create or replace function public.log_staff_invitation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.admin_audit_log (actor_id, action, target_email, details)
+    values (
+      auth.uid(),
+      'invite',
+      new.email,
+      jsonb_build_object('invitation_id', new.id, 'property_id', new.property_id, 'role', new.role, 'expires_at', new.expires_at)
+    );
+  elsif new.revoked_at is not null and old.revoked_at is null then
+    insert into public.admin_audit_log (actor_id, action, target_email, details)
+    values (
+      auth.uid(),
+      'revoke_invitation',
+      new.email,
+      jsonb_build_object('invitation_id', new.id, 'property_id', new.property_id, 'role', new.role)
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists staff_invitations_log on public.staff_invitations;
+create trigger staff_invitations_log
+  after insert or update on public.staff_invitations
+  for each row
+  execute function public.log_staff_invitation();
+
+-- What the sign-up form shows for an invitation link. Callable before signing in, so it
+-- only reveals the invited email, property name and role.
+create or replace function public.invitation_details(p_token text)
+returns table (email text, property_name text, role text, expires_at timestamptz, status text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    i.email,
+    p.name,
+    i.role,
+    i.expires_at,
+    case
+      when i.revoked_at is not null then 'revoked'
+      when i.accepted_at is not null then 'accepted'
+      when i.expires_at < now() then 'expired'
+      else 'valid'
+    end
+  from public.staff_invitations i
+  left join public.properties p on p.id = i.property_id
+  where i.token = p_token;
+$$;
+
+grant execute on function public.invitation_details(text) to anon, authenticated;
+
+-- Shared by the sign-up trigger and accept_invitation(). Approves pending or rejected
+-- accounts (a suspended one stays suspended) and never demotes an existing owner.
+create or replace function public.apply_invitation(p_token text, p_user_id uuid, p_email text)
+returns public.staff_invitations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.staff_invitations;
+begin
+  select * into v_invite from public.staff_invitations where token = p_token for update;
+  if not found or v_invite.revoked_at is not null then
+    raise exception 'This invitation is not valid.';
+  end if;
+  if v_invite.accepted_at is not null then
+    raise exception 'This invitation has already been used.';
+  end if;
+  if v_invite.expires_at < now() then
+    raise exception 'This invitation has expired. Ask for a new one.';
+  end if;
+  if lower(v_invite.email) <> lower(coalesce(p_email, '')) then
+    raise exception 'This invitation was sent to a different email address.';
+  end if;
+
+  perform set_config('app.admin_action', 'on', true);
+  update public.user_profiles
+  set status = 'approved'
+  where id = p_user_id
+    and status in ('pending', 'rejected');
+  perform set_config('app.admin_action', '', true);
+
+  if v_invite.property_id is not null then
+    insert into public.property_members (property_id, user_id, role)
+    values (v_invite.property_id, p_user_id, v_invite.role)
+    on conflict (property_id, user_id) do update
+      set role = excluded.role
+      where public.property_members.role <> 'owner';
+  end if;
+
+  update public.staff_invitations
+  set accepted_at = now(), accepted_by = p_user_id
+  where id = v_invite.id
+  returning * into v_invite;
+
+  insert into public.admin_audit_log (actor_id, action, target_user_id, target_email, details)
+  values (
+    p_user_id,
+    'accept_invitation',
+    p_user_id,
+    v_invite.email,
+    jsonb_build_object('invitation_id', v_invite.id, 'property_id', v_invite.property_id, 'role', v_invite.role)
+  );
+
+  return v_invite;
+end;
+$$;
+
+revoke execute on function public.apply_invitation(text, uuid, text) from public, anon, authenticated;
+
+-- For people who already have an account: accept as the signed-in user. Repeat calls by
+-- the same user return the accepted invitation.
+create or replace function public.accept_invitation(p_token text)
+returns public.staff_invitations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text;
+  v_invite public.staff_invitations;
+begin
+  select email into v_email from public.user_profiles where id = auth.uid();
+  if v_email is null then
+    raise exception 'Sign in to accept this invitation.';
+  end if;
+
+  -- Already accepted by this user (at sign-up, say): nothing left to do
+  select * into v_invite from public.staff_invitations where token = p_token and accepted_by = auth.uid();
+  if found then
+    return v_invite;
+  end if;
+
+  return public.apply_invitation(p_token, auth.uid(), v_email);
+end;
+$$;
+
+-- New sign-ups that came through an invitation link pass its token in their metadata and
+-- are accepted straight away. An unusable token just leaves the account pending.
+create or replace function public.handle_new_auth_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_token text := nullif(trim(new.raw_user_meta_data->>'invitation_token'), '');
+begin
+  insert into public.user_profiles (id, email, display_name)
+  values (
+    new.id,
+    new.email,
+    coalesce(
+      nullif(trim((new.raw_user_meta_data->>'display_name')), ''),
+      nullif(trim((new.raw_user_meta_data->>'full_name')), ''),
+      split_part(new.email, '@', 1),
+      'User'
+    )
+  )
+  on conflict (id) do nothing;
+
+  if v_token is not null then
+    begin
+      perform public.apply_invitation(v_token, new.id, new.email);
+    exception when others then
+      raise warning 'Invitation not applied for %: %', new.email, sqlerrm;
+    end;
+  end if;
+
+  return new;
+end;
+$$;
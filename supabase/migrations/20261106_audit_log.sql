@@ -0,0 +1,108 @@
+-- Row-level audit trail. Triggers on properties, room categories, rooms and bookings
+-- record every insert, update and delete with the full row before and after, whoever
+-- (or whatever) made the change. booking_logs stays as the short activity feed.
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  entity text not null check (entity in ('properties', 'room_categories', 'rooms', 'bookings')),
+  entity_id uuid not null,
+  -- No foreign key: entries outlive the property they describe
+  property_id uuid,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  old_data jsonb,
+  new_data jsonb,
+  changed_fields text[] not null default '{}',
+  actor_id uuid references public.user_profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_audit_log_property on public.audit_log(property_id, created_at desc);
+create index if not exists idx_audit_log_entity on public.audit_log(entity, entity_id, created_at desc);
+create index if not exists idx_audit_log_actor on public.audit_log(actor_id, created_at desc);
+
+alter table public.audit_log enable row level security;
+
+-- Members read the history of their properties; admins read everything, including
+-- entries for properties that have since been deleted. Rows are only written by the trigger.
+drop policy if exists "Members read audit log" on public.audit_log;
+create policy "Members read audit log"
+  on public.audit_log for select
+  using (
+    public.is_user_admin(auth.uid())
+    or (property_id is not null and property_is_owned(property_id))
+  );
+
+-- Trigger arguments name columns whose values are masked in the log (a change to them
+-- is still recorded). Updates that change nothing are skipped.
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end;
+  v_new jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end;
+  v_row jsonb := coalesce(v_new, v_old);
+  v_changed text[] := '{}';
+  v_secret text;
+begin
+  if tg_op = 'UPDATE' then
+    select coalesce(array_agg(n.key order by n.key), '{}')
+    into v_changed
+    from jsonb_each(v_new) n
+    where n.value is distinct from v_old->n.key;
+
+    if cardinality(v_changed) = 0 then
+      return new;
+    end if;
+  end if;
+
+  for i in 0 .. tg_nargs - 1 loop
+    v_secret := tg_argv[i];
+    if v_old->>v_secret is not null then
+      v_old := jsonb_set(v_old, array[v_secret], '"[hidden]"');
+    end if;
+    if v_new->>v_secret is not null then
+      v_new := jsonb_set(v_new, array[v_secret], '"[hidden]"');
+    end if;
+  end loop;
+
+  insert into public.audit_log (entity, entity_id, property_id, action, old_data, new_data, changed_fields, actor_id)
+  values (
+    tg_table_name,
+    (v_row->>'id')::uuid,
+    case when tg_table_name = 'properties' then (v_row->>'id')::uuid else (v_row->>'property_id')::uuid end,
+    lower(tg_op),
+    v_old,
+    v_new,
+    v_changed,
+    auth.uid()
+  );
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists properties_audit on public.properties;
+create trigger properties_audit
+  after insert or update or delete on public.properties
+  for each row
+  execute function public.audit_row_change('calendar_token');
+
+drop trigger if exists room_categories_audit on public.room_categories;
+create trigger room_categories_audit
+  after insert or update or delete on public.room_categories
+  for each row
+  execute function public.audit_row_change();
+
+drop trigger if exists rooms_audit on public.rooms;
+create trigger rooms_audit
+  after insert or update or delete on public.rooms
+  for each row
+  execute function public.audit_row_change();
+
+drop trigger if exists bookings_audit on public.bookings;
+create trigger bookings_audit
+  after insert or update or delete on public.bookings
+  for each row
+  execute function public.audit_row_change();
@@ -0,0 +1,178 @@
+-- Role-aware policies for the tables that still allowed any member to write. Since
+-- property_is_owned() means "is a member", every member can keep reading; writes follow
+-- the capabilities in src/lib/propertyAccess.ts:
+--   manage_bookings    owner, manager, front_desk
+--   manage_rooms       owner, manager
+--   edit_property      owner, manager
+--   update_room_status owner, manager, front_desk, housekeeping
+
+-- Booking groups (manage_bookings)
+drop policy if exists "Approved users manage booking groups" on public.booking_groups;
+
+create policy "Members read booking groups"
+  on public.booking_groups for select
+  using (property_is_owned(property_id));
+
+create policy "Front desk manages booking groups"
+  on public.booking_groups for all
+  using (has_property_role(property_id, array['owner', 'manager', 'front_desk']))
+  with check (has_property_role(property_id, array['owner', 'manager', 'front_desk']));
+
+-- Rate seasons (manage_rooms)
+drop policy if exists "Approved users manage rate seasons" on public.rate_seasons;
+
+create policy "Members read rate seasons"
+  on public.rate_seasons for select
+  using (property_is_owned(property_id));
+
+create policy "Managers manage rate seasons"
+  on public.rate_seasons for all
+  using (has_property_role(property_id, array['owner', 'manager']))
+  with check (has_property_role(property_id, array['owner', 'manager']));
+
+-- Folio items, payments and invoices (manage_bookings)
+drop policy if exists "Approved users manage folio items" on public.folio_items;
+
+create policy "Members read folio items"
+  on public.folio_items for select
+  using (property_is_owned(property_id));
+
+create policy "Front desk manages folio items"
+  on public.folio_items for all
+  using (has_property_role(property_id, array['owner', 'manager', 'front_desk']))
+  with check (has_property_role(property_id, array['owner', 'manager', 'front_desk']));
+
+drop policy if exists "Approved users manage payments" on public.payments;
+
+create policy "Members read payments"
+  on public.payments for select
+  using (property_is_owned(property_id));
+
+create policy "Front desk manages payments"
+  on public.payments for all
+  using (has_property_role(property_id, array['owner', 'manager', 'front_desk']))
+  with check (has_property_role(property_id, array['owner', 'manager', 'front_desk']));
+
+drop policy if exists "Approved users manage invoices" on public.invoices;
+
+create policy "Members read invoices"
+  on public.invoices for select
+  using (property_is_owned(property_id));
+
+create policy "Front desk issues invoices"
+  on public.invoices for all
+  using (has_property_role(property_id, array['owner', 'manager', 'front_desk']))
+  with check (has_property_role(property_id, array['owner', 'manager', 'front_desk']));
+
+-- Channel feeds: managers link and unlink them (manage_rooms); the front desk can run a
+-- sync, which records its outcome on the feed and raises conflicts (manage_bookings).
+drop policy if exists "Approved users manage room ical feeds" on public.room_ical_feeds;
+
+create policy "Members read room ical feeds"
+  on public.room_ical_feeds for select
+  using (property_is_owned(property_id));
+
+create policy "Managers add room ical feeds"
+  on public.room_ical_feeds for insert
+  with check (has_property_role(property_id, array['owner', 'manager']));
+
+create policy "Front desk records feed syncs"
+  on public.room_ical_feeds for update
+  using (has_property_role(property_id, array['owner', 'manager', 'front_desk']))
+  with check (has_property_role(property_id, array['owner', 'manager', 'front_desk']));
+
+create policy "Managers remove room ical feeds"
+  on public.room_ical_feeds for delete
+  using (has_property_role(property_id, array['owner', 'manager']));
+
+drop policy if exists "Approved users manage ical conflicts" on public.ical_conflicts;
+
+create policy "Members read ical conflicts"
+  on public.ical_conflicts for select
+  using (property_is_owned(property_id));
+
+create policy "Front desk manages ical conflicts"
+  on public.ical_conflicts for all
+  using (has_property_role(property_id, array['owner', 'manager', 'front_desk']))
+  with check (has_property_role(property_id, array['owner', 'manager', 'front_desk']));
+
+-- Housekeeping tasks: anyone who may change room status works the board (checking a guest
+-- out queues a task as the front desk); only managers delete tasks.
+drop policy if exists "Approved users manage housekeeping tasks" on public.housekeeping_tasks;
+
+create policy "Members read housekeeping tasks"
+  on public.housekeeping_tasks for select
+  using (property_is_owned(property_id));
+
+create policy "Staff add housekeeping tasks"
+  on public.housekeeping_tasks for insert
+  with check (has_property_role(property_id, array['owner', 'manager', 'front_desk', 'housekeeping']));
+
+create policy "Staff work housekeeping tasks"
+  on public.housekeeping_tasks for update
+  using (has_property_role(property_id, array['owner', 'manager', 'front_desk', 'housekeeping']))
+  with check (has_property_role(property_id, array['owner', 'manager', 'front_desk', 'housekeeping']));
+
+create policy "Managers delete housekeeping tasks"
+  on public.housekeeping_tasks for delete
+  using (has_property_role(property_id, array['owner', 'manager']));
+
+-- Maintenance tickets (manage_rooms)
+drop policy if exists "Approved users manage maintenance tickets" on public.maintenance_tickets;
+
+create policy "Members read maintenance tickets"
+  on public.maintenance_tickets for select
+  using (property_is_owned(property_id));
+
+create policy "Managers manage maintenance tickets"
+  on public.maintenance_tickets for all
+  using (has_property_role(property_id, array['owner', 'manager']))
+  with check (has_property_role(property_id, array['owner', 'manager']));
+
+-- Guest profiles and booking occupants (manage_bookings). merge_guests runs as the
+-- caller, so it is covered too.
+drop policy if exists "Approved users manage guests" on public.guests;
+
+create policy "Members read guests"
+  on public.guests for select
+  using (property_is_owned(property_id));
+
+create policy "Front desk manages guests"
+  on public.guests for all
+  using (has_property_role(property_id, array['owner', 'manager', 'front_desk']))
+  with check (has_property_role(property_id, array['owner', 'manager', 'front_desk']));
+
+drop policy if exists "Approved users manage booking guests" on public.booking_guests;
+
+create policy "Members read booking guests"
+  on public.booking_guests for select
+  using (property_is_owned(property_id));
+
+create policy "Front desk manages booking guests"
+  on public.booking_guests for all
+  using (has_property_role(property_id, array['owner', 'manager', 'front_desk']))
+  with check (has_property_role(property_id, array['owner', 'manager', 'front_desk']));
+
+-- Email templates (edit_property)
+drop policy if exists "Approved users manage email templates" on public.email_templates;
+
+create policy "Members read email templates"
+  on public.email_templates for select
+  using (property_is_owned(property_id));
+
+create policy "Managers manage email templates"
+  on public.email_templates for all
+  using (has_property_role(property_id, array['owner', 'manager']))
+  with check (has_property_role(property_id, array['owner', 'manager']));
+
+-- Email log: written when the front desk's booking changes send mail; nobody edits or
+-- deletes entries.
+drop policy if exists "Approved users manage email log" on public.email_log;
+
+create policy "Members read email log"
+  on public.email_log for select
+  using (property_is_owned(property_id));
+
+create policy "Front desk writes email log"
+  on public.email_log for insert
+  with check (has_property_role(property_id, array['owner', 'manager', 'front_desk']));
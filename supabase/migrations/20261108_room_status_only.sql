@@ -0,0 +1,25 @@
+-- "Staff update room status" lets the front desk and housekeeping update rooms, but only
+-- the status column is theirs to change; number, category, floor and notes stay with
+-- owners and managers. Scheduled jobs (no signed-in user) are not restricted.
+create or replace function public.guard_room_staff_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null
+    and not has_property_role(old.property_id, array['owner', 'manager'])
+    and (to_jsonb(new) - 'status') is distinct from (to_jsonb(old) - 'status')
+  then
+    raise exception 'Only owners and managers can change room details.'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists rooms_guard_staff_update on public.rooms;
+create trigger rooms_guard_staff_update
+  before update on public.rooms
+  for each row
+  execute function public.guard_room_staff_update();
@@ -0,0 +1,61 @@
+-- Room capacity is enforced by the database, so CSV imports, create_bookings and any
+-- other path get the same check as the booking dialog and drag-and-drop. A party spread
+-- over several rooms only has to fit their combined capacity; its occupant list lives on
+-- the first room's booking, so the party is the largest count in the group. Nothing is
+-- checked while any of the rooms is unassigned or its category has no capacity, and
+-- bookings whose room and party did not change stay editable after a category shrinks.
+create or replace function public.enforce_booking_capacity()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+  v_party int;
+  v_capacity int;
+  v_unknown boolean;
+begin
+  if tg_op = 'UPDATE'
+    and new.room_id is not distinct from old.room_id
+    and new.group_id is not distinct from old.group_id
+    and coalesce(new.adults, 1) + coalesce(new.children, 0) = coalesce(old.adults, 1) + coalesce(old.children, 0)
+  then
+    return null;
+  end if;
+
+  -- Runs at commit, after create_bookings and set_booking_guests have finished, so read
+  -- the booking as it ends up rather than this event's row
+  select * into v_booking from public.bookings where id = new.id;
+  if not found or v_booking.status = 'cancelled' then
+    return null;
+  end if;
+
+  select
+    max(coalesce(b.adults, 1) + coalesce(b.children, 0)),
+    sum(c.capacity),
+    bool_or(c.capacity is null)
+  into v_party, v_capacity, v_unknown
+  from public.bookings b
+  left join public.rooms r on r.id = b.room_id
+  left join public.room_categories c on c.id = r.category_id
+  where b.status <> 'cancelled'
+    and case
+      when v_booking.group_id is null then b.id = v_booking.id
+      else b.group_id = v_booking.group_id
+    end;
+
+  if not v_unknown and v_party > v_capacity then
+    raise exception '% guests exceed the % the selected room% can sleep.',
+      v_party, v_capacity, case when v_booking.group_id is null then '' else 's' end
+      using errcode = 'check_violation';
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists bookings_enforce_capacity on public.bookings;
+create constraint trigger bookings_enforce_capacity
+  after insert or update of room_id, group_id, adults, children on public.bookings
+  deferrable initially deferred
+  for each row
+  execute function public.enforce_booking_capacity();
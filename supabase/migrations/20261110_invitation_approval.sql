@@ -0,0 +1,62 @@
+-- Invitations from property owners only approve pending accounts. Lifting an admin's
+-- rejection takes an invitation from an admin; a suspended account stays suspended.
+create or replace function public.apply_invitation(p_token text, p_user_id uuid, p_email text)
+returns public.staff_invitations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.staff_invitations;
+begin
+  select * into v_invite from public.staff_invitations where token = p_token for update;
+  if not found or v_invite.revoked_at is not null then
+    raise exception 'This invitation is not valid.';
+  end if;
+  if v_invite.accepted_at is not null then
+    raise exception 'This invitation has already been used.';
+  end if;
+  if v_invite.expires_at < now() then
+    raise exception 'This invitation has expired. Ask for a new one.';
+  end if;
+  if lower(v_invite.email) <> lower(coalesce(p_email, '')) then
+    raise exception 'This invitation was sent to a different email address.';
+  end if;
+
+  perform set_config('app.admin_action', 'on', true);
+  update public.user_profiles
+  set status = 'approved'
+  where id = p_user_id
+    and (
+      status = 'pending'
+      or (status = 'rejected' and public.is_user_admin(v_invite.invited_by))
+    );
+  perform set_config('app.admin_action', '', true);
+
+  if v_invite.property_id is not null then
+    insert into public.property_members (property_id, user_id, role)
+    values (v_invite.property_id, p_user_id, v_invite.role)
+    on conflict (property_id, user_id) do update
+      set role = excluded.role
+      where public.property_members.role <> 'owner';
+  end if;
+
+  update public.staff_invitations
+  set accepted_at = now(), accepted_by = p_user_id
+  where id = v_invite.id
+  returning * into v_invite;
+
+  insert into public.admin_audit_log (actor_id, action, target_user_id, target_email, details)
+  values (
+    p_user_id,
+    'accept_invitation',
+    p_user_id,
+    v_invite.email,
+    jsonb_build_object('invitation_id', v_invite.id, 'property_id', v_invite.property_id, 'role', v_invite.role)
+  );
+
+  return v_invite;
+end;
+$$;
+
+revoke execute on function public.apply_invitation(text, uuid, text) from public, anon, authenticated;
@@ -0,0 +1,52 @@
+-- The ticket trigger only sees today's date when a ticket is written, so a ticket booked
+-- ahead never takes its room out of service and one that runs out never gives it back.
+-- Run daily (/api/maintenance/room-status): rooms with an open ticket covering the day go
+-- out of service, and rooms whose open ticket has ended become available again unless
+-- another open ticket still covers them. Missed runs catch up on the next one.
+create or replace function public.apply_maintenance_schedule(
+  p_property_id uuid default null,
+  p_date date default current_date
+)
+returns int
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_blocked int;
+  v_restored int;
+begin
+  update public.rooms r
+  set status = 'out_of_service'
+  where r.status <> 'out_of_service'
+    and (p_property_id is null or r.property_id = p_property_id)
+    and exists (
+      select 1 from public.maintenance_tickets t
+      where t.room_id = r.id
+        and t.status = 'open'
+        and t.start_date <= p_date
+        and t.end_date > p_date
+    );
+  get diagnostics v_blocked = row_count;
+
+  update public.rooms r
+  set status = 'available'
+  where r.status = 'out_of_service'
+    and (p_property_id is null or r.property_id = p_property_id)
+    and exists (
+      select 1 from public.maintenance_tickets t
+      where t.room_id = r.id
+        and t.status = 'open'
+        and t.end_date <= p_date
+    )
+    and not exists (
+      select 1 from public.maintenance_tickets t
+      where t.room_id = r.id
+        and t.status = 'open'
+        and t.start_date <= p_date
+        and t.end_date > p_date
+    );
+  get diagnostics v_restored = row_count;
+
+  return v_blocked + v_restored;
+end;
+$$;
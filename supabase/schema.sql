@@ -54,9 +54,6 @@ create table if not exists public.bookings (
   guest_name text not null,
   guest_email text,
   guest_passport text,
-  second_guest_name text,
-  second_guest_email text,
-  second_guest_passport text,
   check_in date not null,
   check_out date not null,
   status text not null default 'reserved' check (status in ('tentative', 'reserved', 'checked_in', 'checked_out', 'cancelled')),
@@ -70,12 +67,10 @@ create table if not exists public.bookings (
   constraint check_dates check (check_out > check_in)
 );
 
--- Ensure new guest detail columns exist when reapplying this script
+-- Ensure new guest detail columns exist when reapplying this script. Additional guests
+-- live in booking_guests (20261031_booking_guests.sql), not in second_guest_* columns.
 alter table if exists public.bookings
-  add column if not exists guest_passport text,
-  add column if not exists second_guest_name text,
-  add column if not exists second_guest_email text,
-  add column if not exists second_guest_passport text;
+  add column if not exists guest_passport text;
 
 -- Add created_by column to track who created the booking
 alter table if exists public.bookings
@@ -84,19 +79,26 @@ alter table if exists public.bookings
 -- Add index for performance
 create index if not exists idx_bookings_created_by on public.bookings(created_by);
 
--- Function to release expired tentative bookings
-create or replace function public.release_expired_holds()
-returns void
-language plpgsql
-security definer
-as $$
+-- Function to release expired tentative bookings. 20261020_auto_release_holds.sql replaces
+-- it with one that logs each release, so it is only created when missing.
+do $bootstrap$
 begin
-  update public.bookings
-  set status = 'cancelled'
-  where status = 'tentative'
-    and auto_release_at < now();
+  if to_regprocedure('public.release_expired_holds()') is null then
+    create function public.release_expired_holds()
+    returns void
+    language plpgsql
+    security definer
+    as $$
+    begin
+      update public.bookings
+      set status = 'cancelled'
+      where status = 'tentative'
+        and auto_release_at < now();
+    end;
+    $$;
+  end if;
 end;
-$$;
+$bootstrap$;
 
 -- Indexes for frequent booking queries
 create index if not exists idx_bookings_property_dates
@@ -112,9 +114,6 @@ create index if not exists idx_bookings_room_dates
 create index if not exists idx_bookings_guest_name on public.bookings(guest_name);
 create index if not exists idx_bookings_guest_email on public.bookings(guest_email);
 create index if not exists idx_bookings_guest_passport on public.bookings(guest_passport);
-create index if not exists idx_bookings_second_guest_name on public.bookings(second_guest_name);
-create index if not exists idx_bookings_second_guest_email on public.bookings(second_guest_email);
-create index if not exists idx_bookings_second_guest_passport on public.bookings(second_guest_passport);
 create index if not exists idx_bookings_reference_code on public.bookings(reference_code);
 
 -- RLS policies (shared across approved users)
@@ -133,65 +132,82 @@ drop policy if exists "Owners manage categories" on public.room_categories;
 drop policy if exists "Owners manage rooms" on public.rooms;
 drop policy if exists "Owners manage bookings" on public.bookings;
 drop policy if exists "Users read own profile" on public.user_profiles;
+drop policy if exists "Authenticated users can read display names" on public.user_profiles;
 drop policy if exists "Users insert own profile" on public.user_profiles;
 drop policy if exists "Users update own profile while pending" on public.user_profiles;
 drop policy if exists "Bootstrap self-approve when no admins" on public.user_profiles;
 drop policy if exists "Admins manage profiles" on public.user_profiles;
 
--- Helper functions for role/approval checks
-create or replace function public.is_user_approved(uid uuid)
-returns boolean
-language sql
-stable
-security definer
-set search_path = public
-as $$
-  -- Approval is no longer required; any authenticated user is treated as approved.
-  select true;
-$$;
-
-create or replace function public.is_user_admin(uid uuid)
-returns boolean
-language sql
-stable
-security definer
-set search_path = public
-as $$
-  select exists (
-    select 1
-    from public.user_profiles up
-    where up.id = uid
-      and up.role = 'admin'
-  );
-$$;
-
-create or replace function public.property_is_owned(target_property uuid)
-returns boolean
-language sql
-stable
-as $$
-  select exists (
-    select 1
-    from public.properties p
-    where p.id = target_property
-  );
-$$;
-
--- First user becomes admin + approved automatically
-create or replace function public.set_initial_admin()
-returns trigger
-language plpgsql
-security definer
-set search_path = public
-as $$
+-- Functions and policies that later migrations replace are only created when missing,
+-- so re-running this script after the migrations keeps their versions (approval,
+-- memberships, invitations) instead of reverting to these first drafts.
+
+-- Helper functions for role/approval checks. 20261103_property_members.sql and
+-- 20261104_user_approval.sql replace these with membership and approval checks.
+do $bootstrap$
 begin
-  if not exists (select 1 from public.user_profiles where role = 'admin') then
-    new.role := 'admin';
-    new.status := 'approved';
+  if to_regprocedure('public.is_user_approved(uuid)') is null then
+    create function public.is_user_approved(uid uuid)
+    returns boolean
+    language sql
+    stable
+    security definer
+    set search_path = public
+    as $$
+      select true;
+    $$;
+  end if;
+
+  if to_regprocedure('public.is_user_admin(uuid)') is null then
+    create function public.is_user_admin(uid uuid)
+    returns boolean
+    language sql
+    stable
+    security definer
+    set search_path = public
+    as $$
+      select exists (
+        select 1
+        from public.user_profiles up
+        where up.id = uid
+          and up.role = 'admin'
+      );
+    $$;
+  end if;
+
+  if to_regprocedure('public.property_is_owned(uuid)') is null then
+    create function public.property_is_owned(target_property uuid)
+    returns boolean
+    language sql
+    stable
+    as $$
+      select exists (
+        select 1
+        from public.properties p
+        where p.id = target_property
+      );
+    $$;
+  end if;
+
+  -- First user becomes admin + approved automatically
+  if to_regprocedure('public.set_initial_admin()') is null then
+    create function public.set_initial_admin()
+    returns trigger
+    language plpgsql
+    security definer
+    set search_path = public
+    as $$
+    begin
+      if not exists (select 1 from public.user_profiles where role = 'admin') then
+        new.role := 'admin';
+        new.status := 'approved';
+      end if;
+      return new;
+    end;
+    $$;
   end if;
-  return new;
 end;
-$$;
+$bootstrap$;
 
 drop trigger if exists set_initial_admin on public.user_profiles;
 create trigger set_initial_admin
@@ -199,32 +215,39 @@ before insert on public.user_profiles
 for each row
 execute function public.set_initial_admin();
 
--- Auto-create user profile whenever an auth user is created
+-- Auto-create user profile whenever an auth user is created (20261105_staff_invitations.sql
+-- also applies a pending invitation here)
 drop trigger if exists handle_new_auth_user on auth.users;
 
-create or replace function public.handle_new_auth_user()
-returns trigger
-language plpgsql
-security definer
-set search_path = public
-as $$
+do $bootstrap$
 begin
-  insert into public.user_profiles (id, email, display_name)
-  values (
-    new.id,
-    new.email,
-    coalesce(
-      nullif(trim((new.raw_user_meta_data->>'display_name')), ''),
-      nullif(trim((new.raw_user_meta_data->>'full_name')), ''),
-      split_part(new.email, '@', 1),
-      'User'
-    )
-  )
-  on conflict (id) do nothing;
-
-  return new;
+  if to_regprocedure('public.handle_new_auth_user()') is null then
+    create function public.handle_new_auth_user()
+    returns trigger
+    language plpgsql
+    security definer
+    set search_path = public
+    as $$
+    begin
+      insert into public.user_profiles (id, email, display_name)
+      values (
+        new.id,
+        new.email,
+        coalesce(
+          nullif(trim((new.raw_user_meta_data->>'display_name')), ''),
+          nullif(trim((new.raw_user_meta_data->>'full_name')), ''),
+          split_part(new.email, '@', 1),
+          'User'
+        )
+      )
+      on conflict (id) do nothing;
+
+      return new;
+    end;
+    $$;
+  end if;
 end;
-$$;
+$bootstrap$;
 
 create trigger handle_new_auth_user
   after insert on auth.users
@@ -273,44 +296,63 @@ create policy "Admins manage profiles"
   using (public.is_user_admin(auth.uid()))
   with check (public.is_user_admin(auth.uid()));
 
--- Properties
-create policy "Approved users can read properties"
-  on public.properties for select
-  using (auth.uid() is not null);
-
-create policy "Approved users can insert properties"
-  on public.properties for insert
-  with check (auth.uid() is not null);
-
-create policy "Approved users can update properties"
-  on public.properties for update
-  using (auth.uid() is not null)
-  with check (auth.uid() is not null);
-
-create policy "Approved users can delete properties"
-  on public.properties for delete
-  using (auth.uid() is not null);
-
--- Room categories
-create policy "Approved users manage categories"
-  on public.room_categories
-  for all
-  using (property_is_owned(property_id))
-  with check (property_is_owned(property_id));
-
--- Rooms
-create policy "Approved users manage rooms"
-  on public.rooms
-  for all
-  using (property_is_owned(property_id))
-  with check (property_is_owned(property_id));
+-- Property, category, room and booking policies for a new database. Once
+-- 20261103_property_members.sql has run they are replaced by member and role policies,
+-- which this script must not open up again.
+do $bootstrap$
+begin
+  if to_regclass('public.property_members') is not null then
+    return;
+  end if;
 
--- Bookings
-create policy "Approved users manage bookings"
-  on public.bookings
-  for all
-  using (property_is_owned(property_id))
-  with check (property_is_owned(property_id));
+  drop policy if exists "Approved users can read properties" on public.properties;
+  drop policy if exists "Approved users can insert properties" on public.properties;
+  drop policy if exists "Approved users can update properties" on public.properties;
+  drop policy if exists "Approved users can delete properties" on public.properties;
+  drop policy if exists "Approved users manage categories" on public.room_categories;
+  drop policy if exists "Approved users manage rooms" on public.rooms;
+  drop policy if exists "Approved users manage bookings" on public.bookings;
+
+  -- Properties
+  create policy "Approved users can read properties"
+    on public.properties for select
+    using (auth.uid() is not null);
+
+  create policy "Approved users can insert properties"
+    on public.properties for insert
+    with check (auth.uid() is not null);
+
+  create policy "Approved users can update properties"
+    on public.properties for update
+    using (auth.uid() is not null)
+    with check (auth.uid() is not null);
+
+  create policy "Approved users can delete properties"
+    on public.properties for delete
+    using (auth.uid() is not null);
+
+  -- Room categories
+  create policy "Approved users manage categories"
+    on public.room_categories
+    for all
+    using (property_is_owned(property_id))
+    with check (property_is_owned(property_id));
+
+  -- Rooms
+  create policy "Approved users manage rooms"
+    on public.rooms
+    for all
+    using (property_is_owned(property_id))
+    with check (property_is_owned(property_id));
+
+  -- Bookings
+  create policy "Approved users manage bookings"
+    on public.bookings
+    for all
+    using (property_is_owned(property_id))
+    with check (property_is_owned(property_id));
+end;
+$bootstrap$;
 
 -- Helpful indexes
 create index if not exists idx_user_profiles_status on public.user_profiles(status);